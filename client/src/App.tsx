@@ -5,7 +5,7 @@
  * - QueryClientProvider: Enables React Query for data fetching/caching
  * - TooltipProvider: Enables tooltips throughout the app
  * - Navigation: Top navigation bar
- * - Router: Client-side routing to different pages
+ * - Router: Client-side routing to different pages, behind a sign-in guard
  * - Toaster: Toast notification system
  */
 
@@ -18,22 +18,61 @@ import Navigation from "@/components/Navigation";
 import Dashboard from "@/pages/Dashboard";
 import Prioritization from "@/pages/Prioritization";
 import ImpactTracker from "@/pages/ImpactTracker";
+import ChannelDetail from "@/pages/ChannelDetail";
 import Manage from "@/pages/Manage";
+import FeedbackExplorer from "@/pages/FeedbackExplorer";
+import Alerts from "@/pages/Alerts";
 import Information from "@/pages/Information";
+import Users from "@/pages/Users";
+import Audit from "@/pages/Audit";
+import Webhooks from "@/pages/Webhooks";
+import Login from "@/pages/Login";
+import NotFound from "@/pages/not-found";
+import { canAccess, useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 /**
  * ROUTER CONFIGURATION
  * Maps URL paths to page components using wouter
+ * Route guard: until a user is signed in, every path renders the login page
+ * (the requested page is shown once sign-in succeeds)
+ * Role guard: pages the user's role can't open are not routed (fall through to 404)
+ * Live updates: connected while a user is signed in
  */
 function Router() {
+  const { user, isLoading } = useAuth();
+  const liveStatus = useLiveUpdates(!!user);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-sm text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
   return (
-    <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/prioritization" component={Prioritization} />
-      <Route path="/impact" component={ImpactTracker} />
-      <Route path="/manage" component={Manage} />
-      <Route path="/information" component={Information} />
-    </Switch>
+    <>
+      <Navigation liveStatus={liveStatus} />
+      <Switch>
+        <Route path="/" component={Dashboard} />
+        <Route path="/prioritization" component={Prioritization} />
+        <Route path="/impact" component={ImpactTracker} />
+        <Route path="/channels/:id" component={ChannelDetail} />
+        {canAccess(user, "/feedback") && <Route path="/feedback" component={FeedbackExplorer} />}
+        {canAccess(user, "/alerts") && <Route path="/alerts" component={Alerts} />}
+        {canAccess(user, "/manage") && <Route path="/manage" component={Manage} />}
+        {canAccess(user, "/users") && <Route path="/users" component={Users} />}
+        {canAccess(user, "/audit") && <Route path="/audit" component={Audit} />}
+        {canAccess(user, "/webhooks") && <Route path="/webhooks" component={Webhooks} />}
+        <Route path="/information" component={Information} />
+        <Route component={NotFound} />
+      </Switch>
+    </>
   );
 }
 
@@ -46,7 +85,6 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <div className="min-h-screen bg-background">
-          <Navigation />
           <Router />
         </div>
         <Toaster />
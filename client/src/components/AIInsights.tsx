@@ -1,41 +1,145 @@
 /**
  * AI Insights Component
  * 
- * Displays AI-generated recommendations based on customer feedback analysis
+ * Displays recommendations based on customer feedback analysis
  * Each insight includes:
  * - Title and detailed description
  * - Priority level (high, medium, low)
  * - Expected impact statement
- * - View Details button opens modal with full information
- * 
- * TODO: Replace with OpenAI API integration for real-time, dynamic insights
- * Currently uses pre-generated insights from the database
+ * - Generated insights: the provider that proposed it and the number of feedback entries cited
+ * - View Details button opens modal with the evidence behind the insight
+ *   (see InsightEvidence)
+ *
+ * REVIEW (analysts and admins):
+ * - Accept: agree with the insight without planning work yet
+ * - Dismiss: reject it with a reason; the generator won't propose it again
+ * - Convert: create a prefilled priority item linked to the insight (see InsightConvertDialog)
+ * - Reopen: move an accepted or dismissed insight back to new
+ * The filter buttons switch between open (new and accepted), converted and dismissed insights.
+ *
+ * Insights are generated on a schedule by the server; analysts can also
+ * run the generator right away with the Generate button.
  */
 
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Sparkles, ArrowRight, Target, TrendingUp, Clock } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import type { AIInsight } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import InsightEvidence from "@/components/InsightEvidence";
+import InsightConvertDialog from "@/components/InsightConvertDialog";
+import { Sparkles, ArrowRight, Target, RefreshCw, Check, X, ListPlus, RotateCcw } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import {
+  hasRole,
+  type AIInsight,
+  type AIInsightSummary,
+  type InsightGenerationReport,
+  type InsightStatus,
+  type PriorityItem,
+  type UpdateInsightStatus,
+} from "@shared/schema";
+
+type StatusFilter = "open" | "converted" | "dismissed";
+
+// Statuses shown by each filter button
+const STATUS_FILTERS: Record<StatusFilter, { label: string; statuses: InsightStatus[] }> = {
+  open: { label: "Open", statuses: ["new", "accepted"] },
+  converted: { label: "Converted", statuses: ["converted"] },
+  dismissed: { label: "Dismissed", statuses: ["dismissed"] },
+};
 
 export default function AIInsights() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canReview = !!user && hasRole(user.role, "analyst");
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [dismissing, setDismissing] = useState<AIInsight | null>(null); // Insight in the dismiss dialog
+  const [dismissReason, setDismissReason] = useState("");
+  const [converting, setConverting] = useState<AIInsight | null>(null); // Insight in the convert dialog
+
   /**
    * Fetch AI Insights Data
-   * Retrieves all AI-generated insights from the API
-   * TODO: Replace with OpenAI API calls for dynamic generation
+   * Retrieves all generated and hand-written insights from the API
    */
-  const { data: insightsData, isLoading } = useQuery<AIInsight[]>({
+  const { data: insightsData, isLoading } = useQuery<AIInsightSummary[]>({
     queryKey: ["/api/ai-insights"],
   });
 
+  // Priority items, to name the item a converted insight became
+  const { data: priorityItems } = useQuery<PriorityItem[]>({
+    queryKey: ["/api/priority-items"],
+  });
+
+  const visibleInsights = insightsData?.filter((insight) =>
+    STATUS_FILTERS[statusFilter].statuses.includes(insight.status as InsightStatus),
+  );
+
+  /**
+   * Generate Insights
+   * Runs the server's insight generator over recent feedback
+   */
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai-insights/generate");
+      return (await response.json()) as InsightGenerationReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-insights"] });
+      toast({
+        title: "Success",
+        description: `${report.created} new insights, ${report.refreshed} updated`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  /**
+   * Change Status
+   * Accepts, dismisses or reopens an insight
+   */
+  const statusMutation = useMutation({
+    mutationFn: async ({ insight, change }: { insight: AIInsight; change: UpdateInsightStatus }) => {
+      return await apiRequest("POST", `/api/ai-insights/${insight.id}/status`, change);
+    },
+    onSuccess: (_data, { change }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-insights"] });
+      const done = { new: "reopened", accepted: "accepted", dismissed: "dismissed" }[change.status];
+      toast({ title: "Success", description: `Insight ${done}` });
+      setDismissing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openDismiss = (insight: AIInsight) => {
+    setDismissReason("");
+    setDismissing(insight);
+  };
+
+  /**
+   * Get the priority item a converted insight became
+   */
+  const getConvertedItem = (insight: AIInsight) =>
+    insight.priorityItemId ? priorityItems?.find((item) => item.id === insight.priorityItemId) : undefined;
+
   /**
    * Get priority color classes for badges
    */
@@ -55,11 +159,43 @@ export default function AIInsights() {
   return (
     <Card className="p-6 bg-gradient-to-br from-primary/5 to-transparent" data-testid="card-ai-insights">
       {/* Header with AI Icon */}
-      <div className="flex items-center gap-2 mb-4">
-        <Sparkles className="w-5 h-5 text-primary" />
-        <h3 className="text-lg font-semibold">AI-Generated Insights</h3>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">AI-Generated Insights</h3>
+        </div>
+        {canReview && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+            data-testid="button-generate-insights"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${generateMutation.isPending ? "animate-spin" : ""}`} />
+            Generate
+          </Button>
+        )}
       </div>
       
+      {/* Status Filter Buttons */}
+      <div className="flex items-center gap-2 mb-4">
+        {(Object.keys(STATUS_FILTERS) as StatusFilter[]).map((filter) => (
+          <button
+            key={filter}
+            onClick={() => setStatusFilter(filter)}
+            className={`text-xs px-3 py-1 rounded-md ${
+              statusFilter === filter
+                ? "bg-primary text-primary-foreground"
+                : "hover-elevate active-elevate-2"
+            }`}
+            data-testid={`button-insight-filter-${filter}`}
+          >
+            {STATUS_FILTERS[filter].label}
+          </button>
+        ))}
+      </div>
+
       {isLoading ? (
         // Loading State: Display skeleton cards
         <div className="space-y-4">
@@ -67,31 +203,119 @@ export default function AIInsights() {
             <div key={i} className="h-32 rounded-lg bg-card/50 animate-pulse" />
           ))}
         </div>
+      ) : !visibleInsights || visibleInsights.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4" data-testid="text-no-insights">
+          No {STATUS_FILTERS[statusFilter].label.toLowerCase()} insights
+        </p>
       ) : (
         // Loaded State: Display actual insights
         <div className="space-y-4">
-          {insightsData?.map((insight) => (
+          {visibleInsights.map((insight) => (
             <div
               key={insight.id}
               className="p-4 rounded-lg bg-card border hover-elevate"
               data-testid={`insight-${insight.id}`}
             >
-              {/* Insight Header: Title and Priority Badge */}
+              {/* Insight Header: Title, Status and Priority Badges */}
               <div className="flex items-start justify-between mb-2">
                 <h4 className="font-medium">{insight.title}</h4>
                 
-                {/* Priority Badge - Color-coded by level */}
-                <span
-                  className={`text-xs px-2 py-1 rounded-md border ${getPriorityColor(insight.priority)}`}
-                >
-                  {insight.priority}
-                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  {insight.status !== "new" && (
+                    <Badge variant="outline" className="capitalize" data-testid={`badge-insight-status-${insight.id}`}>
+                      {insight.status}
+                    </Badge>
+                  )}
+                  {/* Priority Badge - Color-coded by level */}
+                  <span
+                    className={`text-xs px-2 py-1 rounded-md border ${getPriorityColor(insight.priority)}`}
+                  >
+                    {insight.priority}
+                  </span>
+                </div>
               </div>
               
               {/* Insight Description - Data-driven recommendation */}
               <p className="text-sm text-muted-foreground mb-3">
                 {insight.description}
               </p>
+
+              {/* Source: generating provider and cited feedback */}
+              {insight.generatedBy && (
+                <div className="flex items-center gap-2 mb-3 text-xs text-muted-foreground">
+                  <Badge variant="secondary">Generated: {insight.generatedBy}</Badge>
+                  {insight.feedbackCount > 0 && (
+                    <span data-testid={`text-insight-evidence-${insight.id}`}>
+                      Based on {insight.feedbackCount} cited feedback entries
+                    </span>
+                  )}
+                </div>
+              )}
+              
+              {/* Review outcome: reason and the priority item it became */}
+              {(insight.statusReason || insight.status === "converted") && (
+                <div className="text-xs text-muted-foreground mb-3 space-y-1">
+                  {insight.status === "converted" && (
+                    <div data-testid={`text-insight-converted-${insight.id}`}>
+                      {getConvertedItem(insight)
+                        ? `Priority item #${getConvertedItem(insight)!.rank}: ${getConvertedItem(insight)!.title}`
+                        : "Converted to a priority item that has since been deleted"}
+                    </div>
+                  )}
+                  {insight.statusReason && <div>Reason: {insight.statusReason}</div>}
+                </div>
+              )}
+
+              {/* Review Actions */}
+              {canReview && insight.status !== "converted" && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {insight.status === "new" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => statusMutation.mutate({ insight, change: { status: "accepted" } })}
+                      disabled={statusMutation.isPending}
+                      data-testid={`button-accept-insight-${insight.id}`}
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Accept
+                    </Button>
+                  )}
+                  {insight.status !== "dismissed" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setConverting(insight)}
+                      data-testid={`button-convert-insight-${insight.id}`}
+                    >
+                      <ListPlus className="w-3 h-3 mr-1" />
+                      Convert to priority item
+                    </Button>
+                  )}
+                  {insight.status === "dismissed" ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => statusMutation.mutate({ insight, change: { status: "new" } })}
+                      disabled={statusMutation.isPending}
+                      data-testid={`button-reopen-insight-${insight.id}`}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Reopen
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDismiss(insight)}
+                      data-testid={`button-dismiss-insight-${insight.id}`}
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Dismiss
+                    </Button>
+                  )}
+                </div>
+              )}
               
               {/* Footer: Expected Impact and Action Button */}
               <div className="flex items-center justify-between">
@@ -108,7 +332,7 @@ export default function AIInsights() {
                       <ArrowRight className="w-3 h-3 ml-1" />
                     </Button>
                   </DialogTrigger>
-                  <DialogContent className="max-w-2xl" data-testid={`dialog-insight-${insight.id}`}>
+                  <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid={`dialog-insight-${insight.id}`}>
                     <DialogHeader>
                       <div className="flex items-start justify-between mb-2">
                         <DialogTitle className="text-xl">{insight.title}</DialogTitle>
@@ -132,34 +356,8 @@ export default function AIInsights() {
                         <p className="text-sm">{insight.impact}</p>
                       </div>
                       
-                      {/* Implementation Timeline */}
-                      <div className="p-4 rounded-lg bg-muted/50 border">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Clock className="w-4 h-4 text-muted-foreground" />
-                          <h4 className="font-semibold text-sm">Recommended Timeline</h4>
-                        </div>
-                        <p className="text-sm text-muted-foreground">
-                          {insight.priority === "high" 
-                            ? "Immediate action recommended within 1-2 weeks" 
-                            : insight.priority === "medium"
-                            ? "Implement within 1-2 months"
-                            : "Schedule for next quarter"}
-                        </p>
-                      </div>
-                      
-                      {/* Key Metrics to Track */}
-                      <div className="p-4 rounded-lg bg-green-50 border border-green-200">
-                        <div className="flex items-center gap-2 mb-2">
-                          <TrendingUp className="w-4 h-4 text-green-600" />
-                          <h4 className="font-semibold text-sm">Key Metrics to Track</h4>
-                        </div>
-                        <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
-                          <li>Customer satisfaction score (CSAT)</li>
-                          <li>Net Promoter Score (NPS)</li>
-                          <li>Average resolution time</li>
-                          <li>Feature adoption rate</li>
-                        </ul>
-                      </div>
+                      {/* Evidence: metrics, trend, regions and quotes */}
+                      <InsightEvidence insightId={insight.id} />
                     </div>
                   </DialogContent>
                 </Dialog>
@@ -168,6 +366,47 @@ export default function AIInsights() {
           ))}
         </div>
       )}
+
+      {/* Dismiss with a reason */}
+      <Dialog open={dismissing !== null} onOpenChange={(open) => !open && setDismissing(null)}>
+        <DialogContent data-testid="dialog-dismiss-insight">
+          <DialogHeader>
+            <DialogTitle>Dismiss Insight</DialogTitle>
+            <DialogDescription>
+              {dismissing?.generatedBy
+                ? "The generator won't propose this insight again. Reopen it to bring it back."
+                : "Reopen the insight to bring it back."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dismiss-reason">Reason</Label>
+            <Textarea
+              id="dismiss-reason"
+              value={dismissReason}
+              onChange={(e) => setDismissReason(e.target.value)}
+              placeholder="e.g., Already being handled, or a known seasonal dip"
+              maxLength={500}
+              rows={3}
+              data-testid="input-dismiss-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDismissing(null)}>Cancel</Button>
+            <Button
+              onClick={() =>
+                dismissing &&
+                statusMutation.mutate({ insight: dismissing, change: { status: "dismissed", reason: dismissReason.trim() } })
+              }
+              disabled={!dismissReason.trim() || statusMutation.isPending}
+              data-testid="button-confirm-dismiss"
+            >
+              Dismiss
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <InsightConvertDialog insight={converting} onClose={() => setConverting(null)} />
     </Card>
   );
 }
@@ -0,0 +1,263 @@
+/**
+ * CHANNEL CONNECTORS COMPONENT
+ *
+ * Connector settings per channel, for feedback the server pulls in itself:
+ * - Configure: pick the channel type (manual or a connector) and edit the
+ *   connector's JSON settings, prefilled with its example
+ * - Sync now: runs the connector right away instead of waiting for the scheduler
+ * - Sync state: last sync time, error and number of entries imported
+ *
+ * USAGE: Manage page channels tab (admins only)
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { Plug, RefreshCw } from "lucide-react";
+import type { ChannelType, ConnectorInfo, PublicChannel } from "@shared/schema";
+
+interface ChannelConnectorsProps {
+  channels: PublicChannel[] | undefined;
+}
+
+// Channel being configured and the form values
+interface ConnectorForm {
+  channel: PublicChannel;
+  type: ChannelType;
+  config: string; // JSON text
+}
+
+export default function ChannelConnectors({ channels }: ChannelConnectorsProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ConnectorForm | null>(null);
+
+  const { data: connectors } = useQuery<ConnectorInfo[]>({
+    queryKey: ["/api/connectors"],
+  });
+
+  const getConnector = (type: string) => connectors?.find((connector) => connector.type === type);
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ channel, type, config }: { channel: PublicChannel; type: ChannelType; config: Record<string, unknown> }) => {
+      return await apiRequest("PATCH", `/api/channels/${channel.id}`, { type, config });
+    },
+    onSuccess: (_data, { channel }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      toast({ title: "Success", description: `Connector settings saved for ${channel.name}` });
+      setForm(null);
+    },
+    onError: showError,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (channel: PublicChannel) => {
+      const response = await apiRequest("POST", `/api/channels/${channel.id}/sync`);
+      return (await response.json()) as PublicChannel;
+    },
+    onSuccess: (synced) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      if (synced.lastSyncError) {
+        toast({ title: "Error", description: synced.lastSyncError, variant: "destructive" });
+      } else {
+        toast({ title: "Success", description: `${synced.name} synced: ${synced.lastSyncCount} new entries` });
+      }
+    },
+    onError: showError,
+  });
+
+  /**
+   * OPEN FORM
+   * Starts from the channel's current settings
+   */
+  const openForm = (channel: PublicChannel) => {
+    setForm({ channel, type: channel.type as ChannelType, config: JSON.stringify(channel.config, null, 2) });
+  };
+
+  /**
+   * CHANGE TYPE
+   * Switching to another connector starts from its example settings
+   */
+  const changeType = (type: ChannelType) => {
+    if (!form) return;
+    const example = type === form.channel.type ? form.channel.config : getConnector(type)?.exampleConfig ?? {};
+    setForm({ ...form, type, config: JSON.stringify(example, null, 2) });
+  };
+
+  /**
+   * SAVE
+   */
+  const save = () => {
+    if (!form) return;
+    let config: unknown;
+    try {
+      config = form.type === "manual" ? {} : JSON.parse(form.config || "{}");
+    } catch {
+      toast({ title: "Error", description: "Settings must be valid JSON", variant: "destructive" });
+      return;
+    }
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      toast({ title: "Error", description: "Settings must be a JSON object", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ channel: form.channel, type: form.type, config: config as Record<string, unknown> });
+  };
+
+  const selectedConnector = form ? getConnector(form.type) : undefined;
+
+  return (
+    <Card className="p-6" data-testid="card-channel-connectors">
+      <div className="flex items-center gap-2 mb-2">
+        <Plug className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-xl font-semibold">Connectors</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Connectors pull feedback into active channels automatically. Manual channels only receive
+        feedback entered here or pushed through inbound ingestion.
+      </p>
+
+      {!channels || channels.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No channels yet</p>
+      ) : (
+        <div className="space-y-3">
+          {channels.map((channel) => {
+            const connector = getConnector(channel.type);
+            return (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border flex-wrap"
+                data-testid={`connector-${channel.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{channel.name}</span>
+                    <Badge variant={connector ? "default" : "secondary"}>{connector?.label ?? "Manual"}</Badge>
+                    {connector && channel.status !== "active" && (
+                      <span className="text-xs text-muted-foreground">(channel inactive: not synced)</span>
+                    )}
+                  </div>
+                  {connector && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {channel.lastSyncAt
+                        ? `Last synced ${formatDistanceToNow(new Date(channel.lastSyncAt), { addSuffix: true })}`
+                        : "Never synced"}
+                      {" · "}
+                      {channel.syncedCount} entries imported
+                    </div>
+                  )}
+                  {connector && channel.lastSyncError && (
+                    <div className="text-xs text-destructive mt-1 break-words" data-testid={`text-sync-error-${channel.id}`}>
+                      {channel.lastSyncError}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openForm(channel)}
+                    data-testid={`button-configure-connector-${channel.id}`}
+                  >
+                    Configure
+                  </Button>
+                  {connector && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => syncMutation.mutate(channel)}
+                      disabled={syncMutation.isPending || channel.status !== "active"}
+                      data-testid={`button-sync-${channel.id}`}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Sync now
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Connector settings */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Connector for {form?.channel.name}</DialogTitle>
+            <DialogDescription>
+              Changing the type or settings restarts the connector from the beginning of its source;
+              entries imported before are not imported again.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="connector-type">Type</Label>
+                <Select value={form.type} onValueChange={(value) => changeType(value as ChannelType)}>
+                  <SelectTrigger id="connector-type" data-testid="select-connector-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual</SelectItem>
+                    {connectors?.map((connector) => (
+                      <SelectItem key={connector.type} value={connector.type}>
+                        {connector.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedConnector && (
+                  <p className="text-xs text-muted-foreground">{selectedConnector.description}</p>
+                )}
+              </div>
+              {selectedConnector && (
+                <div className="space-y-2">
+                  <Label htmlFor="connector-config">Settings (JSON)</Label>
+                  <Textarea
+                    id="connector-config"
+                    value={form.config}
+                    onChange={(e) => setForm({ ...form, config: e.target.value })}
+                    rows={6}
+                    className="font-mono text-xs"
+                    data-testid="input-connector-config"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={save} disabled={saveMutation.isPending} data-testid="button-save-connector">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * CHANNEL INGESTION COMPONENT
+ *
+ * Inbound feedback ingestion per channel, for tools that push feedback
+ * (e.g., email and live chat systems):
+ * - Enable: generates the channel's signing secret and shows it once
+ * - Rotate: replaces the secret (the old one stops working immediately)
+ * - Disable: removes the secret; pushes are refused
+ * - Ingest URL and the signing scheme senders must follow
+ *
+ * USAGE: Manage page channels tab (admins only)
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { Copy, Inbox } from "lucide-react";
+import type { PublicChannel } from "@shared/schema";
+
+interface ChannelIngestionProps {
+  channels: PublicChannel[] | undefined;
+}
+
+/**
+ * Get the full ingest URL of a channel
+ */
+const getIngestUrl = (channel: PublicChannel) => `${window.location.origin}/api/ingest/${channel.id}`;
+
+export default function ChannelIngestion({ channels }: ChannelIngestionProps) {
+  const { toast } = useToast();
+
+  // Newly generated secret, shown once
+  const [generated, setGenerated] = useState<{ channel: PublicChannel; secret: string } | null>(null);
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async (channel: PublicChannel) => {
+      const response = await apiRequest("POST", `/api/channels/${channel.id}/ingest-secret`);
+      return (await response.json()) as { secret: string };
+    },
+    onSuccess: ({ secret }, channel) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      setGenerated({ channel, secret });
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (channel: PublicChannel) => {
+      return await apiRequest("DELETE", `/api/channels/${channel.id}/ingest-secret`);
+    },
+    onSuccess: (_data, channel) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      toast({ title: "Success", description: `Ingestion disabled for ${channel.name}` });
+    },
+    onError: showError,
+  });
+
+  /**
+   * COPY
+   */
+  const copy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Success", description: `${label} copied to the clipboard` });
+    } catch {
+      toast({ title: "Error", description: "Could not access the clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="p-6" data-testid="card-channel-ingestion">
+      <div className="flex items-center gap-2 mb-2">
+        <Inbox className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-xl font-semibold">Inbound Ingestion</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Tools can push feedback into a channel with a signed JSON POST:{" "}
+        <code className="text-xs">{"{ \"id\", \"text\", \"region\", \"sentiment\"?, \"timestamp\"? }"}</code>.
+        Sign each request with X-Sentiment360-Timestamp (Unix seconds) and
+        X-Sentiment360-Signature: <code className="text-xs">sha256=</code> hex HMAC-SHA256 of
+        "timestamp.body" using the channel's secret. Repeated ids are rejected as duplicates.
+      </p>
+
+      {!channels || channels.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No channels yet</p>
+      ) : (
+        <div className="space-y-3">
+          {channels.map((channel) => (
+            <div
+              key={channel.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg border flex-wrap"
+              data-testid={`ingestion-${channel.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{channel.name}</span>
+                  <Badge variant={channel.ingestEnabled ? "default" : "secondary"}>
+                    {channel.ingestEnabled ? "Enabled" : "Disabled"}
+                  </Badge>
+                  {channel.ingestEnabled && channel.status !== "active" && (
+                    <span className="text-xs text-muted-foreground">(channel inactive: pushes are refused)</span>
+                  )}
+                </div>
+                {channel.ingestEnabled && (
+                  <button
+                    type="button"
+                    className="text-xs font-mono text-muted-foreground hover:text-foreground break-all text-left"
+                    onClick={() => copy(getIngestUrl(channel), "Ingest URL")}
+                    title="Copy ingest URL"
+                  >
+                    {getIngestUrl(channel)}
+                  </button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => generateMutation.mutate(channel)}
+                  disabled={generateMutation.isPending}
+                  data-testid={`button-ingest-secret-${channel.id}`}
+                >
+                  {channel.ingestEnabled ? "Rotate secret" : "Enable"}
+                </Button>
+                {channel.ingestEnabled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => disableMutation.mutate(channel)}
+                    disabled={disableMutation.isPending}
+                    data-testid={`button-disable-ingest-${channel.id}`}
+                  >
+                    Disable
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Newly generated secret */}
+      <Dialog open={generated !== null} onOpenChange={(open) => !open && setGenerated(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ingest secret for {generated?.channel.name}</DialogTitle>
+            <DialogDescription>
+              Copy the secret now: it is not shown again. Rotate it to get a new one.
+            </DialogDescription>
+          </DialogHeader>
+          {generated && (
+            <div className="space-y-3 text-sm">
+              <div>
+                <p className="text-muted-foreground mb-1">URL</p>
+                <code className="block text-xs bg-muted p-2 rounded break-all">{getIngestUrl(generated.channel)}</code>
+              </div>
+              <div>
+                <p className="text-muted-foreground mb-1">Secret</p>
+                <code className="block text-xs bg-muted p-2 rounded break-all" data-testid="text-ingest-secret">
+                  {generated.secret}
+                </code>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => generated && copy(generated.secret, "Secret")}
+              data-testid="button-copy-ingest-secret"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy secret
+            </Button>
+            <Button onClick={() => setGenerated(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
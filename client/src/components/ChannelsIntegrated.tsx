@@ -5,20 +5,24 @@
  * Each channel card shows:
  * - Platform icon (Twitter, Facebook, Instagram, etc.)
  * - Channel name
- * - Connection status (Connected badge)
- * - Message count
- * 
- * TODO: Add Twitter API integration for real-time message counts
- * TODO: Add Instagram API integration for real-time message counts
- * TODO: Add Facebook API integration for real-time message counts
+ * - Connection status: Connected, Sync error (hover for the reason), Not synced
+ *   yet, Manual or Inactive
+ * - Last sync time and entries imported (channels with a connector)
+ * - Message count over the selected window (7, 30 or 90 days), counted from feedback
+ *
+ * Clicking a card opens the channel's detail page.
  */
 
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SiX, SiFacebook, SiInstagram } from "react-icons/si";
-import { Mail, MessageCircle, CheckCircle2, LucideIcon } from "lucide-react";
+import { Mail, MessageCircle, CheckCircle2, AlertCircle, Clock, PenLine, PauseCircle, LucideIcon } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import type { Channel } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { formatCount } from "@/lib/format";
+import { regionalSentimentWindows, type ChannelSummary, type PublicChannel, type RegionalSentimentWindow } from "@shared/schema";
 
 /**
  * Icon Mapping
@@ -34,25 +38,73 @@ const iconMap: Record<string, LucideIcon | React.ComponentType<{ className?: str
   "Live Chat": MessageCircle, // Chat bubble icon
 };
 
+/**
+ * Get Channel State
+ * Status line of a channel card
+ */
+export function getChannelState(channel: PublicChannel): { icon: LucideIcon; label: string; className: string } {
+  if (channel.status !== "active") {
+    return { icon: PauseCircle, label: "Inactive", className: "text-muted-foreground" };
+  }
+  if (channel.type === "manual") {
+    return { icon: PenLine, label: "Manual", className: "text-muted-foreground" };
+  }
+  if (channel.lastSyncError) {
+    return { icon: AlertCircle, label: "Sync error", className: "text-destructive" };
+  }
+  if (!channel.lastSyncAt) {
+    return { icon: Clock, label: "Not synced yet", className: "text-muted-foreground" };
+  }
+  return { icon: CheckCircle2, label: "Connected", className: "text-green-600" };
+}
+
 export default function ChannelsIntegrated() {
+  // Window of the message counts (default: 30 days)
+  const [windowDays, setWindowDays] = useState<RegionalSentimentWindow>(30);
+
   /**
    * Fetch Channels Data
-   * Retrieves all integrated communication channels from the API
+   * Retrieves all integrated communication channels with message counts for the window
    */
-  const { data: channelsData, isLoading } = useQuery<Channel[]>({
-    queryKey: ["/api/channels"],
+  const { data: channelsData, isLoading } = useQuery<ChannelSummary[]>({
+    queryKey: ["/api/channels", windowDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/channels?days=${windowDays}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
   });
 
   return (
     <Card className="p-6" data-testid="card-channels-integrated">
       {/* Header with Active Channels Count */}
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex justify-between items-center mb-6 gap-2 flex-wrap">
         <h3 className="text-lg font-semibold">Integrated Customer Channels</h3>
         
-        {/* Active Channels Badge */}
-        <Badge variant="secondary" className="text-xs">
-          {channelsData?.length || 0} Active
-        </Badge>
+        <div className="flex items-center gap-2 flex-wrap">
+          {/* Time Window Buttons */}
+          {regionalSentimentWindows.map((days) => (
+            <button
+              key={days}
+              onClick={() => setWindowDays(days)}
+              className={`text-xs px-3 py-1 rounded-md ${
+                windowDays === days
+                  ? "bg-primary text-primary-foreground"
+                  : "hover-elevate active-elevate-2"
+              }`}
+              data-testid={`button-channels-window-${days}d`}
+            >
+              {days}D
+            </button>
+          ))}
+
+          {/* Active Channels Badge */}
+          <Badge variant="secondary" className="text-xs">
+            {channelsData?.filter((channel) => channel.status === "active").length || 0} Active
+          </Badge>
+        </div>
       </div>
       
       {isLoading ? (
@@ -68,10 +120,13 @@ export default function ChannelsIntegrated() {
           {channelsData?.map((channel) => {
             // Get appropriate icon for the channel (fallback to MessageCircle)
             const Icon = iconMap[channel.name] || MessageCircle;
+            const state = getChannelState(channel);
+            const StateIcon = state.icon;
             
             return (
-              <div
+              <Link
                 key={channel.id}
+                href={`/channels/${channel.id}`}
                 className="flex flex-col items-center p-4 rounded-lg border bg-card hover-elevate"
                 data-testid={`channel-${channel.name.toLowerCase()}`}
               >
@@ -83,17 +138,31 @@ export default function ChannelsIntegrated() {
                 {/* Channel Name */}
                 <div className="text-sm font-medium mb-1">{channel.name}</div>
                 
-                {/* Connection Status Badge */}
-                <div className="flex items-center gap-1 mb-2">
-                  <CheckCircle2 className="w-3 h-3 text-green-600" />
-                  <span className="text-xs text-green-600">Connected</span>
+                {/* Connection Status (the sync error is shown on hover) */}
+                <div
+                  className="flex items-center gap-1 mb-2"
+                  title={channel.lastSyncError ?? undefined}
+                  data-testid={`status-channel-${channel.id}`}
+                >
+                  <StateIcon className={`w-3 h-3 ${state.className}`} />
+                  <span className={`text-xs ${state.className}`}>{state.label}</span>
                 </div>
                 
                 {/* Message Count */}
                 <div className="text-xs text-muted-foreground">
-                  {channel.messageCount} messages
+                  {formatCount(channel.messageCount)} messages
                 </div>
-              </div>
+
+                {/* Connector Sync State */}
+                {channel.type !== "manual" && (
+                  <div className="text-xs text-muted-foreground text-center mt-1">
+                    <div>{channel.syncedCount} imported</div>
+                    {channel.lastSyncAt && (
+                      <div>Synced {formatDistanceToNow(new Date(channel.lastSyncAt), { addSuffix: true })}</div>
+                    )}
+                  </div>
+                )}
+              </Link>
             );
           })}
         </div>
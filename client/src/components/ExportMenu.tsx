@@ -0,0 +1,77 @@
+/**
+ * EXPORT MENU COMPONENT
+ *
+ * Small "Export" dropdown for cards and lists. Each option downloads the
+ * card's data from the matching /api/export endpoint:
+ * - CSV: plain CSV
+ * - Excel (CSV): CSV that opens cleanly in spreadsheets (BOM, CRLF)
+ * - JSON: array of objects
+ *
+ * Downloads go through a regular link, so the browser streams large
+ * exports straight to disk instead of holding them in memory.
+ *
+ * USAGE: Regional sentiment chart, sentiment trend chart, priority list,
+ * impact comparison cards and the feedback explorer
+ */
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@shared/schema";
+
+interface ExportMenuProps {
+  path: string; // Export endpoint (e.g., "/api/export/priority-items")
+  params?: Record<string, string | undefined>; // Extra query params (filters, period...)
+  testId?: string;
+}
+
+const formatOptions: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "excel", label: "Excel (CSV)" },
+  { format: "json", label: "JSON" },
+];
+
+export default function ExportMenu({ path, params = {}, testId = "button-export" }: ExportMenuProps) {
+  /**
+   * DOWNLOAD
+   * Builds the export URL (skipping empty params) and lets the browser download it
+   */
+  const download = (format: ExportFormat) => {
+    const query = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(params)) {
+      if (value) query.set(key, value);
+    }
+
+    const link = document.createElement("a");
+    link.href = `${path}?${query}`;
+    link.download = "";
+    link.click();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs" data-testid={testId}>
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formatOptions.map((option) => (
+          <DropdownMenuItem
+            key={option.format}
+            onSelect={() => download(option.format)}
+            data-testid={`${testId}-${option.format}`}
+          >
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,283 @@
+/**
+ * FEEDBACK IMPORT COMPONENT
+ *
+ * Bulk-imports feedback from survey exports and support-ticket dumps:
+ * 1. Choose a CSV or NDJSON file
+ * 2. Preview (dry run): the server validates every row and reports errors
+ *    without writing anything
+ * 3. Adjust the column mapping if needed and preview again
+ * 4. Import: valid rows are written, invalid rows are skipped
+ *
+ * The per-row error report can be downloaded as CSV at any point.
+ *
+ * USAGE: Manage page
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Upload, Download, AlertCircle, CheckCircle2 } from "lucide-react";
+import {
+  feedbackImportFields,
+  type FeedbackImportField,
+  type FeedbackImportReport,
+} from "@shared/schema";
+
+const UNMAPPED = "__none__"; // Select value for "don't import this field"
+
+/**
+ * Build Error Report CSV
+ * One line per invalid row: row number and the joined validation messages
+ */
+const buildErrorReportCsv = (report: FeedbackImportReport) => {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const lines = report.errors.map((error) => `${error.row},${escape(error.errors.join("; "))}`);
+  return ["row,errors", ...lines].join("\n");
+};
+
+export default function FeedbackImport() {
+  const { toast } = useToast();
+
+  // ============================================================================
+  // Import State
+  // ============================================================================
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState<string>(""); // Raw file text
+  const [mapping, setMapping] = useState<Partial<Record<FeedbackImportField, string>>>({});
+  const [columns, setColumns] = useState<string[]>([]); // Columns detected by the last preview
+  const [report, setReport] = useState<FeedbackImportReport | null>(null);
+
+  // NDJSON files use .ndjson/.jsonl; everything else is treated as CSV
+  const contentType = fileName && /\.(ndjson|jsonl)$/i.test(fileName) ? "application/x-ndjson" : "text/csv";
+
+  /**
+   * HANDLE FILE CHANGE
+   * Reads the chosen file into memory and resets any previous preview
+   */
+  const handleFileChange = async (file: File | undefined) => {
+    setReport(null);
+    setColumns([]);
+    setMapping({});
+    setFileName(file?.name ?? null);
+    setContent(file ? await file.text() : "");
+  };
+
+  // ============================================================================
+  // Import Mutation
+  // Sends the file as the raw request body with mapping and dry-run as query params
+  // ============================================================================
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<FeedbackImportReport> => {
+      const params = new URLSearchParams({ dryRun: String(dryRun) });
+      for (const [field, column] of Object.entries(mapping)) {
+        if (column) params.set(`mapping[${field}]`, column);
+      }
+
+      const res = await fetch(`/api/feedback/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body: content,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || res.statusText);
+      }
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      setColumns(result.columns);
+      setMapping(result.mapping);
+
+      if (!result.dryRun) {
+        // Imported feedback affects every feedback-derived view
+        queryClient.invalidateQueries({ queryKey: ["/api/feedback"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/feedback/search"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/sentiment-trends"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/regional-sentiment"] });
+
+        toast({
+          title: "Import complete",
+          description: `Imported ${result.imported} of ${result.totalRows} rows`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * DOWNLOAD ERROR REPORT
+   * Saves the per-row errors of the last preview/import as a CSV file
+   */
+  const handleDownloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([buildErrorReportCsv(report)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName ?? "import"}-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Changing the mapping invalidates the preview until it is run again
+  const handleMappingChange = (field: FeedbackImportField, column: string) => {
+    setMapping({ ...mapping, [field]: column === UNMAPPED ? undefined : column });
+    setReport(null);
+  };
+
+  const canImport = !!report && report.dryRun && report.validRows > 0;
+
+  return (
+    <Card className="p-6 lg:col-span-2" data-testid="card-feedback-import">
+      <div className="flex items-center gap-2 mb-6">
+        <Upload className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-semibold">Bulk Import Feedback</h2>
+      </div>
+
+      <div className="space-y-4">
+        {/* File Picker */}
+        <div>
+          <Label htmlFor="import-file">CSV or NDJSON file</Label>
+          <Input
+            id="import-file"
+            data-testid="input-import-file"
+            type="file"
+            accept=".csv,.ndjson,.jsonl,text/csv"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            className="mt-2"
+          />
+          <p className="text-xs text-muted-foreground mt-2">
+            Columns named text, sentiment, source, region and timestamp are mapped automatically.
+            Rows without a sentiment are scored by the sentiment analyzer.
+          </p>
+        </div>
+
+        {/* Column Mapping (available after the first preview detects the columns) */}
+        {columns.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {feedbackImportFields.map((field) => (
+              <div key={field}>
+                <Label htmlFor={`import-map-${field}`} className="capitalize">{field}</Label>
+                <Select
+                  value={mapping[field] ?? UNMAPPED}
+                  onValueChange={(column) => handleMappingChange(field, column)}
+                >
+                  <SelectTrigger id={`import-map-${field}`} data-testid={`select-import-map-${field}`} className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>(not imported)</SelectItem>
+                    {columns.map((column) => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-2 flex-wrap">
+          <Button
+            variant="outline"
+            data-testid="button-import-preview"
+            disabled={!content || importMutation.isPending}
+            onClick={() => importMutation.mutate(true)}
+          >
+            {importMutation.isPending && importMutation.variables ? "Checking..." : "Preview (dry run)"}
+          </Button>
+          <Button
+            data-testid="button-import-commit"
+            disabled={!canImport || importMutation.isPending}
+            onClick={() => importMutation.mutate(false)}
+          >
+            {importMutation.isPending && !importMutation.variables
+              ? "Importing..."
+              : `Import ${report?.dryRun ? report.validRows : 0} rows`}
+          </Button>
+          {report && report.errors.length > 0 && (
+            <Button variant="ghost" data-testid="button-import-report" onClick={handleDownloadReport}>
+              <Download className="w-4 h-4 mr-1" />
+              Download error report
+            </Button>
+          )}
+        </div>
+
+        {/* Validation Report */}
+        {report && (
+          <div className="space-y-4" data-testid="import-report">
+            <div className="flex gap-6 text-sm">
+              <span>{report.totalRows} rows</span>
+              <span className="flex items-center gap-1 text-green-600">
+                <CheckCircle2 className="w-4 h-4" />
+                {report.validRows} valid
+              </span>
+              <span className={`flex items-center gap-1 ${report.invalidRows > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                <AlertCircle className="w-4 h-4" />
+                {report.invalidRows} invalid
+              </span>
+              {!report.dryRun && <span className="font-medium">{report.imported} imported</span>}
+            </div>
+
+            {/* Preview of the first valid rows as they will be stored */}
+            {report.preview.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Preview</h4>
+                {report.preview.slice(0, 5).map((row, index) => (
+                  <div key={index} className="p-3 rounded-lg border text-sm">
+                    <p className="mb-1">{row.text}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.sentiment}
+                      {row.sentimentScore ? ` (${row.sentimentScore})` : ""} • {row.source} • {row.region}
+                      {row.timestamp ? ` • ${new Date(row.timestamp).toLocaleDateString()}` : ""}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* First validation errors; the full list is in the downloadable report */}
+            {report.errors.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Errors</h4>
+                {report.errors.slice(0, 10).map((error) => (
+                  <p key={error.row} className="text-xs text-destructive">
+                    Row {error.row}: {error.errors.join("; ")}
+                  </p>
+                ))}
+                {report.errors.length > 10 && (
+                  <p className="text-xs text-muted-foreground">
+                    …and {report.errors.length - 10} more rows in the error report
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * LIVE FEEDBACK STREAM COMPONENT
+ *
+ * Ticker of customer feedback as it arrives, newest on top:
+ * - Color-coded by sentiment (green positive, gray neutral, red negative)
+ * - Source and region filters (reconnects the stream with the new filters)
+ * - Pause: new entries are held back and counted until resumed
+ * - Sparkline of messages per minute over the last RATE_WINDOW_MINUTES
+ * - Connection status; the browser reconnects on its own and resumes
+ *   after the last entry it received (Last-Event-ID)
+ *
+ * USAGE: Dashboard page, below the feedback highlights
+ *
+ * DATA FLOW:
+ * - Server-sent events from /api/feedback/stream (not React Query: entries
+ *   are appended as they arrive rather than refetched)
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pause, Play, Radio } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { Feedback } from "@shared/schema";
+
+const SOURCES = ["Twitter", "Facebook", "Instagram", "Email", "Live Chat"];
+const REGIONS = ["Northeast", "Southeast", "Midwest", "Southwest", "West"];
+const ALL = "all"; // Select value meaning "no filter"
+
+// Entries kept on screen (and held back while paused)
+const MAX_ENTRIES = 50;
+
+// Sparkline span, one point per minute
+const RATE_WINDOW_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+
+type StreamStatus = "connecting" | "live" | "reconnecting";
+
+/**
+ * Get sentiment accent classes (left border and dot)
+ */
+const getSentimentAccent = (sentiment: string) => {
+  switch (sentiment) {
+    case "positive":
+      return { border: "border-l-green-500", dot: "bg-green-500" };
+    case "negative":
+      return { border: "border-l-red-500", dot: "bg-red-500" };
+    default:
+      return { border: "border-l-gray-400", dot: "bg-gray-400" };
+  }
+};
+
+/**
+ * Count arrivals per minute, oldest minute first
+ */
+const countPerMinute = (arrivals: number[], now: number) => {
+  const counts = new Array<number>(RATE_WINDOW_MINUTES).fill(0);
+  for (const arrivedAt of arrivals) {
+    const minutesAgo = Math.floor((now - arrivedAt) / MINUTE_MS);
+    if (minutesAgo >= 0 && minutesAgo < RATE_WINDOW_MINUTES) {
+      counts[RATE_WINDOW_MINUTES - 1 - minutesAgo] += 1;
+    }
+  }
+  return counts;
+};
+
+export default function FeedbackStream() {
+  // ============================================================================
+  // Stream State
+  // ============================================================================
+  const [source, setSource] = useState(ALL);
+  const [region, setRegion] = useState(ALL);
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const [entries, setEntries] = useState<Feedback[]>([]); // Shown, newest first
+  const [held, setHeld] = useState<Feedback[]>([]); // Arrived while paused, newest first
+  const [arrivals, setArrivals] = useState<number[]>([]); // Stored-at times for the sparkline
+  const [paused, setPaused] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // The event handler outlives renders, so it reads the pause state through a ref
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  /**
+   * CONNECT
+   * Opens a stream per filter combination; changing filters starts a fresh list
+   */
+  useEffect(() => {
+    setEntries([]);
+    setHeld([]);
+    setArrivals([]);
+    setStatus("connecting");
+
+    const params = new URLSearchParams();
+    if (source !== ALL) params.set("source", source);
+    if (region !== ALL) params.set("region", region);
+
+    const events = new EventSource(`/api/feedback/stream?${params}`);
+    events.onopen = () => setStatus("live");
+    events.onerror = () => setStatus("reconnecting");
+    events.addEventListener("feedback", (message) => {
+      const entry = JSON.parse((message as MessageEvent<string>).data) as Feedback;
+      const cutoff = Date.now() - RATE_WINDOW_MINUTES * MINUTE_MS;
+
+      setArrivals((current) => [...current.filter((arrivedAt) => arrivedAt > cutoff), new Date(entry.createdAt).getTime()]);
+      setNow(Date.now());
+      if (pausedRef.current) {
+        setHeld((current) => [entry, ...current].slice(0, MAX_ENTRIES));
+      } else {
+        setEntries((current) => [entry, ...current].slice(0, MAX_ENTRIES));
+      }
+    });
+
+    return () => events.close();
+  }, [source, region]);
+
+  // Move the sparkline along while nothing arrives
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), MINUTE_MS / 4);
+    return () => clearInterval(timer);
+  }, []);
+
+  /**
+   * TOGGLE PAUSE
+   * Resuming shows the entries held back in the meantime
+   */
+  const togglePause = () => {
+    if (paused) {
+      setEntries((current) => [...held, ...current].slice(0, MAX_ENTRIES));
+      setHeld([]);
+    }
+    setPaused(!paused);
+  };
+
+  // Sparkline points (0,0 is the top left corner of a 120x32 box)
+  const counts = countPerMinute(arrivals, now);
+  const peak = Math.max(1, ...counts);
+  const points = counts
+    .map((count, i) => `${(i / (RATE_WINDOW_MINUTES - 1)) * 120},${30 - (count / peak) * 28}`)
+    .join(" ");
+
+  return (
+    <Card className="p-6" data-testid="card-feedback-stream">
+      {/* Header: title, connection status, rate sparkline and pause */}
+      <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-semibold">Live Feedback Stream</h3>
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground" data-testid="status-feedback-stream">
+            <Radio className={`w-3.5 h-3.5 ${status === "live" ? "text-green-600" : "text-muted-foreground"}`} />
+            {status === "live" ? "Live" : status === "connecting" ? "Connecting..." : "Reconnecting..."}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2" title={`Messages per minute, last ${RATE_WINDOW_MINUTES} minutes`}>
+            <svg width="120" height="32" viewBox="0 0 120 32" className="text-primary" data-testid="sparkline-feedback-rate">
+              <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
+            </svg>
+            <span className="text-xs text-muted-foreground whitespace-nowrap" data-testid="text-feedback-rate">
+              {counts[RATE_WINDOW_MINUTES - 1]}/min
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={togglePause} data-testid="button-stream-pause">
+            {paused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+            {paused ? `Resume${held.length > 0 ? ` (${held.length} new)` : ""}` : "Pause"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger data-testid="filter-stream-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All sources</SelectItem>
+            {SOURCES.map((s) => (
+              <SelectItem key={s} value={s}>{s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={region} onValueChange={setRegion}>
+          <SelectTrigger data-testid="filter-stream-region">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All regions</SelectItem>
+            {REGIONS.map((r) => (
+              <SelectItem key={r} value={r}>{r}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Ticker */}
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {status === "live" ? "Waiting for feedback..." : "Connecting to the feedback stream..."}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map((entry) => {
+            const accent = getSentimentAccent(entry.sentiment);
+            return (
+              <div
+                key={entry.id}
+                className={`p-3 rounded-lg border border-l-4 ${accent.border} bg-card hover-elevate`}
+                data-testid={`stream-feedback-${entry.id}`}
+              >
+                <p className="text-sm mb-1">{entry.text}</p>
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${accent.dot}`} title={entry.sentiment} />
+                  <Badge variant="secondary" className="text-xs">
+                    {entry.source}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{entry.region}</span>
+                  <span className="text-xs text-muted-foreground">•</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
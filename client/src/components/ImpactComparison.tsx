@@ -6,6 +6,7 @@
  * - Percentage improvement badge at bottom
  * - Optional unit display (hours, %, /10, etc.)
  * - Smart arrow direction based on metric type
+ * - Export menu downloads all impact metrics as CSV/Excel/JSON
  * 
  * USAGE: Impact Tracker page showing 3 key metrics:
  * - Time to Resolution (hours) - lower is better → down arrow
@@ -18,6 +19,7 @@
  */
 
 import { Card } from "@/components/ui/card";
+import ExportMenu from "@/components/ExportMenu";
 import { ArrowDown, ArrowUp } from "lucide-react";
 
 interface ImpactComparisonProps {
@@ -71,7 +73,10 @@ export default function ImpactComparison({
   
   return (
     <Card className="p-6" data-testid={testId}>
-      <h3 className="text-sm text-muted-foreground mb-6">{title}</h3>
+      <div className="flex justify-between items-start mb-6">
+        <h3 className="text-sm text-muted-foreground">{title}</h3>
+        <ExportMenu path="/api/export/impact-metrics" testId={testId ? `${testId}-export` : undefined} />
+      </div>
       
       {/* BEFORE/AFTER GRID: Two-column comparison of values */}
       <div className="grid grid-cols-2 gap-6 mb-4">
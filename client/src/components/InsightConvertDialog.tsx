@@ -0,0 +1,238 @@
+/**
+ * INSIGHT CONVERT DIALOG
+ *
+ * Turns an insight into a priority item:
+ * - The form is prefilled by the server from the insight (title, description,
+ *   impact from its priority, category from what it is about, rank after the last item)
+ * - The analyst adjusts the fields, adds an optional reason and converts
+ * - The new item appears in the priority list and matrix; the insight is
+ *   marked converted and linked to it
+ *
+ * USAGE: AI insights section on the Prioritization page (analysts and admins)
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type { AIInsight, ConvertInsight, InsertPriorityItem } from "@shared/schema";
+
+// Same categories as the Manage page priority form
+const CATEGORIES = ["Product", "Support", "Engineering", "Content", "Marketing"];
+
+interface InsightConvertDialogProps {
+  insight: AIInsight | null; // Insight being converted (null = closed)
+  onClose: () => void;
+}
+
+// Form values as typed (numbers are parsed on submit)
+interface ConvertForm {
+  title: string;
+  description: string;
+  impact: string;
+  effort: string;
+  category: string;
+  rank: string;
+  reason: string;
+}
+
+export default function InsightConvertDialog({ insight, onClose }: InsightConvertDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ConvertForm | null>(null);
+
+  // Fetch the prefilled fields each time the dialog opens
+  const { data: draft, isLoading } = useQuery<InsertPriorityItem>({
+    queryKey: ["/api/ai-insights", insight?.id, "priority-draft"],
+    enabled: !!insight,
+    staleTime: 0,
+  });
+
+  // Start from the draft once it arrives
+  useEffect(() => {
+    if (!insight) {
+      setForm(null);
+    } else if (draft) {
+      setForm({
+        title: draft.title,
+        description: draft.description,
+        impact: String(draft.impact),
+        effort: String(draft.effort),
+        category: draft.category,
+        rank: String(draft.rank),
+        reason: "",
+      });
+    }
+  }, [insight, draft]);
+
+  const convertMutation = useMutation({
+    mutationFn: async (data: ConvertInsight) => {
+      return await apiRequest("POST", `/api/ai-insights/${insight!.id}/convert`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-insights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/priority-items"] });
+      toast({ title: "Success", description: "Insight converted to a priority item" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  /**
+   * SUBMIT
+   */
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    convertMutation.mutate({
+      title: form.title,
+      description: form.description,
+      impact: parseInt(form.impact), // Convert to number
+      effort: parseInt(form.effort), // Convert to number
+      category: form.category,
+      rank: parseInt(form.rank), // Convert to number
+      reason: form.reason.trim() || undefined,
+    });
+  };
+
+  const update = (changes: Partial<ConvertForm>) => form && setForm({ ...form, ...changes });
+
+  return (
+    <Dialog open={insight !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg" data-testid="dialog-convert-insight">
+        <DialogHeader>
+          <DialogTitle>Convert to Priority Item</DialogTitle>
+          <DialogDescription>
+            Prefilled from the insight; review the scores before adding it to the priority list.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !form ? (
+          <div className="h-64 rounded-lg bg-muted/20 animate-pulse" />
+        ) : (
+          <form id="convert-insight-form" onSubmit={submit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="convert-title">Title</Label>
+              <Input
+                id="convert-title"
+                value={form.title}
+                onChange={(e) => update({ title: e.target.value })}
+                required
+                data-testid="input-convert-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="convert-description">Description</Label>
+              <Textarea
+                id="convert-description"
+                value={form.description}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={5}
+                required
+                data-testid="input-convert-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="convert-impact">Impact (1-10)</Label>
+                <Input
+                  id="convert-impact"
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={form.impact}
+                  onChange={(e) => update({ impact: e.target.value })}
+                  required
+                  data-testid="input-convert-impact"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="convert-effort">Effort (1-10)</Label>
+                <Input
+                  id="convert-effort"
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={form.effort}
+                  onChange={(e) => update({ effort: e.target.value })}
+                  required
+                  data-testid="input-convert-effort"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="convert-category">Category</Label>
+                <Select value={form.category} onValueChange={(category) => update({ category })}>
+                  <SelectTrigger id="convert-category" data-testid="select-convert-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="convert-rank">Rank</Label>
+                <Input
+                  id="convert-rank"
+                  type="number"
+                  min="1"
+                  value={form.rank}
+                  onChange={(e) => update({ rank: e.target.value })}
+                  required
+                  data-testid="input-convert-rank"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="convert-reason">Reason (optional)</Label>
+              <Input
+                id="convert-reason"
+                value={form.reason}
+                onChange={(e) => update({ reason: e.target.value })}
+                placeholder="Why this is worth doing"
+                maxLength={500}
+                data-testid="input-convert-reason"
+              />
+            </div>
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            form="convert-insight-form"
+            disabled={!form || convertMutation.isPending}
+            data-testid="button-confirm-convert"
+          >
+            {convertMutation.isPending ? "Converting..." : "Convert"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+/**
+ * INSIGHT EVIDENCE COMPONENT
+ *
+ * What an insight is based on, shown in its View Details dialog so analysts
+ * can judge the recommendation:
+ * - Key numbers: the metrics the insight cites, next to what they are compared with
+ * - Trend: daily volume and sentiment of the insight's topic, region or source
+ * - Regions: where the feedback came from, with negative counts
+ * - Quotes: the cited feedback entries, strongest first
+ *
+ * Insights written by hand have no evidence.
+ *
+ * DATA FLOW:
+ * - /api/ai-insights/:id/evidence (days are cut in the browser's time zone)
+ */
+
+import { useEffect, useRef } from "react";
+import { Chart, registerables } from "chart.js";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { BarChart3, MapPin, Quote, TrendingUp } from "lucide-react";
+import { formatCount } from "@/lib/format";
+import type { InsightEvidenceDetail, InsightMetric, InsightMetricEvidence } from "@shared/schema";
+
+Chart.register(...registerables);
+
+// Browser time zone, so days match the user's calendar
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Colors per sentiment (same as the channel detail chart)
+const SENTIMENT_COLORS = {
+  positive: "hsl(142, 71%, 45%)",
+  neutral: "hsl(220, 9%, 66%)",
+  negative: "hsl(0, 84%, 60%)",
+};
+
+const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+
+const METRIC_LABELS: Record<InsightMetric, string> = {
+  volume: "Entries",
+  negative: "Negative mentions",
+  negative_share: "Negative share",
+  average_sentiment: "Average sentiment",
+};
+
+/**
+ * FORMAT METRIC
+ * Shares as percentages, sentiment on the 0-10 scale, counts as counts
+ */
+function formatMetric(metric: InsightMetric, value: number): string {
+  switch (metric) {
+    case "negative_share":
+      return `${Math.round(value * 100)}%`;
+    case "average_sentiment":
+      return `${value.toFixed(1)}/10`;
+    default:
+      return formatCount(Math.round(value * 10) / 10);
+  }
+}
+
+interface InsightEvidenceProps {
+  insightId: string;
+}
+
+export default function InsightEvidence({ insightId }: InsightEvidenceProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  // Fetch the insight's evidence using custom queryFn
+  const { data: evidence, isLoading, error } = useQuery<InsightEvidenceDetail>({
+    queryKey: ["/api/ai-insights", insightId, "evidence", timeZone],
+    queryFn: async () => {
+      const params = new URLSearchParams({ tz: timeZone });
+      const response = await fetch(`/api/ai-insights/${insightId}/evidence?${params}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+  });
+
+  const trend = evidence?.trend ?? null;
+
+  // CHART LIFECYCLE: Create/update the trend chart when data changes, cleanup on unmount
+  useEffect(() => {
+    if (!chartRef.current || !trend) return;
+
+    const ctx = chartRef.current.getContext("2d");
+    if (!ctx) return;
+
+    // Destroy previous chart instance to prevent memory leaks
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    chartInstance.current = new Chart(ctx, {
+      type: "bar",
+      data: {
+        labels: trend.daily.map((day) => format(parseISO(day.date), "MMM d")),
+        datasets: SENTIMENTS.map((sentiment) => ({
+          label: sentiment.charAt(0).toUpperCase() + sentiment.slice(1),
+          data: trend.daily.map((day) => day[sentiment]),
+          backgroundColor: SENTIMENT_COLORS[sentiment],
+          borderRadius: 2,
+        })),
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: false,
+          },
+          tooltip: {
+            backgroundColor: "hsl(0, 0%, 12%)",
+            padding: 8,
+            titleColor: "hsl(0, 0%, 98%)",
+            bodyColor: "hsl(0, 0%, 98%)",
+          },
+        },
+        scales: {
+          y: {
+            beginAtZero: true,
+            stacked: true,
+            grid: {
+              color: "hsl(0, 0%, 88%)",
+            },
+            ticks: {
+              color: "hsl(221, 6%, 40%)",
+              precision: 0,
+              maxTicksLimit: 4,
+            },
+          },
+          x: {
+            stacked: true,
+            grid: {
+              display: false,
+            },
+            ticks: {
+              color: "hsl(221, 6%, 40%)",
+              maxTicksLimit: 6,
+            },
+          },
+        },
+      },
+    });
+
+    return () => {
+      chartInstance.current?.destroy();
+      chartInstance.current = null;
+    };
+  }, [trend]);
+
+  if (isLoading) {
+    return <div className="h-48 rounded-lg bg-muted/20 animate-pulse" />;
+  }
+  if (error || !evidence) {
+    return <p className="text-sm text-muted-foreground">Failed to load the evidence for this insight</p>;
+  }
+
+  const hasEvidence =
+    evidence.feedback.length > 0 || evidence.regions.length > 0 || evidence.metrics.length > 0;
+  if (!hasEvidence) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid={`text-no-evidence-${insightId}`}>
+        No evidence recorded for this insight (written by hand)
+      </p>
+    );
+  }
+
+  const maxRegionCount = Math.max(1, ...evidence.regions.map((region) => region.count));
+  const comparison = (metric: InsightMetricEvidence) =>
+    metric.baselineValue === null
+      ? null
+      : `vs ${formatMetric(metric.metric, metric.baselineValue)}${metric.baselineLabel ? ` (${metric.baselineLabel})` : ""}`;
+
+  return (
+    <div className="space-y-6" data-testid={`evidence-${insightId}`}>
+      {/* Key Numbers */}
+      {evidence.metrics.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <BarChart3 className="w-4 h-4 text-muted-foreground" />
+            <h4 className="font-semibold text-sm">Key Numbers</h4>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {evidence.metrics.map((metric, index) => (
+              <div key={index} className="p-3 rounded-lg border" data-testid={`evidence-metric-${metric.metric}`}>
+                <div className="text-xs text-muted-foreground">{METRIC_LABELS[metric.metric]}</div>
+                <div className="text-lg font-semibold">{formatMetric(metric.metric, metric.value)}</div>
+                {comparison(metric) && (
+                  <div className="text-xs text-muted-foreground">{comparison(metric)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Trend */}
+      {trend && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <TrendingUp className="w-4 h-4 text-muted-foreground" />
+            <h4 className="font-semibold text-sm">
+              {trend.label}: last {trend.days} days
+            </h4>
+          </div>
+          <div className="h-32" data-testid="chart-evidence-trend">
+            <canvas ref={chartRef} />
+          </div>
+        </div>
+      )}
+
+      {/* Regions */}
+      {evidence.regions.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <MapPin className="w-4 h-4 text-muted-foreground" />
+            <h4 className="font-semibold text-sm">Regions</h4>
+          </div>
+          <div className="space-y-2">
+            {evidence.regions.map((region) => (
+              <div key={region.region} data-testid={`evidence-region-${region.region}`}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span>{region.region}</span>
+                  <span className="text-muted-foreground">
+                    {formatCount(region.count)} entries, {formatCount(region.negativeCount)} negative
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{
+                      width: `${(region.negativeCount / maxRegionCount) * 100}%`,
+                      backgroundColor: SENTIMENT_COLORS.negative,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Quotes */}
+      {evidence.feedback.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <Quote className="w-4 h-4 text-muted-foreground" />
+            <h4 className="font-semibold text-sm">What Customers Said</h4>
+          </div>
+          <div className="space-y-3">
+            {evidence.feedback.map((entry) => (
+              <blockquote
+                key={entry.id}
+                className="border-l-2 border-destructive/50 pl-3"
+                data-testid={`evidence-feedback-${entry.id}`}
+              >
+                <p className="text-sm">"{entry.text}"</p>
+                <footer className="text-xs text-muted-foreground mt-1">
+                  {entry.source} · {entry.region} · {format(new Date(entry.timestamp), "MMM d, yyyy")}
+                  {entry.sentimentScore !== null && ` · ${entry.sentimentScore}/10`}
+                </footer>
+              </blockquote>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
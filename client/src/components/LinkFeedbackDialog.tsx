@@ -0,0 +1,115 @@
+/**
+ * LINK FEEDBACK DIALOG
+ *
+ * Attaches the feedback entries selected in the Feedback explorer to a
+ * priority item, so the item shows the customer demand behind it.
+ * Entries already attached to the chosen item are skipped.
+ *
+ * USAGE: Feedback explorer page (analysts and admins)
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type { LinkPriorityFeedback, PriorityItem } from "@shared/schema";
+
+interface LinkFeedbackDialogProps {
+  feedbackIds: string[]; // Selected entries
+  open: boolean;
+  onClose: () => void;
+  onLinked: () => void; // Called after linking (e.g., to clear the selection)
+}
+
+export default function LinkFeedbackDialog({ feedbackIds, open, onClose, onLinked }: LinkFeedbackDialogProps) {
+  const { toast } = useToast();
+  const [itemId, setItemId] = useState("");
+
+  const { data: items } = useQuery<PriorityItem[]>({
+    queryKey: ["/api/priority-items"],
+    enabled: open,
+  });
+  const sortedItems = [...(items ?? [])].sort((a, b) => a.rank - b.rank);
+
+  const linkMutation = useMutation({
+    mutationFn: async (data: LinkPriorityFeedback) => {
+      const response = await apiRequest("POST", `/api/priority-items/${itemId}/feedback`, data);
+      return (await response.json()) as { linked: number };
+    },
+    onSuccess: ({ linked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/priority-items"] });
+      const title = items?.find((item) => item.id === itemId)?.title ?? "the priority item";
+      const skipped = feedbackIds.length - linked;
+      toast({
+        title: "Success",
+        description:
+          `${linked} ${linked === 1 ? "entry" : "entries"} linked to "${title}"` +
+          (skipped > 0 ? ` (${skipped} already linked or deleted)` : ""),
+      });
+      setItemId("");
+      onLinked();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent data-testid="dialog-link-feedback">
+        <DialogHeader>
+          <DialogTitle>Link to Priority Item</DialogTitle>
+          <DialogDescription>
+            The {feedbackIds.length === 1 ? "selected entry counts" : `${feedbackIds.length} selected entries count`} as
+            customer demand for the item you choose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="link-priority-item">Priority item</Label>
+          <Select value={itemId} onValueChange={setItemId}>
+            <SelectTrigger id="link-priority-item" data-testid="select-link-priority-item">
+              <SelectValue placeholder="Choose a priority item..." />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedItems.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.rank}. {item.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => linkMutation.mutate({ feedbackIds })}
+            disabled={!itemId || linkMutation.isPending}
+            data-testid="button-confirm-link-feedback"
+          >
+            {linkMutation.isPending ? "Linking..." : "Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
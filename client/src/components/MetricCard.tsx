@@ -5,6 +5,7 @@
  * - Title (e.g., "Average Sentiment")
  * - Current value (e.g., "7.8")
  * - Percentage change from previous period with trend arrow (up/down)
+ * - "n/a" instead of a change when the previous period has no data
  * - Icon representing the metric type
  * 
  * USAGE: Dashboard page showing 4 main metrics
@@ -21,12 +22,13 @@ import { LucideIcon, TrendingUp, TrendingDown } from "lucide-react";
 interface MetricCardProps {
   title: string;
   value: string;
-  change?: number;
+  change?: number | null; // null = previous period has no data
+  changeLabel?: string; // Comparison period (e.g., "vs previous 30 days")
   icon: LucideIcon;
   testId?: string;
 }
 
-export default function MetricCard({ title, value, change, icon: Icon, testId }: MetricCardProps) {
+export default function MetricCard({ title, value, change, changeLabel, icon: Icon, testId }: MetricCardProps) {
   const isPositive = change && change > 0;
   const isNegative = change && change < 0;
 
@@ -45,8 +47,11 @@ export default function MetricCard({ title, value, change, icon: Icon, testId }:
               {isPositive && <TrendingUp className="w-4 h-4" />}
               {isNegative && <TrendingDown className="w-4 h-4" />}
               <span data-testid={`${testId}-change`}>
-                {change > 0 ? "+" : ""}{change}%
+                {change === null ? "n/a" : `${change > 0 ? "+" : ""}${change}%`}
               </span>
+              {changeLabel && (
+                <span className="text-xs font-normal text-muted-foreground">{changeLabel}</span>
+              )}
             </div>
           )}
         </div>
@@ -3,25 +3,61 @@
  * 
  * Fixed top navigation with:
  * - Logo and brand name on the left
- * - Navigation tabs on the right (Dashboard, Prioritization, Impact Tracker, Manage, Information)
+ * - Navigation tabs on the right (Dashboard, Prioritization, Impact Tracker, Feedback, Alerts, Manage, Users, Audit, Webhooks, Information)
+ * - Tabs the signed-in user's role can't open are hidden (see canAccess)
  * - Active tab highlighting based on current route
+ * - Live updates indicator (green while connected to /api/live)
+ * - Signed-in username and sign-out button
  * - Responsive design (hides labels on mobile, shows on tablet+)
  */
 
 import { Link, useLocation } from "wouter";
-import { BarChart3, Target, TrendingUp, Settings, Info } from "lucide-react";
+import { BarChart3, Target, TrendingUp, MessageSquare, Bell, Settings, Users, History, Webhook, Info, LogOut } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CURRENT_USER_KEY, canAccess, useAuth } from "@/hooks/use-auth";
+import type { LiveStatus } from "@/hooks/use-live-updates";
 
-export default function Navigation() {
+// Live indicator dot color and tooltip per connection status
+const LIVE_STATUS_DISPLAY: Record<LiveStatus, { dot: string; title: string }> = {
+  live: { dot: "bg-green-500", title: "Live: changes by other users appear automatically" },
+  connecting: { dot: "bg-amber-400", title: "Connecting to live updates..." },
+  offline: { dot: "bg-muted-foreground", title: "Offline: reconnecting to live updates" },
+};
+
+interface NavigationProps {
+  liveStatus: LiveStatus;
+}
+
+export default function Navigation({ liveStatus }: NavigationProps) {
   const [location] = useLocation();
+  const { user } = useAuth();
+
+  // Sign out: drop the current user (the route guard shows the login page)
+  // and every cached query that belonged to the session
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(CURRENT_USER_KEY, null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== CURRENT_USER_KEY[0] });
+    },
+  });
 
   // Navigation tabs configuration
   const tabs = [
     { path: "/", label: "Dashboard", icon: BarChart3 },
     { path: "/prioritization", label: "Prioritization", icon: Target },
     { path: "/impact", label: "Impact Tracker", icon: TrendingUp },
+    { path: "/feedback", label: "Feedback", icon: MessageSquare },
+    { path: "/alerts", label: "Alerts", icon: Bell },
     { path: "/manage", label: "Manage", icon: Settings },
+    { path: "/users", label: "Users", icon: Users },
+    { path: "/audit", label: "Audit", icon: History },
+    { path: "/webhooks", label: "Webhooks", icon: Webhook },
     { path: "/information", label: "Information", icon: Info },
-  ];
+  ].filter((tab) => canAccess(user, tab.path));
 
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-background border-b">
@@ -55,6 +91,35 @@ export default function Navigation() {
                 </Link>
               );
             })}
+
+            {/* USER SECTION: Live indicator, signed-in user and sign-out */}
+            <div className="flex items-center gap-2 pl-4 border-l">
+              <span
+                className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                title={LIVE_STATUS_DISPLAY[liveStatus].title}
+                data-testid="status-live"
+                data-status={liveStatus}
+              >
+                <span
+                  className={`w-2 h-2 rounded-full ${LIVE_STATUS_DISPLAY[liveStatus].dot} ${
+                    liveStatus === "live" ? "animate-pulse" : ""
+                  }`}
+                />
+                <span className="hidden lg:inline">{liveStatus === "live" ? "Live" : "Offline"}</span>
+              </span>
+              <span className="hidden lg:inline text-sm text-muted-foreground" data-testid="text-current-user">
+                {user?.username} ({user?.role})
+              </span>
+              <button
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="flex items-center gap-1 px-2 py-2 text-sm text-muted-foreground hover:text-foreground"
+                data-testid="button-logout"
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,199 @@
+/**
+ * PRIORITY LINKS DIALOG
+ *
+ * The customer voice behind a priority item:
+ * - Topics: recent feedback tagged with a linked topic counts as demand for the item
+ * - Feedback: entries attached one by one (attach them from the Feedback explorer)
+ * Analysts link and unlink topics and detach feedback here; the demand shown
+ * in the priority list (and the score, with the demand boost on) follows.
+ *
+ * USAGE: Prioritization page priority list (analysts and admins)
+ */
+
+import { useState } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type { PriorityItem, PriorityItemLinks } from "@shared/schema";
+
+// Topic as offered by GET /api/topics/taxonomy
+interface TaxonomyTopic {
+  id: string;
+  label: string;
+}
+
+interface PriorityLinksDialogProps {
+  item: PriorityItem | null; // Item whose links are shown (null = closed)
+  onClose: () => void;
+}
+
+export default function PriorityLinksDialog({ item, onClose }: PriorityLinksDialogProps) {
+  const { toast } = useToast();
+  const [topic, setTopic] = useState("");
+
+  const { data: links, isLoading } = useQuery<PriorityItemLinks>({
+    queryKey: ["/api/priority-items", item?.id, "links"],
+    enabled: !!item,
+  });
+
+  const { data: taxonomy } = useQuery<TaxonomyTopic[]>({
+    queryKey: ["/api/topics/taxonomy"],
+    enabled: !!item,
+  });
+
+  // Links change the demand and possibly the ranks of every item
+  const onLinksChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/priority-items"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+  };
+
+  const linkTopicMutation = useMutation({
+    mutationFn: async (topicId: string) => {
+      return await apiRequest("POST", `/api/priority-items/${item!.id}/topics`, { topic: topicId });
+    },
+    onSuccess: () => {
+      setTopic("");
+      onLinksChanged();
+    },
+    onError,
+  });
+
+  const unlinkTopicMutation = useMutation({
+    mutationFn: async (topicId: string) => {
+      return await apiRequest("DELETE", `/api/priority-items/${item!.id}/topics/${topicId}`);
+    },
+    onSuccess: onLinksChanged,
+    onError,
+  });
+
+  const unlinkFeedbackMutation = useMutation({
+    mutationFn: async (feedbackId: string) => {
+      return await apiRequest("DELETE", `/api/priority-items/${item!.id}/feedback/${feedbackId}`);
+    },
+    onSuccess: onLinksChanged,
+    onError,
+  });
+
+  const linkedTopics = new Set(links?.topics.map((link) => link.topic));
+  const topicOptions = (taxonomy ?? []).filter((option) => !linkedTopics.has(option.id));
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-priority-links">
+        <DialogHeader>
+          <DialogTitle>Customer Demand: {item?.title}</DialogTitle>
+          <DialogDescription>
+            Feedback attached to this item and topics whose recent feedback counts as demand for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !links ? (
+          <div className="h-48 rounded-lg bg-muted/20 animate-pulse" />
+        ) : (
+          <div className="space-y-6">
+            {/* Topics */}
+            <div>
+              <h4 className="font-semibold text-sm mb-2">Topics</h4>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {links.topics.length === 0 && (
+                  <span className="text-sm text-muted-foreground">No topics linked</span>
+                )}
+                {links.topics.map((link) => (
+                  <Badge key={link.topic} variant="secondary" className="gap-1" data-testid={`badge-linked-topic-${link.topic}`}>
+                    {link.label}
+                    <button
+                      onClick={() => unlinkTopicMutation.mutate(link.topic)}
+                      disabled={unlinkTopicMutation.isPending}
+                      aria-label={`Unlink ${link.label}`}
+                      data-testid={`button-unlink-topic-${link.topic}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Select value={topic} onValueChange={setTopic}>
+                  <SelectTrigger className="flex-1" data-testid="select-link-topic">
+                    <SelectValue placeholder="Choose a topic..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {topicOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => linkTopicMutation.mutate(topic)}
+                  disabled={!topic || linkTopicMutation.isPending}
+                  data-testid="button-link-topic"
+                >
+                  Link Topic
+                </Button>
+              </div>
+            </div>
+
+            {/* Attached Feedback */}
+            <div>
+              <h4 className="font-semibold text-sm mb-2">Attached Feedback ({links.feedback.length})</h4>
+              {links.feedback.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No feedback attached. Select entries in the{" "}
+                  <Link href="/feedback" className="underline">Feedback explorer</Link> to attach them.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {links.feedback.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className="flex items-start gap-3 border-l-2 pl-3"
+                      data-testid={`linked-feedback-${entry.id}`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm">"{entry.text}"</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {entry.sentiment} · {entry.source} · {entry.region} · {format(new Date(entry.timestamp), "MMM d, yyyy")}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => unlinkFeedbackMutation.mutate(entry.id)}
+                        disabled={unlinkFeedbackMutation.isPending}
+                        aria-label="Detach feedback"
+                        data-testid={`button-unlink-feedback-${entry.id}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
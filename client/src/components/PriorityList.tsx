@@ -7,16 +7,24 @@
  * - Category badge (UX, Performance, Feature, etc.)
  * - Impact score (1-10, higher is better)
  * - Effort score (1-10, higher means more work)
+ * - Score from the workspace's scoring model (RICE or WSJF, see server/scoring.ts);
+ *   hovering it shows the formula and the factors with their weights
+ * - Customer demand: feedback behind the item (attached entries and recent
+ *   feedback on its topics) with the negative share and the regions it came from;
+ *   analysts manage the links from the Links button
  * 
  * FEATURES:
- * - Items sorted by rank (ascending) by default
- * - Sort filter buttons to sort by Impact (high to low) or Effort (low to high)
+ * - Items sorted by rank (ascending) by default; while auto-rank is on, the
+ *   server ranks items by score
+ * - Sort filter buttons to sort by Score, Impact (high to low) or Effort (low to high)
  * - Active button shows which sort is currently applied
  * - Hover elevation for better UX
+ * - Export menu downloads all priority items as CSV/Excel/JSON
  * - Green arrow on impact score indicates positive customer value
  * 
  * SORTING MODES:
  * - "rank" (default): Sort by priority rank (1, 2, 3...)
+ * - "score": Sort by score descending (highest score first)
  * - "impact": Sort by impact score descending (10, 9, 8... - highest impact first)
  * - "effort": Sort by effort score ascending (1, 2, 3... - lowest effort first)
  * 
@@ -25,20 +33,83 @@
 
 import { useState } from "react";
 import { Card } from "@/components/ui/card";
+import ExportMenu from "@/components/ExportMenu";
+import PriorityLinksDialog from "@/components/PriorityLinksDialog";
 import { Badge } from "@/components/ui/badge";
-import { ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ArrowUp, Link2, Users } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import type { PriorityItem } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { formatCount } from "@/lib/format";
+import {
+  hasRole,
+  type CustomerDemand,
+  type ScoreBreakdown,
+  type ScoredPriorityItem,
+  type ScoringModel,
+} from "@shared/schema";
 
 // Define the possible sort modes
-type SortMode = "rank" | "impact" | "effort";
+type SortMode = "rank" | "score" | "impact" | "effort";
+
+const MODEL_LABELS: Record<ScoringModel, string> = {
+  rice: "RICE",
+  wsjf: "WSJF",
+};
+
+/**
+ * SCORE BREAKDOWN
+ * Tooltip content explaining how an item's score was computed
+ */
+function ScoreBreakdownDetails({ breakdown }: { breakdown: ScoreBreakdown }) {
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="font-semibold">{MODEL_LABELS[breakdown.model]} score: {breakdown.score}</div>
+      <div className="text-muted-foreground">{breakdown.formula}</div>
+      {breakdown.factors.map((factor) => (
+        <div key={factor.key} className="flex justify-between gap-4">
+          <span>{factor.label}</span>
+          <span>
+            {factor.value}
+            {factor.weight !== 1 && <span className="text-muted-foreground"> (weight {factor.weight})</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * DESCRIBE DEMAND
+ * One line summary, e.g. "42 customer mentions · 60% negative · Northeast, West"
+ */
+function describeDemand(demand: CustomerDemand): string {
+  if (demand.feedbackCount === 0) {
+    return demand.topics.length > 0 ? "No recent feedback on its topics" : "No linked customer feedback";
+  }
+  const parts = [
+    `${formatCount(demand.feedbackCount)} customer ${demand.feedbackCount === 1 ? "mention" : "mentions"}`,
+    `${Math.round(demand.negativeShare * 100)}% negative`,
+  ];
+  const regions = demand.regions.slice(0, 3).map((region) => region.region);
+  if (regions.length > 0) {
+    parts.push(regions.join(", ") + (demand.regions.length > 3 ? ` +${demand.regions.length - 3}` : ""));
+  }
+  return parts.join(" · ");
+}
 
 export default function PriorityList() {
   // Track current sort mode - defaults to "rank"
   const [sortMode, setSortMode] = useState<SortMode>("rank");
+  const [linksItem, setLinksItem] = useState<ScoredPriorityItem | null>(null);
+
+  // Only analysts can see and change what an item is linked to
+  const { user } = useAuth();
+  const canLink = !!user && hasRole(user.role, "analyst");
 
   // Fetch all priority items from API
-  const { data: priorityData, isLoading } = useQuery<PriorityItem[]>({
+  const { data: priorityData, isLoading } = useQuery<ScoredPriorityItem[]>({
     queryKey: ["/api/priority-items"],
   });
 
@@ -47,6 +118,7 @@ export default function PriorityList() {
    * 
    * This function applies the appropriate sorting logic based on the selected mode:
    * - rank: Sort by priority rank (1, 2, 3...) - default order
+   * - score: Sort by score descending - best value for the effort first
    * - impact: Sort by impact score descending (10, 9, 8...) - show high impact first
    * - effort: Sort by effort score ascending (1, 2, 3...) - show low effort first
    * 
@@ -58,6 +130,10 @@ export default function PriorityList() {
     const items = [...priorityData]; // Create a copy to avoid mutating original data
     
     switch (sortMode) {
+      case "score":
+        // Sort by score descending (highest score first)
+        return items.sort((a, b) => b.scoreBreakdown.score - a.scoreBreakdown.score);
+      
       case "impact":
         // Sort by impact descending (highest impact first)
         return items.sort((a, b) => b.impact - a.impact);
@@ -85,10 +161,22 @@ export default function PriorityList() {
           These buttons change how the priority items are sorted.
           The active button is highlighted with primary background color.
           
+          - By Score: Shows highest scoring items first
           - By Impact: Shows highest impact items first (10, 9, 8...)
           - By Effort: Shows lowest effort items first (1, 2, 3...) - quick wins
         */}
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <button 
+            onClick={() => setSortMode("score")}
+            className={`text-xs px-3 py-1 rounded-md ${
+              sortMode === "score" 
+                ? "bg-primary text-primary-foreground" 
+                : "hover-elevate active-elevate-2"
+            }`}
+            data-testid="button-sort-score"
+          >
+            By Score
+          </button>
           <button 
             onClick={() => setSortMode("impact")}
             className={`text-xs px-3 py-1 rounded-md ${
@@ -111,6 +199,7 @@ export default function PriorityList() {
           >
             By Effort
           </button>
+          <ExportMenu path="/api/export/priority-items" testId="button-export-priority-items" />
         </div>
       </div>
       
@@ -139,15 +228,48 @@ export default function PriorityList() {
               <div className="flex-1 min-w-0">
                 <h4 className="font-medium mb-1">{item.title}</h4>
                 <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
-                <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
                   <Badge variant="secondary" className="text-xs">
                     {item.category}
                   </Badge>
+                  {/* Customer Demand */}
+                  <span
+                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                    data-testid={`text-demand-${item.id}`}
+                  >
+                    <Users className="w-3 h-3" />
+                    {describeDemand(item.demand)}
+                  </span>
+                  {canLink && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setLinksItem(item)}
+                      data-testid={`button-links-${item.id}`}
+                    >
+                      <Link2 className="w-3 h-3 mr-1" />
+                      Links
+                    </Button>
+                  )}
                 </div>
               </div>
               
-              {/* Impact and Effort Scores */}
+              {/* Score, Impact and Effort */}
               <div className="flex gap-4 flex-shrink-0">
+                {/* Score (hover for how it was computed) */}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="text-center cursor-help" data-testid={`text-score-${item.id}`}>
+                      <div className="text-xs text-muted-foreground mb-1">Score</div>
+                      <div className="font-bold">{item.scoreBreakdown.score}</div>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent side="left" className="max-w-xs">
+                    <ScoreBreakdownDetails breakdown={item.scoreBreakdown} />
+                  </TooltipContent>
+                </Tooltip>
+                
                 {/* Impact Score (green arrow indicates positive value) */}
                 <div className="text-center">
                   <div className="text-xs text-muted-foreground mb-1">Impact</div>
@@ -167,6 +289,8 @@ export default function PriorityList() {
           ))}
         </div>
       )}
+
+      <PriorityLinksDialog item={linksItem} onClose={() => setLinksItem(null)} />
     </Card>
   );
 }
@@ -0,0 +1,373 @@
+/**
+ * RECORD MANAGER COMPONENT
+ *
+ * Table of existing records with edit and delete actions, used by the
+ * Manage page tabs (feedback, priority items, AI insights, metrics, channels):
+ * - Edit: dialog with one input per configured field; only changed fields
+ *   are sent (PATCH {endpoint}/{id})
+ * - Delete: confirmation dialog before DELETE {endpoint}/{id}
+ *
+ * After a change, the endpoint's queries and any extra invalidateKeys
+ * (e.g., dashboard aggregates derived from the records) are refetched.
+ *
+ * USAGE: Manage page
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { Pencil, Trash2 } from "lucide-react";
+
+// Column shown in the records table
+export interface RecordColumn<T> {
+  header: string;
+  cell: (record: T) => React.ReactNode;
+  className?: string;
+}
+
+// Editable field in the edit dialog
+// - integer values are sent as numbers; everything else as strings
+// - optional fields are sent as null when cleared
+export interface RecordField {
+  key: string;
+  label: string;
+  type: "text" | "textarea" | "integer" | "decimal" | "date" | "select";
+  options?: { value: string; label: string }[]; // For type "select"
+  optional?: boolean;
+}
+
+interface RecordManagerProps<T extends { id: string }> {
+  title: string; // Card heading (e.g., "Priority Items")
+  entityLabel: string; // Singular name for dialogs and toasts (e.g., "priority item")
+  endpoint: string; // Collection endpoint (e.g., "/api/priority-items")
+  records: T[] | undefined;
+  isLoading: boolean;
+  columns: RecordColumn<T>[];
+  fields: RecordField[];
+  invalidateKeys?: string[]; // Other queries affected by changes
+  deleteDescription?: string; // Delete confirmation text (default: deletion is permanent)
+  testId: string;
+}
+
+/**
+ * To Form Values
+ * Turns a record's editable fields into input strings
+ */
+const toFormValues = (record: object, fields: RecordField[]) => {
+  const values: Record<string, string> = {};
+  for (const field of fields) {
+    const value = (record as Record<string, unknown>)[field.key];
+    values[field.key] = value === null || value === undefined ? "" : String(value);
+  }
+  return values;
+};
+
+/**
+ * Build Changes
+ * Compares edited values with the original ones and converts the changed
+ * fields to the types the API expects
+ */
+const buildChanges = (
+  original: Record<string, string>,
+  edited: Record<string, string>,
+  fields: RecordField[],
+) => {
+  const changes: Record<string, string | number | null> = {};
+  for (const field of fields) {
+    const value = edited[field.key];
+    if (value === original[field.key]) continue;
+
+    if (field.optional && value.trim() === "") {
+      changes[field.key] = null;
+    } else if (field.type === "integer") {
+      changes[field.key] = parseInt(value, 10);
+    } else {
+      changes[field.key] = value;
+    }
+  }
+  return changes;
+};
+
+export default function RecordManager<T extends { id: string }>({
+  title,
+  entityLabel,
+  endpoint,
+  records,
+  isLoading,
+  columns,
+  fields,
+  invalidateKeys = [],
+  deleteDescription = "This cannot be undone.",
+  testId,
+}: RecordManagerProps<T>) {
+  const { toast } = useToast();
+
+  // Record being edited (with its original and edited form values)
+  const [editing, setEditing] = useState<T | null>(null);
+  const [original, setOriginal] = useState<Record<string, string>>({});
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Record waiting for delete confirmation
+  const [deleting, setDeleting] = useState<T | null>(null);
+
+  const refresh = () => {
+    for (const key of [endpoint, ...invalidateKeys]) {
+      queryClient.invalidateQueries({ queryKey: [key] });
+    }
+  };
+
+  // ============================================================================
+  // Update Mutation
+  // ============================================================================
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Record<string, unknown> }) => {
+      return await apiRequest("PATCH", `${endpoint}/${id}`, changes);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: `Updated ${entityLabel}` });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      // Show the server's reason (e.g., a rank typed while ranking by score)
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // ============================================================================
+  // Delete Mutation
+  // ============================================================================
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `${endpoint}/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: `Deleted ${entityLabel}` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: `Failed to delete ${entityLabel}`, variant: "destructive" });
+    },
+    onSettled: () => setDeleting(null),
+  });
+
+  /**
+   * OPEN EDITOR
+   */
+  const openEditor = (record: T) => {
+    const formValues = toFormValues(record, fields);
+    setOriginal(formValues);
+    setValues(formValues);
+    setEditing(record);
+  };
+
+  /**
+   * HANDLE SAVE
+   * Sends only the changed fields; closes without a request when nothing changed
+   */
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const changes = buildChanges(original, values, fields);
+    if (Object.keys(changes).length === 0) {
+      setEditing(null);
+      return;
+    }
+    updateMutation.mutate({ id: editing.id, changes });
+  };
+
+  /**
+   * RENDER FIELD INPUT
+   */
+  const renderInput = (field: RecordField) => {
+    const id = `${testId}-field-${field.key}`;
+    const value = values[field.key] ?? "";
+    const setValue = (next: string) => setValues((current) => ({ ...current, [field.key]: next }));
+
+    if (field.type === "textarea") {
+      return (
+        <Textarea
+          id={id}
+          data-testid={id}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="mt-2"
+          required={!field.optional}
+        />
+      );
+    }
+    if (field.type === "select") {
+      return (
+        <Select value={value} onValueChange={setValue}>
+          <SelectTrigger id={id} data-testid={id} className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        id={id}
+        data-testid={id}
+        type={field.type === "integer" || field.type === "decimal" ? "number" : field.type === "date" ? "date" : "text"}
+        step={field.type === "decimal" ? "0.1" : undefined}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="mt-2"
+        required={!field.optional}
+      />
+    );
+  };
+
+  return (
+    <Card className="p-6" data-testid={testId}>
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map((column) => (
+              <TableHead key={column.header} className={column.className}>{column.header}</TableHead>
+            ))}
+            <TableHead className="w-24 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={columns.length + 1} className="text-center text-sm text-muted-foreground">
+                Loading...
+              </TableCell>
+            </TableRow>
+          ) : !records || records.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columns.length + 1} className="text-center text-sm text-muted-foreground">
+                No {entityLabel} records yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            records.map((record) => (
+              <TableRow key={record.id} data-testid={`${testId}-row-${record.id}`}>
+                {columns.map((column) => (
+                  <TableCell key={column.header} className={column.className}>{column.cell(record)}</TableCell>
+                ))}
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => openEditor(record)}
+                    data-testid={`${testId}-edit-${record.id}`}
+                    title={`Edit ${entityLabel}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting(record)}
+                    data-testid={`${testId}-delete-${record.id}`}
+                    title={`Delete ${entityLabel}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {/* Edit Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {entityLabel}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            {fields.map((field) => (
+              <div key={field.key}>
+                <Label htmlFor={`${testId}-field-${field.key}`}>{field.label}</Label>
+                {renderInput(field)}
+              </div>
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" data-testid={`${testId}-save`} disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this {entityLabel}?</AlertDialogTitle>
+            <AlertDialogDescription>{deleteDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault(); // Keep the dialog open until the request finishes
+                if (deleting) deleteMutation.mutate(deleting.id);
+              }}
+              disabled={deleteMutation.isPending}
+              data-testid={`${testId}-confirm-delete`}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
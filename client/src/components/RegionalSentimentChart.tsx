@@ -1,36 +1,66 @@
 /**
  * REGIONAL SENTIMENT CHART COMPONENT
- * 
- * Bar chart showing average sentiment scores by U.S. region:
+ *
+ * Bar chart showing sentiment by U.S. region, aggregated from feedback:
  * - Northeast, Southeast, Midwest, Southwest, West
- * - Scores range from 0-10 (higher is better)
- * - Data refreshed every 30 days
- * 
+ * - Window selector (7D, 30D, 90D) - only feedback from that window counts
+ * - Two display modes:
+ *   - Score: average sentiment score per region (0-10, higher is better)
+ *   - Breakdown: stacked positive/neutral/negative feedback counts per region
+ * - Tooltips show the number of feedback entries behind each bar
+ *
  * CHART CONFIGURATION:
  * - Built with Chart.js for interactive, responsive visualization
  * - Auto-destroys and recreates chart when data updates (prevents memory leaks)
  * - Rounded bar corners with primary blue coloring
- * - Hidden legend (only one dataset)
+ * - Legend only in breakdown mode (one dataset per sentiment)
+ *
+ * EXPORT: Header menu downloads the regional data for the selected window as CSV/Excel/JSON
  */
 
 import { Card } from "@/components/ui/card";
-import { useEffect, useRef } from "react";
+import ExportMenu from "@/components/ExportMenu";
+import { useEffect, useRef, useState } from "react";
 import { Chart, registerables } from "chart.js";
 import { useQuery } from "@tanstack/react-query";
-import type { RegionalSentiment } from "@shared/schema";
+import {
+  regionalSentimentWindows,
+  type RegionalSentiment,
+  type RegionalSentimentWindow,
+} from "@shared/schema";
 
 Chart.register(...registerables);
 
+type DisplayMode = "score" | "breakdown";
+
+// Bar colors per sentiment in breakdown mode
+const BREAKDOWN_COLORS = {
+  positive: "hsl(142, 71%, 45%)",
+  neutral: "hsl(220, 9%, 66%)",
+  negative: "hsl(0, 84%, 60%)",
+};
+
 export default function RegionalSentimentChart() {
   const chartRef = useRef<HTMLCanvasElement>(null);
   const chartInstance = useRef<Chart | null>(null);
 
-  // Fetch regional sentiment data from API
+  // Selected time window (default: 30 days) and display mode
+  const [windowDays, setWindowDays] = useState<RegionalSentimentWindow>(30);
+  const [mode, setMode] = useState<DisplayMode>("score");
+
+  // Fetch regional sentiment for the selected window using custom queryFn
   const { data: regionalData, isLoading } = useQuery<RegionalSentiment[]>({
-    queryKey: ["/api/regional-sentiment"],
+    queryKey: ["/api/regional-sentiment", windowDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/regional-sentiment?days=${windowDays}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
   });
 
-  // CHART LIFECYCLE: Create/update chart when data changes, cleanup on unmount
+  // CHART LIFECYCLE: Create/update chart when data or mode changes, cleanup on unmount
   useEffect(() => {
     if (!chartRef.current || !regionalData || regionalData.length === 0) return;
 
@@ -42,30 +72,40 @@ export default function RegionalSentimentChart() {
       chartInstance.current.destroy();
     }
 
-    // Extract labels and data from API response
+    // Extract labels and datasets from API response
     const labels = regionalData.map((r) => r.region);
-    const data = regionalData.map((r) => parseFloat(r.sentimentScore));
+    const isBreakdown = mode === "breakdown";
 
-    // Create new bar chart
-    chartInstance.current = new Chart(ctx, {
-      type: "bar",
-      data: {
-        labels,
-        datasets: [
+    const datasets = isBreakdown
+      ? (["positive", "neutral", "negative"] as const).map((sentiment) => ({
+          label: sentiment.charAt(0).toUpperCase() + sentiment.slice(1),
+          data: regionalData.map((r) => r[sentiment]),
+          backgroundColor: BREAKDOWN_COLORS[sentiment],
+          borderRadius: 6,
+        }))
+      : [
           {
             label: "Average Sentiment Score",
-            data,
+            data: regionalData.map((r) => parseFloat(r.sentimentScore)),
             backgroundColor: "hsl(221, 83%, 53%)",
             borderRadius: 6,
           },
-        ],
+        ];
+
+    // Create new bar chart
+    chartInstance.current = new Chart(ctx, {
+      type: "bar",
+      data: {
+        labels,
+        datasets,
       },
       options: {
         responsive: true,
         maintainAspectRatio: false,
         plugins: {
           legend: {
-            display: false,
+            display: isBreakdown,
+            position: "bottom",
           },
           tooltip: {
             backgroundColor: "hsl(0, 0%, 12%)",
@@ -74,12 +114,20 @@ export default function RegionalSentimentChart() {
             bodyColor: "hsl(0, 0%, 98%)",
             borderColor: "hsl(0, 0%, 18%)",
             borderWidth: 1,
+            callbacks: {
+              // Show how much feedback each region's numbers are based on
+              footer: (items) => {
+                const region = regionalData[items[0]?.dataIndex ?? 0];
+                return region ? `${region.volume} feedback entries` : "";
+              },
+            },
           },
         },
         scales: {
           y: {
             beginAtZero: true,
-            max: 10,
+            max: isBreakdown ? undefined : 10,
+            stacked: isBreakdown,
             grid: {
               color: "hsl(0, 0%, 88%)",
             },
@@ -88,6 +136,7 @@ export default function RegionalSentimentChart() {
             },
           },
           x: {
+            stacked: isBreakdown,
             grid: {
               display: false,
             },
@@ -105,22 +154,66 @@ export default function RegionalSentimentChart() {
         chartInstance.current.destroy();
       }
     };
-  }, [regionalData]);
+  }, [regionalData, mode]);
 
   return (
     <Card className="p-6" data-testid="chart-regional-sentiment">
-      {/* Chart Header */}
-      <div className="flex justify-between items-center mb-4">
+      {/* Chart Header with Mode and Window Selectors */}
+      <div className="flex justify-between items-center mb-4 gap-2 flex-wrap">
         <h3 className="text-lg font-semibold">Sentiment by U.S. Region</h3>
-        <span className="text-xs text-muted-foreground">Last 30 days</span>
+        <div className="flex items-center gap-2 flex-wrap">
+          {/* Display Mode Buttons */}
+          {(["score", "breakdown"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`text-xs px-3 py-1 rounded-md ${
+                mode === option
+                  ? "bg-primary text-primary-foreground"
+                  : "hover-elevate active-elevate-2"
+              }`}
+              data-testid={`button-regional-mode-${option}`}
+            >
+              {option === "score" ? "Score" : "Breakdown"}
+            </button>
+          ))}
+
+          <span className="w-px h-4 bg-border" />
+
+          {/* Time Window Buttons */}
+          {regionalSentimentWindows.map((days) => (
+            <button
+              key={days}
+              onClick={() => setWindowDays(days)}
+              className={`text-xs px-3 py-1 rounded-md ${
+                windowDays === days
+                  ? "bg-primary text-primary-foreground"
+                  : "hover-elevate active-elevate-2"
+              }`}
+              data-testid={`button-regional-window-${days}d`}
+            >
+              {days}D
+            </button>
+          ))}
+
+          <ExportMenu
+            path="/api/export/regional-sentiment"
+            params={{ days: String(windowDays) }}
+            testId="button-export-regional-sentiment"
+          />
+        </div>
       </div>
 
-      {/* Chart Canvas or Loading State */}
+      {/* Chart Canvas, Loading or Empty State */}
       <div className="h-80">
         {isLoading ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-sm text-muted-foreground">Loading chart data...</div>
           </div>
+        ) : !regionalData || regionalData.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-sm text-muted-foreground">No feedback in the last {windowDays} days</div>
+          </div>
         ) : (
           <canvas ref={chartRef} />
         )}
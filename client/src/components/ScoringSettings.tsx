@@ -0,0 +1,265 @@
+/**
+ * SCORING SETTINGS COMPONENT
+ *
+ * Workspace settings for how priority items are scored (see server/scoring.ts):
+ * - Model: RICE (Reach × Impact × Confidence ÷ Effort) or WSJF (cost of
+ *   delay ÷ job size)
+ * - Weights: RICE factors are raised to their weight (1 = plain RICE, 0 =
+ *   ignored); WSJF cost of delay parts are multiplied by theirs
+ * - Auto-rank: while on, the server ranks items by score and typed ranks are ignored
+ * - Demand boost: while on, customer demand (linked feedback and topics) raises RICE impact
+ *
+ * Saving rescores every item; the priority list and matrix update live.
+ *
+ * USAGE: Manage page priority items tab (analysts and admins)
+ */
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type {
+  RiceWeights,
+  ScoringModel,
+  ScoringSettings as ScoringSettingsRecord,
+  UpdateScoringSettings,
+  WsjfWeights,
+} from "@shared/schema";
+
+// Weight inputs per model, with the largest weight the server accepts
+const RICE_WEIGHT_FIELDS: { key: keyof RiceWeights; label: string }[] = [
+  { key: "reach", label: "Reach" },
+  { key: "impact", label: "Impact" },
+  { key: "confidence", label: "Confidence" },
+  { key: "effort", label: "Effort" },
+];
+const RICE_MAX_WEIGHT = 3;
+
+const WSJF_WEIGHT_FIELDS: { key: keyof WsjfWeights; label: string }[] = [
+  { key: "businessValue", label: "Business value" },
+  { key: "timeCriticality", label: "Time criticality" },
+  { key: "riskReduction", label: "Risk reduction" },
+];
+const WSJF_MAX_WEIGHT = 10;
+
+// Form values as typed (weights are parsed on save)
+interface SettingsForm {
+  model: ScoringModel;
+  autoRank: boolean;
+  demandBoost: boolean;
+  riceWeights: Record<keyof RiceWeights, string>;
+  wsjfWeights: Record<keyof WsjfWeights, string>;
+}
+
+/**
+ * TO FORM
+ * Saved settings as form values
+ */
+function toForm(settings: ScoringSettingsRecord): SettingsForm {
+  const { riceWeights, wsjfWeights } = settings;
+  return {
+    model: settings.model as ScoringModel,
+    autoRank: settings.autoRank,
+    demandBoost: settings.demandBoost,
+    riceWeights: {
+      reach: String(riceWeights.reach),
+      impact: String(riceWeights.impact),
+      confidence: String(riceWeights.confidence),
+      effort: String(riceWeights.effort),
+    },
+    wsjfWeights: {
+      businessValue: String(wsjfWeights.businessValue),
+      timeCriticality: String(wsjfWeights.timeCriticality),
+      riskReduction: String(wsjfWeights.riskReduction),
+    },
+  };
+}
+
+export default function ScoringSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  const { data: settings, isLoading } = useQuery<ScoringSettingsRecord>({
+    queryKey: ["/api/scoring-settings"],
+  });
+
+  // Start from the saved settings (and follow saves made elsewhere)
+  useEffect(() => {
+    if (settings) {
+      setForm(toForm(settings));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateScoringSettings) => {
+      return await apiRequest("PATCH", "/api/scoring-settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/priority-items"] });
+      toast({ title: "Success", description: "Scoring settings saved; priority items were rescored" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  /**
+   * SUBMIT
+   */
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    const { riceWeights, wsjfWeights } = form;
+    saveMutation.mutate({
+      model: form.model,
+      autoRank: form.autoRank,
+      demandBoost: form.demandBoost,
+      riceWeights: {
+        reach: parseFloat(riceWeights.reach), // Convert to number
+        impact: parseFloat(riceWeights.impact),
+        confidence: parseFloat(riceWeights.confidence),
+        effort: parseFloat(riceWeights.effort),
+      },
+      wsjfWeights: {
+        businessValue: parseFloat(wsjfWeights.businessValue),
+        timeCriticality: parseFloat(wsjfWeights.timeCriticality),
+        riskReduction: parseFloat(wsjfWeights.riskReduction),
+      },
+    });
+  };
+
+  const update = (changes: Partial<SettingsForm>) => form && setForm({ ...form, ...changes });
+
+  return (
+    <Card className="p-6" data-testid="card-scoring-settings">
+      <div className="flex items-center gap-2 mb-6">
+        <SlidersHorizontal className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-semibold">Scoring</h2>
+      </div>
+
+      {isLoading || !form ? (
+        <div className="h-64 rounded-lg bg-muted/20 animate-pulse" />
+      ) : (
+        <form onSubmit={submit} className="space-y-4">
+          {/* Scoring Model */}
+          <div>
+            <Label htmlFor="scoring-model">Model</Label>
+            <Select value={form.model} onValueChange={(model) => update({ model: model as ScoringModel })}>
+              <SelectTrigger id="scoring-model" data-testid="select-scoring-model" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rice">RICE: Reach × Impact × Confidence ÷ Effort</SelectItem>
+                <SelectItem value="wsjf">WSJF: Cost of delay ÷ Job size</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Weights of the selected model */}
+          <div>
+            <Label>Weights</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              {form.model === "rice"
+                ? `Each factor is raised to its weight (0-${RICE_MAX_WEIGHT}); 1 is plain RICE, 0 leaves the factor out.`
+                : `Each part of the cost of delay is multiplied by its weight (0-${WSJF_MAX_WEIGHT}).`}
+            </p>
+            <div className="grid grid-cols-2 gap-4 mt-2">
+              {form.model === "rice"
+                ? RICE_WEIGHT_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <Label htmlFor={`scoring-weight-${key}`} className="text-xs">{label}</Label>
+                      <Input
+                        id={`scoring-weight-${key}`}
+                        type="number"
+                        min="0"
+                        max={RICE_MAX_WEIGHT}
+                        step="0.1"
+                        value={form.riceWeights[key]}
+                        onChange={(e) => update({ riceWeights: { ...form.riceWeights, [key]: e.target.value } })}
+                        required
+                        className="mt-1"
+                        data-testid={`input-scoring-weight-${key}`}
+                      />
+                    </div>
+                  ))
+                : WSJF_WEIGHT_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <Label htmlFor={`scoring-weight-${key}`} className="text-xs">{label}</Label>
+                      <Input
+                        id={`scoring-weight-${key}`}
+                        type="number"
+                        min="0"
+                        max={WSJF_MAX_WEIGHT}
+                        step="0.1"
+                        value={form.wsjfWeights[key]}
+                        onChange={(e) => update({ wsjfWeights: { ...form.wsjfWeights, [key]: e.target.value } })}
+                        required
+                        className="mt-1"
+                        data-testid={`input-scoring-weight-${key}`}
+                      />
+                    </div>
+                  ))}
+            </div>
+          </div>
+
+          {/* Auto-rank */}
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="scoring-auto-rank">Rank by score</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Ranks follow the scores; ranks typed on items are ignored
+              </p>
+            </div>
+            <Switch
+              id="scoring-auto-rank"
+              checked={form.autoRank}
+              onCheckedChange={(autoRank) => update({ autoRank })}
+              data-testid="switch-scoring-auto-rank"
+            />
+          </div>
+
+          {/* Demand Boost (RICE only; WSJF has no impact factor) */}
+          {form.model === "rice" && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="scoring-demand-boost">Customer demand raises impact</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Up to 3 impact points from the feedback linked to an item
+                </p>
+              </div>
+              <Switch
+                id="scoring-demand-boost"
+                checked={form.demandBoost}
+                onCheckedChange={(demandBoost) => update({ demandBoost })}
+                data-testid="switch-scoring-demand-boost"
+              />
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={saveMutation.isPending}
+            data-testid="button-save-scoring"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Scoring Settings"}
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+}
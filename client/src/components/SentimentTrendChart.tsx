@@ -2,7 +2,7 @@
  * SENTIMENT TREND CHART COMPONENT
  * 
  * Line chart showing sentiment score evolution over time:
- * - X-axis: Days (for 30D view) or Months (for 90D/All views)
+ * - X-axis: Dates (for 30D view) or Months (for 90D/All views)
  * - Y-axis: Sentiment score (0-10 scale)
  * - Filled area under the line for visual emphasis
  * 
@@ -11,6 +11,9 @@
  * - Interactive tooltips showing exact values
  * - Period selector buttons (30D, 90D, All) - filters data by time range
  * - Smart data fetching: daily data for 30D, monthly data for 90D/All
+ * - Daily data is bucketed by calendar day in the browser's time zone;
+ *   days without feedback are shown as gaps in the line
+ * - Export menu downloads the data behind the selected period
  * 
  * CHART CONFIGURATION:
  * - Built with Chart.js
@@ -18,19 +21,19 @@
  */
 
 import { Card } from "@/components/ui/card";
+import ExportMenu from "@/components/ExportMenu";
 import { useEffect, useRef, useState } from "react";
 import { Chart, registerables } from "chart.js";
 import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import type { DailySentimentTrend } from "@shared/schema";
 
 Chart.register(...registerables);
 
 type TimePeriod = "30d" | "90d" | "all";
 
-// Type for daily sentiment data
-interface DailySentimentData {
-  date: string; // "Day 1", "Day 2", etc.
-  score: string;
-}
+// Browser time zone used to decide where each day starts and ends
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 // Type for monthly sentiment data
 interface MonthlySentimentData {
@@ -46,10 +49,11 @@ export default function SentimentTrendChart() {
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>("30d");
 
   // Fetch daily sentiment data for 30D view using custom queryFn
-  const { data: dailyData, isLoading: isDailyLoading } = useQuery<DailySentimentData[]>({
-    queryKey: ["/api/sentiment-trends", "daily", 30],
+  const { data: dailyData, isLoading: isDailyLoading } = useQuery<DailySentimentTrend[]>({
+    queryKey: ["/api/sentiment-trends", "daily", 30, timeZone],
     queryFn: async () => {
-      const response = await fetch("/api/sentiment-trends?period=daily&days=30");
+      const params = new URLSearchParams({ period: "daily", days: "30", tz: timeZone });
+      const response = await fetch(`/api/sentiment-trends?${params}`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -82,12 +86,13 @@ export default function SentimentTrendChart() {
   /**
    * GET CHART DATA
    * Returns the appropriate data set based on selected period
+   * Days without feedback map to null so Chart.js leaves a gap
    */
-  const getChartData = () => {
+  const getChartData = (): { labels: string[]; data: (number | null)[] } => {
     if (selectedPeriod === "30d") {
       return {
-        labels: dailyData?.map(d => d.date) || [],
-        data: dailyData?.map(d => parseFloat(d.score)) || [],
+        labels: dailyData?.map(d => format(parseISO(d.date), "MMM d")) || [],
+        data: dailyData?.map(d => (d.score === null ? null : parseFloat(d.score))) || [],
       };
     } else {
       const filteredData = getFilteredMonthlyData();
@@ -128,6 +133,7 @@ export default function SentimentTrendChart() {
             tension: 0.4,
             pointRadius: 4,
             pointHoverRadius: 6,
+            spanGaps: false, // Don't connect across days with no feedback
           },
         ],
       },
@@ -145,6 +151,13 @@ export default function SentimentTrendChart() {
             bodyColor: "hsl(0, 0%, 98%)",
             borderColor: "hsl(0, 0%, 18%)",
             borderWidth: 1,
+            callbacks: {
+              // Show how many feedback entries back each daily average
+              afterLabel: (context) => {
+                const day = selectedPeriod === "30d" ? dailyData?.[context.dataIndex] : undefined;
+                return day ? `${day.total} feedback (${day.positive} positive, ${day.negative} negative)` : "";
+              },
+            },
           },
         },
         scales: {
@@ -180,7 +193,7 @@ export default function SentimentTrendChart() {
         chartInstance.current.destroy();
       }
     };
-  }, [chartData, isLoading, selectedPeriod]);
+  }, [chartData, dailyData, isLoading, selectedPeriod]);
 
   return (
     <Card className="p-6" data-testid="chart-sentiment-trend">
@@ -189,7 +202,7 @@ export default function SentimentTrendChart() {
         <h3 className="text-lg font-semibold">Overall Sentiment Trend</h3>
         
         {/* Time Period Buttons - filters chart data */}
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
           <button 
             onClick={() => setSelectedPeriod("30d")}
             className={`text-xs px-3 py-1 rounded-md ${
@@ -223,6 +236,13 @@ export default function SentimentTrendChart() {
           >
             All
           </button>
+
+          {/* Export the series shown for the selected period */}
+          <ExportMenu
+            path="/api/export/sentiment-trends"
+            params={selectedPeriod === "30d" ? { period: "daily", days: "30", tz: timeZone } : {}}
+            testId="button-export-sentiment-trends"
+          />
         </div>
       </div>
 
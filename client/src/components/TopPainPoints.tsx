@@ -0,0 +1,78 @@
+/**
+ * TOP PAIN POINTS COMPONENT
+ *
+ * Lists the topics customers complain about most over the last 30 days:
+ * - Topic name (e.g., "Payments", "Navigation")
+ * - Number of negative mentions out of all mentions
+ * - Bar showing the negative share of mentions
+ * - Average aspect-level sentiment score (0-10)
+ *
+ * USAGE: Dashboard page - tells teams *what* customers are unhappy about
+ *
+ * DATA: /api/topics returns topics sorted by negative mentions (most first)
+ */
+
+import { Card } from "@/components/ui/card";
+import { AlertTriangle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { TopicSummary } from "@shared/schema";
+
+// Number of pain points shown in the panel
+const MAX_PAIN_POINTS = 5;
+
+export default function TopPainPoints() {
+  // Fetch per-topic volume and sentiment for the default 30-day window
+  const { data: topicsData, isLoading } = useQuery<TopicSummary[]>({
+    queryKey: ["/api/topics"],
+  });
+
+  // Only topics with at least one negative mention count as pain points
+  const painPoints = (topicsData || [])
+    .filter((topic) => topic.negative > 0)
+    .slice(0, MAX_PAIN_POINTS);
+
+  return (
+    <Card className="p-6" data-testid="card-top-pain-points">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Top Pain Points</h3>
+        <AlertTriangle className="w-5 h-5 text-muted-foreground" />
+      </div>
+
+      {isLoading ? (
+        // Loading State: Skeleton rows
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-12 rounded-lg bg-muted/20 animate-pulse" />
+          ))}
+        </div>
+      ) : painPoints.length === 0 ? (
+        // Empty State: No negative topic mentions in the window
+        <p className="text-sm text-muted-foreground">No recurring complaints in the last 30 days.</p>
+      ) : (
+        // Loaded State: One row per topic
+        <div className="space-y-4">
+          {painPoints.map((topic) => (
+            <div key={topic.topic} data-testid={`pain-point-${topic.topic}`}>
+              {/* Topic Name and Mention Counts */}
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium">{topic.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {topic.negative} of {topic.volume} negative • avg {topic.avgScore}/10
+                </span>
+              </div>
+
+              {/* Negative Share Bar */}
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-red-500"
+                  style={{ width: `${Math.round(topic.negativeShare * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * TRASH VIEW COMPONENT
+ *
+ * Deleted feedback and priority items, most recently deleted first:
+ * - Restore: puts the record back everywhere it was counted
+ * - Purge (admins only): permanently deletes the record after confirmation
+ *
+ * Records left in the trash are purged automatically after the server's
+ * retention period (shown in the header).
+ *
+ * USAGE: Manage page trash tab
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { hasRole, type TrashContents } from "@shared/schema";
+
+// Trashable entity: API path segment and the queries to refetch after a restore
+type TrashKind = "feedback" | "priority-items";
+
+const RESTORE_INVALIDATE_KEYS: Record<TrashKind, string[]> = {
+  feedback: [
+    "/api/feedback",
+    "/api/feedback/search",
+    "/api/dashboard-stats",
+    "/api/sentiment-trends",
+    "/api/topics",
+    "/api/regional-sentiment",
+  ],
+  "priority-items": ["/api/priority-items"],
+};
+
+// One trash table row, shared by both entity tables
+interface TrashRow {
+  kind: TrashKind;
+  id: string;
+  summary: string;
+  deletedAt: Date | string | null;
+  deletedByUsername: string | null;
+}
+
+export default function TrashView() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canPurge = !!user && hasRole(user.role, "admin");
+
+  // Record waiting for purge confirmation
+  const [purging, setPurging] = useState<TrashRow | null>(null);
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+
+  // ============================================================================
+  // Restore Mutation
+  // ============================================================================
+  const restoreMutation = useMutation({
+    mutationFn: async (row: TrashRow) => {
+      return await apiRequest("POST", `/api/trash/${row.kind}/${row.id}/restore`);
+    },
+    onSuccess: (_data, row) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      for (const key of RESTORE_INVALIDATE_KEYS[row.kind]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      toast({ title: "Success", description: "Restored from trash" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore", variant: "destructive" });
+    },
+  });
+
+  // ============================================================================
+  // Purge Mutation
+  // ============================================================================
+  const purgeMutation = useMutation({
+    mutationFn: async (row: TrashRow) => {
+      return await apiRequest("DELETE", `/api/trash/${row.kind}/${row.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Success", description: "Permanently deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete permanently", variant: "destructive" });
+    },
+    onSettled: () => setPurging(null),
+  });
+
+  const feedbackRows: TrashRow[] = (trash?.feedback ?? []).map((entry) => ({
+    kind: "feedback",
+    id: entry.id,
+    summary: entry.text,
+    deletedAt: entry.deletedAt,
+    deletedByUsername: entry.deletedByUsername,
+  }));
+  const priorityRows: TrashRow[] = (trash?.priorityItems ?? []).map((item) => ({
+    kind: "priority-items",
+    id: item.id,
+    summary: item.title,
+    deletedAt: item.deletedAt,
+    deletedByUsername: item.deletedByUsername,
+  }));
+
+  /**
+   * RENDER TRASH TABLE
+   */
+  const renderTable = (title: string, rows: TrashRow[], testId: string) => (
+    <Card className="p-6" data-testid={testId}>
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Record</TableHead>
+            <TableHead className="w-40">Deleted</TableHead>
+            <TableHead className="w-32">Deleted By</TableHead>
+            <TableHead className="w-24 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                Loading...
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                Nothing in the trash
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={row.id} data-testid={`${testId}-row-${row.id}`}>
+                <TableCell>
+                  <span className="line-clamp-2">{row.summary}</span>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                  {row.deletedAt ? format(new Date(row.deletedAt), "MMM d, yyyy HH:mm") : "—"}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {row.deletedByUsername ?? "—"}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => restoreMutation.mutate(row)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`${testId}-restore-${row.id}`}
+                    title="Restore"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                  {canPurge && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPurging(row)}
+                      data-testid={`${testId}-purge-${row.id}`}
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground" data-testid="text-trash-retention">
+        {trash && trash.retentionDays > 0
+          ? `Deleted records are permanently removed ${trash.retentionDays} days after deletion.`
+          : "Deleted records are kept until they are permanently deleted."}
+      </p>
+
+      {renderTable("Feedback", feedbackRows, "trash-feedback")}
+      {renderTable("Priority Items", priorityRows, "trash-priority")}
+
+      {/* Purge Confirmation */}
+      <AlertDialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This record will be removed for good and cannot be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault(); // Keep the dialog open until the request finishes
+                if (purging) purgeMutation.mutate(purging);
+              }}
+              disabled={purgeMutation.isPending}
+              data-testid="button-confirm-purge"
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import Navigation from '../Navigation';
 
 export default function NavigationExample() {
-  return <Navigation />;
+  return <Navigation liveStatus="live" />;
 }
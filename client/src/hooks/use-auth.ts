@@ -0,0 +1,46 @@
+/**
+ * CURRENT USER HOOK
+ *
+ * Loads the signed-in user from /api/auth/me.
+ * A 401 means "not signed in" and resolves to null instead of an error,
+ * so the route guard can show the login page.
+ *
+ * canAccess() decides which pages a role may open (mirrors the server's
+ * requireRole guards, so hidden pages would only show 403 errors anyway).
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { hasRole, type PublicUser, type UserRole } from "@shared/schema";
+
+// Query key of the current-user query (set directly after login/logout)
+export const CURRENT_USER_KEY = ["/api/auth/me"];
+
+// Least privileged role needed per page; pages not listed are open to everyone
+const PAGE_ROLES: Record<string, UserRole> = {
+  "/feedback": "analyst",
+  "/alerts": "analyst",
+  "/manage": "analyst",
+  "/users": "admin",
+  "/audit": "admin",
+  "/webhooks": "admin",
+};
+
+/**
+ * CAN ACCESS
+ * Whether the user's role allows opening the page at the given path
+ */
+export function canAccess(user: PublicUser | null, path: string): boolean {
+  const required = PAGE_ROLES[path];
+  if (!required) return true;
+  return !!user && hasRole(user.role, required);
+}
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<PublicUser | null>({
+    queryKey: CURRENT_USER_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  return { user: data ?? null, isLoading };
+}
@@ -0,0 +1,135 @@
+/**
+ * LIVE UPDATES HOOK
+ *
+ * Keeps cached data current while other users make changes.
+ * Listens to the server's /api/live WebSocket and maps each change event
+ * to the queries it affects:
+ * - Deletes of priority items and AI insights are patched out of the cached
+ *   lists directly
+ * - Everything else invalidates the affected queries (active ones refetch)
+ *
+ * Reconnects with exponential backoff after a drop; events sent while
+ * disconnected are missed, so every query is refreshed once reconnected.
+ *
+ * USAGE: App router, once a user is signed in (status shown in Navigation)
+ */
+
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { CURRENT_USER_KEY } from "@/hooks/use-auth";
+import { LIVE_UPDATES_PATH, type LiveEvent, type LiveEventType } from "@shared/schema";
+
+export type LiveStatus = "connecting" | "live" | "offline";
+
+// Reconnect delay: doubles after each failed attempt, up to the maximum
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+// Entity part of an event type (e.g., "feedback" for "feedback.created")
+type EntityOf<T> = T extends `${infer Entity}.${string}` ? Entity : never;
+type LiveEntity = EntityOf<LiveEventType>;
+
+// Queries showing each entity (the audit log shows every change)
+const LIVE_INVALIDATE_KEYS: Record<LiveEntity, string[]> = {
+  feedback: [
+    "/api/feedback",
+    "/api/feedback/search",
+    "/api/dashboard-stats",
+    "/api/sentiment-trends",
+    "/api/topics",
+    "/api/regional-sentiment",
+    "/api/channels", // Message counts
+    "/api/priority-items", // Customer demand
+    "/api/trash",
+  ],
+  priority: ["/api/priority-items", "/api/trash", "/api/ai-insights"], // Insights name the item they became
+  insight: ["/api/ai-insights"],
+  impact_metric: ["/api/impact-metrics"],
+  usage_metric: ["/api/usage-metrics"],
+  channel: ["/api/channels"],
+  user: ["/api/users"],
+  alert_rule: ["/api/alert-rules", "/api/alerts"],
+  alert: ["/api/alerts"],
+  webhook: ["/api/webhooks", "/api/webhook-deliveries"],
+  webhook_delivery: ["/api/webhook-deliveries"],
+  scoring: ["/api/scoring-settings", "/api/priority-items"], // Scores and ranks follow the settings
+};
+
+// Deletes patched out of a cached list instead of refetching it
+const LIST_PATCHES: Partial<Record<LiveEventType, string>> = {
+  "priority.deleted": "/api/priority-items",
+  "insight.deleted": "/api/ai-insights",
+};
+
+/**
+ * APPLY LIVE EVENT
+ */
+function applyLiveEvent(event: LiveEvent) {
+  const entity = event.type.split(".")[0] as LiveEntity;
+  const patchedKey = event.id ? LIST_PATCHES[event.type] : undefined;
+
+  if (patchedKey) {
+    queryClient.setQueryData<{ id: string }[]>([patchedKey], (records) =>
+      records?.filter((record) => record.id !== event.id),
+    );
+  }
+
+  for (const key of [...(LIVE_INVALIDATE_KEYS[entity] ?? []), "/api/audit"]) {
+    if (key !== patchedKey) {
+      queryClient.invalidateQueries({ queryKey: [key] });
+    }
+  }
+}
+
+/**
+ * REFRESH ALL
+ * Invalidates every query except the current user
+ */
+function refreshAll() {
+  queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== CURRENT_USER_KEY[0] });
+}
+
+export function useLiveUpdates(enabled: boolean): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failedAttempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      setStatus("connecting");
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+
+      socket.onopen = () => {
+        if (failedAttempts > 0) refreshAll(); // Catch up on events missed while disconnected
+        failedAttempts = 0;
+        setStatus("live");
+      };
+      socket.onmessage = (message) => {
+        applyLiveEvent(JSON.parse(message.data) as LiveEvent);
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        setStatus("offline");
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** failedAttempts);
+        failedAttempts += 1;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+
+  return enabled ? status : "offline";
+}
@@ -0,0 +1,16 @@
+/**
+ * DISPLAY FORMATTING
+ *
+ * Number formatting for the UI. The API returns plain numbers; how they are
+ * abbreviated is decided here.
+ */
+
+const compactNumber = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+
+/**
+ * FORMAT COUNT
+ * Abbreviates large counts (e.g., 950 → "950", 2480 → "2.5K", 1500000 → "1.5M")
+ */
+export function formatCount(value: number): string {
+  return compactNumber.format(value);
+}
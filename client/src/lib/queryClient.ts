@@ -11,6 +11,7 @@
  * - queryClient: Configured QueryClient instance (used in App.tsx provider)
  * - apiRequest: HTTP request utility for mutations (POST/PATCH/DELETE)
  * - getQueryFn: Customizable query function for GET requests
+ * - errorMessage: Server error message from a failed apiRequest
  * 
  * CONFIGURATION STRATEGY:
  * - staleTime: Infinity (data never considered stale automatically)
@@ -37,6 +38,19 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/**
+ * ERROR MESSAGE
+ * apiRequest errors look like "409: {"error":"..."}"; extract the server's message
+ */
+export function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error;
+  } catch {
+    return body;
+  }
+}
+
 /**
  * API REQUEST UTILITY
  * 
@@ -0,0 +1,601 @@
+/**
+ * ALERTS PAGE (analysts and admins)
+ *
+ * Sentiment alerting: rules watch recent feedback, alerts tell you when one trips.
+ *
+ * SECTIONS:
+ * 1. Inbox: alerts grouped into tabs
+ *    - Active: firing, not acknowledged, not snoozed
+ *    - Snoozed: firing but hidden until the snooze ends
+ *    - Acknowledged: firing and someone is on it
+ *    - Resolved: the condition cleared (most recent 100)
+ *    Firing alerts can be acknowledged or snoozed for 1, 4 or 24 hours
+ *
+ * 2. Rules: table with enable switch, edit and delete, plus a form for new rules
+ *    e.g., "Negative share in Southwest over the last 6h above 40%"
+ *
+ * DATA FLOW:
+ * - Rules are evaluated on the server every few minutes; "Evaluate now" runs
+ *   them immediately. Fired/resolved alerts arrive through live updates.
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import RecordManager, { type RecordColumn, type RecordField } from "@/components/RecordManager";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { format, formatDistanceToNow } from "date-fns";
+import { BellOff, BellRing, Check, Clock, Play, Plus } from "lucide-react";
+import {
+  alertComparators,
+  alertMetrics,
+  type AlertComparator,
+  type AlertMetric,
+  type AlertRule,
+  type AlertWithRule,
+} from "@shared/schema";
+
+const SOURCES = ["Twitter", "Facebook", "Instagram", "Email", "Live Chat"];
+const REGIONS = ["Northeast", "Southeast", "Midwest", "Southwest", "West"];
+const ALL = "all"; // Select value meaning "no filter"
+
+// Snooze durations offered in the inbox (hours)
+const SNOOZE_HOURS = [1, 4, 24];
+
+// Display names per metric and comparator
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  negative_share: "Negative share",
+  volume_spike: "Volume",
+  average_sentiment: "Average sentiment",
+};
+
+const COMPARATOR_LABELS: Record<AlertComparator, string> = {
+  above: "above",
+  below: "below",
+};
+
+// Threshold input hint per metric
+const THRESHOLD_HINTS: Record<AlertMetric, string> = {
+  negative_share: "Percent of feedback that is negative (0-100)",
+  volume_spike: "Multiple of the baseline volume (e.g., 3 for 3x)",
+  average_sentiment: "Average score (0-10)",
+};
+
+/**
+ * FORMAT METRIC VALUE
+ * Value in the metric's unit (e.g., "42%", "3.1x", "5.8")
+ */
+const formatMetricValue = (metric: string, value: string | number | null) => {
+  if (value === null) return "—";
+  const number = Number(value);
+  switch (metric) {
+    case "negative_share":
+      return `${number.toFixed(0)}%`;
+    case "volume_spike":
+      return `${number.toFixed(1)}x`;
+    default:
+      return number.toFixed(1);
+  }
+};
+
+/**
+ * DESCRIBE RULE
+ * Condition as a sentence, e.g., "Volume from Twitter over the last 6h above 3.0x the 7-day baseline"
+ */
+const describeRule = (rule: AlertRule) => {
+  const metric = rule.metric as AlertMetric;
+  const scope = [rule.source && `from ${rule.source}`, rule.region && `in ${rule.region}`].filter(Boolean).join(" ");
+  const baseline = metric === "volume_spike" ? ` the ${rule.baselineDays}-day baseline` : "";
+  return `${METRIC_LABELS[metric] ?? rule.metric}${scope ? ` ${scope}` : ""} over the last ${rule.windowHours}h ` +
+    `${COMPARATOR_LABELS[rule.comparator as AlertComparator] ?? rule.comparator} ${formatMetricValue(metric, rule.threshold)}${baseline}`;
+};
+
+const toOptions = (values: readonly string[], labels: Record<string, string>) =>
+  values.map((value) => ({ value, label: labels[value] ?? value }));
+
+const ruleFields: RecordField[] = [
+  { key: "name", label: "Name", type: "text" },
+  { key: "metric", label: "Metric", type: "select", options: toOptions(alertMetrics, METRIC_LABELS) },
+  { key: "comparator", label: "Fires When", type: "select", options: toOptions(alertComparators, COMPARATOR_LABELS) },
+  { key: "threshold", label: "Threshold", type: "decimal" },
+  { key: "windowHours", label: "Window (hours)", type: "integer" },
+  { key: "baselineDays", label: "Baseline (days, volume only)", type: "integer" },
+  { key: "source", label: "Source (blank = all)", type: "text", optional: true },
+  { key: "region", label: "Region (blank = all)", type: "text", optional: true },
+  { key: "minVolume", label: "Minimum Feedback in Window", type: "integer" },
+];
+
+type InboxTab = "active" | "snoozed" | "acknowledged" | "resolved";
+
+/**
+ * GET INBOX TAB
+ * Which inbox tab an alert belongs to right now
+ */
+const getInboxTab = (alert: AlertWithRule, now: number): InboxTab => {
+  if (alert.status === "resolved") return "resolved";
+  if (alert.acknowledgedAt) return "acknowledged";
+  if (alert.snoozedUntil && new Date(alert.snoozedUntil).getTime() > now) return "snoozed";
+  return "active";
+};
+
+export default function Alerts() {
+  const { toast } = useToast();
+
+  // New rule form state
+  const [name, setName] = useState("");
+  const [metric, setMetric] = useState<AlertMetric>("negative_share");
+  const [comparator, setComparator] = useState<AlertComparator>("above");
+  const [threshold, setThreshold] = useState("");
+  const [windowHours, setWindowHours] = useState("6");
+  const [baselineDays, setBaselineDays] = useState("7");
+  const [source, setSource] = useState(ALL);
+  const [region, setRegion] = useState(ALL);
+  const [minVolume, setMinVolume] = useState("10");
+
+  const { data: alerts, isLoading: alertsLoading } = useQuery<AlertWithRule[]>({
+    queryKey: ["/api/alerts"],
+  });
+  const { data: rules, isLoading: rulesLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alert-rules"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+  };
+
+  // ============================================================================
+  // Mutations
+  // ============================================================================
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/alerts/${id}/acknowledge`);
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ id, hours }: { id: string; hours: number }) => {
+      return await apiRequest("POST", `/api/alerts/${id}/snooze`, { hours });
+    },
+    onSuccess: (_data, { hours }) => {
+      refresh();
+      toast({ title: "Success", description: `Snoozed for ${hours}h` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/alerts/evaluate");
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Alert rules evaluated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/alert-rules/${id}`, { enabled });
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/alert-rules", {
+        name,
+        metric,
+        comparator,
+        threshold,
+        windowHours: parseInt(windowHours, 10),
+        baselineDays: parseInt(baselineDays, 10),
+        source: source === ALL ? null : source,
+        region: region === ALL ? null : region,
+        minVolume: parseInt(minVolume, 10),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: `Alert rule "${name.trim()}" created` });
+      setName("");
+      setThreshold("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  /**
+   * HANDLE CREATE RULE
+   */
+  const handleCreateRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    createRuleMutation.mutate();
+  };
+
+  // Rules table columns (the enable switch saves immediately)
+  const ruleColumns: RecordColumn<AlertRule>[] = [
+    { header: "Name", cell: (r) => r.name },
+    { header: "Condition", cell: (r) => <span className="text-sm">{describeRule(r)}</span> },
+    {
+      header: "Last Value",
+      cell: (r) => (
+        <span className="text-sm" title={r.lastEvaluatedAt ? `Evaluated ${format(new Date(r.lastEvaluatedAt), "MMM d, HH:mm")}` : "Not evaluated yet"}>
+          {formatMetricValue(r.metric, r.lastValue)}
+        </span>
+      ),
+      className: "whitespace-nowrap",
+    },
+    {
+      header: "Enabled",
+      cell: (r) => (
+        <Switch
+          checked={r.enabled}
+          onCheckedChange={(enabled) => toggleRuleMutation.mutate({ id: r.id, enabled })}
+          data-testid={`switch-alert-rule-${r.id}`}
+        />
+      ),
+    },
+  ];
+
+  // Group alerts by inbox tab
+  const now = Date.now();
+  const inbox: Record<InboxTab, AlertWithRule[]> = { active: [], snoozed: [], acknowledged: [], resolved: [] };
+  for (const alert of alerts ?? []) {
+    inbox[getInboxTab(alert, now)].push(alert);
+  }
+
+  /**
+   * RENDER ALERT
+   */
+  const renderAlert = (alert: AlertWithRule) => {
+    const firing = alert.status === "firing";
+    return (
+      <div
+        key={alert.id}
+        className={`p-4 rounded-lg border border-l-4 ${firing ? "border-l-red-500" : "border-l-green-500"} bg-card`}
+        data-testid={`alert-${alert.id}`}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium">{alert.rule.name}</span>
+              <Badge
+                variant="outline"
+                className={firing ? "bg-red-100 text-red-700 border-red-200" : "bg-green-100 text-green-700 border-green-200"}
+              >
+                {firing ? "Firing" : "Resolved"}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground mb-2">{describeRule(alert.rule)}</p>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span>
+                Fired {formatDistanceToNow(new Date(alert.firedAt), { addSuffix: true })} at{" "}
+                {formatMetricValue(alert.rule.metric, alert.firedValue)}
+              </span>
+              <span>Latest {formatMetricValue(alert.rule.metric, alert.latestValue)}</span>
+              {alert.resolvedAt && (
+                <span>Resolved {formatDistanceToNow(new Date(alert.resolvedAt), { addSuffix: true })}</span>
+              )}
+              {alert.acknowledgedAt && (
+                <span>Acknowledged by {alert.acknowledgedByUsername ?? "a removed user"}</span>
+              )}
+              {alert.snoozedUntil && new Date(alert.snoozedUntil).getTime() > now && (
+                <span>Snoozed until {format(new Date(alert.snoozedUntil), "MMM d, HH:mm")}</span>
+              )}
+            </div>
+          </div>
+
+          {firing && (
+            <div className="flex gap-2">
+              {!alert.acknowledgedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => acknowledgeMutation.mutate(alert.id)}
+                  disabled={acknowledgeMutation.isPending}
+                  data-testid={`button-acknowledge-${alert.id}`}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid={`button-snooze-${alert.id}`}>
+                    <Clock className="w-4 h-4 mr-1" />
+                    Snooze
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {SNOOZE_HOURS.map((hours) => (
+                    <DropdownMenuItem
+                      key={hours}
+                      onClick={() => snoozeMutation.mutate({ id: alert.id, hours })}
+                      data-testid={`button-snooze-${alert.id}-${hours}h`}
+                    >
+                      {hours === 24 ? "1 day" : `${hours} hour${hours === 1 ? "" : "s"}`}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * RENDER INBOX TAB
+   */
+  const renderInboxTab = (tab: InboxTab, emptyText: string) => (
+    <TabsContent value={tab} className="space-y-3">
+      {alertsLoading ? (
+        <div className="h-24 rounded-lg bg-muted/20 animate-pulse" />
+      ) : inbox[tab].length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">{emptyText}</p>
+      ) : (
+        inbox[tab].map(renderAlert)
+      )}
+    </TabsContent>
+  );
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8 flex justify-between items-start gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Alerts</h1>
+            <p className="text-muted-foreground">
+              Get told when sentiment goes wrong instead of watching the charts
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => evaluateMutation.mutate()}
+            disabled={evaluateMutation.isPending}
+            data-testid="button-evaluate-alerts"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            {evaluateMutation.isPending ? "Evaluating..." : "Evaluate now"}
+          </Button>
+        </div>
+
+        {/* INBOX */}
+        <Card className="p-6 mb-6">
+          <div className="flex items-center gap-2 mb-4">
+            <BellRing className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-xl font-semibold">Inbox</h2>
+          </div>
+          <Tabs defaultValue="active" className="space-y-4">
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="active" data-testid="tab-alerts-active">Active ({inbox.active.length})</TabsTrigger>
+              <TabsTrigger value="snoozed" data-testid="tab-alerts-snoozed">Snoozed ({inbox.snoozed.length})</TabsTrigger>
+              <TabsTrigger value="acknowledged" data-testid="tab-alerts-acknowledged">
+                Acknowledged ({inbox.acknowledged.length})
+              </TabsTrigger>
+              <TabsTrigger value="resolved" data-testid="tab-alerts-resolved">Resolved</TabsTrigger>
+            </TabsList>
+            {renderInboxTab("active", "Nothing needs attention")}
+            {renderInboxTab("snoozed", "No snoozed alerts")}
+            {renderInboxTab("acknowledged", "No acknowledged alerts")}
+            {renderInboxTab("resolved", "No resolved alerts yet")}
+          </Tabs>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* RULES TABLE */}
+          <div className="lg:col-span-2">
+            <RecordManager
+              title="Rules"
+              entityLabel="alert rule"
+              endpoint="/api/alert-rules"
+              records={rules}
+              isLoading={rulesLoading}
+              columns={ruleColumns}
+              fields={ruleFields}
+              invalidateKeys={["/api/alerts"]}
+              deleteDescription="The rule and all of its alerts will be deleted. This cannot be undone."
+              testId="alert-rules"
+            />
+          </div>
+
+          {/* NEW RULE FORM */}
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Plus className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-xl font-semibold">New Rule</h2>
+            </div>
+            <form onSubmit={handleCreateRule} className="space-y-4">
+              <div>
+                <Label htmlFor="new-rule-name">Name</Label>
+                <Input
+                  id="new-rule-name"
+                  data-testid="input-new-rule-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Southwest negativity"
+                  className="mt-2"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="new-rule-metric">Metric</Label>
+                  <Select value={metric} onValueChange={(value) => setMetric(value as AlertMetric)}>
+                    <SelectTrigger id="new-rule-metric" data-testid="select-new-rule-metric" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {alertMetrics.map((option) => (
+                        <SelectItem key={option} value={option}>{METRIC_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="new-rule-comparator">Fires When</Label>
+                  <Select value={comparator} onValueChange={(value) => setComparator(value as AlertComparator)}>
+                    <SelectTrigger id="new-rule-comparator" data-testid="select-new-rule-comparator" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {alertComparators.map((option) => (
+                        <SelectItem key={option} value={option}>{COMPARATOR_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="new-rule-threshold">Threshold</Label>
+                <Input
+                  id="new-rule-threshold"
+                  data-testid="input-new-rule-threshold"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className="mt-2"
+                  required
+                />
+                <p className="text-xs text-muted-foreground mt-1">{THRESHOLD_HINTS[metric]}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="new-rule-window">Window (hours)</Label>
+                  <Input
+                    id="new-rule-window"
+                    data-testid="input-new-rule-window"
+                    type="number"
+                    min="1"
+                    max="168"
+                    value={windowHours}
+                    onChange={(e) => setWindowHours(e.target.value)}
+                    className="mt-2"
+                    required
+                  />
+                </div>
+                {metric === "volume_spike" && (
+                  <div>
+                    <Label htmlFor="new-rule-baseline">Baseline (days)</Label>
+                    <Input
+                      id="new-rule-baseline"
+                      data-testid="input-new-rule-baseline"
+                      type="number"
+                      min="1"
+                      max="90"
+                      value={baselineDays}
+                      onChange={(e) => setBaselineDays(e.target.value)}
+                      className="mt-2"
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="new-rule-source">Source</Label>
+                  <Select value={source} onValueChange={setSource}>
+                    <SelectTrigger id="new-rule-source" data-testid="select-new-rule-source" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All sources</SelectItem>
+                      {SOURCES.map((s) => (
+                        <SelectItem key={s} value={s}>{s}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="new-rule-region">Region</Label>
+                  <Select value={region} onValueChange={setRegion}>
+                    <SelectTrigger id="new-rule-region" data-testid="select-new-rule-region" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All regions</SelectItem>
+                      {REGIONS.map((r) => (
+                        <SelectItem key={r} value={r}>{r}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="new-rule-min-volume">Minimum Feedback in Window</Label>
+                <Input
+                  id="new-rule-min-volume"
+                  data-testid="input-new-rule-min-volume"
+                  type="number"
+                  min="1"
+                  value={minVolume}
+                  onChange={(e) => setMinVolume(e.target.value)}
+                  className="mt-2"
+                  required
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Smaller windows are skipped so a few messages can't trigger the alert
+                </p>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={createRuleMutation.isPending} data-testid="button-create-rule">
+                {createRuleMutation.isPending ? "Creating..." : "Create Rule"}
+              </Button>
+            </form>
+          </Card>
+        </div>
+
+        {/* Empty-state hint when no rules exist yet */}
+        {!rulesLoading && rules?.length === 0 && (
+          <p className="text-sm text-muted-foreground mt-4 flex items-center gap-2">
+            <BellOff className="w-4 h-4" />
+            No rules yet: nothing is being watched.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
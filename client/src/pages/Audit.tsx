@@ -0,0 +1,388 @@
+/**
+ * AUDIT PAGE (admins only)
+ *
+ * Who changed what, and when:
+ *
+ * FEATURES:
+ * - Every create, update, delete, restore and purge made through the API
+ * - Filters: entity type, action, actor (username) and date range
+ * - Updates list each changed field as "before → after"; creates, deletes and
+ *   purges expand to the full record
+ * - Request id per event, to correlate with server logs (X-Request-Id)
+ * - Cursor pagination (Previous/Next), newest first
+ *
+ * DATA FLOW:
+ * - Fetches pages from /api/audit; previous cursors are kept in a stack
+ *   like the feedback explorer
+ */
+
+import { Fragment, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  auditActions,
+  auditEntityTypes,
+  type AuditEntityType,
+  type AuditEvent,
+  type AuditPage,
+} from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL = "all"; // Select value meaning "no filter"
+
+// Display names per entity type
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: "User",
+  feedback: "Feedback",
+  priority_item: "Priority item",
+  ai_insight: "AI insight",
+  impact_metric: "Impact metric",
+  usage_metric: "Usage metric",
+  channel: "Channel",
+  alert_rule: "Alert rule",
+  alert: "Alert",
+  webhook: "Webhook",
+  scoring_settings: "Scoring settings",
+  priority_link: "Priority link",
+};
+
+/**
+ * Get action badge color classes
+ */
+const getActionColor = (action: string) => {
+  switch (action) {
+    case "create":
+    case "restore":
+      return "bg-green-100 text-green-700 border-green-200";
+    case "delete":
+    case "purge":
+      return "bg-red-100 text-red-700 border-red-200";
+    default:
+      return "bg-blue-100 text-blue-700 border-blue-200";
+  }
+};
+
+/**
+ * Format a stored JSON value for display
+ */
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Summarize the changes of an event in one line
+ */
+const summarize = (event: AuditEvent) => {
+  if (event.action === "update") {
+    const fields = Object.keys((event.after as Record<string, unknown> | null) ?? {});
+    return `Changed ${fields.join(", ")}`;
+  }
+  const record = (event.after ?? event.before) as Record<string, unknown> | null;
+  const label = record?.title ?? record?.name ?? record?.metricName ?? record?.username ?? record?.week ?? record?.text;
+  return typeof label === "string" ? label : "";
+};
+
+export default function Audit() {
+  // ============================================================================
+  // Filter and Pagination State
+  // ============================================================================
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [actor, setActor] = useState("");
+  const [fromDate, setFromDate] = useState(""); // yyyy-MM-dd from the date input
+  const [toDate, setToDate] = useState(""); // yyyy-MM-dd from the date input
+  const [pager, setPager] = useState<{ key: string; cursors: string[] }>({ key: "", cursors: [] });
+  const [expanded, setExpanded] = useState<string | null>(null); // Event showing its details
+
+  /**
+   * BUILD QUERY STRING
+   * Date inputs are local calendar days; to is exclusive, so add one day
+   */
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (action !== ALL) params.set("action", action);
+  if (actor.trim()) params.set("actor", actor.trim());
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) {
+    const end = new Date(`${toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set("to", end.toISOString());
+  }
+
+  // Cursors of the pages after page 1; any filter change starts over at page 1
+  const filterKey = params.toString();
+  const cursors = pager.key === filterKey ? pager.cursors : [];
+  const setCursors = (next: string[]) => setPager({ key: filterKey, cursors: next });
+  const cursor = cursors[cursors.length - 1];
+  if (cursor) params.set("cursor", cursor);
+
+  const { data: page, isLoading, isError } = useQuery<AuditPage>({
+    queryKey: ["/api/audit", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit?${params}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  /**
+   * RENDER EVENT DETAILS
+   * Field-by-field diff for updates, full record otherwise
+   */
+  const renderDetails = (event: AuditEvent) => {
+    const before = (event.before as Record<string, unknown> | null) ?? {};
+    const after = (event.after as Record<string, unknown> | null) ?? {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    return (
+      <div className="space-y-1 text-xs font-mono">
+        {fields.map((field) => (
+          <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+            <span className="text-muted-foreground">{field}</span>
+            <span className="break-all">
+              {event.action === "update"
+                ? `${formatValue(before[field])} → ${formatValue(after[field])}`
+                : formatValue(event.after ? after[field] : before[field])}
+            </span>
+          </div>
+        ))}
+        <div className="grid grid-cols-[10rem_1fr] gap-2 pt-2">
+          <span className="text-muted-foreground">entity id</span>
+          <span className="break-all">{event.entityId}</span>
+        </div>
+        <div className="grid grid-cols-[10rem_1fr] gap-2">
+          <span className="text-muted-foreground">request id</span>
+          <span className="break-all">{event.requestId ?? "—"}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made to dashboard data, with who made it and when
+          </p>
+        </div>
+
+        {/* FILTERS */}
+        <Card className="p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div>
+              <Label htmlFor="audit-entity">Entity</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger id="audit-entity" data-testid="filter-audit-entity" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {auditEntityTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="audit-action">Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger id="audit-action" data-testid="filter-audit-action" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {auditActions.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="audit-actor">User</Label>
+              <Input
+                id="audit-actor"
+                data-testid="input-audit-actor"
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                placeholder="Username"
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                data-testid="input-audit-from"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                data-testid="input-audit-to"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+          </div>
+        </Card>
+
+        {/* EVENTS TABLE */}
+        <Card className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead className="w-44">Time</TableHead>
+                <TableHead className="w-32">User</TableHead>
+                <TableHead className="w-24">Action</TableHead>
+                <TableHead className="w-36">Entity</TableHead>
+                <TableHead>Summary</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                    Loading audit log...
+                  </TableCell>
+                </TableRow>
+              ) : isError ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-destructive">
+                    Failed to load the audit log
+                  </TableCell>
+                </TableRow>
+              ) : !page || page.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                    No matching changes
+                  </TableCell>
+                </TableRow>
+              ) : (
+                page.items.map((event) => (
+                  <Fragment key={event.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                      data-testid={`row-audit-${event.id}`}
+                    >
+                      <TableCell>
+                        {expanded === event.id
+                          ? <ChevronDown className="w-4 h-4" />
+                          : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(event.occurredAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">{event.actorUsername ?? "system"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${getActionColor(event.action)}`}>
+                          {event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {ENTITY_LABELS[event.entityType as AuditEntityType] ?? event.entityType}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        <span className="line-clamp-1">{summarize(event)}</span>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === event.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5} data-testid={`details-audit-${event.id}`}>
+                          {renderDetails(event)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {/* PAGINATION: Previous pops the cursor stack, Next pushes nextCursor */}
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  data-testid="button-audit-previous"
+                  aria-disabled={cursors.length === 0}
+                  className={cursors.length === 0 ? "pointer-events-none opacity-50" : ""}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setCursors(cursors.slice(0, -1));
+                  }}
+                />
+              </PaginationItem>
+              <PaginationItem>
+                <span className="text-sm text-muted-foreground px-4" data-testid="text-audit-page">
+                  Page {cursors.length + 1}
+                </span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  data-testid="button-audit-next"
+                  aria-disabled={!page?.nextCursor}
+                  className={!page?.nextCursor ? "pointer-events-none opacity-50" : ""}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (page?.nextCursor) setCursors([...cursors, page.nextCursor]);
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </Card>
+      </div>
+    </div>
+  );
+}
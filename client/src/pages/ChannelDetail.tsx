@@ -0,0 +1,269 @@
+/**
+ * CHANNEL DETAIL PAGE
+ *
+ * Feedback received from one channel (matched on feedback source = channel name),
+ * opened by clicking a channel card on the Impact Tracker page.
+ *
+ * SECTIONS:
+ * 1. Header: channel name, connection status and window selector (7D, 30D, 90D)
+ * 2. Summary cards: messages, average sentiment score and negative share in the window
+ * 3. Volume over time: stacked positive/neutral/negative bars per day
+ * 4. Sentiment mix: share of each sentiment in the window
+ *
+ * DATA FLOW:
+ * - /api/channels/:id/stats (days are cut in the browser's time zone)
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+import { Chart, registerables } from "chart.js";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import MetricCard from "@/components/MetricCard";
+import { getChannelState } from "@/components/ChannelsIntegrated";
+import { formatCount } from "@/lib/format";
+import { ArrowLeft, MessageSquare, Smile, Frown } from "lucide-react";
+import {
+  regionalSentimentWindows,
+  type ChannelStats,
+  type RegionalSentimentWindow,
+} from "@shared/schema";
+
+Chart.register(...registerables);
+
+// Browser time zone, so days match the user's calendar
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Colors per sentiment (same as the regional breakdown chart)
+const SENTIMENT_COLORS = {
+  positive: "hsl(142, 71%, 45%)",
+  neutral: "hsl(220, 9%, 66%)",
+  negative: "hsl(0, 84%, 60%)",
+};
+
+const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+
+export default function ChannelDetail() {
+  const { id } = useParams<{ id: string }>();
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  // Selected time window (default: 30 days)
+  const [windowDays, setWindowDays] = useState<RegionalSentimentWindow>(30);
+
+  // Fetch the channel's stats for the selected window using custom queryFn
+  const { data: stats, isLoading, error } = useQuery<ChannelStats | null>({
+    queryKey: ["/api/channels", id, "stats", windowDays],
+    queryFn: async () => {
+      const params = new URLSearchParams({ days: String(windowDays), tz: timeZone });
+      const response = await fetch(`/api/channels/${id}/stats?${params}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+  });
+
+  // CHART LIFECYCLE: Create/update the volume chart when data changes, cleanup on unmount
+  useEffect(() => {
+    if (!chartRef.current || !stats) return;
+
+    const ctx = chartRef.current.getContext("2d");
+    if (!ctx) return;
+
+    // Destroy previous chart instance to prevent memory leaks
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    chartInstance.current = new Chart(ctx, {
+      type: "bar",
+      data: {
+        labels: stats.daily.map((day) => format(parseISO(day.date), "MMM d")),
+        datasets: SENTIMENTS.map((sentiment) => ({
+          label: sentiment.charAt(0).toUpperCase() + sentiment.slice(1),
+          data: stats.daily.map((day) => day[sentiment]),
+          backgroundColor: SENTIMENT_COLORS[sentiment],
+          borderRadius: 4,
+        })),
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            position: "bottom",
+          },
+          tooltip: {
+            backgroundColor: "hsl(0, 0%, 12%)",
+            padding: 12,
+            titleColor: "hsl(0, 0%, 98%)",
+            bodyColor: "hsl(0, 0%, 98%)",
+            borderColor: "hsl(0, 0%, 18%)",
+            borderWidth: 1,
+            callbacks: {
+              footer: (items) => {
+                const day = stats.daily[items[0]?.dataIndex ?? 0];
+                return day ? `${day.total} messages` : "";
+              },
+            },
+          },
+        },
+        scales: {
+          y: {
+            beginAtZero: true,
+            stacked: true,
+            grid: {
+              color: "hsl(0, 0%, 88%)",
+            },
+            ticks: {
+              color: "hsl(221, 6%, 40%)",
+              precision: 0,
+            },
+          },
+          x: {
+            stacked: true,
+            grid: {
+              display: false,
+            },
+            ticks: {
+              color: "hsl(221, 6%, 40%)",
+            },
+          },
+        },
+      },
+    });
+
+    return () => {
+      chartInstance.current?.destroy();
+      chartInstance.current = null;
+    };
+  }, [stats]);
+
+  const total = stats ? stats.positive + stats.neutral + stats.negative : 0;
+  const share = (count: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+  const state = stats ? getChannelState(stats.channel) : null;
+  const StateIcon = state?.icon;
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+        <Link href="/impact">
+          <Button variant="ghost" size="sm" className="mb-4" data-testid="button-back-to-impact">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Impact Tracker
+          </Button>
+        </Link>
+
+        {isLoading ? (
+          <div className="h-64 rounded-lg bg-muted/20 animate-pulse" />
+        ) : error ? (
+          <Card className="p-6 text-center text-muted-foreground">Failed to load channel stats</Card>
+        ) : !stats ? (
+          <Card className="p-6 text-center text-muted-foreground" data-testid="text-channel-not-found">
+            Channel not found
+          </Card>
+        ) : (
+          <>
+            {/* Page Header */}
+            <div className="mb-8 flex justify-between items-start gap-4 flex-wrap">
+              <div>
+                <h1 className="text-3xl lg:text-4xl font-semibold mb-2" data-testid="text-channel-name">
+                  {stats.channel.name}
+                </h1>
+                {state && StateIcon && (
+                  <div className="flex items-center gap-1" title={stats.channel.lastSyncError ?? undefined}>
+                    <StateIcon className={`w-4 h-4 ${state.className}`} />
+                    <span className={`text-sm ${state.className}`}>{state.label}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Time Window Buttons */}
+              <div className="flex items-center gap-2">
+                {regionalSentimentWindows.map((days) => (
+                  <button
+                    key={days}
+                    onClick={() => setWindowDays(days)}
+                    className={`text-xs px-3 py-1 rounded-md ${
+                      windowDays === days
+                        ? "bg-primary text-primary-foreground"
+                        : "hover-elevate active-elevate-2"
+                    }`}
+                    data-testid={`button-channel-window-${days}d`}
+                  >
+                    {days}D
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <MetricCard
+                title={`Messages (${stats.days} days)`}
+                value={formatCount(total)}
+                icon={MessageSquare}
+                testId="metric-channel-messages"
+              />
+              <MetricCard
+                title="Average Sentiment"
+                value={stats.averageScore ? `${stats.averageScore}/10` : "No data"}
+                icon={Smile}
+                testId="metric-channel-score"
+              />
+              <MetricCard
+                title="Negative Share"
+                value={total > 0 ? `${share(stats.negative)}%` : "No data"}
+                icon={Frown}
+                testId="metric-channel-negative-share"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Volume Over Time */}
+              <Card className="p-6 lg:col-span-2" data-testid="chart-channel-volume">
+                <h3 className="text-lg font-semibold mb-4">Volume Over Time</h3>
+                {total === 0 ? (
+                  <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+                    No feedback from {stats.channel.name} in the last {stats.days} days
+                  </div>
+                ) : (
+                  <div className="h-64">
+                    <canvas ref={chartRef} />
+                  </div>
+                )}
+              </Card>
+
+              {/* Sentiment Mix */}
+              <Card className="p-6" data-testid="card-channel-sentiment-mix">
+                <h3 className="text-lg font-semibold mb-4">Sentiment Mix</h3>
+                <div className="space-y-4">
+                  {SENTIMENTS.map((sentiment) => (
+                    <div key={sentiment}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="capitalize">{sentiment}</span>
+                        <span className="text-muted-foreground">
+                          {formatCount(stats[sentiment])} ({share(stats[sentiment])}%)
+                        </span>
+                      </div>
+                      <div className="h-2 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{ width: `${share(stats[sentiment])}%`, backgroundColor: SENTIMENT_COLORS[sentiment] }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
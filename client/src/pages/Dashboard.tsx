@@ -5,16 +5,20 @@
  * 
  * SECTIONS:
  * 1. Metric Cards (4 KPIs): Average Sentiment, Total Feedback, Response Rate, Active Users
- *    - Shows current values with percentage changes
+ *    - Shows current values for the selected window (7D, 30D, 90D) with
+ *      percentage changes against the previous window of the same length
  *    - Loading skeleton while data fetches
  * 
  * 2. Regional Sentiment Chart: Bar chart showing sentiment by U.S. region
  *    - Compares Northeast, Southeast, Midwest, Southwest, West
+ *    - Shown next to Top Pain Points: topics with the most negative mentions
  * 
  * 3. Two-Column Layout:
  *    - Recent Feedback Highlights: Last 3 customer feedback entries
  *    - Sentiment Trend: Line chart showing sentiment over time
  * 
+ * 4. Live Feedback Stream: Ticker of feedback as it arrives (server-sent events)
+ * 
  * DATA FLOW:
  * - Fetches dashboard stats from /api/dashboard-stats
  * - Child components fetch their own data independently
@@ -24,37 +28,64 @@ import MetricCard from "@/components/MetricCard";
 import RegionalSentimentChart from "@/components/RegionalSentimentChart";
 import SentimentTrendChart from "@/components/SentimentTrendChart";
 import FeedbackHighlights from "@/components/FeedbackHighlights";
+import TopPainPoints from "@/components/TopPainPoints";
+import FeedbackStream from "@/components/FeedbackStream";
 import { Heart, MessageSquare, TrendingUp, Users } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import type { DashboardStats } from "@shared/schema";
 
-// Dashboard statistics type definition
-interface DashboardStats {
-  avgSentiment: string;
-  totalFeedback: string;
-  responseRate: string;
-  activeUsers: string;
-  sentimentChange: number;
-  feedbackChange: number;
-  responseRateChange: number;
-  activeUsersChange: number;
-}
+// KPI windows offered by the selector (days)
+const STATS_WINDOWS = [7, 30, 90];
 
 export default function Dashboard() {
-  // Fetch aggregated dashboard statistics
+  // Selected KPI window in days (default: 30)
+  const [windowDays, setWindowDays] = useState(30);
+
+  // Fetch aggregated dashboard statistics for the selected window
   const { data: stats, isLoading } = useQuery<DashboardStats>({
-    queryKey: ["/api/dashboard-stats"],
+    queryKey: ["/api/dashboard-stats", windowDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/dashboard-stats?window=${windowDays}d`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
   });
 
+  const changeLabel = `vs previous ${windowDays} days`;
+
   return (
     <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
       <div className="max-w-7xl mx-auto">
         
         {/* PAGE HEADER */}
-        <div className="mb-8">
-          <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Customer Sentiment Dashboard</h1>
-          <p className="text-muted-foreground">
-            Real-time insights from all customer touchpoints
-          </p>
+        <div className="mb-8 flex justify-between items-start gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Customer Sentiment Dashboard</h1>
+            <p className="text-muted-foreground">
+              Real-time insights from all customer touchpoints
+            </p>
+          </div>
+
+          {/* KPI Window Buttons - metric cards cover the last N days */}
+          <div className="flex gap-2">
+            {STATS_WINDOWS.map((days) => (
+              <button
+                key={days}
+                onClick={() => setWindowDays(days)}
+                className={`text-xs px-3 py-1 rounded-md ${
+                  windowDays === days
+                    ? "bg-primary text-primary-foreground"
+                    : "hover-elevate active-elevate-2"
+                }`}
+                data-testid={`button-stats-window-${days}d`}
+              >
+                {days}D
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* METRIC CARDS: 4 KPI cards showing key performance indicators */}
@@ -69,44 +100,54 @@ export default function Dashboard() {
             <MetricCard
               title="Average Sentiment"
               value={stats?.avgSentiment || "0"}
-              change={stats?.sentimentChange || 0}
+              change={stats?.sentimentChange ?? null}
+              changeLabel={changeLabel}
               icon={Heart}
               testId="metric-avg-sentiment"
             />
             <MetricCard
               title="Total Feedback"
               value={stats?.totalFeedback || "0"}
-              change={stats?.feedbackChange || 0}
+              change={stats?.feedbackChange ?? null}
+              changeLabel={changeLabel}
               icon={MessageSquare}
               testId="metric-total-feedback"
             />
             <MetricCard
               title="Response Rate"
               value={stats?.responseRate || "0%"}
-              change={stats?.responseRateChange || 0}
+              change={stats?.responseRateChange ?? null}
+              changeLabel={changeLabel}
               icon={TrendingUp}
               testId="metric-response-rate"
             />
             <MetricCard
               title="Active Users"
               value={stats?.activeUsers || "0"}
-              change={stats?.activeUsersChange || 0}
+              change={stats?.activeUsersChange ?? null}
+              changeLabel={changeLabel}
               icon={Users}
               testId="metric-active-users"
             />
           </div>
         )}
 
-        {/* REGIONAL SENTIMENT CHART: Bar chart showing sentiment by U.S. region */}
-        <div className="mb-6">
-          <RegionalSentimentChart />
+        {/* REGIONAL SENTIMENT CHART + TOP PAIN POINTS: Where and what customers are unhappy about */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <div className="lg:col-span-2">
+            <RegionalSentimentChart />
+          </div>
+          <TopPainPoints />
         </div>
 
         {/* TWO-COLUMN LAYOUT: Feedback highlights and trend chart side by side */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           <FeedbackHighlights />
           <SentimentTrendChart />
         </div>
+
+        {/* LIVE FEEDBACK STREAM: Incoming feedback as it arrives */}
+        <FeedbackStream />
       </div>
     </div>
   );
@@ -0,0 +1,476 @@
+/**
+ * FEEDBACK EXPLORER PAGE
+ *
+ * Lets support leads find specific customer feedback without querying the database:
+ *
+ * FEATURES:
+ * - Full-text search over feedback text (debounced while typing)
+ * - Filters: sentiment, source, region and date range
+ * - Sortable columns: date, sentiment score, source and region
+ * - Cursor pagination (Previous/Next) that stays stable while new feedback arrives
+ * - "Mark responded" action per row (feeds the dashboard response rate)
+ * - Row selection (kept across pages) to link entries to a priority item as
+ *   customer demand for it
+ * - Export of every matching row (not just the current page) as CSV/Excel/JSON
+ *
+ * DATA FLOW:
+ * - Fetches pages from /api/feedback/search
+ * - Each page returns a nextCursor; previous cursors are kept in a stack
+ *   so "Previous" can step back without offset pagination
+ */
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import ExportMenu from "@/components/ExportMenu";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import LinkFeedbackDialog from "@/components/LinkFeedbackDialog";
+import { ArrowDown, ArrowUp, ArrowUpDown, Check, Link2, Search } from "lucide-react";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { FeedbackPage, FeedbackSortField } from "@shared/schema";
+
+// Filter options (match the values used by the Manage page forms)
+const SOURCES = ["Twitter", "Facebook", "Instagram", "Email", "Live Chat"];
+const REGIONS = ["Northeast", "Southeast", "Midwest", "Southwest", "West"];
+const ALL = "all"; // Select value meaning "no filter"
+const PAGE_SIZE = 25;
+
+type SortOrder = "asc" | "desc";
+
+/**
+ * Get sentiment badge color classes
+ */
+const getSentimentColor = (sentiment: string) => {
+  switch (sentiment) {
+    case "positive":
+      return "bg-green-100 text-green-700 border-green-200";
+    case "negative":
+      return "bg-red-100 text-red-700 border-red-200";
+    default:
+      return "bg-gray-100 text-gray-700 border-gray-200";
+  }
+};
+
+export default function FeedbackExplorer() {
+  // ============================================================================
+  // Filter, Sort and Pagination State
+  // ============================================================================
+  const [searchInput, setSearchInput] = useState(""); // Raw search box value
+  const [search, setSearch] = useState(""); // Debounced search sent to the API
+  const [sentiment, setSentiment] = useState(ALL);
+  const [source, setSource] = useState(ALL);
+  const [region, setRegion] = useState(ALL);
+  const [fromDate, setFromDate] = useState(""); // yyyy-MM-dd from the date input
+  const [toDate, setToDate] = useState(""); // yyyy-MM-dd from the date input
+  const [sort, setSort] = useState<FeedbackSortField>("timestamp");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [pager, setPager] = useState<{ key: string; cursors: string[] }>({ key: "", cursors: [] });
+
+  // Entries selected for linking to a priority item (kept while paging and filtering)
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [linkOpen, setLinkOpen] = useState(false);
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  /**
+   * BUILD QUERY STRING
+   * Date inputs are local calendar days; the range covers whole days
+   * in the browser's time zone (to is exclusive, so add one day)
+   */
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+  if (search) params.set("q", search);
+  if (sentiment !== ALL) params.set("sentiment", sentiment);
+  if (source !== ALL) params.set("source", source);
+  if (region !== ALL) params.set("region", region);
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) {
+    const end = new Date(`${toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set("to", end.toISOString());
+  }
+
+  // Exports use the same filters and sort order, without paging
+  const { limit: _limit, ...exportParams } = Object.fromEntries(params);
+
+  // Cursors of the pages after page 1; any filter or sort change starts over at page 1
+  const filterKey = params.toString();
+  const cursors = pager.key === filterKey ? pager.cursors : [];
+  const setCursors = (next: string[]) => setPager({ key: filterKey, cursors: next });
+  const cursor = cursors[cursors.length - 1];
+  if (cursor) params.set("cursor", cursor);
+
+  // Fetch the current page; keep showing the previous page while the next loads
+  const { data: page, isLoading, isError } = useQuery<FeedbackPage>({
+    queryKey: ["/api/feedback/search", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/feedback/search?${params}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  // Mark a feedback entry as responded; refreshes the table and the response rate KPI
+  const respondMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/feedback/${id}/respond`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feedback/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+    },
+  });
+
+  /**
+   * TOGGLE SELECTION
+   * Adds or removes entries from the selection
+   */
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    const next = new Set(selected);
+    ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+    setSelected(next);
+  };
+  const pageIds = page?.items.map((item) => item.id) ?? [];
+  const pageSelected = pageIds.length > 0 && pageIds.every((id) => selected.has(id));
+
+  /**
+   * HANDLE SORT CLICK
+   * Clicking the active column flips the direction; a new column starts descending
+   */
+  const handleSort = (field: FeedbackSortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder("desc");
+    }
+  };
+
+  /**
+   * SORTABLE COLUMN HEADER
+   */
+  const SortableHead = ({ field, label, className }: { field: FeedbackSortField; label: string; className?: string }) => {
+    const Icon = sort !== field ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <button
+          onClick={() => handleSort(field)}
+          className="flex items-center gap-1 hover:text-foreground"
+          data-testid={`sort-${field}`}
+        >
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const pageNumber = cursors.length + 1;
+  const totalPages = page ? Math.max(1, Math.ceil(page.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+
+        {/* PAGE HEADER */}
+        <div className="mb-8 flex justify-between items-start gap-4">
+          <div>
+            <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Feedback Explorer</h1>
+            <p className="text-muted-foreground">
+              Search, filter and browse every piece of customer feedback
+            </p>
+          </div>
+          <ExportMenu path="/api/export/feedback" params={exportParams} testId="button-export-feedback" />
+        </div>
+
+        {/* FILTERS: Search box, dropdown filters and date range */}
+        <Card className="p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+            <div className="lg:col-span-2">
+              <Label htmlFor="feedback-search">Search</Label>
+              <div className="relative mt-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="feedback-search"
+                  data-testid="input-feedback-search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="e.g., checkout crash"
+                  className="pl-9"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="filter-sentiment">Sentiment</Label>
+              <Select value={sentiment} onValueChange={setSentiment}>
+                <SelectTrigger id="filter-sentiment" data-testid="filter-sentiment" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  <SelectItem value="positive">Positive</SelectItem>
+                  <SelectItem value="neutral">Neutral</SelectItem>
+                  <SelectItem value="negative">Negative</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="filter-source">Source</Label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger id="filter-source" data-testid="filter-source" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {SOURCES.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="filter-region">Region</Label>
+              <Select value={region} onValueChange={setRegion}>
+                <SelectTrigger id="filter-region" data-testid="filter-region" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {REGIONS.map((r) => (
+                    <SelectItem key={r} value={r}>{r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="filter-from">From</Label>
+                <Input
+                  id="filter-from"
+                  data-testid="filter-from"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="mt-2 px-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="filter-to">To</Label>
+                <Input
+                  id="filter-to"
+                  data-testid="filter-to"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="mt-2 px-2"
+                />
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        {/* RESULTS TABLE */}
+        <Card className="p-6" data-testid="card-feedback-results">
+          <div className="flex justify-between items-center mb-4 gap-2 flex-wrap">
+            <h3 className="text-lg font-semibold">Results</h3>
+            <div className="flex items-center gap-2">
+              {selected.size > 0 && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => setLinkOpen(true)}
+                    data-testid="button-link-selected"
+                  >
+                    <Link2 className="w-4 h-4 mr-1" />
+                    Link {selected.size} to priority item
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelected(new Set())}
+                    data-testid="button-clear-selection"
+                  >
+                    Clear
+                  </Button>
+                </>
+              )}
+              <span className="text-xs text-muted-foreground" data-testid="text-result-count">
+                {page ? `${page.total} matching feedback` : ""}
+              </span>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={pageSelected}
+                    onCheckedChange={(checked) => toggleSelected(pageIds, checked === true)}
+                    aria-label="Select page"
+                    data-testid="checkbox-select-page"
+                  />
+                </TableHead>
+                <SortableHead field="timestamp" label="Date" className="w-40" />
+                <TableHead>Feedback</TableHead>
+                <SortableHead field="score" label="Sentiment" className="w-32" />
+                <SortableHead field="source" label="Source" className="w-28" />
+                <SortableHead field="region" label="Region" className="w-28" />
+                <TableHead className="w-36">Responded</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                // Loading State: Skeleton rows
+                [1, 2, 3, 4, 5].map((i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={7}>
+                      <div className="h-6 rounded bg-muted/20 animate-pulse" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : isError ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-sm text-destructive">
+                    Failed to load feedback
+                  </TableCell>
+                </TableRow>
+              ) : page?.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-sm text-muted-foreground">
+                    No feedback matches these filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                page?.items.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-feedback-${item.id}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(item.id)}
+                        onCheckedChange={(checked) => toggleSelected([item.id], checked === true)}
+                        aria-label="Select feedback"
+                        data-testid={`checkbox-select-${item.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(new Date(item.timestamp), "MMM d, yyyy h:mm a")}
+                    </TableCell>
+                    <TableCell className="text-sm">{item.text}</TableCell>
+                    <TableCell>
+                      <span className={`text-xs px-2 py-1 rounded-md border ${getSentimentColor(item.sentiment)}`}>
+                        {item.sentiment}
+                        {item.sentimentScore !== null && ` · ${item.sentimentScore}`}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="text-xs">{item.source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{item.region}</TableCell>
+                    <TableCell>
+                      {item.respondedAt ? (
+                        <span className="flex items-center gap-1 text-xs text-green-600 whitespace-nowrap">
+                          <Check className="w-3 h-3" />
+                          {format(new Date(item.respondedAt), "MMM d")}
+                        </span>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs"
+                          disabled={respondMutation.isPending && respondMutation.variables === item.id}
+                          onClick={() => respondMutation.mutate(item.id)}
+                          data-testid={`button-respond-${item.id}`}
+                        >
+                          Mark responded
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {/* PAGINATION: Previous pops the cursor stack, Next pushes nextCursor */}
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  data-testid="button-page-previous"
+                  aria-disabled={cursors.length === 0}
+                  className={cursors.length === 0 ? "pointer-events-none opacity-50" : ""}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setCursors(cursors.slice(0, -1));
+                  }}
+                />
+              </PaginationItem>
+              <PaginationItem>
+                <span className="text-sm text-muted-foreground px-4" data-testid="text-page-number">
+                  Page {pageNumber} of {totalPages}
+                </span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  data-testid="button-page-next"
+                  aria-disabled={!page?.nextCursor}
+                  className={!page?.nextCursor ? "pointer-events-none opacity-50" : ""}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (page?.nextCursor) setCursors([...cursors, page.nextCursor]);
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </Card>
+
+        <LinkFeedbackDialog
+          feedbackIds={Array.from(selected)}
+          open={linkOpen}
+          onClose={() => setLinkOpen(false)}
+          onLinked={() => setSelected(new Set())}
+        />
+      </div>
+    </div>
+  );
+}
@@ -17,8 +17,8 @@
  * 
  * 3. Integrated Channels: Grid of all active communication channels
  *    - Twitter, Facebook, Instagram, Email, Live Chat
- *    - Shows connection status and message counts
- *    - TODO: Add real-time API integration for social media channels
+ *    - Shows connection status and message counts (computed from feedback)
+ *    - Clicking a channel opens its detail page (volume over time, sentiment mix)
  * 
  * DATA FLOW:
  * - Impact metrics: /api/impact-metrics
@@ -336,8 +336,9 @@ export default function Information() {
                   select the source channel (Twitter, Facebook, etc.), and assign a region. This builds your sentiment database.</li>
                   <li>• <strong>Add Priority Item:</strong> List improvement opportunities with impact scores (1-10, how much value), 
                   effort scores (1-10, how much work), category, and priority rank. These appear in your prioritization analysis.</li>
-                  <li>• <strong>Add New Channel:</strong> Track communication channels (email, social media, support tickets) 
-                  with message volume. Use formats like "100", "2.5K", "1.5M" for message counts.</li>
+                  <li>• <strong>Add New Channel:</strong> Track communication channels (email, social media, support tickets). 
+                  Message volume is counted from feedback whose source matches the channel name; click a channel on the
+                  Impact Tracker to see its volume over time and sentiment mix.</li>
                 </ul>
                 <p className="text-sm text-muted-foreground italic">
                   <strong>Tip:</strong> Start by adding 10-15 feedback entries from different regions to see meaningful patterns.
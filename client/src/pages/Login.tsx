@@ -0,0 +1,132 @@
+/**
+ * LOGIN PAGE
+ *
+ * Shown by the route guard in App.tsx whenever nobody is signed in:
+ * - Sign in with username and password
+ * - On a fresh install (no accounts yet) the form creates the first account instead
+ *
+ * After signing in, the current-user query is updated and the page the
+ * user originally requested is rendered.
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CURRENT_USER_KEY } from "@/hooks/use-auth";
+import { BarChart3 } from "lucide-react";
+import type { PublicUser } from "@shared/schema";
+
+export default function Login() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Whether the first account still has to be created
+  const { data: status } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/auth/status"],
+  });
+  const needsSetup = status?.needsSetup ?? false;
+
+  // Sign in (or create the first account) and store the returned user
+  const loginMutation = useMutation({
+    mutationFn: async (): Promise<PublicUser> => {
+      const res = await apiRequest("POST", needsSetup ? "/api/auth/setup" : "/api/auth/login", {
+        username,
+        password,
+      });
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(CURRENT_USER_KEY, user);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+    },
+    onError: (mutationError: Error) => {
+      // apiRequest errors look like "401: {"error":"..."}"
+      const body = mutationError.message.replace(/^\d+:\s*/, "");
+      try {
+        setError(JSON.parse(body).error);
+      } catch {
+        setError(body);
+      }
+    },
+  });
+
+  /**
+   * HANDLE SUBMIT
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6">
+        {/* Brand */}
+        <div className="flex items-center gap-2 mb-6">
+          <BarChart3 className="w-6 h-6 text-primary" />
+          <span className="text-xl font-semibold">Sentiment360</span>
+        </div>
+
+        <h1 className="text-lg font-semibold mb-1">
+          {needsSetup ? "Create the first account" : "Sign in"}
+        </h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          {needsSetup
+            ? "No accounts exist yet. This account will be used to manage the dashboard."
+            : "Sign in to view customer sentiment analytics."}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="login-username">Username</Label>
+            <Input
+              id="login-username"
+              data-testid="input-login-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="mt-2"
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              data-testid="input-login-password"
+              type="password"
+              autoComplete={needsSetup ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-2"
+              minLength={needsSetup ? 8 : undefined}
+              required
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" data-testid="text-login-error">{error}</p>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            data-testid="button-login"
+            disabled={loginMutation.isPending}
+          >
+            {loginMutation.isPending
+              ? "Please wait..."
+              : needsSetup ? "Create account" : "Sign in"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
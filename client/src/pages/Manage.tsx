@@ -1,10 +1,17 @@
 /**
  * Manage Page Component
  * 
- * This page provides data management interfaces for adding new:
- * - Customer feedback entries
- * - Priority items for the impact matrix
- * - Communication channels
+ * Tabbed data management for every entity shown on the dashboard:
+ * - Customer feedback entries (add, bulk import, edit, delete)
+ * - Priority items for the impact matrix (add, edit, delete) and how they are scored
+ * - AI insights, impact metrics and usage metrics (edit, delete)
+ * - Communication channels (add, edit, delete, connectors, inbound ingestion secrets)
+ * - Trash: restore or permanently purge deleted feedback and priority items
+ * 
+ * Each tab lists the existing records with edit dialogs and
+ * confirm-before-delete (see RecordManager).
+ * 
+ * Requires the analyst role; the channels tab is only shown to admins.
  * 
  * All forms use controlled components with real-time validation
  * and optimistic updates to the dashboard.
@@ -24,20 +31,194 @@ import {
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Plus, AlertCircle } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { formatCount } from "@/lib/format";
+import { Plus } from "lucide-react";
+import FeedbackImport from "@/components/FeedbackImport";
+import RecordManager, { type RecordColumn, type RecordField } from "@/components/RecordManager";
+import TrashView from "@/components/TrashView";
+import ChannelIngestion from "@/components/ChannelIngestion";
+import ChannelConnectors from "@/components/ChannelConnectors";
+import ScoringSettings from "@/components/ScoringSettings";
+import { useAuth } from "@/hooks/use-auth";
+import { format } from "date-fns";
+import {
+  hasRole,
+  sentimentLabels,
+  type Feedback,
+  type PriorityItem,
+  type ScoringSettings as ScoringSettingsRecord,
+  type AIInsight,
+  type ImpactMetric,
+  type UsageMetric,
+  type ChannelSummary,
+} from "@shared/schema";
+
+// ============================================================================
+// Records Tables Configuration
+// Columns shown per entity and the fields its edit dialog offers
+// ============================================================================
+
+// Number of most recent feedback entries listed (use the Feedback explorer to find older ones)
+const MANAGE_FEEDBACK_LIMIT = 50;
+
+// Delete confirmation for entities that are soft-deleted
+const TRASH_NOTICE = "It will be moved to the trash and can be restored from the Trash tab.";
+
+// Queries derived from feedback that must refetch after feedback changes
+const FEEDBACK_DEPENDENT_KEYS = [
+  "/api/feedback/search",
+  "/api/dashboard-stats",
+  "/api/sentiment-trends",
+  "/api/topics",
+  "/api/regional-sentiment",
+];
+
+const toOptions = (values: readonly string[]) =>
+  values.map((value) => ({ value, label: value.charAt(0).toUpperCase() + value.slice(1) }));
+
+const feedbackColumns: RecordColumn<Feedback>[] = [
+  { header: "Received", cell: (f) => format(new Date(f.timestamp), "MMM d, yyyy"), className: "whitespace-nowrap" },
+  { header: "Feedback", cell: (f) => <span className="line-clamp-2">{f.text}</span> },
+  { header: "Sentiment", cell: (f) => <span className="capitalize">{f.sentiment}</span> },
+  { header: "Source", cell: (f) => f.source },
+  { header: "Region", cell: (f) => f.region },
+];
+
+const feedbackFields: RecordField[] = [
+  { key: "text", label: "Feedback Text", type: "textarea" },
+  { key: "sentiment", label: "Sentiment", type: "select", options: toOptions(sentimentLabels) },
+  { key: "source", label: "Source", type: "select", options: toOptions(["Twitter", "Facebook", "Instagram", "Email", "Live Chat"]) },
+  { key: "region", label: "Region", type: "select", options: toOptions(["Northeast", "Southeast", "Midwest", "Southwest", "West"]) },
+];
+
+const priorityColumns: RecordColumn<PriorityItem>[] = [
+  { header: "Rank", cell: (p) => p.rank },
+  { header: "Title", cell: (p) => p.title },
+  { header: "Category", cell: (p) => p.category },
+  { header: "Impact", cell: (p) => p.impact },
+  { header: "Effort", cell: (p) => p.effort },
+  { header: "Score", cell: (p) => p.score },
+];
+
+const priorityFields: RecordField[] = [
+  { key: "title", label: "Title", type: "text" },
+  { key: "description", label: "Description", type: "textarea" },
+  { key: "impact", label: "Impact (1-10)", type: "integer" },
+  { key: "effort", label: "Effort (1-10)", type: "integer" },
+  { key: "reach", label: "Reach (customers per quarter)", type: "integer" },
+  { key: "confidence", label: "Confidence (0-100%)", type: "integer" },
+  { key: "businessValue", label: "Business Value (1-10)", type: "integer" },
+  { key: "timeCriticality", label: "Time Criticality (1-10)", type: "integer" },
+  { key: "riskReduction", label: "Risk Reduction (1-10)", type: "integer" },
+  { key: "category", label: "Category", type: "select", options: toOptions(["Product", "Support", "Engineering", "Content", "Marketing"]) },
+  { key: "rank", label: "Rank (fixed by the score while ranking by score)", type: "integer" },
+];
+
+const insightColumns: RecordColumn<AIInsight>[] = [
+  { header: "Title", cell: (i) => i.title },
+  { header: "Priority", cell: (i) => <span className="capitalize">{i.priority}</span> },
+  { header: "Status", cell: (i) => <span className="capitalize">{i.status}</span> },
+  { header: "Impact", cell: (i) => i.impact },
+  { header: "Created", cell: (i) => format(new Date(i.createdAt), "MMM d, yyyy"), className: "whitespace-nowrap" },
+];
+
+const insightFields: RecordField[] = [
+  { key: "title", label: "Title", type: "text" },
+  { key: "description", label: "Description", type: "textarea" },
+  { key: "priority", label: "Priority", type: "select", options: toOptions(["high", "medium", "low"]) },
+  { key: "impact", label: "Expected Impact", type: "text" },
+];
+
+const impactColumns: RecordColumn<ImpactMetric>[] = [
+  { header: "Metric", cell: (m) => m.metricName },
+  { header: "Before", cell: (m) => `${m.beforeValue}${m.unit ?? ""}` },
+  { header: "After", cell: (m) => `${m.afterValue}${m.unit ?? ""}` },
+  { header: "Improvement", cell: (m) => `${m.improvement}%` },
+];
+
+const impactFields: RecordField[] = [
+  { key: "metricName", label: "Metric Name", type: "text" },
+  { key: "beforeValue", label: "Before", type: "text" },
+  { key: "afterValue", label: "After", type: "text" },
+  { key: "improvement", label: "Improvement (%)", type: "integer" },
+  { key: "unit", label: "Unit", type: "text", optional: true },
+];
+
+const usageColumns: RecordColumn<UsageMetric>[] = [
+  { header: "Week", cell: (u) => u.week },
+  { header: "Week Start", cell: (u) => u.weekStart },
+  { header: "Daily Active Users", cell: (u) => u.dailyActiveUsers.toLocaleString() },
+  { header: "Satisfaction", cell: (u) => u.satisfactionScore },
+];
+
+const usageFields: RecordField[] = [
+  { key: "week", label: "Week Label", type: "text" },
+  { key: "weekStart", label: "Week Start", type: "date" },
+  { key: "dailyActiveUsers", label: "Daily Active Users", type: "integer" },
+  { key: "satisfactionScore", label: "Satisfaction Score", type: "decimal" },
+];
+
+const channelColumns: RecordColumn<ChannelSummary>[] = [
+  { header: "Name", cell: (c) => c.name },
+  { header: "Status", cell: (c) => <span className="capitalize">{c.status}</span> },
+  { header: "Messages (30 days)", cell: (c) => formatCount(c.messageCount) },
+];
+
+const channelFields: RecordField[] = [
+  { key: "name", label: "Channel Name", type: "text" },
+  { key: "status", label: "Status", type: "select", options: toOptions(["active", "inactive"]) },
+];
 
 export default function Manage() {
   // Toast notification hook for user feedback
   const { toast } = useToast();
+
+  // Channels are managed by admins only
+  const { user } = useAuth();
+  const canManageChannels = !!user && hasRole(user.role, "admin");
+
+  // ============================================================================
+  // Existing Records
+  // ============================================================================
+  const { data: feedbackRecords, isLoading: feedbackLoading } = useQuery<Feedback[]>({
+    queryKey: ["/api/feedback", MANAGE_FEEDBACK_LIMIT],
+    queryFn: async () => {
+      const response = await fetch(`/api/feedback?limit=${MANAGE_FEEDBACK_LIMIT}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+  });
+  const { data: priorityRecords, isLoading: priorityLoading } = useQuery<PriorityItem[]>({
+    queryKey: ["/api/priority-items"],
+  });
+  const { data: scoringSettings } = useQuery<ScoringSettingsRecord>({
+    queryKey: ["/api/scoring-settings"],
+  });
+  const { data: insightRecords, isLoading: insightsLoading } = useQuery<AIInsight[]>({
+    queryKey: ["/api/ai-insights"],
+  });
+  const { data: impactRecords, isLoading: impactLoading } = useQuery<ImpactMetric[]>({
+    queryKey: ["/api/impact-metrics"],
+  });
+  const { data: usageRecords, isLoading: usageLoading } = useQuery<UsageMetric[]>({
+    queryKey: ["/api/usage-metrics"],
+  });
+  const { data: channelRecords, isLoading: channelsLoading } = useQuery<ChannelSummary[]>({
+    queryKey: ["/api/channels"],
+    enabled: canManageChannels,
+  });
   
   // ============================================================================
   // Feedback Form State
   // Controls for the customer feedback submission form
   // ============================================================================
   const [feedbackText, setFeedbackText] = useState(""); // Feedback content
-  const [feedbackSentiment, setFeedbackSentiment] = useState("positive"); // positive/negative/neutral
+  const [feedbackSentiment, setFeedbackSentiment] = useState("auto"); // auto/positive/negative/neutral
   const [feedbackSource, setFeedbackSource] = useState("Twitter"); // Channel source
   const [feedbackRegion, setFeedbackRegion] = useState("Northeast"); // U.S. region
 
@@ -51,6 +232,11 @@ export default function Manage() {
   const [priorityEffort, setPriorityEffort] = useState("5"); // Effort score 1-10
   const [priorityCategory, setPriorityCategory] = useState("Product"); // Category classification
   const [priorityRank, setPriorityRank] = useState("1"); // Priority ranking
+  const [priorityReach, setPriorityReach] = useState("100"); // Customers reached per quarter (RICE)
+  const [priorityConfidence, setPriorityConfidence] = useState("80"); // Confidence 0-100% (RICE)
+  const [priorityBusinessValue, setPriorityBusinessValue] = useState("5"); // Business value 1-10 (WSJF)
+  const [priorityTimeCriticality, setPriorityTimeCriticality] = useState("5"); // Time criticality 1-10 (WSJF)
+  const [priorityRiskReduction, setPriorityRiskReduction] = useState("5"); // Risk reduction 1-10 (WSJF)
 
   // ============================================================================
   // Channel Form State
@@ -58,102 +244,6 @@ export default function Manage() {
   // ============================================================================
   const [channelName, setChannelName] = useState(""); // Channel name
   const [channelStatus, setChannelStatus] = useState("active"); // active/inactive
-  const [channelMessageCount, setChannelMessageCount] = useState("0"); // Formatted count (e.g., "2.5K")
-  
-  // ============================================================================
-  // Message Count Validation State
-  // Tracks whether the message count input is valid and stores error messages
-  // ============================================================================
-  const [messageCountError, setMessageCountError] = useState<string | null>(null);
-
-  /**
-   * VALIDATE MESSAGE COUNT FORMAT
-   * 
-   * This function validates the message count input to ensure it follows
-   * acceptable formats. It prevents invalid data from being submitted.
-   * 
-   * VALID FORMATS:
-   * - Plain numbers: "100", "1500", "42"
-   * - Numbers with K suffix: "2.5K", "10K", "1.2K"  (case insensitive)
-   * - Numbers with M suffix: "1M", "2.5M", "10M"    (case insensitive)
-   * - Numbers with B suffix: "1B", "3.5B"           (case insensitive)
-   * 
-   * INVALID FORMATS:
-   * - Text/words: "hello", "test"
-   * - Special characters: "@", "#", "$"
-   * - Multiple decimal points: "2.5.3K"
-   * - Invalid suffix: "2X", "5Z", "2KK", "10kmb"
-   * - Mixed characters: "1a2", "2.5abc"
-   * 
-   * EDGE CASE HANDLING:
-   * - Trims whitespace before validation
-   * - Case-insensitive suffix matching (K, k, M, m, B, b all work)
-   * - Rejects any trailing characters after valid suffix
-   * 
-   * @param value - The message count string to validate
-   * @returns boolean - true if valid, false if invalid
-   */
-  const validateMessageCount = (value: string): boolean => {
-    // Trim whitespace to handle edge cases like " 100 " or "2.5K "
-    const trimmedValue = value.trim();
-    
-    // Allow empty string (required attribute will handle it)
-    if (trimmedValue === "") {
-      setMessageCountError(null);
-      return true;
-    }
-
-    // EDGE CASE: Reject negative numbers (e.g., "-100", "-2.5K")
-    if (trimmedValue.startsWith("-") || trimmedValue.startsWith("+")) {
-      setMessageCountError(
-        "Invalid format. Use numbers (e.g., 100), K suffix (e.g., 2.5K), M suffix (e.g., 1.5M), or B suffix (e.g., 3B)."
-      );
-      return false;
-    }
-
-    // EDGE CASE: Reject scientific notation (e.g., "1E3", "1e3", "2.5E10")
-    if (trimmedValue.toLowerCase().includes("e")) {
-      setMessageCountError(
-        "Invalid format. Use numbers (e.g., 100), K suffix (e.g., 2.5K), M suffix (e.g., 1.5M), or B suffix (e.g., 3B)."
-      );
-      return false;
-    }
-
-    // STRICT Regular expression pattern for valid message count formats
-    // ^ = start of string (no characters before)
-    // [0-9]+ = one or more digits (required)
-    // (\.[0-9]+)? = optional decimal point followed by one or more digits
-    // [KMB]? = optional SINGLE letter K, M, or B (case insensitive with 'i' flag)
-    // $ = end of string (no characters after - this prevents "1KK" or "2.5abc")
-    const validPattern = /^[0-9]+(\.[0-9]+)?[KMB]?$/i;
-
-    // Test the trimmed value against the pattern
-    if (!validPattern.test(trimmedValue)) {
-      // Invalid format detected - set error message with examples
-      setMessageCountError(
-        "Invalid format. Use numbers (e.g., 100), K suffix (e.g., 2.5K), M suffix (e.g., 1.5M), or B suffix (e.g., 3B)."
-      );
-      return false;
-    }
-
-    // Valid format - clear any error messages
-    setMessageCountError(null);
-    return true;
-  };
-
-  /**
-   * HANDLE MESSAGE COUNT CHANGE
-   * 
-   * This function is called every time the user types in the message count field.
-   * It updates the state and validates the input in real-time to provide
-   * immediate feedback to the user.
-   * 
-   * @param value - The new value from the input field
-   */
-  const handleMessageCountChange = (value: string) => {
-    setChannelMessageCount(value);
-    validateMessageCount(value);
-  };
 
   // ============================================================================
   // Feedback Mutation
@@ -167,7 +257,9 @@ export default function Manage() {
     onSuccess: () => {
       // Invalidate relevant queries to trigger refetch
       queryClient.invalidateQueries({ queryKey: ["/api/feedback"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+      for (const key of FEEDBACK_DEPENDENT_KEYS) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
       
       // Show success notification
       toast({
@@ -242,14 +334,12 @@ export default function Manage() {
       
       // Reset form fields
       setChannelName("");
-      setChannelMessageCount("0");
-      setMessageCountError(null); // Clear any error state
     },
-    onError: () => {
-      // Show error notification
+    onError: (error: Error) => {
+      // Show error notification (e.g., the name is already taken)
       toast({
         title: "Error",
-        description: "Failed to add channel",
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
@@ -267,7 +357,8 @@ export default function Manage() {
     e.preventDefault(); // Prevent default form submission
     addFeedbackMutation.mutate({
       text: feedbackText,
-      sentiment: feedbackSentiment,
+      // Omit sentiment for "auto" so the server analyzes the text
+      sentiment: feedbackSentiment === "auto" ? undefined : feedbackSentiment,
       source: feedbackSource,
       region: feedbackRegion,
     });
@@ -286,36 +377,22 @@ export default function Manage() {
       effort: parseInt(priorityEffort), // Convert to number
       category: priorityCategory,
       rank: parseInt(priorityRank), // Convert to number
+      reach: parseInt(priorityReach),
+      confidence: parseInt(priorityConfidence),
+      businessValue: parseInt(priorityBusinessValue),
+      timeCriticality: parseInt(priorityTimeCriticality),
+      riskReduction: parseInt(priorityRiskReduction),
     });
   };
 
   /**
    * Handle Channel Form Submission
-   * 
-   * This handler validates the message count before submitting.
-   * If the message count is invalid, the form submission is blocked
-   * and the user sees an error message.
    */
   const handleAddChannel = (e: React.FormEvent) => {
     e.preventDefault(); // Prevent default form submission
-    
-    // EDGE CASE HANDLING: Validate message count format before submission
-    // This prevents invalid data from reaching the backend
-    if (!validateMessageCount(channelMessageCount)) {
-      // Show error toast to alert the user
-      toast({
-        title: "Validation Error",
-        description: "Please fix the message count format before submitting.",
-        variant: "destructive",
-      });
-      return; // Stop form submission
-    }
-
-    // All validation passed - submit the data
     addChannelMutation.mutate({
       name: channelName,
       status: channelStatus,
-      messageCount: channelMessageCount,
     });
   };
 
@@ -326,308 +403,488 @@ export default function Manage() {
         <div className="mb-8">
           <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Data Management</h1>
           <p className="text-muted-foreground">
-            Add new feedback, priority items, and channels to your analytics dashboard
+            Add, edit and delete the records behind your analytics dashboard
           </p>
         </div>
 
-        {/* Three-column grid layout for forms */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          
-          {/* ============================================================================
-              Feedback Form
-              Allows adding customer feedback from various channels
-              ============================================================================ */}
-          <Card className="p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <Plus className="w-5 h-5 text-primary" />
-              <h2 className="text-xl font-semibold">Add New Feedback</h2>
-            </div>
-
-            <form onSubmit={handleAddFeedback} className="space-y-4">
-              {/* Feedback Text Input */}
-              <div>
-                <Label htmlFor="feedback-text">Feedback Text</Label>
-                <Textarea
-                  id="feedback-text"
-                  data-testid="input-feedback-text"
-                  value={feedbackText}
-                  onChange={(e) => setFeedbackText(e.target.value)}
-                  placeholder="Enter customer feedback..."
-                  required
-                  className="mt-2"
-                />
-              </div>
-
-              {/* Sentiment Selection */}
-              <div>
-                <Label htmlFor="feedback-sentiment">Sentiment</Label>
-                <Select value={feedbackSentiment} onValueChange={setFeedbackSentiment}>
-                  <SelectTrigger id="feedback-sentiment" data-testid="select-sentiment" className="mt-2">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="positive">Positive</SelectItem>
-                    <SelectItem value="negative">Negative</SelectItem>
-                    <SelectItem value="neutral">Neutral</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Source and Region Selection */}
-              <div className="grid grid-cols-2 gap-4">
-                {/* Feedback Source */}
-                <div>
-                  <Label htmlFor="feedback-source">Source</Label>
-                  <Select value={feedbackSource} onValueChange={setFeedbackSource}>
-                    <SelectTrigger id="feedback-source" data-testid="select-source" className="mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Twitter">Twitter</SelectItem>
-                      <SelectItem value="Facebook">Facebook</SelectItem>
-                      <SelectItem value="Instagram">Instagram</SelectItem>
-                      <SelectItem value="Email">Email</SelectItem>
-                      <SelectItem value="Live Chat">Live Chat</SelectItem>
-                    </SelectContent>
-                  </Select>
+        {/* One tab per entity: create form (where available) above the records table */}
+        <Tabs defaultValue="feedback" className="space-y-6">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="feedback" data-testid="tab-manage-feedback">Feedback</TabsTrigger>
+            <TabsTrigger value="priority" data-testid="tab-manage-priority">Priority Items</TabsTrigger>
+            <TabsTrigger value="insights" data-testid="tab-manage-insights">AI Insights</TabsTrigger>
+            <TabsTrigger value="impact" data-testid="tab-manage-impact">Impact Metrics</TabsTrigger>
+            <TabsTrigger value="usage" data-testid="tab-manage-usage">Usage Metrics</TabsTrigger>
+            {canManageChannels && (
+              <TabsTrigger value="channels" data-testid="tab-manage-channels">Channels</TabsTrigger>
+            )}
+            <TabsTrigger value="trash" data-testid="tab-manage-trash">Trash</TabsTrigger>
+          </TabsList>
+
+          {/* FEEDBACK TAB */}
+          <TabsContent value="feedback" className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* ============================================================================
+                  Feedback Form
+                  Allows adding customer feedback from various channels
+                  ============================================================================ */}
+              <Card className="p-6">
+                <div className="flex items-center gap-2 mb-6">
+                  <Plus className="w-5 h-5 text-primary" />
+                  <h2 className="text-xl font-semibold">Add New Feedback</h2>
                 </div>
 
-                {/* Geographic Region */}
-                <div>
-                  <Label htmlFor="feedback-region">Region</Label>
-                  <Select value={feedbackRegion} onValueChange={setFeedbackRegion}>
-                    <SelectTrigger id="feedback-region" data-testid="select-region" className="mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Northeast">Northeast</SelectItem>
-                      <SelectItem value="Southeast">Southeast</SelectItem>
-                      <SelectItem value="Midwest">Midwest</SelectItem>
-                      <SelectItem value="Southwest">Southwest</SelectItem>
-                      <SelectItem value="West">West</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
+                <form onSubmit={handleAddFeedback} className="space-y-4">
+                  {/* Feedback Text Input */}
+                  <div>
+                    <Label htmlFor="feedback-text">Feedback Text</Label>
+                    <Textarea
+                      id="feedback-text"
+                      data-testid="input-feedback-text"
+                      value={feedbackText}
+                      onChange={(e) => setFeedbackText(e.target.value)}
+                      placeholder="Enter customer feedback..."
+                      required
+                      className="mt-2"
+                    />
+                  </div>
 
-              {/* Submit Button */}
-              <Button
-                type="submit"
-                className="w-full"
-                data-testid="button-add-feedback"
-                disabled={addFeedbackMutation.isPending}
-              >
-                {addFeedbackMutation.isPending ? "Adding..." : "Add Feedback"}
-              </Button>
-            </form>
-          </Card>
-
-          {/* ============================================================================
-              Priority Item Form
-              Allows adding items to the impact vs effort matrix
-              ============================================================================ */}
-          <Card className="p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <Plus className="w-5 h-5 text-primary" />
-              <h2 className="text-xl font-semibold">Add Priority Item</h2>
-            </div>
+                  {/* Sentiment Selection */}
+                  <div>
+                    <Label htmlFor="feedback-sentiment">Sentiment</Label>
+                    <Select value={feedbackSentiment} onValueChange={setFeedbackSentiment}>
+                      <SelectTrigger id="feedback-sentiment" data-testid="select-sentiment" className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect</SelectItem>
+                        <SelectItem value="positive">Positive</SelectItem>
+                        <SelectItem value="negative">Negative</SelectItem>
+                        <SelectItem value="neutral">Neutral</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
 
-            <form onSubmit={handleAddPriority} className="space-y-4">
-              {/* Priority Title */}
-              <div>
-                <Label htmlFor="priority-title">Title</Label>
-                <Input
-                  id="priority-title"
-                  data-testid="input-priority-title"
-                  value={priorityTitle}
-                  onChange={(e) => setPriorityTitle(e.target.value)}
-                  placeholder="Enter priority title..."
-                  required
-                  className="mt-2"
-                />
-              </div>
+                  {/* Source and Region Selection */}
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Feedback Source */}
+                    <div>
+                      <Label htmlFor="feedback-source">Source</Label>
+                      <Select value={feedbackSource} onValueChange={setFeedbackSource}>
+                        <SelectTrigger id="feedback-source" data-testid="select-source" className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Twitter">Twitter</SelectItem>
+                          <SelectItem value="Facebook">Facebook</SelectItem>
+                          <SelectItem value="Instagram">Instagram</SelectItem>
+                          <SelectItem value="Email">Email</SelectItem>
+                          <SelectItem value="Live Chat">Live Chat</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Geographic Region */}
+                    <div>
+                      <Label htmlFor="feedback-region">Region</Label>
+                      <Select value={feedbackRegion} onValueChange={setFeedbackRegion}>
+                        <SelectTrigger id="feedback-region" data-testid="select-region" className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Northeast">Northeast</SelectItem>
+                          <SelectItem value="Southeast">Southeast</SelectItem>
+                          <SelectItem value="Midwest">Midwest</SelectItem>
+                          <SelectItem value="Southwest">Southwest</SelectItem>
+                          <SelectItem value="West">West</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
 
-              {/* Priority Description */}
-              <div>
-                <Label htmlFor="priority-description">Description</Label>
-                <Textarea
-                  id="priority-description"
-                  data-testid="input-priority-description"
-                  value={priorityDescription}
-                  onChange={(e) => setPriorityDescription(e.target.value)}
-                  placeholder="Enter description..."
-                  required
-                  className="mt-2"
-                />
-              </div>
+                  {/* Submit Button */}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    data-testid="button-add-feedback"
+                    disabled={addFeedbackMutation.isPending}
+                  >
+                    {addFeedbackMutation.isPending ? "Adding..." : "Add Feedback"}
+                  </Button>
+                </form>
+              </Card>
+
+              {/* ============================================================================
+                  Bulk Feedback Import
+                  CSV/NDJSON upload with dry-run validation and column mapping
+                  ============================================================================ */}
+              <FeedbackImport />
+            </div>
 
-              {/* Impact and Effort Scores */}
-              <div className="grid grid-cols-2 gap-4">
-                {/* Impact Score (1-10) */}
-                <div>
-                  <Label htmlFor="priority-impact">Impact (1-10)</Label>
-                  <Input
-                    id="priority-impact"
-                    data-testid="input-priority-impact"
-                    type="number"
-                    min="1"
-                    max="10"
-                    value={priorityImpact}
-                    onChange={(e) => setPriorityImpact(e.target.value)}
-                    required
-                    className="mt-2"
-                  />
+            <RecordManager
+              title={`Recent Feedback (latest ${MANAGE_FEEDBACK_LIMIT})`}
+              entityLabel="feedback"
+              endpoint="/api/feedback"
+              records={feedbackRecords}
+              isLoading={feedbackLoading}
+              columns={feedbackColumns}
+              fields={feedbackFields}
+              invalidateKeys={[...FEEDBACK_DEPENDENT_KEYS, "/api/trash"]}
+              deleteDescription={TRASH_NOTICE}
+              testId="manage-feedback"
+            />
+          </TabsContent>
+
+          {/* PRIORITY ITEMS TAB */}
+          <TabsContent value="priority" className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* ============================================================================
+                  Priority Item Form
+                  Allows adding items to the impact vs effort matrix
+                  ============================================================================ */}
+              <Card className="p-6">
+                <div className="flex items-center gap-2 mb-6">
+                  <Plus className="w-5 h-5 text-primary" />
+                  <h2 className="text-xl font-semibold">Add Priority Item</h2>
                 </div>
 
-                {/* Effort Score (1-10) */}
-                <div>
-                  <Label htmlFor="priority-effort">Effort (1-10)</Label>
-                  <Input
-                    id="priority-effort"
-                    data-testid="input-priority-effort"
-                    type="number"
-                    min="1"
-                    max="10"
-                    value={priorityEffort}
-                    onChange={(e) => setPriorityEffort(e.target.value)}
-                    required
-                    className="mt-2"
-                  />
-                </div>
-              </div>
+                <form onSubmit={handleAddPriority} className="space-y-4">
+                  {/* Priority Title */}
+                  <div>
+                    <Label htmlFor="priority-title">Title</Label>
+                    <Input
+                      id="priority-title"
+                      data-testid="input-priority-title"
+                      value={priorityTitle}
+                      onChange={(e) => setPriorityTitle(e.target.value)}
+                      placeholder="Enter priority title..."
+                      required
+                      className="mt-2"
+                    />
+                  </div>
 
-              {/* Category and Rank */}
-              <div className="grid grid-cols-2 gap-4">
-                {/* Category Classification */}
-                <div>
-                  <Label htmlFor="priority-category">Category</Label>
-                  <Select value={priorityCategory} onValueChange={setPriorityCategory}>
-                    <SelectTrigger id="priority-category" data-testid="select-category" className="mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Product">Product</SelectItem>
-                      <SelectItem value="Support">Support</SelectItem>
-                      <SelectItem value="Engineering">Engineering</SelectItem>
-                      <SelectItem value="Content">Content</SelectItem>
-                      <SelectItem value="Marketing">Marketing</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                  {/* Priority Description */}
+                  <div>
+                    <Label htmlFor="priority-description">Description</Label>
+                    <Textarea
+                      id="priority-description"
+                      data-testid="input-priority-description"
+                      value={priorityDescription}
+                      onChange={(e) => setPriorityDescription(e.target.value)}
+                      placeholder="Enter description..."
+                      required
+                      className="mt-2"
+                    />
+                  </div>
 
-                {/* Priority Ranking */}
-                <div>
-                  <Label htmlFor="priority-rank">Rank</Label>
-                  <Input
-                    id="priority-rank"
-                    data-testid="input-priority-rank"
-                    type="number"
-                    min="1"
-                    value={priorityRank}
-                    onChange={(e) => setPriorityRank(e.target.value)}
-                    required
-                    className="mt-2"
-                  />
-                </div>
-              </div>
+                  {/* Impact and Effort Scores */}
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Impact Score (1-10) */}
+                    <div>
+                      <Label htmlFor="priority-impact">Impact (1-10)</Label>
+                      <Input
+                        id="priority-impact"
+                        data-testid="input-priority-impact"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={priorityImpact}
+                        onChange={(e) => setPriorityImpact(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+
+                    {/* Effort Score (1-10) */}
+                    <div>
+                      <Label htmlFor="priority-effort">Effort (1-10)</Label>
+                      <Input
+                        id="priority-effort"
+                        data-testid="input-priority-effort"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={priorityEffort}
+                        onChange={(e) => setPriorityEffort(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+                  </div>
 
-              {/* Submit Button */}
-              <Button
-                type="submit"
-                className="w-full"
-                data-testid="button-add-priority"
-                disabled={addPriorityMutation.isPending}
-              >
-                {addPriorityMutation.isPending ? "Adding..." : "Add Priority Item"}
-              </Button>
-            </form>
-          </Card>
-
-          {/* ============================================================================
-              Channel Form
-              Allows adding new communication channels with validation
-              ============================================================================ */}
-          <Card className="p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <Plus className="w-5 h-5 text-primary" />
-              <h2 className="text-xl font-semibold">Add New Channel</h2>
-            </div>
+                  {/* RICE Inputs */}
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Reach */}
+                    <div>
+                      <Label htmlFor="priority-reach">Reach (customers per quarter)</Label>
+                      <Input
+                        id="priority-reach"
+                        data-testid="input-priority-reach"
+                        type="number"
+                        min="0"
+                        value={priorityReach}
+                        onChange={(e) => setPriorityReach(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+
+                    {/* Confidence */}
+                    <div>
+                      <Label htmlFor="priority-confidence">Confidence (0-100%)</Label>
+                      <Input
+                        id="priority-confidence"
+                        data-testid="input-priority-confidence"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={priorityConfidence}
+                        onChange={(e) => setPriorityConfidence(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+                  </div>
 
-            <form onSubmit={handleAddChannel} className="space-y-4">
-              {/* Channel Name */}
-              <div>
-                <Label htmlFor="channel-name">Channel Name</Label>
-                <Input
-                  id="channel-name"
-                  data-testid="input-channel-name"
-                  value={channelName}
-                  onChange={(e) => setChannelName(e.target.value)}
-                  placeholder="e.g., Twitter, Instagram, Support Email..."
-                  required
-                  className="mt-2"
-                />
-              </div>
+                  {/* WSJF Inputs (1-10) */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="priority-business-value">Business Value</Label>
+                      <Input
+                        id="priority-business-value"
+                        data-testid="input-priority-business-value"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={priorityBusinessValue}
+                        onChange={(e) => setPriorityBusinessValue(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="priority-time-criticality">Time Criticality</Label>
+                      <Input
+                        id="priority-time-criticality"
+                        data-testid="input-priority-time-criticality"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={priorityTimeCriticality}
+                        onChange={(e) => setPriorityTimeCriticality(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="priority-risk-reduction">Risk Reduction</Label>
+                      <Input
+                        id="priority-risk-reduction"
+                        data-testid="input-priority-risk-reduction"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={priorityRiskReduction}
+                        onChange={(e) => setPriorityRiskReduction(e.target.value)}
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+                  </div>
 
-              {/* Channel Status */}
-              <div>
-                <Label htmlFor="channel-status">Status</Label>
-                <Select value={channelStatus} onValueChange={setChannelStatus}>
-                  <SelectTrigger id="channel-status" data-testid="select-channel-status" className="mt-2">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                  {/* Category and Rank */}
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Category Classification */}
+                    <div>
+                      <Label htmlFor="priority-category">Category</Label>
+                      <Select value={priorityCategory} onValueChange={setPriorityCategory}>
+                        <SelectTrigger id="priority-category" data-testid="select-category" className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Product">Product</SelectItem>
+                          <SelectItem value="Support">Support</SelectItem>
+                          <SelectItem value="Engineering">Engineering</SelectItem>
+                          <SelectItem value="Content">Content</SelectItem>
+                          <SelectItem value="Marketing">Marketing</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Priority Ranking */}
+                    <div>
+                      <Label htmlFor="priority-rank">Rank</Label>
+                      <Input
+                        id="priority-rank"
+                        data-testid="input-priority-rank"
+                        type="number"
+                        min="1"
+                        value={priorityRank}
+                        onChange={(e) => setPriorityRank(e.target.value)}
+                        required
+                        disabled={scoringSettings?.autoRank}
+                        className="mt-2"
+                      />
+                      {scoringSettings?.autoRank && (
+                        <p className="text-xs text-muted-foreground mt-1">Ranked by score (see Scoring)</p>
+                      )}
+                    </div>
+                  </div>
 
-              {/* Message Count with Validation */}
-              <div>
-                <Label htmlFor="channel-message-count">Message Count</Label>
-                <Input
-                  id="channel-message-count"
-                  data-testid="input-channel-message-count"
-                  type="text"
-                  value={channelMessageCount}
-                  onChange={(e) => handleMessageCountChange(e.target.value)}
-                  placeholder="e.g., 2.5K, 15K, 100..."
-                  required
-                  // ERROR HANDLING: Add red border when validation fails
-                  className={`mt-2 ${messageCountError ? 'border-destructive focus-visible:ring-destructive' : ''}`}
-                />
-                
-                {/* ERROR MESSAGE: Display validation error when present */}
-                {messageCountError && (
-                  <div 
-                    className="flex items-start gap-2 mt-2 text-sm text-destructive"
-                    data-testid="error-message-count"
+                  {/* Submit Button */}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    data-testid="button-add-priority"
+                    disabled={addPriorityMutation.isPending}
                   >
-                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                    <span>{messageCountError}</span>
+                    {addPriorityMutation.isPending ? "Adding..." : "Add Priority Item"}
+                  </Button>
+                </form>
+              </Card>
+
+              <ScoringSettings />
+            </div>
+
+            <RecordManager
+              title="Priority Items"
+              entityLabel="priority item"
+              endpoint="/api/priority-items"
+              records={priorityRecords}
+              isLoading={priorityLoading}
+              columns={priorityColumns}
+              fields={priorityFields}
+              invalidateKeys={["/api/trash"]}
+              deleteDescription={TRASH_NOTICE}
+              testId="manage-priority"
+            />
+          </TabsContent>
+
+          {/* AI INSIGHTS TAB */}
+          <TabsContent value="insights">
+            <RecordManager
+              title="AI Insights"
+              entityLabel="AI insight"
+              endpoint="/api/ai-insights"
+              records={insightRecords}
+              isLoading={insightsLoading}
+              columns={insightColumns}
+              fields={insightFields}
+              testId="manage-insights"
+            />
+          </TabsContent>
+
+          {/* IMPACT METRICS TAB */}
+          <TabsContent value="impact">
+            <RecordManager
+              title="Impact Metrics"
+              entityLabel="impact metric"
+              endpoint="/api/impact-metrics"
+              records={impactRecords}
+              isLoading={impactLoading}
+              columns={impactColumns}
+              fields={impactFields}
+              testId="manage-impact"
+            />
+          </TabsContent>
+
+          {/* USAGE METRICS TAB */}
+          <TabsContent value="usage">
+            <RecordManager
+              title="Usage Metrics"
+              entityLabel="usage metric"
+              endpoint="/api/usage-metrics"
+              records={usageRecords}
+              isLoading={usageLoading}
+              columns={usageColumns}
+              fields={usageFields}
+              invalidateKeys={["/api/dashboard-stats"]}
+              testId="manage-usage"
+            />
+          </TabsContent>
+
+          {/* CHANNELS TAB (admins only) */}
+          {canManageChannels && (
+            <TabsContent value="channels" className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* ============================================================================
+                    Channel Form
+                    Allows adding new communication channels with validation
+                    ============================================================================ */}
+                <Card className="p-6">
+                  <div className="flex items-center gap-2 mb-6">
+                    <Plus className="w-5 h-5 text-primary" />
+                    <h2 className="text-xl font-semibold">Add New Channel</h2>
                   </div>
-                )}
-                
-                {/* HELPER TEXT: Always visible to guide users */}
-                {!messageCountError && (
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Enter a number (e.g., 100) or use K/M/B suffixes (e.g., 2.5K, 1.5M, 3B)
-                  </p>
-                )}
+
+                  <form onSubmit={handleAddChannel} className="space-y-4">
+                    {/* Channel Name */}
+                    <div>
+                      <Label htmlFor="channel-name">Channel Name</Label>
+                      <Input
+                        id="channel-name"
+                        data-testid="input-channel-name"
+                        value={channelName}
+                        onChange={(e) => setChannelName(e.target.value)}
+                        placeholder="e.g., Twitter, Instagram, Support Email..."
+                        required
+                        className="mt-2"
+                      />
+                    </div>
+
+                    {/* Channel Status */}
+                    <div>
+                      <Label htmlFor="channel-status">Status</Label>
+                      <Select value={channelStatus} onValueChange={setChannelStatus}>
+                        <SelectTrigger id="channel-status" data-testid="select-channel-status" className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="active">Active</SelectItem>
+                          <SelectItem value="inactive">Inactive</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      Message counts are computed from feedback whose source is the channel name.
+                    </p>
+
+                    {/* Submit Button */}
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      data-testid="button-add-channel"
+                      disabled={addChannelMutation.isPending}
+                    >
+                      {addChannelMutation.isPending ? "Adding..." : "Add Channel"}
+                    </Button>
+                  </form>
+                </Card>
               </div>
 
-              {/* Submit Button */}
-              <Button
-                type="submit"
-                className="w-full"
-                data-testid="button-add-channel"
-                disabled={addChannelMutation.isPending || !!messageCountError}
-              >
-                {addChannelMutation.isPending ? "Adding..." : "Add Channel"}
-              </Button>
-            </form>
-          </Card>
-        </div>
+              <RecordManager
+                title="Channels"
+                entityLabel="channel"
+                endpoint="/api/channels"
+                records={channelRecords}
+                isLoading={channelsLoading}
+                columns={channelColumns}
+                fields={channelFields}
+                testId="manage-channels"
+              />
+
+              <ChannelConnectors channels={channelRecords} />
+
+              <ChannelIngestion channels={channelRecords} />
+            </TabsContent>
+          )}
+
+          {/* TRASH TAB */}
+          <TabsContent value="trash">
+            <TrashView />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -5,8 +5,10 @@
  * 
  * SECTIONS:
  * 1. Priority List: Ranked list of all priority items with impact/effort scores
- *    - Sortable by impact or effort (buttons currently non-functional)
+ *    - Each item has a RICE or WSJF score (model and weights are set on the Manage page)
+ *    - Sortable by score, impact or effort
  *    - Shows category, rank, and description for each item
+ *    - Shows the customer demand behind each item (linked feedback and topics)
  * 
  * 2. Impact vs Effort Matrix: Scatter plot visualization
  *    - X-axis: Effort (1-10) - how hard is it to implement?
@@ -17,9 +19,11 @@
  *      * Fill Ins (low impact, low effort) - nice to have
  *      * Hard Slogs (low impact, high effort) - avoid these
  * 
- * 3. AI Insights: AI-generated recommendations based on customer feedback
- *    - TODO: Replace with OpenAI API for dynamic generation
- *    - Currently shows pre-generated insights from database
+ * 3. AI Insights: Recommendations based on customer feedback
+ *    - Generated by the server from recent feedback (see server/insights)
+ *    - Analysts can run the generator right away
+ *    - Analysts accept or dismiss insights, or convert them into priority
+ *      items that then show up in the list and matrix above
  * 
  * DATA FLOW:
  * - Matrix and list both fetch from /api/priority-items
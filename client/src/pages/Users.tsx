@@ -0,0 +1,240 @@
+/**
+ * USERS PAGE (admins only)
+ *
+ * Account and role administration:
+ * - Lists every account with its role and creation date
+ * - Role selector per account (viewer, analyst, admin)
+ * - Form to create an account with an initial role
+ *
+ * ROLES:
+ * - Viewer: Dashboard, Prioritization and Impact Tracker (read-only)
+ * - Analyst: additionally explores, exports and adds feedback and priority items, and manages alerts
+ * - Admin: additionally manages channels, users and webhooks
+ *
+ * The server refuses to demote the last remaining admin.
+ */
+
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { UserPlus } from "lucide-react";
+import { userRoles, type PublicUser, type UserRole } from "@shared/schema";
+
+// Labels shown in the role selectors
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  analyst: "Analyst",
+  admin: "Admin",
+};
+
+export default function Users() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  // New account form state
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+
+  // Fetch all accounts
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // Create account
+  const createUserMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/users", { username, password, role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Success", description: `Account "${username.trim().toLowerCase()}" created` });
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Change an account's role
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      return await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  /**
+   * HANDLE CREATE USER
+   */
+  const handleCreateUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    createUserMutation.mutate();
+  };
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Users</h1>
+          <p className="text-muted-foreground">
+            Create accounts and assign roles
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Accounts Table */}
+          <Card className="p-6 lg:col-span-2">
+            <h2 className="text-xl font-semibold mb-4">Accounts</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-40">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                      Loading users...
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  users?.map((account) => (
+                    <TableRow key={account.id} data-testid={`row-user-${account.id}`}>
+                      <TableCell className="font-medium">
+                        {account.username}
+                        {account.id === currentUser?.id && (
+                          <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(account.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={account.role}
+                          onValueChange={(value) =>
+                            updateRoleMutation.mutate({ id: account.id, role: value as UserRole })
+                          }
+                          disabled={updateRoleMutation.isPending}
+                        >
+                          <SelectTrigger data-testid={`select-user-role-${account.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userRoles.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {ROLE_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+
+          {/* New Account Form */}
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-6">
+              <UserPlus className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-semibold">Add User</h2>
+            </div>
+
+            <form onSubmit={handleCreateUser} className="space-y-4">
+              <div>
+                <Label htmlFor="new-user-username">Username</Label>
+                <Input
+                  id="new-user-username"
+                  data-testid="input-new-user-username"
+                  autoComplete="off"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="mt-2"
+                  minLength={3}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="new-user-password">Password</Label>
+                <Input
+                  id="new-user-password"
+                  data-testid="input-new-user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="mt-2"
+                  minLength={8}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="new-user-role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                  <SelectTrigger id="new-user-role" data-testid="select-new-user-role" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userRoles.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {ROLE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                data-testid="button-add-user"
+                disabled={createUserMutation.isPending}
+              >
+                {createUserMutation.isPending ? "Adding..." : "Add User"}
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,601 @@
+/**
+ * WEBHOOKS PAGE (admins only)
+ *
+ * Outbound notifications for chat and incident tools.
+ *
+ * SECTIONS:
+ * 1. Webhooks: one card per endpoint
+ *    - Enable switch and subscribed events (changes save immediately)
+ *    - Signing secret (hidden until revealed), copy and rotate
+ *    - Send test delivery, delete
+ * 2. New webhook form: name, URL and events
+ * 3. Delivery log: latest 200 deliveries, filterable by webhook and status
+ *    - Rows expand to the payload and the receiver's latest response
+ *    - Any delivery can be replayed (sent again as a new delivery)
+ *
+ * DATA FLOW:
+ * - Deliveries are sent by the server; attempts and retries show up through
+ *   live updates
+ */
+
+import { Fragment, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { format, formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, Copy, Eye, EyeOff, KeyRound, Plus, RotateCcw, Send, Trash2 } from "lucide-react";
+import {
+  webhookDeliveryStatuses,
+  webhookEvents,
+  type Webhook,
+  type WebhookDeliveryWithWebhook,
+  type WebhookEvent,
+} from "@shared/schema";
+
+const ALL = "all"; // Select value meaning "no filter"
+
+// Display names and descriptions per event
+const EVENT_LABELS: Record<WebhookEvent, { label: string; description: string }> = {
+  "alert.fired": { label: "Alert fired", description: "An alert rule started firing" },
+  "alert.resolved": { label: "Alert resolved", description: "A firing alert's condition cleared" },
+  "feedback.negative": { label: "Negative feedback", description: "High-severity negative feedback arrived" },
+  "priority.rank_changed": { label: "Priority rank changed", description: "A priority item moved to another rank" },
+};
+
+/**
+ * Get delivery status badge color classes
+ */
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "succeeded":
+      return "bg-green-100 text-green-700 border-green-200";
+    case "failed":
+      return "bg-red-100 text-red-700 border-red-200";
+    default:
+      return "bg-amber-100 text-amber-700 border-amber-200";
+  }
+};
+
+// Webhook waiting for confirmation of a destructive action
+type PendingAction = { kind: "delete" | "rotate"; webhook: Webhook };
+
+export default function Webhooks() {
+  const { toast } = useToast();
+
+  // New webhook form state
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["alert.fired", "alert.resolved"]);
+
+  // Ids of webhooks whose secret is shown
+  const [revealed, setRevealed] = useState<string[]>([]);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  // Delivery log filters and expanded row
+  const [webhookFilter, setWebhookFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const params = new URLSearchParams();
+  if (webhookFilter !== ALL) params.set("webhookId", webhookFilter);
+  if (statusFilter !== ALL) params.set("status", statusFilter);
+
+  const { data: deliveries, isLoading: deliveriesLoading, isError: deliveriesError } = useQuery<WebhookDeliveryWithWebhook[]>({
+    queryKey: ["/api/webhook-deliveries", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/webhook-deliveries?${params}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+  };
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+  };
+
+  // ============================================================================
+  // Mutations
+  // ============================================================================
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/webhooks", { name, url, events });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: `Webhook "${name.trim()}" created` });
+      setName("");
+      setUrl("");
+    },
+    onError: showError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: { enabled?: boolean; events?: WebhookEvent[] } }) => {
+      return await apiRequest("PATCH", `/api/webhooks/${id}`, changes);
+    },
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      return await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+    },
+    onSuccess: (_data, webhook) => {
+      refresh();
+      toast({ title: "Success", description: `Test delivery queued for "${webhook.name}"` });
+    },
+    onError: showError,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/webhook-deliveries/${id}/replay`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Delivery queued again" });
+    },
+    onError: showError,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ kind, webhook }: PendingAction) => {
+      return kind === "delete"
+        ? await apiRequest("DELETE", `/api/webhooks/${webhook.id}`)
+        : await apiRequest("POST", `/api/webhooks/${webhook.id}/rotate-secret`);
+    },
+    onSuccess: (_data, { kind, webhook }) => {
+      refresh();
+      setPending(null);
+      toast({
+        title: "Success",
+        description: kind === "delete" ? `Webhook "${webhook.name}" deleted` : `Secret for "${webhook.name}" rotated`,
+      });
+    },
+    onError: showError,
+  });
+
+  /**
+   * HANDLE CREATE
+   */
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  /**
+   * TOGGLE EVENT
+   * Adds or removes an event from a list of subscriptions
+   */
+  const toggleEvent = (list: WebhookEvent[], event: WebhookEvent, checked: boolean) =>
+    checked ? [...list, event] : list.filter((existing) => existing !== event);
+
+  /**
+   * COPY SECRET
+   */
+  const copySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast({ title: "Success", description: "Secret copied to the clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not access the clipboard", variant: "destructive" });
+    }
+  };
+
+  /**
+   * RENDER WEBHOOK
+   */
+  const renderWebhook = (webhook: Webhook) => {
+    const shown = revealed.includes(webhook.id);
+    return (
+      <div key={webhook.id} className="p-4 rounded-lg border bg-card space-y-4" data-testid={`webhook-${webhook.id}`}>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{webhook.name}</span>
+              {!webhook.enabled && <Badge variant="secondary">Disabled</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground font-mono break-all">{webhook.url}</p>
+          </div>
+          <Switch
+            checked={webhook.enabled}
+            onCheckedChange={(enabled) => updateMutation.mutate({ id: webhook.id, changes: { enabled } })}
+            data-testid={`switch-webhook-${webhook.id}`}
+          />
+        </div>
+
+        {/* Subscribed events */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {webhookEvents.map((event) => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={webhook.events.includes(event)}
+                onCheckedChange={(checked) =>
+                  updateMutation.mutate({
+                    id: webhook.id,
+                    changes: { events: toggleEvent(webhook.events as WebhookEvent[], event, checked === true) },
+                  })
+                }
+                data-testid={`checkbox-webhook-${webhook.id}-${event}`}
+              />
+              {EVENT_LABELS[event].label}
+            </label>
+          ))}
+        </div>
+
+        {/* Signing secret */}
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-muted-foreground shrink-0" />
+          <code className="text-xs bg-muted px-2 py-1 rounded break-all flex-1" data-testid={`text-webhook-secret-${webhook.id}`}>
+            {shown ? webhook.secret : "whsec_••••••••••••••••"}
+          </code>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setRevealed(shown ? revealed.filter((id) => id !== webhook.id) : [...revealed, webhook.id])}
+            title={shown ? "Hide secret" : "Show secret"}
+            data-testid={`button-reveal-secret-${webhook.id}`}
+          >
+            {shown ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => copySecret(webhook)}
+            title="Copy secret"
+            data-testid={`button-copy-secret-${webhook.id}`}
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => testMutation.mutate(webhook)}
+            disabled={testMutation.isPending}
+            data-testid={`button-test-webhook-${webhook.id}`}
+          >
+            <Send className="w-4 h-4 mr-1" />
+            Send test
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPending({ kind: "rotate", webhook })}
+            data-testid={`button-rotate-secret-${webhook.id}`}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Rotate secret
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPending({ kind: "delete", webhook })}
+            data-testid={`button-delete-webhook-${webhook.id}`}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * RENDER DELIVERY DETAILS
+   * Payload as sent and the receiver's latest answer
+   */
+  const renderDeliveryDetails = (delivery: WebhookDeliveryWithWebhook) => (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-xs">
+      <div>
+        <p className="font-medium mb-1">Payload</p>
+        <pre className="bg-muted p-2 rounded overflow-x-auto max-h-64">{JSON.stringify(delivery.payload, null, 2)}</pre>
+      </div>
+      <div className="space-y-1">
+        <p className="font-medium mb-1">Latest attempt</p>
+        <p className="text-muted-foreground">Delivery id: <span className="font-mono">{delivery.id}</span></p>
+        {delivery.replayOf && (
+          <p className="text-muted-foreground">Replay of: <span className="font-mono">{delivery.replayOf}</span></p>
+        )}
+        {delivery.lastAttemptAt && (
+          <p className="text-muted-foreground">Attempted {format(new Date(delivery.lastAttemptAt), "MMM d, yyyy HH:mm:ss")}</p>
+        )}
+        {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+        {delivery.responseBody && (
+          <pre className="bg-muted p-2 rounded overflow-x-auto max-h-40 whitespace-pre-wrap">{delivery.responseBody}</pre>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="pt-20 px-4 md:px-6 lg:px-8 pb-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl lg:text-4xl font-semibold mb-2">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Send alerts, negative feedback and priority changes to chat and incident tools
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* WEBHOOK LIST */}
+          <Card className="p-6 lg:col-span-2">
+            <h2 className="text-xl font-semibold mb-4">Endpoints</h2>
+            {isLoading ? (
+              <div className="h-32 rounded-lg bg-muted/20 animate-pulse" />
+            ) : !webhooks || webhooks.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No webhooks yet</p>
+            ) : (
+              <div className="space-y-4">{webhooks.map(renderWebhook)}</div>
+            )}
+          </Card>
+
+          {/* NEW WEBHOOK FORM */}
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Plus className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-xl font-semibold">New Webhook</h2>
+            </div>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <Label htmlFor="new-webhook-name">Name</Label>
+                <Input
+                  id="new-webhook-name"
+                  data-testid="input-new-webhook-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Ops chat"
+                  className="mt-2"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-webhook-url">URL</Label>
+                <Input
+                  id="new-webhook-url"
+                  data-testid="input-new-webhook-url"
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://hooks.example.com/..."
+                  className="mt-2"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                {webhookEvents.map((event) => (
+                  <label key={event} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => setEvents(toggleEvent(events, event, checked === true))}
+                      data-testid={`checkbox-new-webhook-${event}`}
+                    />
+                    <span>
+                      {EVENT_LABELS[event].label}
+                      <span className="block text-xs text-muted-foreground">{EVENT_LABELS[event].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                A signing secret is generated for the webhook. Requests carry an
+                X-Sentiment360-Signature header: sha256 HMAC of "timestamp.body".
+              </p>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={createMutation.isPending || events.length === 0}
+                data-testid="button-create-webhook"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Webhook"}
+              </Button>
+            </form>
+          </Card>
+        </div>
+
+        {/* DELIVERY LOG */}
+        <Card className="p-6">
+          <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+            <h2 className="text-xl font-semibold">Delivery Log</h2>
+            <div className="flex gap-2">
+              <Select value={webhookFilter} onValueChange={setWebhookFilter}>
+                <SelectTrigger className="w-48" data-testid="filter-delivery-webhook">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All webhooks</SelectItem>
+                  {webhooks?.map((webhook) => (
+                    <SelectItem key={webhook.id} value={webhook.id}>{webhook.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36" data-testid="filter-delivery-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {webhookDeliveryStatuses.map((status) => (
+                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead className="w-44">Queued</TableHead>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead className="w-28">Status</TableHead>
+                <TableHead className="w-24">Attempts</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveriesLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-muted-foreground">
+                    Loading deliveries...
+                  </TableCell>
+                </TableRow>
+              ) : deliveriesError ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-destructive">
+                    Failed to load the delivery log
+                  </TableCell>
+                </TableRow>
+              ) : !deliveries || deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-muted-foreground">
+                    No deliveries
+                  </TableCell>
+                </TableRow>
+              ) : (
+                deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}
+                      data-testid={`row-delivery-${delivery.id}`}
+                    >
+                      <TableCell>
+                        {expanded === delivery.id
+                          ? <ChevronDown className="w-4 h-4" />
+                          : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(delivery.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.webhookName}</TableCell>
+                      <TableCell className="text-sm font-mono">{delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${getStatusColor(delivery.status)}`}>
+                          {delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {delivery.status === "pending" && delivery.attempts > 0
+                          ? `Retry ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`
+                          : delivery.responseStatus !== null
+                            ? `HTTP ${delivery.responseStatus}`
+                            : delivery.error ?? "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            replayMutation.mutate(delivery.id);
+                          }}
+                          disabled={replayMutation.isPending}
+                          data-testid={`button-replay-${delivery.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === delivery.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={7} data-testid={`details-delivery-${delivery.id}`}>
+                          {renderDeliveryDetails(delivery)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {/* Confirm delete / rotate */}
+        <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {pending?.kind === "delete" ? `Delete "${pending.webhook.name}"?` : `Rotate the secret of "${pending?.webhook.name}"?`}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {pending?.kind === "delete"
+                  ? "The webhook and its delivery log will be deleted. This cannot be undone."
+                  : "The current secret stops working immediately; update the receiver with the new one."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault(); // Keep the dialog open until the request finishes
+                  if (pending) confirmMutation.mutate(pending);
+                }}
+                disabled={confirmMutation.isPending}
+                data-testid="button-confirm-webhook-action"
+              >
+                {pending?.kind === "delete" ? "Delete" : "Rotate"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Alert Evaluation
+ *
+ * Checks every enabled alert rule against recent feedback on a schedule:
+ * - Each rule's metric is computed over its window (see alertMetrics in the schema)
+ * - Windows with fewer than the rule's minVolume entries are skipped (no value),
+ *   so a handful of messages can't fire or resolve an alert
+ * - Crossing the threshold opens a firing alert; dropping back resolves it
+ * - Fired and resolved alerts are pushed to browsers as live events and sent
+ *   to subscribed webhooks (see webhooks.ts)
+ * - Runs once at startup and then every ALERT_EVALUATION_MINUTES
+ *
+ * ENVIRONMENT:
+ * - ALERT_EVALUATION_MINUTES: Minutes between evaluations (default: 5, 0 disables evaluation)
+ */
+
+import type { AlertMetric, AlertRule, AlertWindowStats } from "@shared/schema";
+import { storage } from "./storage";
+import { publishLiveEvent } from "./live";
+import { notifyAlertTransition } from "./webhooks";
+import { readIntervalEnv, scheduleJob } from "./jobs";
+import { log } from "./vite";
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+/**
+ * Get Alert Evaluation Minutes
+ * Reads ALERT_EVALUATION_MINUTES, falling back to the default for missing or invalid values
+ */
+function getAlertEvaluationMinutes(): number {
+  return readIntervalEnv("ALERT_EVALUATION_MINUTES", DEFAULT_INTERVAL_MINUTES, "alerts");
+}
+
+/**
+ * Compute Alert Value
+ * @param rule - Rule being evaluated
+ * @param stats - Feedback counts for the rule's window and baseline
+ * @returns The metric value, or null when there is too little feedback to judge
+ */
+export function computeAlertValue(rule: AlertRule, stats: AlertWindowStats): number | null {
+  if (stats.volume < rule.minVolume) return null;
+
+  switch (rule.metric as AlertMetric) {
+    case "negative_share":
+      return (stats.negative / stats.volume) * 100;
+    case "average_sentiment":
+      return stats.averageScore;
+    case "volume_spike": {
+      // Baseline volume scaled down to one window of the rule's length
+      const windowsInBaseline = (rule.baselineDays * 24) / rule.windowHours;
+      const expected = stats.baselineVolume / windowsInBaseline;
+      return expected > 0 ? stats.volume / expected : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Is Alert Condition Met
+ * @returns Whether the value is strictly beyond the threshold in the rule's direction
+ */
+export function isAlertConditionMet(rule: AlertRule, value: number | null): boolean {
+  if (value === null) return false;
+  const threshold = Number(rule.threshold);
+  return rule.comparator === "below" ? value < threshold : value > threshold;
+}
+
+/**
+ * Evaluate Alert Rules
+ * Evaluates every enabled rule once; a failing rule doesn't stop the others
+ * @param now - Evaluation time (end of every rule's window)
+ */
+export async function evaluateAlertRules(now: Date = new Date()): Promise<void> {
+  const rules = await storage.getAlertRules();
+
+  for (const rule of rules.filter((candidate) => candidate.enabled)) {
+    try {
+      const stats = await storage.getAlertWindowStats(rule, now);
+      const value = computeAlertValue(rule, stats);
+      const transition = await storage.recordAlertEvaluation(rule.id, value, isAlertConditionMet(rule, value), now);
+
+      if (transition) {
+        log(`Alert "${rule.name}" ${transition.change} (value ${transition.alert.latestValue})`, "alerts");
+        publishLiveEvent(transition.change === "fired" ? "alert.fired" : "alert.resolved", transition.alert.id);
+        notifyAlertTransition(transition, rule);
+      }
+    } catch (error) {
+      log(`Evaluating alert "${rule.name}" failed: ${error instanceof Error ? error.message : String(error)}`, "alerts");
+    }
+  }
+}
+
+/**
+ * Start Alert Evaluation
+ * Schedules rule evaluation; does nothing when evaluation is disabled
+ */
+export function startAlertEvaluation() {
+  const minutes = getAlertEvaluationMinutes();
+  if (minutes === 0) {
+    log("Alert evaluation disabled; alert rules are not checked", "alerts");
+    return;
+  }
+
+  scheduleJob("Alert evaluation", evaluateAlertRules, minutes * 60 * 1000, "alerts");
+}
@@ -0,0 +1,307 @@
+/**
+ * Authentication
+ *
+ * Local username/password accounts with server-side sessions:
+ * - Passwords are hashed with scrypt (random 16-byte salt per password)
+ * - Passport's local strategy verifies credentials on login
+ * - Sessions are stored in Postgres (connect-pg-simple) so logins survive restarts
+ * - Every /api route except /api/auth/* and /api/ingest/* requires a signed-in
+ *   user (ingestion requests are signed instead, see ingest.ts)
+ * - requireRole() restricts individual routes to analysts or admins
+ * - WebSocket upgrades (which bypass Express) are authenticated with the
+ *   session loader returned by setupAuth()
+ *
+ * FIRST RUN:
+ * - While no account exists, POST /api/auth/setup creates the first one
+ *   as an admin (the login page offers this automatically); afterwards it is disabled
+ *
+ * ENVIRONMENT:
+ * - SESSION_SECRET: Secret used to sign session cookies (required in production)
+ */
+
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { ServerResponse, type IncomingMessage } from "http";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { loginSchema, hasRole, type User, type PublicUser, type UserRole } from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { requestContextMiddleware } from "./context";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Length of the derived scrypt key in bytes
+const KEY_LENGTH = 64;
+
+// How long a session stays valid without activity
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Session user as seen by route handlers (req.user)
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+/**
+ * Hash Password
+ * @param password - Plain-text password
+ * @returns "salt:hash" with both parts hex-encoded
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+/**
+ * Verify Password
+ * Compares in constant time so response timing doesn't leak how much matched
+ * @param password - Plain-text password to check
+ * @param stored - "salt:hash" produced by hashPassword
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * To Public User
+ * Strips the password hash before a user leaves the server
+ */
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Require Auth
+ * Middleware that rejects requests without a signed-in user with 401
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ error: "Authentication required" });
+}
+
+/**
+ * Require Role
+ * Middleware factory restricting a route to users with at least the given role
+ * Responds 401 when not signed in and 403 when the role is insufficient
+ * @param role - Least privileged role allowed (e.g., "analyst" also admits admins)
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Get Session Secret
+ * Production deployments must configure SESSION_SECRET; development falls
+ * back to a fixed secret so local logins survive server restarts
+ */
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  log("SESSION_SECRET is not set; using an insecure development secret", "auth");
+  return "sentiment360-dev-session-secret";
+}
+
+/**
+ * Session Loader
+ * Resolves the signed-in user of a raw HTTP request (e.g., a WebSocket upgrade)
+ * @returns The user, or null when the request has no valid session
+ */
+export type SessionLoader = (req: IncomingMessage) => Promise<PublicUser | null>;
+
+/**
+ * Setup Auth
+ * Installs session and passport middleware, registers the /api/auth endpoints
+ * and protects every other /api route. Must run before other routes are registered.
+ * @param app - Express application instance
+ * @returns Session loader for requests that don't go through Express
+ */
+export function setupAuth(app: Express): SessionLoader {
+  const PgSession = connectPgSimple(session);
+  const isProduction = process.env.NODE_ENV === "production";
+
+  // Secure cookies are only sent over HTTPS; trust the proxy that terminates TLS
+  if (isProduction) {
+    app.set("trust proxy", 1);
+  }
+
+  const sessionHandlers: RequestHandler[] = [
+    session({
+      store: new PgSession({ pool, tableName: "session" }),
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: isProduction,
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+    passport.initialize(),
+    passport.session(),
+  ];
+  app.use(sessionHandlers);
+
+  // Request id and signed-in user for audit logging (needs req.user from the session)
+  app.use("/api", requestContextMiddleware);
+
+  // Credentials are checked against the stored scrypt hash
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim().toLowerCase());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  // Only the user id is stored in the session; the user is reloaded per request
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // ============================================================================
+  // Auth Endpoints
+  // ============================================================================
+
+  /**
+   * GET /api/auth/status
+   * Tells the login page whether the first account still needs to be created
+   * Returns: { needsSetup: boolean }
+   */
+  app.get("/api/auth/status", async (_req, res) => {
+    try {
+      res.json({ needsSetup: (await storage.countUsers()) === 0 });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch auth status" });
+    }
+  });
+
+  /**
+   * POST /api/auth/setup
+   * Creates the first account and signs it in; only allowed while no account exists
+   * Request body: { username, password }
+   */
+  app.post("/api/auth/setup", async (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Username needs 3+ characters and password 8+ characters" });
+    }
+
+    try {
+      const user = await storage.createFirstUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+      });
+      if (!user) {
+        return res.status(409).json({ error: "Setup has already been completed" });
+      }
+
+      const publicUser = toPublicUser(user);
+      req.login(publicUser, (error) => {
+        if (error) return next(error);
+        res.status(201).json(publicUser);
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  /**
+   * POST /api/auth/login
+   * Signs in with username and password and starts a session
+   * Request body: { username, password }
+   */
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  /**
+   * POST /api/auth/logout
+   * Ends the current session
+   */
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  /**
+   * GET /api/auth/me
+   * Returns the signed-in user, or 401 when not signed in
+   * Used by: App route guard (current-user query)
+   */
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  // Everything else under /api requires a signed-in user, except inbound
+  // ingestion, which verifies each request's signature instead
+  app.use("/api", (req, res, next) => (req.path.startsWith("/ingest/") ? next() : requireAuth(req, res, next)));
+
+  // Runs the same session handlers on a bare request; the throwaway response is never sent
+  return async (req) => {
+    const request = req as Request;
+    const response = new ServerResponse(req) as Response;
+    for (const handler of sessionHandlers) {
+      await new Promise<void>((resolve, reject) => {
+        handler(request, response, (error?: unknown) => (error ? reject(error) : resolve()));
+      });
+    }
+    return request.user ?? null;
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * File Drop Connector
+ *
+ * Imports feedback from JSON files dropped into a folder, so the connector
+ * framework can be used without any external service:
+ * - Each channel reads its own folder under CONNECTOR_FILE_DROP_DIR
+ * - *.json files hold one feedback object or an array of them; *.ndjson files
+ *   hold one object per line
+ * - Objects look like the ingest payload: { id?, text, region?, sentiment?, timestamp? };
+ *   region falls back to the channel's defaultRegion
+ * - Files are read oldest first (by modification time) and never changed
+ * - Every poll rescans the folder; the cursor records each file read with its
+ *   modification time, so new files are picked up whatever their timestamp
+ *   (e.g., copied with cp -p or unzipped) and changed files are read again
+ * - Entries are deduplicated by id (or file and line when there is none), so
+ *   reading a file again only stores the entries that are new
+ *
+ * Write files under a temporary name without the .json/.ndjson extension and
+ * rename them when complete, so a half-written file is never read.
+ *
+ * ENVIRONMENT:
+ * - CONNECTOR_FILE_DROP_DIR: Root of the channel folders (default: data/file-drop)
+ */
+
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { ConnectorEntry, PollingConnector } from "./types";
+
+// Files read per poll; the rest are picked up by the following polls
+const MAX_FILES_PER_POLL = 20;
+
+// Larger files are skipped
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const FILE_EXTENSIONS = [".json", ".ndjson"];
+
+const fileDropConfigSchema = z.object({
+  folder: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .refine((folder) => !path.isAbsolute(folder) && !folder.split(/[\\/]/).includes(".."), {
+      message: "Must be a folder inside the file drop directory",
+    }),
+  defaultRegion: z.string().trim().min(1).max(100).default("Unspecified"),
+});
+
+type FileDropConfig = z.infer<typeof fileDropConfigSchema>;
+
+// One object read from a file, or why it couldn't be read
+interface FileDropItem {
+  record?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Get Folder Path
+ * @returns Absolute path of the channel's folder
+ */
+function getFolderPath(config: FileDropConfig): string {
+  const root = path.resolve(process.env.CONNECTOR_FILE_DROP_DIR || "data/file-drop");
+  return path.join(root, config.folder);
+}
+
+/**
+ * Parse Cursor
+ * The cursor is a JSON object of the files read, name to modification time in ms
+ * Anything else (e.g., the older "<mtime>:<name>" form) starts over; entries
+ * already stored are skipped by their ids
+ */
+function parseCursor(cursor: string | null): Map<string, number> {
+  const read = new Map<string, number>();
+  if (!cursor) return read;
+  try {
+    const parsed: unknown = JSON.parse(cursor);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      for (const [name, mtimeMs] of Object.entries(parsed)) {
+        if (typeof mtimeMs === "number") read.set(name, mtimeMs);
+      }
+    }
+  } catch {
+    // Start over
+  }
+  return read;
+}
+
+/**
+ * Read Entries
+ * @param name - File name, used in entry ids and error messages
+ * @param content - File content
+ */
+function readEntries(name: string, content: string): ConnectorEntry<FileDropItem>[] {
+  const toEntry = (value: unknown, location: string): ConnectorEntry<FileDropItem> => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { id: location, item: { error: "expected a JSON object" } };
+    }
+    const record = value as Record<string, unknown>;
+    const id = typeof record.id === "string" || typeof record.id === "number" ? String(record.id) : location;
+    return { id, item: { record } };
+  };
+
+  if (name.endsWith(".ndjson")) {
+    return content.split("\n").flatMap((line, index) => {
+      if (line.trim() === "") return [];
+      const location = `${name}:${index + 1}`;
+      try {
+        return [toEntry(JSON.parse(line), location)];
+      } catch {
+        return [{ id: location, item: { error: "invalid JSON" } }];
+      }
+    });
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content);
+    const values = Array.isArray(parsed) ? parsed : [parsed];
+    return values.map((value, index) => toEntry(value, values.length === 1 ? name : `${name}[${index}]`));
+  } catch {
+    return [{ id: name, item: { error: "invalid JSON" } }];
+  }
+}
+
+export const fileDropConnector: PollingConnector<FileDropConfig, FileDropItem> = {
+  mode: "poll",
+  label: "File drop",
+  description:
+    "Imports .json and .ndjson files dropped into a folder under the server's file drop directory " +
+    "(CONNECTOR_FILE_DROP_DIR, default data/file-drop). Useful for testing and batch exports.",
+  exampleConfig: { folder: "my-channel", defaultRegion: "Unspecified" },
+  configSchema: fileDropConfigSchema,
+
+  async checkHealth(config) {
+    try {
+      const stats = await stat(getFolderPath(config));
+      return stats.isDirectory() ? { ok: true } : { ok: false, message: `${config.folder} is not a folder` };
+    } catch {
+      return { ok: false, message: `Folder ${config.folder} not found in the file drop directory` };
+    }
+  },
+
+  async poll(config, cursor) {
+    const folder = getFolderPath(config);
+    const read = parseCursor(cursor);
+
+    const files = [];
+    for (const dirent of await readdir(folder, { withFileTypes: true })) {
+      if (!dirent.isFile() || !FILE_EXTENSIONS.includes(path.extname(dirent.name))) continue;
+      const { mtimeMs, size } = await stat(path.join(folder, dirent.name));
+      files.push({ name: dirent.name, mtimeMs, size });
+    }
+
+    const pending = files
+      .filter((file) => read.get(file.name) !== file.mtimeMs)
+      .sort((a, b) => a.mtimeMs - b.mtimeMs || a.name.localeCompare(b.name))
+      .slice(0, MAX_FILES_PER_POLL);
+
+    const entries: ConnectorEntry<FileDropItem>[] = [];
+    for (const file of pending) {
+      if (file.size > MAX_FILE_BYTES) {
+        entries.push({ id: file.name, item: { error: `file is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB` } });
+        continue;
+      }
+      entries.push(...readEntries(file.name, await readFile(path.join(folder, file.name), "utf8")));
+    }
+
+    // Remember the files read so far that are still in the folder
+    const next: Record<string, number> = {};
+    for (const file of files) {
+      const mtimeMs = pending.includes(file) ? file.mtimeMs : read.get(file.name);
+      if (mtimeMs !== undefined) next[file.name] = mtimeMs;
+    }
+    return { entries, cursor: JSON.stringify(next) };
+  },
+
+  toFeedback({ record, error }, config) {
+    if (!record) return { skip: error ?? "unreadable entry" };
+    return {
+      text: typeof record.text === "string" ? record.text : "",
+      region: typeof record.region === "string" && record.region.trim() !== "" ? record.region : config.defaultRegion,
+      sentiment: typeof record.sentiment === "string" ? record.sentiment : undefined,
+      timestamp: typeof record.timestamp === "string" ? record.timestamp : undefined,
+    };
+  },
+};
@@ -0,0 +1,300 @@
+/**
+ * Channel Connectors
+ *
+ * Pulls feedback into channels from outside sources. Every channel type except
+ * "manual" has a connector in the registry below (see types.ts) that:
+ * - Validates its settings, stored as the channel's config
+ * - Polls its source for entries after a cursor, or subscribes to it and
+ *   receives entries as they happen
+ * - Maps each entry to a feedback payload (checked like pushed feedback)
+ * - Reports whether its source can be reached
+ *
+ * The scheduler runs every CONNECTOR_SYNC_SECONDS:
+ * - Active channels with a polling connector are health-checked and polled
+ * - Subscriptions are opened for active channels with a subscribing connector
+ *   and closed once the channel is deactivated, reconfigured or deleted;
+ *   they are health-checked on every run
+ * - Entries are stored with the channel's name as source, deduplicated by the
+ *   source's id (see recordChannelSync); entries that can't be mapped are
+ *   skipped and reported as the channel's sync error
+ * - Every run records the sync time, error and counts on the channel
+ *
+ * ENVIRONMENT:
+ * - CONNECTOR_SYNC_SECONDS: Seconds between scheduler runs (default: 60, 0 disables connectors)
+ */
+
+import { ingestFeedbackSchema, type Channel, type ChannelType, type ConnectorInfo } from "@shared/schema";
+import { storage, type ChannelSync, type ChannelSyncResult } from "../storage";
+import { normalizeIngestPayload } from "../ingest";
+import { publishLiveEvent } from "../live";
+import { notifyNegativeFeedback } from "../webhooks";
+import { readIntervalEnv, scheduleJob } from "../jobs";
+import { log } from "../vite";
+import type { ChannelConnector, ConnectorEntry, ConnectorType } from "./types";
+import { fileDropConnector } from "./file-drop";
+import { mockConnector } from "./mock";
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+// Skipped entries named in a channel's sync error
+const SKIPPED_ENTRIES_SHOWN = 3;
+
+/**
+ * Connector Registry
+ * Connector of each channel type; add new connectors here and to channelTypes
+ */
+const connectors: Record<ConnectorType, ChannelConnector<unknown, unknown>> = {
+  file_drop: fileDropConnector,
+  mock: mockConnector,
+};
+
+// Open subscriptions by channel id; key tells whether the channel was reconfigured since
+const subscriptions = new Map<string, { key: string; close: () => void }>();
+
+// Syncs in progress by channel id, so a channel is never synced twice at once
+const runningSyncs = new Map<string, Promise<ChannelSyncResult>>();
+
+/**
+ * Get Connector
+ * @returns The channel type's connector, or undefined for manual channels
+ */
+function getConnector(type: string): ChannelConnector<unknown, unknown> | undefined {
+  return Object.prototype.hasOwnProperty.call(connectors, type) ? connectors[type as ConnectorType] : undefined;
+}
+
+/**
+ * Get Connector Infos
+ * @returns Every registered connector, as listed by GET /api/connectors
+ */
+export function getConnectorInfos(): ConnectorInfo[] {
+  return (Object.keys(connectors) as ConnectorType[]).map((type) => {
+    const { label, description, mode, exampleConfig } = connectors[type];
+    return { type, label, description, mode, exampleConfig: exampleConfig as Record<string, unknown> };
+  });
+}
+
+/**
+ * Parse Connector Config
+ * Checks a channel's settings with its connector's schema and fills in defaults
+ * @param type - Channel type
+ * @param config - Settings as sent by the client
+ * @returns The settings to store (always {} for manual channels), or the first problem found
+ */
+export function parseConnectorConfig(
+  type: ChannelType,
+  config: Record<string, unknown> | undefined,
+): { success: true; config: Record<string, unknown> } | { success: false; error: string } {
+  const connector = getConnector(type);
+  if (!connector) return { success: true, config: {} };
+
+  const validation = connector.configSchema.safeParse(config ?? {});
+  if (!validation.success) {
+    const issue = validation.error.issues[0];
+    return { success: false, error: `Invalid ${connector.label} config: ${issue.path.join(".") || "config"}: ${issue.message}` };
+  }
+  return { success: true, config: validation.data as Record<string, unknown> };
+}
+
+/**
+ * Describe Error
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Map Entries
+ * Turns a connector's entries into feedback rows for recordChannelSync
+ * @returns The rows and a description of the skipped entries (null when none were skipped)
+ */
+function mapEntries(
+  connector: ChannelConnector<unknown, unknown>,
+  config: unknown,
+  channel: Channel,
+  entries: ConnectorEntry<unknown>[],
+): { rows: ChannelSync["entries"]; skipped: string | null } {
+  const rows: ChannelSync["entries"] = [];
+  const problems: string[] = [];
+
+  for (const entry of entries) {
+    const mapped = connector.toFeedback(entry.item, config);
+    if ("skip" in mapped) {
+      problems.push(`${entry.id}: ${mapped.skip}`);
+      continue;
+    }
+    const validation = ingestFeedbackSchema.safeParse(mapped);
+    if (!validation.success) {
+      const issue = validation.error.issues[0];
+      problems.push(`${entry.id}: ${issue.path.join(".")}: ${issue.message}`);
+      continue;
+    }
+    rows.push({ key: entry.id, row: normalizeIngestPayload(validation.data, channel) });
+  }
+
+  if (problems.length === 0) return { rows, skipped: null };
+  const shown = problems.slice(0, SKIPPED_ENTRIES_SHOWN).join("; ");
+  const more = problems.length > SKIPPED_ENTRIES_SHOWN ? ` and ${problems.length - SKIPPED_ENTRIES_SHOWN} more` : "";
+  return { rows, skipped: `Skipped ${problems.length} invalid entr${problems.length === 1 ? "y" : "ies"}: ${shown}${more}` };
+}
+
+/**
+ * Record Sync
+ * Stores a run's outcome and announces what changed
+ * @param channel - Channel as it was before the run
+ */
+async function recordSync(channel: Channel, sync: ChannelSync): Promise<ChannelSyncResult> {
+  const result = await storage.recordChannelSync(channel.id, sync);
+
+  for (const entry of result.created) {
+    publishLiveEvent("feedback.created", entry.id);
+    notifyNegativeFeedback(entry);
+  }
+  if (result.channel && (result.created.length > 0 || result.channel.lastSyncError !== channel.lastSyncError)) {
+    publishLiveEvent("channel.updated", channel.id);
+  }
+  if (sync.error !== null && sync.error !== channel.lastSyncError) {
+    log(`Channel "${channel.name}" sync failed: ${sync.error}`, "connectors");
+  }
+  return result;
+}
+
+/**
+ * Run Sync
+ * One health check, plus a poll for polling connectors
+ */
+async function runSync(channel: Channel, connector: ChannelConnector<unknown, unknown>): Promise<ChannelSyncResult> {
+  const syncedAt = new Date();
+  const parsed = connector.configSchema.safeParse(channel.config);
+  if (!parsed.success) {
+    return await recordSync(channel, { syncedAt, error: "Invalid connector config; update the channel's settings", entries: [] });
+  }
+
+  try {
+    const health = await connector.checkHealth(parsed.data);
+    if (!health.ok) {
+      return await recordSync(channel, { syncedAt, error: health.message ?? "Source unavailable", entries: [] });
+    }
+    if (connector.mode === "subscribe") {
+      // Entries arrive through the subscription; this run only reports health
+      return await recordSync(channel, { syncedAt, error: null, entries: [] });
+    }
+
+    const { entries, cursor } = await connector.poll(parsed.data, channel.syncCursor);
+    const { rows, skipped } = mapEntries(connector, parsed.data, channel, entries);
+    return await recordSync(channel, { syncedAt, error: skipped, entries: rows, cursor });
+  } catch (error) {
+    return await recordSync(channel, { syncedAt, error: describeError(error), entries: [] });
+  }
+}
+
+/**
+ * Sync Channel
+ * Runs the channel's connector once (also used by "Sync now"); a call made
+ * while the channel is already syncing waits for that run instead
+ * @param channel - Channel to sync
+ * @returns The outcome, or null for manual channels
+ */
+export async function syncChannel(channel: Channel): Promise<ChannelSyncResult | null> {
+  const connector = getConnector(channel.type);
+  if (!connector) return null;
+
+  const running = runningSyncs.get(channel.id);
+  if (running) return await running;
+
+  const run = runSync(channel, connector).finally(() => runningSyncs.delete(channel.id));
+  runningSyncs.set(channel.id, run);
+  return await run;
+}
+
+/**
+ * Open Subscription
+ * Stores entries as the connector delivers them, one batch at a time
+ */
+function openSubscription(channel: Channel, connector: ChannelConnector<unknown, unknown>, key: string): void {
+  if (connector.mode !== "subscribe") return;
+  const parsed = connector.configSchema.safeParse(channel.config);
+  if (!parsed.success) return; // Reported by the channel's sync
+
+  // Latest known channel row, so errors are only logged and announced when they change
+  let current = channel;
+  let queue = Promise.resolve();
+  const record = (sync: Omit<ChannelSync, "syncedAt">) => {
+    queue = queue
+      .then(async () => {
+        const result = await recordSync(current, { ...sync, syncedAt: new Date() });
+        if (result.channel) current = result.channel;
+      })
+      .catch((error) => log(`Storing entries for "${channel.name}" failed: ${describeError(error)}`, "connectors"));
+  };
+
+  const close = connector.subscribe(
+    parsed.data,
+    (entries) => {
+      const { rows, skipped } = mapEntries(connector, parsed.data, channel, entries);
+      record({ error: skipped, entries: rows });
+    },
+    (error) => record({ error: describeError(error), entries: [] }),
+  );
+  subscriptions.set(channel.id, { key, close });
+}
+
+/**
+ * Sync Connectors
+ * One scheduler run: syncs every active connector channel and opens or
+ * closes subscriptions to match the channels; a failing channel doesn't stop the others
+ */
+export async function syncConnectors(): Promise<void> {
+  const channels = await storage.getChannels();
+  const subscribed = new Set<string>();
+
+  for (const channel of channels) {
+    const connector = getConnector(channel.type);
+    if (!connector || channel.status !== "active") continue;
+
+    if (connector.mode === "subscribe") {
+      const key = JSON.stringify([channel.type, channel.config, channel.name]);
+      const existing = subscriptions.get(channel.id);
+      if (existing?.key !== key) {
+        existing?.close();
+        subscriptions.delete(channel.id);
+        openSubscription(channel, connector, key);
+      }
+      subscribed.add(channel.id);
+    }
+
+    try {
+      await syncChannel(channel);
+    } catch (error) {
+      log(`Syncing channel "${channel.name}" failed: ${describeError(error)}`, "connectors");
+    }
+  }
+
+  for (const [channelId, subscription] of Array.from(subscriptions)) {
+    if (!subscribed.has(channelId)) {
+      subscription.close();
+      subscriptions.delete(channelId);
+    }
+  }
+}
+
+/**
+ * Get Connector Sync Seconds
+ * Reads CONNECTOR_SYNC_SECONDS, falling back to the default for missing or invalid values
+ */
+function getConnectorSyncSeconds(): number {
+  return readIntervalEnv("CONNECTOR_SYNC_SECONDS", DEFAULT_INTERVAL_SECONDS, "connectors");
+}
+
+/**
+ * Start Connector Sync
+ * Schedules connector runs; does nothing when connectors are disabled
+ */
+export function startConnectorSync() {
+  const seconds = getConnectorSyncSeconds();
+  if (seconds === 0) {
+    log("Connector sync disabled; connector channels are not synced", "connectors");
+    return;
+  }
+
+  scheduleJob("Connector sync", syncConnectors, seconds * 1000, "connectors");
+}
@@ -0,0 +1,86 @@
+/**
+ * Mock Connector
+ *
+ * Subscribing connector that makes up customer feedback at a fixed interval,
+ * for demos and for trying the connector framework without a real source.
+ * Entries are random picks from the sample messages below.
+ */
+
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { SubscribingConnector } from "./types";
+
+const SAMPLE_MESSAGES = {
+  positive: [
+    "The new dashboard is so much faster, great job!",
+    "Support sorted out my billing question in minutes.",
+    "Love the latest update, the export finally works the way I need.",
+  ],
+  neutral: [
+    "Is there a way to change the notification schedule?",
+    "I switched plans last week, just checking that went through.",
+  ],
+  negative: [
+    "The app keeps logging me out on mobile.",
+    "Checkout failed twice today, really frustrating.",
+    "Search results are slow and often irrelevant.",
+  ],
+} as const;
+
+// U.S. regions feedback is grouped by (same as the Manage page forms)
+const REGIONS = ["Northeast", "Southeast", "Midwest", "Southwest", "West"] as const;
+
+const mockConfigSchema = z.object({
+  intervalSeconds: z.number().int().min(5).max(3600).default(30), // One entry per interval
+  region: z.enum(REGIONS).default("Northeast"), // Region of every generated entry
+  negativeShare: z.number().min(0).max(1).default(0.3), // Share of negative entries
+});
+
+type MockConfig = z.infer<typeof mockConfigSchema>;
+
+// Generated message
+interface MockItem {
+  text: string;
+  sentiment: keyof typeof SAMPLE_MESSAGES;
+}
+
+/**
+ * Pick
+ * @returns A random element of the list
+ */
+function pick<T>(values: readonly T[]): T {
+  return values[Math.floor(Math.random() * values.length)];
+}
+
+/**
+ * Generate Item
+ * @returns A negative message with probability negativeShare, otherwise a positive or neutral one
+ */
+function generateItem(config: MockConfig): MockItem {
+  const sentiment = Math.random() < config.negativeShare ? "negative" : pick(["positive", "neutral"] as const);
+  return { text: pick(SAMPLE_MESSAGES[sentiment]), sentiment };
+}
+
+export const mockConnector: SubscribingConnector<MockConfig, MockItem> = {
+  mode: "subscribe",
+  label: "Mock feed",
+  description: "Generates sample feedback every few seconds. For demos and testing; no external service needed.",
+  exampleConfig: { intervalSeconds: 30, region: "Northeast", negativeShare: 0.3 },
+  configSchema: mockConfigSchema,
+
+  async checkHealth() {
+    return { ok: true };
+  },
+
+  subscribe(config, onEntries) {
+    const timer = setInterval(() => {
+      onEntries([{ id: randomUUID(), item: generateItem(config) }]);
+    }, config.intervalSeconds * 1000);
+    timer.unref();
+    return () => clearInterval(timer);
+  },
+
+  toFeedback(item, config) {
+    return { text: item.text, sentiment: item.sentiment, region: config.region };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * Channel Connector Types
+ *
+ * Contract every connector implements (see index.ts for the registry and
+ * scheduler). A connector only talks to its source; storing feedback, keeping
+ * the cursor and recording errors is done by the scheduler.
+ */
+
+import type { z } from "zod";
+import type { ConnectorInfo } from "@shared/schema";
+
+// Item read from a source
+export interface ConnectorEntry<Item> {
+  id: string; // The source's id for the item (entries seen before are skipped)
+  item: Item;
+}
+
+// Result of one poll
+export interface ConnectorPollResult<Item> {
+  entries: ConnectorEntry<Item>[];
+  cursor: string | null; // Position to resume from on the next poll
+}
+
+// Whether the source can be reached with the given settings
+export interface ConnectorHealth {
+  ok: boolean;
+  message?: string; // Reason when not ok
+}
+
+// Feedback fields a connector maps an item to (checked with ingestFeedbackSchema)
+export interface ConnectorFeedback {
+  text: string;
+  region: string;
+  sentiment?: string; // Detected by the analyzer when omitted
+  timestamp?: Date | string; // When the customer sent it (default: now)
+}
+
+interface ConnectorBase<Config, Item> {
+  label: string;
+  description: string;
+  exampleConfig: Config; // Prefilled when an admin switches a channel to this type
+  configSchema: z.ZodType<Config, z.ZodTypeDef, unknown>; // Validates the channel's config
+
+  /**
+   * Map an item to a feedback entry
+   * @returns The feedback fields, or a reason the item can't be stored
+   */
+  toFeedback(item: Item, config: Config): ConnectorFeedback | { skip: string };
+
+  /**
+   * Check Health
+   * Called before every poll and on every scheduler run for subscriptions
+   */
+  checkHealth(config: Config): Promise<ConnectorHealth>;
+}
+
+// Pulls entries after a cursor on every scheduler run
+export interface PollingConnector<Config, Item> extends ConnectorBase<Config, Item> {
+  mode: "poll";
+  poll(config: Config, cursor: string | null): Promise<ConnectorPollResult<Item>>;
+}
+
+// Receives entries as they happen while the subscription is open
+export interface SubscribingConnector<Config, Item> extends ConnectorBase<Config, Item> {
+  mode: "subscribe";
+  /**
+   * Subscribe
+   * @param onEntries - Called with new entries
+   * @param onError - Called when the source fails; the subscription stays open
+   * @returns Function closing the subscription
+   */
+  subscribe(
+    config: Config,
+    onEntries: (entries: ConnectorEntry<Item>[]) => void,
+    onError: (error: Error) => void,
+  ): () => void;
+}
+
+export type ChannelConnector<Config, Item> = PollingConnector<Config, Item> | SubscribingConnector<Config, Item>;
+
+export type ConnectorType = ConnectorInfo["type"];
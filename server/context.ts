@@ -0,0 +1,49 @@
+/**
+ * Request Context
+ *
+ * Carries per-request information to code that has no access to `req`,
+ * such as the storage layer writing audit events:
+ * - requestId: taken from a well-formed X-Request-Id header or generated,
+ *   and echoed back in the X-Request-Id response header
+ * - actor: the signed-in user making the request
+ *
+ * Backed by AsyncLocalStorage, so the context follows the request through
+ * awaits. Code running outside a request (seed script, background jobs)
+ * sees no context and is recorded as the system.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+export interface RequestContext {
+  requestId: string;
+  actor: { id: string; username: string } | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Client-supplied request ids are accepted only when short and printable
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Get Request Context
+ * @returns The context of the request being handled, or undefined outside a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Request Context Middleware
+ * Runs the rest of the request inside its context. Must be installed after
+ * passport's session middleware so req.user is already loaded.
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("X-Request-Id");
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  const actor = req.user ? { id: req.user.id, username: req.user.username } : null;
+  storage.run({ requestId, actor }, next);
+}
@@ -0,0 +1,60 @@
+/**
+ * Date Utilities
+ *
+ * Helpers for working with calendar days in a specific IANA time zone.
+ * Used by aggregation queries that group feedback by local calendar day.
+ */
+
+/**
+ * Check Time Zone
+ * Verifies that a string is an IANA time zone known to the runtime
+ * @param timeZone - Time zone name (e.g., "America/New_York", "UTC")
+ * @returns true if the time zone can be used for date formatting
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format Local Day
+ * Converts an instant into its calendar day in the given time zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone name
+ * @returns ISO calendar date (YYYY-MM-DD)
+ */
+export function toLocalDay(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Get Local Day Range
+ * Lists the last N calendar days (including today) in the given time zone
+ * @param days - Number of days to list
+ * @param timeZone - IANA time zone name
+ * @returns ISO calendar dates ordered oldest first
+ */
+export function getLocalDayRange(days: number, timeZone: string): string[] {
+  const today = toLocalDay(new Date(), timeZone);
+
+  // Walk backwards from today using UTC midnight so DST never skips a day
+  const cursor = new Date(`${today}T00:00:00Z`);
+  const range: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(cursor);
+    day.setUTCDate(cursor.getUTCDate() - i);
+    range.push(day.toISOString().slice(0, 10));
+  }
+
+  return range;
+}
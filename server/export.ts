@@ -0,0 +1,215 @@
+/**
+ * Data Export
+ *
+ * Streams tabular data to the client as a downloadable file. Rows are
+ * written as they arrive (respecting socket backpressure), so large exports
+ * never have to be buffered in memory.
+ *
+ * FORMATS:
+ * - csv: RFC 4180 CSV
+ * - excel: CSV for spreadsheets - UTF-8 byte order mark so Excel detects the
+ *   encoding, CRLF line endings, and cells that would be evaluated as
+ *   formulas (=, +, -, @) prefixed with an apostrophe
+ * - json: A single JSON array of objects keyed by column key
+ */
+
+import type { Response } from "express";
+import type {
+  ExportFormat,
+  Feedback,
+  RegionalSentiment,
+  SentimentTrend,
+  DailySentimentTrend,
+  PriorityItem,
+  ImpactMetric,
+} from "@shared/schema";
+
+/**
+ * Export Column
+ * One column of an export: JSON key, CSV header and how to read the value
+ */
+export interface ExportColumn<T> {
+  key: string; // Property name in JSON exports
+  header: string; // Header cell in CSV exports
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+}
+
+// Leading characters that make spreadsheets treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Format CSV Cell
+ * Converts a value to a quoted-when-needed CSV field
+ */
+function formatCsvCell(value: ReturnType<ExportColumn<unknown>["value"]>, format: ExportFormat): string {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Neutralize formula injection, but keep negative numbers numeric
+  if (format === "excel" && FORMULA_PREFIX.test(text) && !NUMERIC.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format JSON Value
+ * Dates become ISO strings; everything else is passed through
+ */
+function formatJsonValue(value: ReturnType<ExportColumn<unknown>["value"]>) {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Write Chunk
+ * Writes to the response and waits for the socket to drain when its buffer is full
+ */
+async function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (!res.write(chunk)) {
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        res.off("close", onClose);
+        resolve();
+      };
+      const onClose = () => {
+        res.off("drain", onDrain);
+        reject(new Error("Client closed the connection"));
+      };
+      res.once("drain", onDrain);
+      res.once("close", onClose);
+    });
+  }
+}
+
+/**
+ * Send Export
+ * Streams rows to the response as a file download
+ * @param res - Express response (headers must not have been sent yet)
+ * @param options.filename - Download name without extension
+ * @param options.format - csv, excel or json
+ * @param options.columns - Columns to write, in order
+ * @param options.rows - Rows, either as an array or as an async iterator of batches
+ * @throws When reading rows fails; if the error happens after streaming has
+ *         started, the caller should destroy the response
+ */
+export async function sendExport<T>(
+  res: Response,
+  options: {
+    filename: string;
+    format: ExportFormat;
+    columns: ExportColumn<T>[];
+    rows: T[] | AsyncIterable<T[]>;
+  },
+): Promise<void> {
+  const { filename, format, columns } = options;
+  const batches: AsyncIterable<T[]> | T[][] = Array.isArray(options.rows) ? [options.rows] : options.rows;
+
+  const isJson = format === "json";
+  const newline = format === "excel" ? "\r\n" : "\n";
+
+  // Headers and the header row / opening bracket are only written once the
+  // first batch is ready, so a failing query can still get a normal error response
+  let started = false;
+  let first = true;
+
+  const start = async () => {
+    started = true;
+    res.setHeader("Content-Type", isJson ? "application/json; charset=utf-8" : "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.${isJson ? "json" : "csv"}"`);
+    if (isJson) {
+      await writeChunk(res, "[");
+    } else {
+      const bom = format === "excel" ? "\uFEFF" : "";
+      await writeChunk(res, bom + columns.map((c) => formatCsvCell(c.header, format)).join(",") + newline);
+    }
+  };
+
+  for await (const batch of batches) {
+    if (!started) await start();
+
+    let chunk = "";
+    for (const row of batch) {
+      if (isJson) {
+        const record = Object.fromEntries(columns.map((c) => [c.key, formatJsonValue(c.value(row))]));
+        chunk += (first ? "\n" : ",\n") + JSON.stringify(record);
+      } else {
+        chunk += columns.map((c) => formatCsvCell(c.value(row), format)).join(",") + newline;
+      }
+      first = false;
+    }
+    await writeChunk(res, chunk);
+  }
+
+  if (!started) await start();
+  res.end(isJson ? (first ? "]" : "\n]") : undefined);
+}
+
+// ============================================================================
+// Column Definitions
+// Columns written for each exportable dataset
+// ============================================================================
+
+export const feedbackExportColumns: ExportColumn<Feedback>[] = [
+  { key: "id", header: "ID", value: (f) => f.id },
+  { key: "timestamp", header: "Timestamp", value: (f) => f.timestamp },
+  { key: "text", header: "Text", value: (f) => f.text },
+  { key: "sentiment", header: "Sentiment", value: (f) => f.sentiment },
+  { key: "sentimentScore", header: "Sentiment Score", value: (f) => f.sentimentScore },
+  { key: "sentimentConfidence", header: "Sentiment Confidence", value: (f) => f.sentimentConfidence },
+  { key: "source", header: "Source", value: (f) => f.source },
+  { key: "region", header: "Region", value: (f) => f.region },
+  { key: "respondedAt", header: "Responded At", value: (f) => f.respondedAt },
+];
+
+export const regionalSentimentExportColumns: ExportColumn<RegionalSentiment>[] = [
+  { key: "region", header: "Region", value: (r) => r.region },
+  { key: "windowDays", header: "Window (days)", value: (r) => r.windowDays },
+  { key: "sentimentScore", header: "Sentiment Score", value: (r) => r.sentimentScore },
+  { key: "volume", header: "Volume", value: (r) => r.volume },
+  { key: "positive", header: "Positive", value: (r) => r.positive },
+  { key: "neutral", header: "Neutral", value: (r) => r.neutral },
+  { key: "negative", header: "Negative", value: (r) => r.negative },
+  { key: "updatedAt", header: "Updated At", value: (r) => r.updatedAt },
+];
+
+export const sentimentTrendExportColumns: ExportColumn<SentimentTrend>[] = [
+  { key: "year", header: "Year", value: (t) => t.year },
+  { key: "month", header: "Month", value: (t) => t.month },
+  { key: "score", header: "Score", value: (t) => t.score },
+];
+
+export const dailySentimentTrendExportColumns: ExportColumn<DailySentimentTrend>[] = [
+  { key: "date", header: "Date", value: (t) => t.date },
+  { key: "score", header: "Score", value: (t) => t.score },
+  { key: "positive", header: "Positive", value: (t) => t.positive },
+  { key: "neutral", header: "Neutral", value: (t) => t.neutral },
+  { key: "negative", header: "Negative", value: (t) => t.negative },
+  { key: "total", header: "Total", value: (t) => t.total },
+];
+
+export const priorityItemExportColumns: ExportColumn<PriorityItem>[] = [
+  { key: "rank", header: "Rank", value: (p) => p.rank },
+  { key: "title", header: "Title", value: (p) => p.title },
+  { key: "description", header: "Description", value: (p) => p.description },
+  { key: "category", header: "Category", value: (p) => p.category },
+  { key: "impact", header: "Impact", value: (p) => p.impact },
+  { key: "effort", header: "Effort", value: (p) => p.effort },
+  { key: "reach", header: "Reach", value: (p) => p.reach },
+  { key: "confidence", header: "Confidence (%)", value: (p) => p.confidence },
+  { key: "businessValue", header: "Business Value", value: (p) => p.businessValue },
+  { key: "timeCriticality", header: "Time Criticality", value: (p) => p.timeCriticality },
+  { key: "riskReduction", header: "Risk Reduction", value: (p) => p.riskReduction },
+  { key: "score", header: "Score", value: (p) => p.score },
+];
+
+export const impactMetricExportColumns: ExportColumn<ImpactMetric>[] = [
+  { key: "metricName", header: "Metric", value: (m) => m.metricName },
+  { key: "beforeValue", header: "Before", value: (m) => m.beforeValue },
+  { key: "afterValue", header: "After", value: (m) => m.afterValue },
+  { key: "improvement", header: "Improvement (%)", value: (m) => m.improvement },
+  { key: "unit", header: "Unit", value: (m) => m.unit },
+];
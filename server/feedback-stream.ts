@@ -0,0 +1,128 @@
+/**
+ * Live Feedback Stream
+ *
+ * Server-sent events (SSE) feed of feedback as it is stored, for the
+ * Dashboard's ticker panel:
+ * - On connect: the latest INITIAL_BACKLOG entries, or everything after the
+ *   Last-Event-ID when the browser is resuming after a disconnect
+ * - Afterwards: new entries, fetched whenever a "feedback.created" live event
+ *   is published (see live.ts) and on every keep-alive, which picks up entries
+ *   held back while an older transaction was still running (see
+ *   getFeedbackArrivals)
+ * - Every entry is a "feedback" event whose id is a resume cursor
+ * - A comment line is sent every KEEP_ALIVE_MS so proxies don't close idle streams
+ *
+ * Entries are read back from the database rather than forwarded from the
+ * event, so filters, resuming and bulk imports all follow the same path.
+ */
+
+import type { Response } from "express";
+import type { FeedbackStreamEvent, FeedbackStreamQuery } from "@shared/schema";
+import { storage } from "./storage";
+import { subscribeLiveEvents } from "./live";
+import { log } from "./vite";
+
+// Entries sent to a new (not resuming) connection
+const INITIAL_BACKLOG = 20;
+
+// Entries fetched per query while catching up
+const BATCH_SIZE = 100;
+
+// How long browsers wait before reconnecting (sent as the SSE retry field)
+const RECONNECT_DELAY_MS = 3000;
+
+// Interval between keep-alive comments
+const KEEP_ALIVE_MS = 25 * 1000;
+
+/**
+ * Format Event
+ * @returns One SSE message carrying the feedback entry as JSON
+ */
+function formatEvent(event: FeedbackStreamEvent): string {
+  return `id: ${event.eventId}\nevent: feedback\ndata: ${JSON.stringify(event.feedback)}\n\n`;
+}
+
+/**
+ * Stream Feedback Arrivals
+ * Serves the stream until the client disconnects. The first batch is loaded
+ * before the response starts, so a bad resume point can still become a 400.
+ * @param res - Response the events are written to (closing it ends the stream)
+ * @param filters - Optional source and region
+ * @param lastEventId - Event id to resume after, if any
+ * @throws RangeError when lastEventId is not an event id
+ */
+export async function streamFeedbackArrivals(
+  res: Response,
+  filters: FeedbackStreamQuery,
+  lastEventId: string | undefined,
+): Promise<void> {
+  let cursor = lastEventId;
+  const initial = await storage.getFeedbackArrivals(filters, cursor, cursor ? BATCH_SIZE : INITIAL_BACKLOG);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Disable response buffering in nginx-style proxies
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let closed = false;
+  let fetching = false;
+  let fetchAgain = false;
+
+  const send = (events: FeedbackStreamEvent[]) => {
+    for (const event of events) {
+      res.write(formatEvent(event));
+      cursor = event.eventId;
+    }
+  };
+
+  // Sends everything stored after the cursor; notifications arriving
+  // mid-fetch trigger one more round instead of a parallel one
+  const catchUp = async () => {
+    if (fetching) {
+      fetchAgain = true;
+      return;
+    }
+    fetching = true;
+    try {
+      do {
+        fetchAgain = false;
+        let batch: FeedbackStreamEvent[];
+        do {
+          batch = await storage.getFeedbackArrivals(filters, cursor, cursor ? BATCH_SIZE : INITIAL_BACKLOG);
+          if (closed) return;
+          send(batch);
+        } while (batch.length === BATCH_SIZE);
+      } while (fetchAgain && !closed);
+    } catch (error) {
+      // Ending the response makes the browser reconnect and resume from its last event id
+      log(`Feedback stream failed: ${error instanceof Error ? error.message : String(error)}`, "stream");
+      res.end();
+    } finally {
+      fetching = false;
+    }
+  };
+
+  send(initial);
+  if (initial.length === BATCH_SIZE) {
+    catchUp();
+  }
+
+  const unsubscribe = subscribeLiveEvents((event) => {
+    if (event.type === "feedback.created") {
+      catchUp();
+    }
+  });
+  const keepAlive = setInterval(() => {
+    res.write(": keep-alive\n\n");
+    catchUp();
+  }, KEEP_ALIVE_MS);
+
+  res.on("close", () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(keepAlive);
+  });
+}
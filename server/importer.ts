@@ -0,0 +1,224 @@
+/**
+ * Bulk Feedback Importer
+ *
+ * Parses CSV and NDJSON exports (surveys, support-ticket dumps), maps their
+ * columns onto feedback fields and validates every row before anything is
+ * written to the database.
+ *
+ * PIPELINE:
+ * 1. Parse the file into records (objects keyed by column name)
+ * 2. Map columns onto feedback fields (explicit mapping or matching names)
+ * 3. Validate each mapped row with zod and collect per-row errors
+ * 4. Valid rows are scored by the sentiment analyzer when they have no label
+ */
+
+import {
+  importFeedbackRowSchema,
+  feedbackImportFields,
+  type FeedbackImportField,
+  type FeedbackImportRowError,
+  type ImportFeedbackRow,
+} from "@shared/schema";
+import { applySentimentAnalysis } from "./sentiment";
+
+export type ImportFormat = "csv" | "ndjson";
+
+// Upper bound on rows per import so a single request can't exhaust memory
+export const MAX_IMPORT_ROWS = 50000;
+
+/**
+ * Parsed Import
+ * Result of parsing, mapping and validating an import file
+ */
+export interface ParsedImport {
+  columns: string[]; // Column names found in the file
+  mapping: Partial<Record<FeedbackImportField, string>>; // Column used for each feedback field
+  totalRows: number; // Data rows in the file
+  validRows: ImportFeedbackRow[]; // Rows ready to insert
+  errors: FeedbackImportRowError[]; // One entry per invalid row
+}
+
+/**
+ * Parse CSV
+ * RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ * @param content - CSV text with a header row
+ * @returns Header columns and one record per data row
+ * @throws Error when a quoted field is never closed
+ */
+export function parseCsv(content: string): { columns: string[]; records: Record<string, string>[] } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'; // Escaped quote
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+
+  // Final row without a trailing newline
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  const [header = [], ...data] = nonEmpty;
+  const columns = header.map((column) => column.trim());
+
+  const records = data.map((values) =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ""])),
+  );
+
+  return { columns, records };
+}
+
+/**
+ * Parse NDJSON
+ * One JSON object per line; blank lines are ignored
+ * @param content - Newline-delimited JSON text
+ * @returns Columns seen across all objects and one record per line
+ *          (lines that are not JSON objects become null records)
+ */
+export function parseNdjson(content: string): { columns: string[]; records: (Record<string, unknown> | null)[] } {
+  const columns = new Set<string>();
+  const records: (Record<string, unknown> | null)[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === "") continue;
+
+    try {
+      const value = JSON.parse(line);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        Object.keys(value).forEach((key) => columns.add(key));
+        records.push(value);
+        continue;
+      }
+    } catch {
+      // Reported as an invalid row below
+    }
+    records.push(null);
+  }
+
+  return { columns: Array.from(columns), records };
+}
+
+/**
+ * Resolve Mapping
+ * Fills in any feedback field without an explicit mapping by looking for a
+ * column with the same name (case-insensitive)
+ */
+function resolveMapping(
+  columns: string[],
+  mapping: Partial<Record<FeedbackImportField, string>>,
+): Partial<Record<FeedbackImportField, string>> {
+  const resolved: Partial<Record<FeedbackImportField, string>> = {};
+
+  for (const field of feedbackImportFields) {
+    const explicit = mapping[field];
+    const column = explicit ?? columns.find((c) => c.toLowerCase() === field.toLowerCase());
+    if (column) resolved[field] = column;
+  }
+
+  return resolved;
+}
+
+/**
+ * Normalize Value
+ * Trims strings and turns empty cells into undefined so optional fields stay optional
+ */
+function normalizeValue(field: FeedbackImportField, value: unknown): unknown {
+  if (typeof value !== "string") return value ?? undefined;
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  return field === "sentiment" ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Parse Import
+ * Parses, maps and validates an import file
+ * @param content - File contents
+ * @param format - "csv" or "ndjson"
+ * @param mapping - Column to use for each feedback field (unmapped fields use matching column names)
+ * @returns Valid rows ready to insert plus a per-row error report
+ * @throws Error when the file cannot be parsed or exceeds MAX_IMPORT_ROWS
+ */
+export function parseImport(
+  content: string,
+  format: ImportFormat,
+  mapping: Partial<Record<FeedbackImportField, string>>,
+): ParsedImport {
+  const { columns, records } = format === "csv" ? parseCsv(content) : parseNdjson(content);
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const resolved = resolveMapping(columns, mapping);
+  const validRows: ImportFeedbackRow[] = [];
+  const errors: FeedbackImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 1; // 1-based data row number (header excluded)
+
+    if (record === null) {
+      errors.push({ row, errors: ["Line is not a JSON object"] });
+      return;
+    }
+
+    // Build the candidate feedback object from the mapped columns
+    const candidate: Record<string, unknown> = {};
+    for (const field of feedbackImportFields) {
+      const column = resolved[field];
+      if (column && Object.hasOwn(record, column)) candidate[field] = normalizeValue(field, record[column]);
+    }
+
+    const result = importFeedbackRowSchema.safeParse(candidate);
+    if (!result.success) {
+      errors.push({
+        row,
+        errors: result.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`),
+      });
+      return;
+    }
+
+    const { timestamp, ...submission } = result.data;
+    validRows.push({ ...applySentimentAnalysis(submission), timestamp });
+  });
+
+  return { columns, mapping: resolved, totalRows: records.length, validRows, errors };
+}
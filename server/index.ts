@@ -3,7 +3,8 @@
  * 
  * This is the main server file that orchestrates the entire backend:
  * - Sets up Express middleware (JSON parsing, URL encoding, logging)
- * - Registers all API routes (Dashboard, Prioritization, Impact Tracker)
+ * - Registers all API routes (Dashboard, Prioritization, Impact Tracker) and the
+ *   live updates WebSocket
  * - Configures Vite dev server (development) or static file serving (production)
  * - Starts HTTP server on port 5000 (or PORT environment variable)
  * 
@@ -11,7 +12,7 @@
  * 1. JSON body parser with raw body capture (for webhooks)
  * 2. URL-encoded form data parser
  * 3. Request/response logging for API calls
- * 4. API routes registration
+ * 4. API routes registration (sessions and authentication are installed first)
  * 5. Error handler
  * 6. Vite dev server (dev) OR static file server (production)
  * 
@@ -24,6 +25,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startTrashRetention } from "./retention";
+import { startAlertEvaluation } from "./alerts";
+import { startWebhookDispatch } from "./webhooks";
+import { startConnectorSync } from "./connectors";
+import { startInsightGeneration } from "./insights";
+import { startPriorityRescoring } from "./priority-scores";
 
 const app = express();
 
@@ -113,4 +120,18 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // BACKGROUND JOBS
+  // Permanently purge trashed records past the retention period
+  startTrashRetention();
+  // Check alert rules against recent feedback
+  startAlertEvaluation();
+  // Send queued and retried webhook deliveries
+  startWebhookDispatch();
+  // Pull feedback into channels that have a connector
+  startConnectorSync();
+  // Propose insights from recent feedback
+  startInsightGeneration();
+  // Rescore priority items as customer demand changes
+  startPriorityRescoring();
 })();
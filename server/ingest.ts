@@ -0,0 +1,80 @@
+/**
+ * Inbound Feedback Ingestion
+ *
+ * Lets tools such as email and live chat systems push feedback into a channel
+ * with POST /api/ingest/:channelId (see routes.ts):
+ * - Requests are authenticated by signature instead of a session, using the
+ *   channel's ingest secret (generated by an admin on the Manage page)
+ * - Signatures work like outbound webhooks (see webhooks.ts):
+ *   X-Sentiment360-Timestamp: Unix time in seconds
+ *   X-Sentiment360-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw body>"
+ * - Timestamps more than SIGNATURE_TOLERANCE_SECONDS from the server clock are
+ *   rejected, so captured requests can't be replayed later
+ * - The body is a generic JSON payload (see ingestFeedbackSchema), stored with
+ *   the channel's name as source and scored by the sentiment analyzer
+ * - An Idempotency-Key header (or the payload's id) identifies the delivery;
+ *   the same key twice for a channel is rejected as a duplicate
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { Channel, IngestFeedback, ImportFeedbackRow, PublicChannel } from "@shared/schema";
+import { applySentimentAnalysis } from "./sentiment";
+import { signWebhookPayload } from "./webhooks";
+
+// How far the signed timestamp may be from the server clock
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Generate Ingest Secret
+ * @returns A new random signing secret
+ */
+export function generateIngestSecret(): string {
+  return `insec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * To Public Channel
+ * Strips the ingest secret from a channel before it is sent to a client
+ */
+export function toPublicChannel(channel: Channel): PublicChannel {
+  const { ingestSecret, ...publicChannel } = channel;
+  return { ...publicChannel, ingestEnabled: ingestSecret !== null };
+}
+
+/**
+ * Verify Ingest Signature
+ * @param secret - Channel's ingest secret
+ * @param timestamp - X-Sentiment360-Timestamp header
+ * @param signature - X-Sentiment360-Signature header
+ * @param rawBody - Request body exactly as received
+ * @returns Whether the signature matches and the timestamp is recent
+ */
+export function verifyIngestSignature(
+  secret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  rawBody: Buffer,
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody.toString("utf8")));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Normalize Ingest Payload
+ * @param payload - Validated payload
+ * @param channel - Receiving channel (its name becomes the source)
+ * @returns Feedback entry ready to insert, with sentiment filled in
+ */
+export function normalizeIngestPayload(payload: IngestFeedback, channel: Channel): ImportFeedbackRow {
+  const entry = applySentimentAnalysis({
+    text: payload.text,
+    sentiment: payload.sentiment,
+    source: channel.name,
+    region: payload.region,
+  });
+  return { ...entry, timestamp: payload.timestamp };
+}
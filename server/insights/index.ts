@@ -0,0 +1,130 @@
+/**
+ * Insight Generation
+ *
+ * Proposes insights from recent feedback and stores them as AI insights:
+ * - The last WINDOW_DAYS of feedback are summarized per topic, region and
+ *   source, next to the BASELINE_DAYS before them (see getInsightSnapshot)
+ * - The configured provider turns the snapshot into proposed insights, each
+ *   citing the feedback that supports it (see types.ts)
+ * - A proposal whose fingerprint is already stored refreshes that insight
+ *   instead of adding a duplicate (see saveGeneratedInsights)
+ * - Dismissed insights are passed to the provider with their reasons, and
+ *   proposals matching one are never stored again
+ * - Runs once at startup and then every INSIGHT_GENERATION_MINUTES; analysts
+ *   can also run it from the Prioritization page
+ *
+ * PROVIDERS:
+ * - rules: Deterministic thresholds, works fully offline (default)
+ * Add new providers (e.g., one that asks an LLM) to the registry below.
+ *
+ * ENVIRONMENT:
+ * - INSIGHT_PROVIDER: Name of the provider to use (default: rules)
+ * - INSIGHT_GENERATION_MINUTES: Minutes between runs (default: 60, 0 disables scheduled runs)
+ */
+
+import type { InsightGenerationReport } from "@shared/schema";
+import { storage } from "../storage";
+import { publishLiveEvent } from "../live";
+import { getTopicLabel } from "../topics";
+import { readIntervalEnv, scheduleJob } from "../jobs";
+import { log } from "../vite";
+import type { InsightProvider } from "./types";
+import { rulesInsightProvider } from "./rules";
+
+const DEFAULT_PROVIDER = "rules";
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+// Analyzed window and the baseline it is compared with
+const WINDOW_DAYS = 7;
+const BASELINE_DAYS = 28;
+
+/**
+ * Provider Registry
+ * Insight providers by name
+ */
+const providers: Record<string, InsightProvider> = {
+  rules: rulesInsightProvider,
+};
+
+// Run in progress, so scheduled and manual runs never overlap
+let running: Promise<InsightGenerationReport> | null = null;
+
+/**
+ * Get Insight Provider
+ * Reads INSIGHT_PROVIDER, falling back to the default for missing or unknown names
+ */
+function getInsightProvider(): InsightProvider {
+  const configured = process.env.INSIGHT_PROVIDER?.trim();
+  if (!configured) {
+    return providers[DEFAULT_PROVIDER];
+  }
+
+  const provider = providers[configured];
+  if (!provider) {
+    log(`Ignoring unknown INSIGHT_PROVIDER "${configured}"; using ${DEFAULT_PROVIDER}`, "insights");
+    return providers[DEFAULT_PROVIDER];
+  }
+  return provider;
+}
+
+/**
+ * Get Insight Generation Minutes
+ * Reads INSIGHT_GENERATION_MINUTES, falling back to the default for missing or invalid values
+ */
+function getInsightGenerationMinutes(): number {
+  return readIntervalEnv("INSIGHT_GENERATION_MINUTES", DEFAULT_INTERVAL_MINUTES, "insights");
+}
+
+/**
+ * Run Generation
+ * Summarizes recent feedback, asks the provider for insights and stores them
+ */
+async function runGeneration(now: Date): Promise<InsightGenerationReport> {
+  const provider = getInsightProvider();
+  const snapshot = await storage.getInsightSnapshot(now, WINDOW_DAYS, BASELINE_DAYS);
+  const proposals = await provider.generate(snapshot, {
+    windowDays: WINDOW_DAYS,
+    baselineDays: BASELINE_DAYS,
+    getTopicLabel,
+    getFeedback: (ids) => storage.getFeedbackByIds(ids),
+    dismissed: await storage.getDismissedInsights(),
+  });
+
+  const { created, refreshed, skipped } = await storage.saveGeneratedInsights(provider.name, proposals);
+  created.forEach((insight) => publishLiveEvent("insight.created", insight.id));
+  refreshed.forEach((insight) => publishLiveEvent("insight.updated", insight.id));
+
+  if (created.length > 0) {
+    log(`${created.length} new insights from the ${provider.name} provider`, "insights");
+  }
+  return { provider: provider.name, created: created.length, refreshed: refreshed.length, skipped };
+}
+
+/**
+ * Generate Insights
+ * Runs the configured provider once; joins the run in progress if there is one
+ * @param now - End of the analyzed window
+ * @returns How many insights were created and refreshed
+ */
+export async function generateInsights(now: Date = new Date()): Promise<InsightGenerationReport> {
+  if (!running) {
+    running = runGeneration(now).finally(() => {
+      running = null;
+    });
+  }
+  return await running;
+}
+
+/**
+ * Start Insight Generation
+ * Schedules insight generation; does nothing when scheduled runs are disabled
+ */
+export function startInsightGeneration() {
+  const minutes = getInsightGenerationMinutes();
+  if (minutes === 0) {
+    log("Scheduled insight generation disabled; insights are only generated on request", "insights");
+    return;
+  }
+
+  scheduleJob("Insight generation", () => generateInsights(), minutes * 60 * 1000, "insights");
+}
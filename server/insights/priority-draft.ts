@@ -0,0 +1,44 @@
+/**
+ * Priority Item Drafts
+ *
+ * Prefills a priority item from an insight for "Convert to priority item":
+ * - Title and description come from the insight, with its expected impact
+ * - Impact (1-10) follows the insight's priority; effort isn't known yet, so
+ *   it starts in the middle for the analyst to adjust
+ * - Category follows what the insight is about
+ * - Rank places the item after the current last one
+ * The analyst reviews the draft before the item is created.
+ */
+
+import type { AIInsight, InsertPriorityItem, InsightKind, InsightPriority } from "@shared/schema";
+import { storage } from "../storage";
+
+const IMPACT_BY_PRIORITY: Record<InsightPriority, number> = { high: 8, medium: 6, low: 4 };
+
+const CATEGORY_BY_KIND: Record<InsightKind, string> = {
+  emerging_topic: "Product",
+  regional_divergence: "Support",
+  channel_degradation: "Support",
+};
+
+const DEFAULT_CATEGORY = "Product"; // Insights written by hand
+const DEFAULT_EFFORT = 5;
+
+/**
+ * Draft Priority Item
+ * @param insight - Insight being converted
+ * @returns Priority item fields prefilled from the insight
+ */
+export async function draftPriorityItem(insight: AIInsight): Promise<InsertPriorityItem> {
+  const items = await storage.getPriorityItems();
+  const lastRank = Math.max(0, ...items.map((item) => item.rank));
+
+  return {
+    title: insight.title,
+    description: `${insight.description}\n\nExpected impact: ${insight.impact}`,
+    impact: IMPACT_BY_PRIORITY[insight.priority as InsightPriority] ?? IMPACT_BY_PRIORITY.medium,
+    effort: DEFAULT_EFFORT,
+    category: insight.kind ? CATEGORY_BY_KIND[insight.kind as InsightKind] ?? DEFAULT_CATEGORY : DEFAULT_CATEGORY,
+    rank: lastRank + 1,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Rule-Based Insight Provider
+ *
+ * Deterministic provider that works fully offline: the same feedback always
+ * produces the same insights. It looks for:
+ * - Emerging negative topics: a topic whose negative share or daily number of
+ *   negative mentions rose clearly compared with the baseline
+ * - Regional divergence: a region whose average score is far from the overall mean
+ * - Channel degradation: a source whose average score dropped compared with the baseline
+ *
+ * Groups with fewer than MIN_VOLUME entries in the window are ignored, so a
+ * handful of messages can't produce an insight.
+ */
+
+import type { InsightMetricEvidence, InsightPriority, ProposedInsight } from "@shared/schema";
+import type { InsightGroupStats } from "../storage";
+import type { InsightProvider } from "./types";
+
+// Entries a topic, region or source needs in the window to be considered
+const MIN_VOLUME = 5;
+
+// Emerging topics: negative mentions needed, minimum negative share, and how much
+// the share must have grown (or the daily rate multiplied) since the baseline
+const MIN_TOPIC_NEGATIVE = 3;
+const MIN_TOPIC_NEGATIVE_SHARE = 0.4;
+const TOPIC_SHARE_INCREASE = 0.15;
+const TOPIC_RATE_FACTOR = 2;
+
+// Regions: distance from the overall mean (score points, 0-10 scale)
+const REGION_DIVERGENCE = 1.5;
+
+// Channels: score drop since the baseline (score points)
+const CHANNEL_DROP = 1;
+
+// Regions cited per insight
+const REGIONS_CITED = 3;
+
+const PRIORITY_ORDER: Record<InsightPriority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Percent
+ * @returns A 0-1 share as a whole percentage (e.g., 0.425 → 43)
+ */
+function percent(share: number): number {
+  return Math.round(share * 100);
+}
+
+/**
+ * Share
+ * @returns part / total, or 0 when total is 0
+ */
+function share(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+/**
+ * Metric
+ * @returns Metric evidence; values are rounded so refreshes only change on real moves
+ */
+function metric(
+  name: InsightMetricEvidence["metric"],
+  dimension: InsightMetricEvidence["dimension"],
+  dimensionKey: string,
+  value: number,
+  baselineValue: number | null,
+  baselineLabel: string | null,
+): InsightMetricEvidence {
+  const round = (number: number) => Math.round(number * 1000) / 1000;
+  return {
+    metric: name,
+    dimension,
+    dimensionKey,
+    value: round(value),
+    baselineValue: baselineValue === null ? null : round(baselineValue),
+    baselineLabel: baselineValue === null ? null : baselineLabel,
+  };
+}
+
+export const rulesInsightProvider: InsightProvider = {
+  name: "rules",
+
+  async generate(snapshot, { windowDays, baselineDays, getTopicLabel, dismissed }) {
+    const proposals: ProposedInsight[] = [];
+    const considered = (group: InsightGroupStats) => group.volume >= MIN_VOLUME && group.averageScore !== null;
+    const previousPeriod = `previous ${baselineDays} days`;
+
+    // Emerging negative topics
+    for (const topic of snapshot.topics.filter(considered)) {
+      const negativeShare = share(topic.negative, topic.volume);
+      const baselineShare = share(topic.baselineNegative, topic.baselineVolume);
+      const dailyRate = topic.negative / windowDays;
+      const baselineDailyRate = topic.baselineNegative / baselineDays;
+      const emerging =
+        topic.negative >= MIN_TOPIC_NEGATIVE &&
+        negativeShare >= MIN_TOPIC_NEGATIVE_SHARE &&
+        (negativeShare - baselineShare >= TOPIC_SHARE_INCREASE || dailyRate >= baselineDailyRate * TOPIC_RATE_FACTOR);
+      if (!emerging) continue;
+
+      const label = getTopicLabel(topic.key);
+      const before = topic.baselineVolume > 0
+        ? `up from ${percent(baselineShare)}% in the ${baselineDays} days before`
+        : `with no mentions in the ${baselineDays} days before`;
+      proposals.push({
+        kind: "emerging_topic",
+        fingerprint: `emerging_topic:${topic.key}`,
+        title: `Address Rising Complaints About ${label}`,
+        description:
+          `${topic.negative} of ${topic.volume} mentions of ${label} in the last ${windowDays} days were negative ` +
+          `(${percent(negativeShare)}%), ${before}. Review the cited feedback for the most common complaint and fix it first.`,
+        priority: topic.negative >= 10 && negativeShare >= 0.6 ? "high" : topic.negative >= 6 || negativeShare >= 0.5 ? "medium" : "low",
+        impact: `Could remove up to ${topic.negative} negative mentions every ${windowDays} days`,
+        evidence: {
+          feedbackIds: topic.sampleFeedbackIds,
+          regions: topic.regions.filter((region) => region.negativeCount > 0).slice(0, REGIONS_CITED),
+          metrics: [
+            metric("negative_share", "topic", topic.key, negativeShare, topic.baselineVolume > 0 ? baselineShare : null, previousPeriod),
+            // Baseline count scaled down to one window
+            metric("negative", "topic", topic.key, topic.negative, baselineDailyRate * windowDays, previousPeriod),
+          ],
+        },
+      });
+    }
+
+    // Regions diverging from the overall mean
+    if (snapshot.averageScore !== null) {
+      const mean = snapshot.averageScore;
+      for (const region of snapshot.regions.filter(considered)) {
+        const difference = region.averageScore! - mean;
+        if (Math.abs(difference) < REGION_DIVERGENCE) continue;
+
+        if (difference < 0) {
+          // Lift in the overall score if the region caught up with the mean
+          const overallLift = (-difference * region.volume) / snapshot.volume;
+          proposals.push({
+            kind: "regional_divergence",
+            fingerprint: `regional_divergence:${region.key}:below`,
+            title: `Investigate Low Sentiment in ${region.key}`,
+            description:
+              `Feedback from ${region.key} averages ${region.averageScore!.toFixed(1)}/10 over the last ${windowDays} days, ` +
+              `${(-difference).toFixed(1)} points below the overall ${mean.toFixed(1)}/10 (${region.negative} of ` +
+              `${region.volume} entries negative). Check for regional outages, delivery or support issues.`,
+            priority: difference <= -3 ? "high" : difference <= -2 ? "medium" : "low",
+            impact: `Closing the gap would lift the overall score by about ${overallLift.toFixed(1)} points`,
+            evidence: {
+              feedbackIds: region.sampleFeedbackIds,
+              regions: region.regions,
+              metrics: [
+                metric("average_sentiment", "region", region.key, region.averageScore!, mean, "all regions"),
+                metric("negative_share", "region", region.key, share(region.negative, region.volume), null, null),
+              ],
+            },
+          });
+        } else {
+          proposals.push({
+            kind: "regional_divergence",
+            fingerprint: `regional_divergence:${region.key}:above`,
+            title: `Learn From Strong Sentiment in ${region.key}`,
+            description:
+              `Feedback from ${region.key} averages ${region.averageScore!.toFixed(1)}/10 over the last ${windowDays} days, ` +
+              `${difference.toFixed(1)} points above the overall ${mean.toFixed(1)}/10. Find out what works there ` +
+              `and apply it to other regions.`,
+            priority: "low",
+            impact: `Other regions could gain up to ${difference.toFixed(1)} points`,
+            evidence: {
+              feedbackIds: [], // Samples are negative entries, which don't support this one
+              regions: region.regions,
+              metrics: [metric("average_sentiment", "region", region.key, region.averageScore!, mean, "all regions")],
+            },
+          });
+        }
+      }
+    }
+
+    // Channels whose sentiment dropped since the baseline
+    for (const source of snapshot.sources.filter(considered)) {
+      if (source.baselineVolume < MIN_VOLUME || source.baselineAverageScore === null) continue;
+      const drop = source.baselineAverageScore - source.averageScore!;
+      if (drop < CHANNEL_DROP) continue;
+
+      proposals.push({
+        kind: "channel_degradation",
+        fingerprint: `channel_degradation:${source.key}`,
+        title: `Fix Declining Sentiment on ${source.key}`,
+        description:
+          `Sentiment on ${source.key} fell from ${source.baselineAverageScore.toFixed(1)}/10 to ` +
+          `${source.averageScore!.toFixed(1)}/10 over the last ${windowDays} days (${source.negative} of ` +
+          `${source.volume} entries negative). Check recent changes in how this channel is handled.`,
+        priority: drop >= 2.5 ? "high" : drop >= 1.5 ? "medium" : "low",
+        impact: `Recovering the previous level would lift ${source.key} sentiment by ${drop.toFixed(1)} points`,
+        evidence: {
+          feedbackIds: source.sampleFeedbackIds,
+          regions: source.regions.filter((region) => region.negativeCount > 0).slice(0, REGIONS_CITED),
+          metrics: [
+            metric("average_sentiment", "source", source.key, source.averageScore!, source.baselineAverageScore, previousPeriod),
+            metric("negative_share", "source", source.key, share(source.negative, source.volume), share(source.baselineNegative, source.baselineVolume), previousPeriod),
+          ],
+        },
+      });
+    }
+
+    const dismissedFingerprints = new Set(dismissed.map((insight) => insight.fingerprint));
+    return proposals
+      .filter((proposal) => !dismissedFingerprints.has(proposal.fingerprint))
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+  },
+};
@@ -0,0 +1,29 @@
+/**
+ * Insight Provider Types
+ *
+ * Contract every insight provider implements (see index.ts for the registry
+ * and the generator). A provider only proposes insights; storing them and
+ * deciding which ones are new is done by the generator.
+ */
+
+import type { Feedback, ProposedInsight } from "@shared/schema";
+import type { DismissedInsight, InsightSnapshot } from "../storage";
+
+// What a provider gets besides the snapshot
+export interface InsightContext {
+  windowDays: number; // Length of the analyzed window
+  baselineDays: number; // Length of the baseline it is compared with
+  getTopicLabel(topic: string): string; // Display name of a topic id
+  getFeedback(ids: string[]): Promise<Feedback[]>; // Full entries (e.g., to quote them in a prompt)
+  dismissed: DismissedInsight[]; // Rejected by analysts; proposals with these fingerprints are dropped
+}
+
+export interface InsightProvider {
+  name: string; // Stored as the insight's generatedBy
+  /**
+   * Generate
+   * @param snapshot - Recent feedback, summarized per topic, region and source
+   * @returns Proposed insights; fingerprints must be stable across runs
+   */
+  generate(snapshot: InsightSnapshot, context: InsightContext): Promise<ProposedInsight[]>;
+}
@@ -0,0 +1,64 @@
+/**
+ * Background Jobs
+ *
+ * Shared plumbing for the scheduled jobs started in index.ts:
+ * - Intervals are read from the environment as whole numbers, where 0
+ *   disables the job
+ * - A job runs once at startup and then on a fixed interval; its timer is
+ *   unref'd so it never keeps the process alive on its own
+ * - A run that is still going when the next one is due makes that one skip,
+ *   so slow runs never stack up
+ * - Failed runs are logged and the job keeps its schedule
+ */
+
+import { log } from "./vite";
+
+/**
+ * Read Interval Env
+ * Reads a whole, non-negative number from the environment, falling back to
+ * the default for missing or invalid values
+ * @param name - Environment variable (e.g., "ALERT_EVALUATION_MINUTES")
+ * @param fallback - Value used when the variable is missing or invalid
+ * @param source - Log source of the job the value belongs to
+ */
+export function readIntervalEnv(name: string, fallback: number, source: string): number {
+  const configured = process.env[name];
+  if (configured === undefined || configured.trim() === "") {
+    return fallback;
+  }
+
+  const value = Number(configured);
+  if (!Number.isInteger(value) || value < 0) {
+    log(`Ignoring invalid ${name} "${configured}"; using ${fallback}`, source);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Schedule Job
+ * Runs the job now and then every intervalMs, skipping a run while the
+ * previous one is still in progress
+ * @param name - Job name used in failure logs (e.g., "Alert evaluation")
+ * @param run - One run of the job
+ * @param intervalMs - Time between runs
+ * @param source - Log source of the job
+ */
+export function scheduleJob(name: string, run: () => Promise<unknown>, intervalMs: number, source: string) {
+  let running = false;
+
+  const tick = () => {
+    if (running) return; // Previous run still going
+    running = true;
+    run()
+      .catch((error) => {
+        log(`${name} failed: ${error instanceof Error ? error.message : String(error)}`, source);
+      })
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  tick();
+  setInterval(tick, intervalMs).unref();
+}
@@ -0,0 +1,105 @@
+/**
+ * Live Updates
+ *
+ * Pushes change events to signed-in browsers over a WebSocket at /api/live,
+ * so open pages pick up other users' changes without a reload:
+ * - Route handlers (and background jobs) call publishLiveEvent() once a change is saved
+ * - Server-side consumers (e.g., the feedback stream) get the same events
+ *   through subscribeLiveEvents()
+ * - Events carry ids only, never record contents, so every signed-in user
+ *   receives every event; clients refetch what their role can read
+ * - Only upgrades for /api/live are handled; others (e.g., Vite HMR) are left alone
+ * - Connections are pinged every HEARTBEAT_INTERVAL_MS and dropped when they
+ *   stop answering
+ */
+
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { LIVE_UPDATES_PATH, type LiveEvent, type LiveEventType } from "@shared/schema";
+import type { SessionLoader } from "./auth";
+import { log } from "./vite";
+
+// How often connections are checked for liveness
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const wss = new WebSocketServer({ noServer: true });
+
+// Connections that answered the last ping
+const alive = new WeakSet<WebSocket>();
+
+// In-process subscribers
+const listeners = new Set<(event: LiveEvent) => void>();
+
+/**
+ * Publish Live Event
+ * Sends a change event to every connected browser and in-process subscriber;
+ * browsers only receive it when a WebSocket server is attached (not in the seed script)
+ * @param type - What changed (e.g., "feedback.created")
+ * @param id - Changed record, or null when many records changed at once
+ */
+export function publishLiveEvent(type: LiveEventType, id: string | null) {
+  const event: LiveEvent = { type, id, occurredAt: new Date().toISOString() };
+  listeners.forEach((listener) => listener(event));
+
+  const message = JSON.stringify(event);
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+}
+
+/**
+ * Subscribe Live Events
+ * @param listener - Called synchronously for every published event
+ * @returns Function that removes the listener
+ */
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Setup Live Updates
+ * Accepts WebSocket upgrades on /api/live from signed-in users
+ * @param server - HTTP server returned by registerRoutes
+ * @param loadSessionUser - Resolves the user from the upgrade request's session cookie
+ */
+export function setupLiveUpdates(server: Server, loadSessionUser: SessionLoader) {
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== LIVE_UPDATES_PATH) return;
+
+    try {
+      const user = await loadSessionUser(req);
+      if (!user) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+    } catch (error) {
+      log(`Live update connection failed: ${error instanceof Error ? error.message : String(error)}`, "live");
+      socket.destroy();
+    }
+  });
+
+  wss.on("connection", (ws) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+  });
+
+  // Drop connections that didn't answer the previous ping
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
@@ -0,0 +1,61 @@
+/**
+ * Priority Score Refresh
+ *
+ * Keeps stored priority item scores and ranks in line with the scoring
+ * settings (see scoring.ts):
+ * - Routes refresh right after anything that moves a score (item changes,
+ *   settings changes, linked feedback and topics)
+ * - Customer demand also grows as feedback on an item's topics arrives and
+ *   shrinks as it ages out of the demand window, so a job refreshes every
+ *   PRIORITY_RESCORE_MINUTES as well; these scheduled refreshes are not
+ *   audited, since nobody changed anything
+ * - Moved items are pushed to browsers and priority.rank_changed webhooks
+ *
+ * ENVIRONMENT:
+ * - PRIORITY_RESCORE_MINUTES: Minutes between scheduled refreshes (default: 15, 0 disables scheduled refreshes)
+ */
+
+import { storage } from "./storage";
+import { publishLiveEvent } from "./live";
+import { notifyRankChange } from "./webhooks";
+import { readIntervalEnv, scheduleJob } from "./jobs";
+import { log } from "./vite";
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+/**
+ * Get Priority Rescore Minutes
+ * Reads PRIORITY_RESCORE_MINUTES, falling back to the default for missing or invalid values
+ */
+function getPriorityRescoreMinutes(): number {
+  return readIntervalEnv("PRIORITY_RESCORE_MINUTES", DEFAULT_INTERVAL_MINUTES, "scoring");
+}
+
+/**
+ * Refresh Priority Ranks
+ * Rescores the items and, while auto-rank is on, re-ranks them by score
+ * @param newItemId - Item just created (it has no previous rank to move from)
+ * @param audit - Audit the changed items (default: true; off for scheduled refreshes)
+ */
+export async function refreshPriorityRanks(newItemId?: string, audit: boolean = true): Promise<void> {
+  for (const { before, after } of await storage.refreshPriorityScores(audit)) {
+    publishLiveEvent("priority.updated", after.id);
+    if (after.id !== newItemId) {
+      notifyRankChange(before, after);
+    }
+  }
+}
+
+/**
+ * Start Priority Rescoring
+ * Schedules score refreshes; does nothing when scheduled refreshes are disabled
+ */
+export function startPriorityRescoring() {
+  const minutes = getPriorityRescoreMinutes();
+  if (minutes === 0) {
+    log("Scheduled priority rescoring disabled; scores are refreshed when items or settings change", "scoring");
+    return;
+  }
+
+  scheduleJob("Priority rescoring", () => refreshPriorityRanks(undefined, false), minutes * 60 * 1000, "scoring");
+}
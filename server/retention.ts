@@ -0,0 +1,66 @@
+/**
+ * Trash Retention
+ *
+ * Deleted feedback and priority items are kept in the trash so they can be
+ * restored. This job permanently purges rows that have been in the trash
+ * longer than the retention period:
+ * - Runs once at startup and then every PURGE_INTERVAL_MS
+ * - Timer is unref'd so it never keeps the process alive on its own
+ *
+ * ENVIRONMENT:
+ * - TRASH_RETENTION_DAYS: Days trashed rows are kept (default: 30, 0 disables automatic purging)
+ */
+
+import { storage } from "./storage";
+import { publishLiveEvent } from "./live";
+import { readIntervalEnv, scheduleJob } from "./jobs";
+import { log } from "./vite";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// How often expired trash is purged
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Get Trash Retention Days
+ * Reads TRASH_RETENTION_DAYS, falling back to the default for missing or invalid values
+ */
+export function getTrashRetentionDays(): number {
+  return readIntervalEnv("TRASH_RETENTION_DAYS", DEFAULT_RETENTION_DAYS, "retention");
+}
+
+/**
+ * Purge Expired Trash
+ * Permanently deletes trashed rows older than the retention period
+ * @param retentionDays - Days trashed rows are kept
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<void> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const purged = await storage.purgeTrash(cutoff);
+  if (purged.feedback > 0) {
+    publishLiveEvent("feedback.purged", null);
+  }
+  if (purged.priorityItems > 0) {
+    publishLiveEvent("priority.purged", null);
+  }
+  if (purged.feedback > 0 || purged.priorityItems > 0) {
+    log(
+      `Purged ${purged.feedback} feedback entries and ${purged.priorityItems} priority items from the trash`,
+      "retention",
+    );
+  }
+}
+
+/**
+ * Start Trash Retention
+ * Schedules the purge job; does nothing when retention is disabled
+ */
+export function startTrashRetention() {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === 0) {
+    log("Trash retention disabled; trashed rows are kept until purged manually", "retention");
+    return;
+  }
+
+  scheduleJob("Trash purge", () => purgeExpiredTrash(retentionDays), PURGE_INTERVAL_MS, "retention");
+}
@@ -3,12 +3,49 @@
  * 
  * This file defines all REST API endpoints for the Sentiment360 application.
  * Each endpoint handles HTTP requests and returns JSON responses.
+ * All endpoints except /api/auth/* and /api/ingest/* require a signed-in user (see auth.ts).
+ * Endpoints that change data or expose raw feedback also require a role:
+ * - analyst: feedback, imports, priority items, AI insights, impact/usage metric edits,
+ *   feedback explorer/export, alert rules and the alerts inbox
+ * - admin: channels, user management, the audit log, webhooks and permanently purging trashed records
  */
 
-import type { Express } from "express";
+import express, { type Express } from "express";
+import { z } from "zod";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertFeedbackSchema, insertPriorityItemSchema, insertAIInsightSchema, insertChannelSchema } from "@shared/schema";
+import { setupAuth, requireRole, hashPassword, toPublicUser } from "./auth";
+import { isValidTimeZone } from "./dates";
+import { applySentimentAnalysis, applySentimentAnalysisToChanges } from "./sentiment";
+import { parseImport } from "./importer";
+import { getTrashRetentionDays } from "./retention";
+import { setupLiveUpdates, publishLiveEvent } from "./live";
+import { streamFeedbackArrivals } from "./feedback-stream";
+import { evaluateAlertRules } from "./alerts";
+import { generateIngestSecret, normalizeIngestPayload, toPublicChannel, verifyIngestSignature } from "./ingest";
+import { getConnectorInfos, parseConnectorConfig, syncChannel } from "./connectors";
+import { generateInsights } from "./insights";
+import { draftPriorityItem } from "./insights/priority-draft";
+import { scorePriorityItem } from "./scoring";
+import { refreshPriorityRanks } from "./priority-scores";
+import { getTaxonomy } from "./topics";
+import {
+  buildWebhookPayload,
+  dispatchWebhookDeliveries,
+  generateWebhookSecret,
+  notifyNegativeFeedback,
+  notifyRankChange,
+} from "./webhooks";
+import {
+  sendExport,
+  feedbackExportColumns,
+  regionalSentimentExportColumns,
+  sentimentTrendExportColumns,
+  dailySentimentTrendExportColumns,
+  priorityItemExportColumns,
+  impactMetricExportColumns,
+} from "./export";
+import { createUserSchema, updateUserRoleSchema, submitFeedbackSchema, feedbackQuerySchema, feedbackExportQuerySchema, feedbackStreamQuerySchema, feedbackImportFields, exportFormats, regionalSentimentWindows, type RegionalSentimentWindow, type FeedbackImportReport, dashboardStatsQuerySchema, type DashboardStats, type DashboardPeriodStats, insertPriorityItemSchema, updateScoringSettingsSchema, linkPriorityFeedbackSchema, linkPriorityTopicSchema, type ScoredPriorityItem, insertAIInsightSchema, insertChannelSchema, updateFeedbackSchema, updatePriorityItemSchema, updateAIInsightSchema, updateInsightStatusSchema, convertInsightSchema, updateImpactMetricSchema, updateUsageMetricSchema, updateChannelSchema, ingestFeedbackSchema, type TrashContents, auditQuerySchema, insertAlertRuleSchema, updateAlertRuleSchema, snoozeAlertSchema, insertWebhookSchema, updateWebhookSchema, webhookDeliveryQuerySchema, type ChannelType, type UpdateChannel, type ChannelSummary, type ChannelStats } from "@shared/schema";
 
 /**
  * Register API Routes
@@ -17,19 +54,39 @@ import { insertFeedbackSchema, insertPriorityItemSchema, insertAIInsightSchema,
  * @returns HTTP server instance
  */
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, /api/auth endpoints and the sign-in requirement for every other /api route
+  const loadSessionUser = setupAuth(app);
   
   // ============================================================================
   // Dashboard Endpoints
   // ============================================================================
   
+  /**
+   * Parse Regional Window
+   * Reads the days query param for regional sentiment (default: 30)
+   * @returns The window, or null when it is not one of regionalSentimentWindows
+   */
+  const parseRegionalWindow = (value: unknown): RegionalSentimentWindow | null => {
+    const days = value ? parseInt(value as string) : 30;
+    return regionalSentimentWindows.find((window) => window === days) ?? null;
+  };
+
   /**
    * GET /api/regional-sentiment
-   * Fetches sentiment scores grouped by U.S. region
+   * Fetches sentiment aggregated from feedback, grouped by U.S. region
+   * Query params:
+   *   - days: Time window, 7, 30 or 90 (default: 30)
+   * Returns per region: average score, volume and positive/neutral/negative counts
    * Used by: Dashboard page for regional sentiment chart
    */
-  app.get("/api/regional-sentiment", async (_req, res) => {
+  app.get("/api/regional-sentiment", async (req, res) => {
     try {
-      const data = await storage.getRegionalSentiment();
+      const days = parseRegionalWindow(req.query.days);
+      if (days === null) {
+        return res.status(400).json({ error: `days must be one of ${regionalSentimentWindows.join(", ")}` });
+      }
+
+      const data = await storage.getRegionalSentiment(days);
       res.json(data);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch regional sentiment" });
@@ -54,29 +111,253 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * GET /api/feedback/search
+   * Filters, sorts and paginates feedback with cursor pagination
+   * Query params:
+   *   - q: Full-text search over feedback text
+   *   - sentiment, source, region: Exact-match filters
+   *   - from, to: Timestamp range (ISO dates, to is exclusive)
+   *   - sort: timestamp | score | sentiment | source | region (default: timestamp)
+   *   - order: asc | desc (default: desc)
+   *   - cursor: nextCursor from the previous page
+   *   - limit: Page size (default: 25, max: 100)
+   * Returns: { items, nextCursor, total }
+   * Used by: Feedback explorer page
+   */
+  app.get("/api/feedback/search", requireRole("analyst"), async (req, res) => {
+    const parsed = feedbackQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid feedback query" });
+    }
+
+    try {
+      const data = await storage.searchFeedback(parsed.data);
+      res.json(data);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      res.status(500).json({ error: "Failed to search feedback" });
+    }
+  });
+
+  /**
+   * GET /api/feedback/stream
+   * Server-sent events stream of feedback as it arrives (see feedback-stream.ts)
+   * Query params:
+   *   - source, region: Exact-match filters
+   *   - lastEventId: Resume after this event (the Last-Event-ID header takes precedence)
+   * Each "feedback" event carries one feedback entry as JSON
+   * Used by: Dashboard live feedback stream panel
+   */
+  app.get("/api/feedback/stream", async (req, res) => {
+    const parsed = feedbackStreamQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid stream query" });
+    }
+
+    try {
+      await streamFeedbackArrivals(res, parsed.data, req.get("Last-Event-ID") || parsed.data.lastEventId);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return res.status(400).json({ error: "Invalid Last-Event-ID" });
+      }
+      res.status(500).json({ error: "Failed to stream feedback" });
+    }
+  });
+
   /**
    * POST /api/feedback
    * Creates a new customer feedback entry
-   * Request body: { text, sentiment, source, region }
+   * Request body: { text, sentiment?, source, region }
+   * When sentiment is omitted, the text is scored by the sentiment analyzer
+   * and the detected label, score and confidence are stored
+   * High-severity negative entries are sent to feedback.negative webhooks
    * Used by: Manage page feedback form
    */
-  app.post("/api/feedback", async (req, res) => {
+  app.post("/api/feedback", requireRole("analyst"), async (req, res) => {
     try {
       // Validate request body using Zod schema
-      const validatedData = insertFeedbackSchema.parse(req.body);
-      const newFeedback = await storage.createFeedback(validatedData);
+      const validatedData = submitFeedbackSchema.parse(req.body);
+      const newFeedback = await storage.createFeedback(applySentimentAnalysis(validatedData));
+      publishLiveEvent("feedback.created", newFeedback.id);
+      notifyNegativeFeedback(newFeedback);
       res.status(201).json(newFeedback); // 201 Created
     } catch (error) {
       res.status(400).json({ error: "Invalid feedback data" });
     }
   });
 
+  /**
+   * POST /api/feedback/:id/respond
+   * Marks a feedback entry as responded to (counts toward the response rate)
+   * Used by: Feedback explorer "Mark responded" action
+   */
+  app.post("/api/feedback/:id/respond", requireRole("analyst"), async (req, res) => {
+    try {
+      const updated = await storage.markFeedbackResponded(req.params.id);
+      if (!updated) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+      publishLiveEvent("feedback.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update feedback" });
+    }
+  });
+
+  /**
+   * PATCH /api/feedback/:id
+   * Updates a feedback entry; only the fields present in the body change
+   * Request body: any of { text, sentiment, source, region }
+   * New text without a sentiment label is re-analyzed and its topics re-tagged;
+   * a new label replaces the analyzer score
+   * Used by: Manage page feedback tab
+   */
+  app.patch("/api/feedback/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updateFeedbackSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid feedback data" });
+    }
+
+    try {
+      const updated = await storage.updateFeedback(req.params.id, applySentimentAnalysisToChanges(validation.data));
+      if (!updated) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+      publishLiveEvent("feedback.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update feedback" });
+    }
+  });
+
+  /**
+   * DELETE /api/feedback/:id
+   * Moves a feedback entry to the trash (see Trash Endpoints to restore or purge it)
+   * Used by: Manage page feedback tab
+   */
+  app.delete("/api/feedback/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteFeedback(req.params.id, req.user?.id ?? null);
+      if (!deleted) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+      publishLiveEvent("feedback.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete feedback" });
+    }
+  });
+
+  /**
+   * GET /api/topics
+   * Fetches per-topic feedback volume and aspect-level sentiment
+   * Query params:
+   *   - days: Size of the time window in days (default: 30, max: 365)
+   * Used by: Dashboard page for top pain points panel
+   */
+  app.get("/api/topics", async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: "days must be an integer between 1 and 365" });
+      }
+
+      const data = await storage.getTopicSummaries(days);
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch topics" });
+    }
+  });
+
+  /**
+   * GET /api/topics/taxonomy
+   * Fetches the topics feedback is tagged with (id and label)
+   * Used by: Prioritization page priority list (links dialog)
+   */
+  app.get("/api/topics/taxonomy", async (_req, res) => {
+    res.json(getTaxonomy().map((topic) => ({ id: topic.id, label: topic.label })));
+  });
+
+  /**
+   * POST /api/feedback/import
+   * Bulk-imports feedback from a CSV or NDJSON file sent as the raw request body
+   * Content-Type: text/csv or application/x-ndjson
+   * Query params:
+   *   - dryRun: "true" to validate and preview without writing anything
+   *   - mapping[field]: Column to read a feedback field from
+   *     (fields: text, sentiment, source, region, timestamp; defaults to the
+   *     column with the same name)
+   * Rows without a sentiment are scored by the sentiment analyzer; invalid
+   * rows are skipped and reported individually
+   * The valid rows are saved in one transaction: if saving fails, nothing is
+   * imported and the whole file can be sent again
+   * Returns: FeedbackImportReport
+   * Used by: Manage page bulk import
+   */
+  const importQuerySchema = z.object({
+    dryRun: z.enum(["true", "false"]).default("false"),
+    mapping: z.record(z.enum(feedbackImportFields), z.string().min(1)).default({}),
+  });
+
+  app.post(
+    "/api/feedback/import",
+    requireRole("analyst"),
+    express.text({ type: ["text/csv", "application/x-ndjson"], limit: "20mb" }),
+    async (req, res) => {
+      const query = importQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      if (typeof req.body !== "string") {
+        return res.status(415).json({ error: "Send the file as text/csv or application/x-ndjson" });
+      }
+
+      let parsed;
+      try {
+        const format = req.is("text/csv") ? "csv" : "ndjson";
+        parsed = parseImport(req.body, format, query.data.mapping);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : "Could not parse file" });
+      }
+
+      try {
+        const dryRun = query.data.dryRun === "true";
+        const imported = dryRun ? 0 : await storage.importFeedback(parsed.validRows);
+        if (imported > 0) {
+          publishLiveEvent("feedback.created", null);
+        }
+
+        const report: FeedbackImportReport = {
+          dryRun,
+          columns: parsed.columns,
+          mapping: parsed.mapping,
+          totalRows: parsed.totalRows,
+          validRows: parsed.validRows.length,
+          invalidRows: parsed.errors.length,
+          imported,
+          preview: parsed.validRows.slice(0, 10).map((row) => ({
+            ...row,
+            timestamp: row.timestamp ? row.timestamp.toISOString() : null,
+          })),
+          errors: parsed.errors,
+        };
+        res.status(dryRun ? 200 : 201).json(report);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to import feedback; no rows were imported" });
+      }
+    },
+  );
+
   /**
    * GET /api/sentiment-trends
    * Fetches historical sentiment trend data
    * Query params:
    *   - period: "daily" for daily data, omit for monthly data
-   *   - days: Number of days for daily data (default: 30)
+   *   - days: Number of days for daily data (default: 30, max: 365)
+   *   - tz: IANA time zone used for day boundaries in daily data (default: "UTC")
    * Used by: Dashboard page for sentiment trend chart
    */
   app.get("/api/sentiment-trends", async (req, res) => {
@@ -84,7 +365,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if daily data is requested
       if (req.query.period === "daily") {
         const days = req.query.days ? parseInt(req.query.days as string) : 30;
-        const data = await storage.getDailySentimentTrends(days);
+        const timeZone = req.query.tz ? (req.query.tz as string) : "UTC";
+
+        // Reject malformed ranges and unknown time zones up front
+        if (!Number.isInteger(days) || days < 1 || days > 365) {
+          return res.status(400).json({ error: "days must be an integer between 1 and 365" });
+        }
+        if (!isValidTimeZone(timeZone)) {
+          return res.status(400).json({ error: "Unknown time zone" });
+        }
+
+        const data = await storage.getDailySentimentTrends(days, timeZone);
         res.json(data);
       } else {
         // Return monthly data for 90D and All views
@@ -102,12 +393,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   /**
    * GET /api/priority-items
-   * Fetches all priority items for the impact vs effort matrix
-   * Used by: Prioritization page for matrix visualization
+   * Fetches all priority items for the impact vs effort matrix, each with how
+   * its score was computed (see server/scoring.ts) and the customer demand
+   * behind it (attached feedback and recent feedback on its topics)
+   * Used by: Prioritization page for matrix visualization and the priority list
    */
   app.get("/api/priority-items", async (_req, res) => {
     try {
-      const data = await storage.getPriorityItems();
+      const settings = await storage.getScoringSettings();
+      const items = await storage.getPriorityItems();
+      const demand = await storage.getCustomerDemand(items.map((item) => item.id));
+      const data: ScoredPriorityItem[] = items.map((item) => {
+        const itemDemand = demand.get(item.id)!;
+        return { ...item, scoreBreakdown: scorePriorityItem(item, settings, itemDemand), demand: itemDemand };
+      });
       res.json(data);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch priority items" });
@@ -116,25 +415,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * POST /api/priority-items
-   * Creates a new priority item
-   * Request body: { title, description, impact, effort, category, rank }
+   * Creates a new priority item; its score is computed by the server
+   * Request body: { title, description, impact, effort, category, rank, reach?,
+   *   confidence?, businessValue?, timeCriticality?, riskReduction? }
+   * While auto-rank is on, the typed rank is replaced by the item's place by score
    * Used by: Manage page priority form
    */
-  app.post("/api/priority-items", async (req, res) => {
+  app.post("/api/priority-items", requireRole("analyst"), async (req, res) => {
+    const validation = insertPriorityItemSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid priority item data" });
+    }
+
     try {
-      // Validate request body using Zod schema
-      const validatedData = insertPriorityItemSchema.parse(req.body);
-      const newItem = await storage.createPriorityItem(validatedData);
-      res.status(201).json(newItem); // 201 Created
+      const newItem = await storage.createPriorityItem(validation.data);
+      publishLiveEvent("priority.created", newItem.id);
+      await refreshPriorityRanks(newItem.id);
+      res.status(201).json((await storage.getPriorityItem(newItem.id)) ?? newItem); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create priority item" });
+    }
+  });
+
+  /**
+   * PATCH /api/priority-items/:id
+   * Updates a priority item; only the fields present in the body change
+   * Request body: any of { title, description, impact, effort, category, rank,
+   *   reach, confidence, businessValue, timeCriticality, riskReduction }
+   * The score is recomputed; while auto-rank is on, items are re-ranked by score
+   * and a new rank is refused with 409
+   * A new rank is sent to priority.rank_changed webhooks
+   * Used by: Manage page priority items tab
+   */
+  app.patch("/api/priority-items/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updatePriorityItemSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid priority item data" });
+    }
+
+    try {
+      const before = await storage.getPriorityItem(req.params.id);
+      const result = before ? await storage.updatePriorityItem(req.params.id, validation.data) : undefined;
+      if (result?.autoRanked) {
+        return res.status(409).json({ error: "Rank is computed from the score while ranking by score is on" });
+      }
+      const updated = result?.item;
+      if (!before || !updated) {
+        return res.status(404).json({ error: "Priority item not found" });
+      }
+      publishLiveEvent("priority.updated", updated.id);
+      notifyRankChange(before, updated);
+      await refreshPriorityRanks();
+      res.json((await storage.getPriorityItem(updated.id)) ?? updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update priority item" });
+    }
+  });
+
+  /**
+   * DELETE /api/priority-items/:id
+   * Moves a priority item to the trash (see Trash Endpoints to restore or purge it)
+   * Used by: Manage page priority items tab
+   */
+  app.delete("/api/priority-items/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deletePriorityItem(req.params.id, req.user?.id ?? null);
+      if (!deleted) {
+        return res.status(404).json({ error: "Priority item not found" });
+      }
+      publishLiveEvent("priority.deleted", req.params.id);
+      await refreshPriorityRanks(); // Close the gap while auto-rank is on
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete priority item" });
+    }
+  });
+
+  /**
+   * GET /api/priority-items/:id/links
+   * Fetches the feedback attached to a priority item and the topics linked to it
+   * Returns: { feedback, topics: [{ topic, label }] }
+   * Used by: Prioritization page priority list (links dialog)
+   */
+  app.get("/api/priority-items/:id/links", requireRole("analyst"), async (req, res) => {
+    try {
+      const links = await storage.getPriorityItemLinks(req.params.id);
+      if (!links) {
+        return res.status(404).json({ error: "Priority item not found" });
+      }
+      res.json(links);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch priority item links" });
+    }
+  });
+
+  /**
+   * POST /api/priority-items/:id/feedback
+   * Attaches feedback entries to a priority item as customer demand for it
+   * Request body: { feedbackIds } (entries already attached or in the trash are skipped)
+   * Returns: { linked } with the number of newly attached entries
+   * Used by: Feedback explorer (Link to priority item)
+   */
+  app.post("/api/priority-items/:id/feedback", requireRole("analyst"), async (req, res) => {
+    const validation = linkPriorityFeedbackSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid feedback selection" });
+    }
+
+    try {
+      const linked = await storage.linkPriorityFeedback(req.params.id, validation.data.feedbackIds, req.user?.id ?? null);
+      if (linked === undefined) {
+        return res.status(404).json({ error: "Priority item not found" });
+      }
+      if (linked > 0) {
+        publishLiveEvent("priority.updated", req.params.id);
+        await refreshPriorityRanks();
+      }
+      res.json({ linked });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to link feedback" });
+    }
+  });
+
+  /**
+   * DELETE /api/priority-items/:id/feedback/:feedbackId
+   * Detaches a feedback entry from a priority item
+   * Used by: Prioritization page priority list (links dialog)
+   */
+  app.delete("/api/priority-items/:id/feedback/:feedbackId", requireRole("analyst"), async (req, res) => {
+    try {
+      const unlinked = await storage.unlinkPriorityFeedback(req.params.id, req.params.feedbackId);
+      if (!unlinked) {
+        return res.status(404).json({ error: "Feedback is not linked to this priority item" });
+      }
+      publishLiveEvent("priority.updated", req.params.id);
+      await refreshPriorityRanks();
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unlink feedback" });
+    }
+  });
+
+  /**
+   * POST /api/priority-items/:id/topics
+   * Links a topic to a priority item; recent feedback on it counts as demand
+   * Request body: { topic } (a topic id from the taxonomy, see GET /api/topics/taxonomy)
+   * Used by: Prioritization page priority list (links dialog)
+   */
+  app.post("/api/priority-items/:id/topics", requireRole("analyst"), async (req, res) => {
+    const validation = linkPriorityTopicSchema.safeParse(req.body);
+    if (!validation.success || !getTaxonomy().some((topic) => topic.id === validation.data.topic)) {
+      return res.status(400).json({ error: "Unknown topic" });
+    }
+
+    try {
+      const link = await storage.linkPriorityTopic(req.params.id, validation.data.topic, req.user?.id ?? null);
+      if (!link) {
+        return res.status(404).json({ error: "Priority item not found" });
+      }
+      publishLiveEvent("priority.updated", req.params.id);
+      await refreshPriorityRanks();
+      res.status(201).json(link); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to link topic" });
+    }
+  });
+
+  /**
+   * DELETE /api/priority-items/:id/topics/:topic
+   * Unlinks a topic from a priority item
+   * Used by: Prioritization page priority list (links dialog)
+   */
+  app.delete("/api/priority-items/:id/topics/:topic", requireRole("analyst"), async (req, res) => {
+    try {
+      const unlinked = await storage.unlinkPriorityTopic(req.params.id, req.params.topic);
+      if (!unlinked) {
+        return res.status(404).json({ error: "Topic is not linked to this priority item" });
+      }
+      publishLiveEvent("priority.updated", req.params.id);
+      await refreshPriorityRanks();
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unlink topic" });
+    }
+  });
+
+  /**
+   * GET /api/scoring-settings
+   * Fetches the workspace's scoring model, weights and whether items are ranked by score
+   * Used by: Prioritization page priority list, Manage page priority items tab
+   */
+  app.get("/api/scoring-settings", async (_req, res) => {
+    try {
+      res.json(await storage.getScoringSettings());
     } catch (error) {
-      res.status(400).json({ error: "Invalid priority item data" });
+      res.status(500).json({ error: "Failed to fetch scoring settings" });
+    }
+  });
+
+  /**
+   * PATCH /api/scoring-settings
+   * Changes the scoring model or weights; every item is rescored and, while
+   * auto-rank is on, re-ranked
+   * Request body: any of { model, autoRank, riceWeights, wsjfWeights }
+   * Used by: Manage page priority items tab (scoring settings card)
+   */
+  app.patch("/api/scoring-settings", requireRole("analyst"), async (req, res) => {
+    const validation = updateScoringSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid scoring settings" });
+    }
+
+    try {
+      const settings = await storage.updateScoringSettings(validation.data);
+      publishLiveEvent("scoring.updated", settings.id);
+      await refreshPriorityRanks();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update scoring settings" });
     }
   });
 
   /**
    * GET /api/ai-insights
-   * Fetches AI-generated insights and recommendations
-   * TODO: Replace with OpenAI API integration for dynamic insights
+   * Fetches generated and hand-written insights (newest first)
    * Used by: Prioritization page for AI insights section
    */
   app.get("/api/ai-insights", async (_req, res) => {
@@ -146,145 +650,1388 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Days in the trend shown with an insight's evidence
+  const INSIGHT_TREND_DAYS = 30;
+
+  /**
+   * GET /api/ai-insights/:id/evidence
+   * Feedback, regions and metrics an insight cites, with the recent daily
+   * trend of what its first metric measures
+   * Query params:
+   *   - tz: IANA time zone used for day boundaries (default: "UTC")
+   * Returns: InsightEvidenceDetail
+   * Used by: Prioritization page AI insights section (View Details dialog)
+   */
+  app.get("/api/ai-insights/:id/evidence", async (req, res) => {
+    const timeZone = req.query.tz ? (req.query.tz as string) : "UTC";
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: "Unknown time zone" });
+    }
+
+    try {
+      const evidence = await storage.getInsightEvidence(req.params.id, INSIGHT_TREND_DAYS, timeZone);
+      if (!evidence) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      res.json(evidence);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch AI insight evidence" });
+    }
+  });
+
   /**
    * POST /api/ai-insights
-   * Creates a new AI insight (manual for now)
+   * Creates an insight by hand (generated ones come from POST /api/ai-insights/generate)
    * Request body: { title, description, priority, impact }
-   * TODO: Replace with automated OpenAI API calls
    */
-  app.post("/api/ai-insights", async (req, res) => {
+  app.post("/api/ai-insights", requireRole("analyst"), async (req, res) => {
     try {
       // Validate request body using Zod schema
       const validatedData = insertAIInsightSchema.parse(req.body);
       const newInsight = await storage.createAIInsight(validatedData);
+      publishLiveEvent("insight.created", newInsight.id);
       res.status(201).json(newInsight); // 201 Created
     } catch (error) {
       res.status(400).json({ error: "Invalid AI insight data" });
     }
   });
 
-  // ============================================================================
-  // Impact Tracker Endpoints
-  // ============================================================================
-  
   /**
-   * GET /api/impact-metrics
-   * Fetches before/after metrics showing improvement results
-   * Used by: Impact Tracker page for success metrics cards
+   * POST /api/ai-insights/generate
+   * Runs the insight generator now instead of waiting for the scheduler
+   * Returns: { provider, created, refreshed, skipped }
+   * Used by: Prioritization page AI insights section (Generate button)
    */
-  app.get("/api/impact-metrics", async (_req, res) => {
+  app.post("/api/ai-insights/generate", requireRole("analyst"), async (_req, res) => {
     try {
-      const data = await storage.getImpactMetrics();
-      res.json(data);
+      res.json(await generateInsights());
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch impact metrics" });
+      res.status(500).json({ error: "Failed to generate AI insights" });
     }
   });
 
   /**
-   * GET /api/usage-metrics
-   * Fetches user engagement metrics over time
-   * Used by: Impact Tracker page for usage metrics chart
+   * PATCH /api/ai-insights/:id
+   * Updates an AI insight; only the fields present in the body change
+   * Request body: any of { title, description, priority, impact }
+   * Used by: Manage page AI insights tab
    */
-  app.get("/api/usage-metrics", async (_req, res) => {
+  app.patch("/api/ai-insights/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updateAIInsightSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid AI insight data" });
+    }
+
     try {
-      const data = await storage.getUsageMetrics();
-      res.json(data);
+      const updated = await storage.updateAIInsight(req.params.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      publishLiveEvent("insight.updated", updated.id);
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch usage metrics" });
+      res.status(500).json({ error: "Failed to update AI insight" });
     }
   });
 
   /**
-   * GET /api/channels
-   * Fetches all integrated communication channels
-   * TODO: Add Twitter API integration
-   * TODO: Add Instagram API integration
-   * TODO: Add Facebook API integration
-   * Used by: Impact Tracker page for channels section
+   * POST /api/ai-insights/:id/status
+   * Accepts, dismisses or reopens an insight; dismissed insights are not
+   * proposed again by the generator
+   * Request body: { status: "new" | "accepted" | "dismissed", reason? } (reason required to dismiss)
+   * Returns: The updated insight; 409 once it was converted to a priority item
+   * Used by: Prioritization page AI insights section
    */
-  app.get("/api/channels", async (_req, res) => {
+  app.post("/api/ai-insights/:id/status", requireRole("analyst"), async (req, res) => {
+    const validation = updateInsightStatusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.issues[0]?.message ?? "Invalid status change" });
+    }
+
     try {
-      const data = await storage.getChannels();
-      res.json(data);
+      const insight = await storage.getAIInsight(req.params.id);
+      if (!insight) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      if (insight.status === "converted") {
+        return res.status(409).json({ error: "Insight was already converted to a priority item" });
+      }
+
+      const updated = await storage.setAIInsightStatus(insight.id, validation.data, req.user?.id ?? null);
+      if (!updated) {
+        // Deleted or converted since it was read
+        return res.status(409).json({ error: "AI insight was changed meanwhile; reload and try again" });
+      }
+      publishLiveEvent("insight.updated", updated.id);
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch channels" });
+      res.status(500).json({ error: "Failed to change AI insight status" });
     }
   });
 
   /**
-   * POST /api/channels
-   * Creates a new communication channel
-   * Request body: { name, status, messageCount }
-   * Used by: Manage page channel form
+   * GET /api/ai-insights/:id/priority-draft
+   * Priority item fields prefilled from an insight, for review before converting
+   * Returns: { title, description, impact, effort, category, rank }
+   * Used by: Prioritization page AI insights section (Convert dialog)
    */
-  app.post("/api/channels", async (req, res) => {
+  app.get("/api/ai-insights/:id/priority-draft", requireRole("analyst"), async (req, res) => {
     try {
-      // Validate request body using Zod schema
-      const validatedData = insertChannelSchema.parse(req.body);
-      const newChannel = await storage.createChannel(validatedData);
-      res.status(201).json(newChannel); // 201 Created
+      const insight = await storage.getAIInsight(req.params.id);
+      if (!insight) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      res.json(await draftPriorityItem(insight));
     } catch (error) {
-      res.status(400).json({ error: "Invalid channel data" });
+      res.status(500).json({ error: "Failed to draft priority item" });
+    }
+  });
+
+  /**
+   * POST /api/ai-insights/:id/convert
+   * Creates a priority item from an insight and marks the insight converted
+   * Request body: { title, description, impact, effort, category, rank, reach?, confidence?,
+   *   businessValue?, timeCriticality?, riskReduction?, reason? }
+   * Returns: 201 with { insight, priorityItem }; 409 when it was already converted
+   * Used by: Prioritization page AI insights section (Convert dialog)
+   */
+  app.post("/api/ai-insights/:id/convert", requireRole("analyst"), async (req, res) => {
+    const validation = convertInsightSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid priority item data" });
+    }
+
+    try {
+      const insight = await storage.getAIInsight(req.params.id);
+      if (!insight) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      if (insight.status === "converted") {
+        return res.status(409).json({ error: "Insight was already converted to a priority item" });
+      }
+
+      const { reason, ...item } = validation.data;
+      const conversion = await storage.convertAIInsight(insight.id, item, reason, req.user?.id ?? null);
+      if (!conversion) {
+        // Deleted or converted since it was read
+        return res.status(409).json({ error: "AI insight was changed meanwhile; reload and try again" });
+      }
+      publishLiveEvent("priority.created", conversion.priorityItem.id);
+      publishLiveEvent("insight.updated", conversion.insight.id);
+      await refreshPriorityRanks(conversion.priorityItem.id);
+      const priorityItem = (await storage.getPriorityItem(conversion.priorityItem.id)) ?? conversion.priorityItem;
+      res.status(201).json({ ...conversion, priorityItem }); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to convert AI insight" });
+    }
+  });
+
+  /**
+   * DELETE /api/ai-insights/:id
+   * Deletes an AI insight
+   * Used by: Manage page AI insights tab
+   */
+  app.delete("/api/ai-insights/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAIInsight(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "AI insight not found" });
+      }
+      publishLiveEvent("insight.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete AI insight" });
     }
   });
 
   // ============================================================================
-  // Dashboard Summary Stats
+  // Impact Tracker Endpoints
   // ============================================================================
   
   /**
-   * GET /api/dashboard-stats
-   * Calculates and returns aggregated dashboard metrics
-   * Returns: {
-   *   avgSentiment: Average sentiment across all regions
-   *   totalFeedback: Total number of feedback entries
-   *   responseRate: Customer response rate percentage
-   *   activeUsers: Number of active users
-   *   ...change percentages for each metric
-   * }
-   * Used by: Dashboard page for metric cards
+   * GET /api/impact-metrics
+   * Fetches before/after metrics showing improvement results
+   * Used by: Impact Tracker page for success metrics cards
    */
-  app.get("/api/dashboard-stats", async (_req, res) => {
-    try {
-      // Fetch data from multiple sources
-      const regionalData = await storage.getRegionalSentiment();
-      const feedbackData = await storage.getRecentFeedback(100);
-      const trendsData = await storage.getSentimentTrends();
-      
-      // Calculate average sentiment across all regions
-      const avgSentiment = regionalData.length > 0
-        ? regionalData.reduce((sum, r) => sum + parseFloat(r.sentimentScore), 0) / regionalData.length
-        : 0;
-      
-      // Count total feedback entries
-      const totalFeedback = feedbackData.length;
-      
-      // TODO: Calculate actual response rate from real data
-      const responseRate = 94;
-      
-      // TODO: Fetch actual active users from usage metrics
-      const activeUsers = 2820;
-      
-      // Format and return dashboard statistics
-      res.json({
-        avgSentiment: avgSentiment.toFixed(1), // Format to 1 decimal place
-        // Format large numbers with K suffix
-        totalFeedback: totalFeedback > 1000 ? `${(totalFeedback / 1000).toFixed(1)}K` : totalFeedback.toString(),
-        responseRate: `${responseRate}%`,
-        activeUsers: activeUsers > 1000 ? `${(activeUsers / 1000).toFixed(1)}K` : activeUsers.toString(),
-        // TODO: Calculate actual change percentages from historical data
-        sentimentChange: 12,
-        feedbackChange: 8,
-        responseRateChange: 5,
-        activeUsersChange: 15,
-      });
+  app.get("/api/impact-metrics", async (_req, res) => {
+    try {
+      const data = await storage.getImpactMetrics();
+      res.json(data);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch dashboard stats" });
+      res.status(500).json({ error: "Failed to fetch impact metrics" });
     }
   });
 
-  // Create and return HTTP server
-  const httpServer = createServer(app);
+  /**
+   * PATCH /api/impact-metrics/:id
+   * Updates an impact metric; only the fields present in the body change
+   * Request body: any of { metricName, beforeValue, afterValue, improvement, unit }
+   * Used by: Manage page impact metrics tab
+   */
+  app.patch("/api/impact-metrics/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updateImpactMetricSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid impact metric data" });
+    }
+
+    try {
+      const updated = await storage.updateImpactMetric(req.params.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Impact metric not found" });
+      }
+      publishLiveEvent("impact_metric.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update impact metric" });
+    }
+  });
+
+  /**
+   * DELETE /api/impact-metrics/:id
+   * Deletes an impact metric
+   * Used by: Manage page impact metrics tab
+   */
+  app.delete("/api/impact-metrics/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteImpactMetric(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Impact metric not found" });
+      }
+      publishLiveEvent("impact_metric.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete impact metric" });
+    }
+  });
+
+  /**
+   * GET /api/usage-metrics
+   * Fetches user engagement metrics over time
+   * Used by: Impact Tracker page for usage metrics chart
+   */
+  app.get("/api/usage-metrics", async (_req, res) => {
+    try {
+      const data = await storage.getUsageMetrics();
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch usage metrics" });
+    }
+  });
+
+  /**
+   * PATCH /api/usage-metrics/:id
+   * Updates a usage metric; only the fields present in the body change
+   * Request body: any of { week, weekStart, dailyActiveUsers, satisfactionScore }
+   * Used by: Manage page usage metrics tab
+   */
+  app.patch("/api/usage-metrics/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updateUsageMetricSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid usage metric data" });
+    }
+
+    try {
+      const updated = await storage.updateUsageMetric(req.params.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Usage metric not found" });
+      }
+      publishLiveEvent("usage_metric.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update usage metric" });
+    }
+  });
+
+  /**
+   * DELETE /api/usage-metrics/:id
+   * Deletes a usage metric
+   * Used by: Manage page usage metrics tab
+   */
+  app.delete("/api/usage-metrics/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteUsageMetric(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Usage metric not found" });
+      }
+      publishLiveEvent("usage_metric.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete usage metric" });
+    }
+  });
+
+  /**
+   * GET /api/channels
+   * Fetches all integrated communication channels, with connector sync state
+   * Query params:
+   *   - days: Window of messageCount, 7, 30 or 90 (default: 30)
+   * messageCount is the number of feedback entries from the channel's source in the window
+   * Ingest secrets are never included (ingestEnabled tells whether one is set)
+   * Used by: Impact Tracker page for channels section, Manage page channels tab
+   */
+  app.get("/api/channels", async (req, res) => {
+    const days = parseRegionalWindow(req.query.days);
+    if (days === null) {
+      return res.status(400).json({ error: `days must be one of ${regionalSentimentWindows.join(", ")}` });
+    }
+
+    try {
+      const data = await storage.getChannelSummaries(days);
+      res.json(data.map(({ messageCount, ...channel }): ChannelSummary => ({ ...toPublicChannel(channel), messageCount })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch channels" });
+    }
+  });
+
+  /**
+   * GET /api/channels/:id/stats
+   * Volume over time and sentiment mix of one channel's feedback
+   * Query params:
+   *   - days: Time window, 7, 30 or 90 (default: 30)
+   *   - tz: IANA time zone used for day boundaries (default: "UTC")
+   * Returns: ChannelStats (totals and one data point per day)
+   * Used by: Channel detail page
+   */
+  app.get("/api/channels/:id/stats", async (req, res) => {
+    const days = parseRegionalWindow(req.query.days);
+    if (days === null) {
+      return res.status(400).json({ error: `days must be one of ${regionalSentimentWindows.join(", ")}` });
+    }
+    const timeZone = req.query.tz ? (req.query.tz as string) : "UTC";
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: "Unknown time zone" });
+    }
+
+    try {
+      const channel = await storage.getChannel(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+
+      const stats = await storage.getChannelStats(channel, days, timeZone);
+      const messageCount = stats.positive + stats.neutral + stats.negative;
+      const data: ChannelStats = { ...stats, channel: { ...toPublicChannel(channel), messageCount } };
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch channel stats" });
+    }
+  });
+
+  /**
+   * GET /api/connectors
+   * Lists the connectors a channel can use (channel types other than "manual")
+   * Used by: Manage page channels tab (connectors)
+   */
+  app.get("/api/connectors", requireRole("admin"), (_req, res) => {
+    res.json(getConnectorInfos());
+  });
+
+  /**
+   * POST /api/channels
+   * Creates a new communication channel
+   * Request body: { name, status, type?, config? }
+   * The config is checked by the type's connector; connector channels are
+   * synced from the next scheduler run
+   * Used by: Manage page channel form
+   */
+  app.post("/api/channels", requireRole("admin"), async (req, res) => {
+    try {
+      // Validate request body using Zod schema
+      const validatedData = insertChannelSchema.parse(req.body);
+      const type = validatedData.type ?? "manual";
+      const parsedConfig = parseConnectorConfig(type, validatedData.config);
+      if (!parsedConfig.success) {
+        return res.status(400).json({ error: parsedConfig.error });
+      }
+      const newChannel = await storage.createChannel({ ...validatedData, type, config: parsedConfig.config });
+      if (!newChannel) {
+        return res.status(409).json({ error: "A channel with this name already exists" });
+      }
+      publishLiveEvent("channel.created", newChannel.id);
+      res.status(201).json(toPublicChannel(newChannel)); // 201 Created
+    } catch (error) {
+      res.status(400).json({ error: "Invalid channel data" });
+    }
+  });
+
+  /**
+   * PATCH /api/channels/:id
+   * Updates a channel; only the fields present in the body change
+   * Setting status to "inactive" retires a channel without deleting it
+   * Changing the type or config restarts the connector from the beginning of
+   * its source (entries stored before are not stored again)
+   * Renaming moves the channel's feedback and alert rules to the new name;
+   * names are unique (409 when taken)
+   * Request body: any of { name, status, type, config }
+   * Used by: Manage page channels tab
+   */
+  app.patch("/api/channels/:id", requireRole("admin"), async (req, res) => {
+    const validation = updateChannelSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid channel data" });
+    }
+
+    try {
+      let changes: UpdateChannel & { syncCursor?: null } = validation.data;
+      if (changes.type !== undefined || changes.config !== undefined) {
+        const existing = await storage.getChannel(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Channel not found" });
+        }
+        // A new type starts from its own defaults unless a config is sent along
+        const type = changes.type ?? (existing.type as ChannelType);
+        const config = changes.config ?? (type === existing.type ? existing.config : {});
+        const parsedConfig = parseConnectorConfig(type, config);
+        if (!parsedConfig.success) {
+          return res.status(400).json({ error: parsedConfig.error });
+        }
+        changes = { ...changes, type, config: parsedConfig.config, syncCursor: null };
+      }
+
+      const result = await storage.updateChannel(req.params.id, changes);
+      if (result.nameTaken) {
+        return res.status(409).json({ error: "A channel with this name already exists" });
+      }
+      const updated = result.channel;
+      if (!updated) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      publishLiveEvent("channel.updated", updated.id);
+      res.json(toPublicChannel(updated));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update channel" });
+    }
+  });
+
+  /**
+   * DELETE /api/channels/:id
+   * Deletes a channel
+   * Used by: Manage page channels tab
+   */
+  app.delete("/api/channels/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteChannel(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      publishLiveEvent("channel.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete channel" });
+    }
+  });
+
+  /**
+   * POST /api/channels/:id/sync
+   * Runs the channel's connector now instead of waiting for the scheduler
+   * (for subscribing connectors this only checks the source's health)
+   * Returns: The channel with its new sync state; 409 for manual or inactive channels
+   * Used by: Manage page channels tab (connectors)
+   */
+  app.post("/api/channels/:id/sync", requireRole("admin"), async (req, res) => {
+    try {
+      const channel = await storage.getChannel(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (channel.status !== "active") {
+        return res.status(409).json({ error: "Channel is inactive" });
+      }
+
+      const result = await syncChannel(channel);
+      if (!result) {
+        return res.status(409).json({ error: "Manual channels have no connector to sync" });
+      }
+      if (!result.channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      res.json(toPublicChannel(result.channel));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sync channel" });
+    }
+  });
+
+  /**
+   * POST /api/channels/:id/ingest-secret
+   * Enables inbound ingestion for a channel, or rotates its secret; the old
+   * secret stops working immediately
+   * Returns: { secret } (only shown here; channel listings never include it)
+   * Used by: Manage page channels tab (inbound ingestion)
+   */
+  app.post("/api/channels/:id/ingest-secret", requireRole("admin"), async (req, res) => {
+    try {
+      const secret = generateIngestSecret();
+      const result = await storage.updateChannel(req.params.id, { ingestSecret: secret });
+      const updated = result.nameTaken ? undefined : result.channel; // No rename, so never taken
+      if (!updated) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      publishLiveEvent("channel.updated", updated.id);
+      res.json({ secret });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to generate ingest secret" });
+    }
+  });
+
+  /**
+   * DELETE /api/channels/:id/ingest-secret
+   * Disables inbound ingestion for a channel
+   * Used by: Manage page channels tab (inbound ingestion)
+   */
+  app.delete("/api/channels/:id/ingest-secret", requireRole("admin"), async (req, res) => {
+    try {
+      const result = await storage.updateChannel(req.params.id, { ingestSecret: null });
+      const updated = result.nameTaken ? undefined : result.channel; // No rename, so never taken
+      if (!updated) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      publishLiveEvent("channel.updated", updated.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to disable ingestion" });
+    }
+  });
+
+  /**
+   * POST /api/ingest/:channelId
+   * Receives feedback pushed by an external tool (no session; see ingest.ts)
+   * Headers:
+   *   - X-Sentiment360-Timestamp, X-Sentiment360-Signature: Request signature
+   *   - Idempotency-Key: Sender's delivery id (or send it as the payload's id)
+   * Request body (application/json): { id?, text, region, sentiment?, timestamp? }
+   * Returns: 201 with the stored feedback entry; 401 for a bad signature,
+   *   403 for inactive channels, 409 with the original feedbackId for duplicates
+   * Used by: Email and live chat integrations
+   */
+  app.post("/api/ingest/:channelId", async (req, res) => {
+    if (!req.is("application/json") || !Buffer.isBuffer(req.rawBody)) {
+      return res.status(415).json({ error: "Send the payload as application/json" });
+    }
+
+    try {
+      const channel = await storage.getChannel(req.params.channelId);
+      if (!channel || !channel.ingestSecret) {
+        return res.status(404).json({ error: "Channel not found or ingestion not enabled" });
+      }
+      const signed = verifyIngestSignature(
+        channel.ingestSecret,
+        req.get("X-Sentiment360-Timestamp"),
+        req.get("X-Sentiment360-Signature"),
+        req.rawBody,
+      );
+      if (!signed) {
+        return res.status(401).json({ error: "Invalid or expired signature" });
+      }
+      if (channel.status !== "active") {
+        return res.status(403).json({ error: "Channel is inactive" });
+      }
+
+      const validation = ingestFeedbackSchema.safeParse(req.body);
+      if (!validation.success) {
+        const issue = validation.error.issues[0];
+        return res.status(400).json({ error: issue ? `${issue.path.join(".") || "body"}: ${issue.message}` : "Invalid payload" });
+      }
+      const idempotencyKey = req.get("Idempotency-Key")?.trim() || validation.data.id;
+      if (!idempotencyKey || idempotencyKey.length > 200) {
+        return res.status(400).json({ error: "An Idempotency-Key header or payload id (up to 200 characters) is required" });
+      }
+
+      const result = await storage.ingestFeedback(
+        channel.id,
+        idempotencyKey,
+        normalizeIngestPayload(validation.data, channel),
+      );
+      if (result.duplicate) {
+        return res.status(409).json({ error: "Duplicate delivery", feedbackId: result.feedbackId });
+      }
+
+      publishLiveEvent("feedback.created", result.feedback.id);
+      notifyNegativeFeedback(result.feedback);
+      res.status(201).json(result.feedback); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to ingest feedback" });
+    }
+  });
+
+  // ============================================================================
+  // User Management Endpoints (admin only)
+  // ============================================================================
+
+  /**
+   * GET /api/users
+   * Lists all accounts (without password hashes)
+   * Used by: Users admin page
+   */
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const data = await storage.getUsers();
+      res.json(data.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  /**
+   * POST /api/users
+   * Creates an account
+   * Request body: { username, password, role }
+   * Used by: Users admin page
+   */
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    const parsed = createUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Username needs 3+ characters and password 8+ characters" });
+    }
+
+    try {
+      const newUser = await storage.createUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: parsed.data.role,
+      });
+      if (!newUser) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+      publishLiveEvent("user.created", newUser.id);
+      res.status(201).json(toPublicUser(newUser)); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  /**
+   * PATCH /api/users/:id/role
+   * Assigns a role to an account
+   * The last remaining admin cannot be demoted, so the app can't lock itself out
+   * Request body: { role }
+   * Used by: Users admin page
+   */
+  app.patch("/api/users/:id/role", requireRole("admin"), async (req, res) => {
+    const parsed = updateUserRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid role" });
+    }
+
+    try {
+      const result = await storage.updateUserRole(req.params.id, parsed.data.role);
+      if (result.lastAdmin) {
+        return res.status(409).json({ error: "At least one admin is required" });
+      }
+      if (!result.user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      publishLiveEvent("user.updated", result.user.id);
+      res.json(toPublicUser(result.user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  // ============================================================================
+  // Audit Log Endpoints (admin only)
+  // Every create, update and delete made through storage is recorded with
+  // the acting user and the request's X-Request-Id
+  // ============================================================================
+
+  /**
+   * GET /api/audit
+   * Pages through the audit log, newest first
+   * Query params:
+   *   - entityType: user | feedback | priority_item | ai_insight | impact_metric | usage_metric | channel |
+   *     alert_rule | alert | webhook
+   *   - entityId: Id of the changed record
+   *   - action: create | update | delete | restore | purge
+   *   - actor: Username of the acting user
+   *   - requestId: X-Request-Id of the request that made the change
+   *   - from, to: Time range (ISO dates, to is exclusive)
+   *   - cursor: nextCursor from the previous page
+   *   - limit: Page size (default: 50, max: 200)
+   * Returns: { items, nextCursor }
+   * Used by: Audit page
+   */
+  app.get("/api/audit", requireRole("admin"), async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid audit query" });
+    }
+
+    try {
+      const data = await storage.getAuditEvents(parsed.data);
+      res.json(data);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      res.status(500).json({ error: "Failed to fetch audit events" });
+    }
+  });
+
+  // ============================================================================
+  // Trash Endpoints
+  // Deleted feedback and priority items stay in the trash until restored,
+  // purged by an admin, or purged automatically after the retention period
+  // ============================================================================
+
+  /**
+   * GET /api/trash
+   * Lists trashed feedback and priority items
+   * Returns: { retentionDays, feedback, priorityItems }
+   * Used by: Manage page trash tab
+   */
+  app.get("/api/trash", requireRole("analyst"), async (_req, res) => {
+    try {
+      const trash = await storage.getTrash();
+      const response: TrashContents = { retentionDays: getTrashRetentionDays(), ...trash };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  /**
+   * POST /api/trash/feedback/:id/restore
+   * Restores a trashed feedback entry
+   * Used by: Manage page trash tab
+   */
+  app.post("/api/trash/feedback/:id/restore", requireRole("analyst"), async (req, res) => {
+    try {
+      const restored = await storage.restoreFeedback(req.params.id);
+      if (!restored) {
+        return res.status(404).json({ error: "Feedback not found in trash" });
+      }
+      publishLiveEvent("feedback.restored", restored.id);
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore feedback" });
+    }
+  });
+
+  /**
+   * DELETE /api/trash/feedback/:id
+   * Permanently deletes a trashed feedback entry
+   * Used by: Manage page trash tab
+   */
+  app.delete("/api/trash/feedback/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const purged = await storage.purgeFeedback(req.params.id);
+      if (!purged) {
+        return res.status(404).json({ error: "Feedback not found in trash" });
+      }
+      publishLiveEvent("feedback.purged", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to purge feedback" });
+    }
+  });
+
+  /**
+   * POST /api/trash/priority-items/:id/restore
+   * Restores a trashed priority item
+   * Used by: Manage page trash tab
+   */
+  app.post("/api/trash/priority-items/:id/restore", requireRole("analyst"), async (req, res) => {
+    try {
+      const restored = await storage.restorePriorityItem(req.params.id);
+      if (!restored) {
+        return res.status(404).json({ error: "Priority item not found in trash" });
+      }
+      publishLiveEvent("priority.restored", restored.id);
+      await refreshPriorityRanks();
+      res.json((await storage.getPriorityItem(restored.id)) ?? restored);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore priority item" });
+    }
+  });
+
+  /**
+   * DELETE /api/trash/priority-items/:id
+   * Permanently deletes a trashed priority item
+   * Used by: Manage page trash tab
+   */
+  app.delete("/api/trash/priority-items/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const purged = await storage.purgePriorityItem(req.params.id);
+      if (!purged) {
+        return res.status(404).json({ error: "Priority item not found in trash" });
+      }
+      publishLiveEvent("priority.purged", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to purge priority item" });
+    }
+  });
+
+  // ============================================================================
+  // Alert Endpoints (analyst)
+  // Rules are evaluated on a schedule (see alerts.ts); alerts open when a
+  // rule's condition is met and resolve when it clears
+  // ============================================================================
+
+  // Resolved alerts listed in the inbox
+  const RESOLVED_ALERTS_LIMIT = 100;
+
+  /**
+   * GET /api/alert-rules
+   * Lists alert rules with their last evaluated value
+   * Used by: Alerts page rules section
+   */
+  app.get("/api/alert-rules", requireRole("analyst"), async (_req, res) => {
+    try {
+      const data = await storage.getAlertRules();
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alert rules" });
+    }
+  });
+
+  /**
+   * POST /api/alert-rules
+   * Creates an alert rule
+   * Request body: { name, metric, comparator, threshold, windowHours?, baselineDays?,
+   *   source?, region?, minVolume?, enabled? }
+   * Used by: Alerts page new rule form
+   */
+  app.post("/api/alert-rules", requireRole("analyst"), async (req, res) => {
+    const validation = insertAlertRuleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.issues[0]?.message ?? "Invalid alert rule" });
+    }
+
+    try {
+      const newRule = await storage.createAlertRule(validation.data);
+      publishLiveEvent("alert_rule.created", newRule.id);
+      res.status(201).json(newRule); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create alert rule" });
+    }
+  });
+
+  /**
+   * PATCH /api/alert-rules/:id
+   * Updates an alert rule; only the fields present in the body change
+   * The resulting rule must still be valid (e.g., threshold within the metric's range)
+   * Request body: any of the POST fields
+   * Used by: Alerts page rules section (edit dialog, enable switch)
+   */
+  app.patch("/api/alert-rules/:id", requireRole("analyst"), async (req, res) => {
+    const validation = updateAlertRuleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid alert rule data" });
+    }
+
+    try {
+      const existing = await storage.getAlertRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      const merged = insertAlertRuleSchema.safeParse({ ...existing, ...validation.data });
+      if (!merged.success) {
+        return res.status(400).json({ error: merged.error.issues[0]?.message ?? "Invalid alert rule data" });
+      }
+
+      const updated = await storage.updateAlertRule(req.params.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      publishLiveEvent("alert_rule.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update alert rule" });
+    }
+  });
+
+  /**
+   * DELETE /api/alert-rules/:id
+   * Deletes an alert rule and its alerts
+   * Used by: Alerts page rules section
+   */
+  app.delete("/api/alert-rules/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      publishLiveEvent("alert_rule.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
+
+  /**
+   * GET /api/alerts
+   * Lists firing alerts and the most recently resolved ones, newest first,
+   * each with its rule
+   * Used by: Alerts page inbox
+   */
+  app.get("/api/alerts", requireRole("analyst"), async (_req, res) => {
+    try {
+      const data = await storage.getAlerts(RESOLVED_ALERTS_LIMIT);
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/evaluate
+   * Evaluates every enabled rule now instead of waiting for the schedule
+   * Used by: Alerts page "Evaluate now" button
+   */
+  app.post("/api/alerts/evaluate", requireRole("analyst"), async (_req, res) => {
+    try {
+      await evaluateAlertRules();
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to evaluate alert rules" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/:id/acknowledge
+   * Marks an alert as acknowledged by the signed-in user
+   * Used by: Alerts page inbox
+   */
+  app.post("/api/alerts/:id/acknowledge", requireRole("analyst"), async (req, res) => {
+    try {
+      const updated = await storage.acknowledgeAlert(req.params.id, req.user?.id ?? null);
+      if (!updated) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      publishLiveEvent("alert.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to acknowledge alert" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/:id/snooze
+   * Hides an alert from the inbox for a number of hours
+   * Request body: { hours } (1-168)
+   * Used by: Alerts page inbox
+   */
+  app.post("/api/alerts/:id/snooze", requireRole("analyst"), async (req, res) => {
+    const validation = snoozeAlertSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "hours must be a whole number from 1 to 168" });
+    }
+
+    try {
+      const until = new Date(Date.now() + validation.data.hours * 60 * 60 * 1000);
+      const updated = await storage.snoozeAlert(req.params.id, until);
+      if (!updated) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      publishLiveEvent("alert.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to snooze alert" });
+    }
+  });
+
+  // ============================================================================
+  // Webhook Endpoints (admin only)
+  // Outbound notifications to chat and incident tools (see webhooks.ts)
+  // ============================================================================
+
+  // Deliveries listed in the delivery log
+  const WEBHOOK_DELIVERY_LOG_LIMIT = 200;
+
+  /**
+   * GET /api/webhooks
+   * Lists webhooks with their signing secrets
+   * Used by: Webhooks page
+   */
+  app.get("/api/webhooks", requireRole("admin"), async (_req, res) => {
+    try {
+      const data = await storage.getWebhooks();
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * Creates a webhook with a newly generated signing secret
+   * Request body: { name, url, events, enabled? }
+   * Used by: Webhooks page new webhook form
+   */
+  app.post("/api/webhooks", requireRole("admin"), async (req, res) => {
+    const validation = insertWebhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.issues[0]?.message ?? "Invalid webhook" });
+    }
+
+    try {
+      const newWebhook = await storage.createWebhook({ ...validation.data, secret: generateWebhookSecret() });
+      publishLiveEvent("webhook.created", newWebhook.id);
+      res.status(201).json(newWebhook); // 201 Created
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  /**
+   * PATCH /api/webhooks/:id
+   * Updates a webhook; only the fields present in the body change
+   * Request body: any of the POST fields
+   * Used by: Webhooks page (enable switch, event toggles)
+   */
+  app.patch("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
+    const validation = updateWebhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.issues[0]?.message ?? "Invalid webhook data" });
+    }
+
+    try {
+      const updated = await storage.updateWebhook(req.params.id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      publishLiveEvent("webhook.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Deletes a webhook and its delivery log
+   * Used by: Webhooks page
+   */
+  app.delete("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWebhook(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      publishLiveEvent("webhook.deleted", req.params.id);
+      res.sendStatus(204); // 204 No Content
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret
+   * Replaces the signing secret; the old one stops working immediately
+   * Used by: Webhooks page
+   */
+  app.post("/api/webhooks/:id/rotate-secret", requireRole("admin"), async (req, res) => {
+    try {
+      const updated = await storage.updateWebhook(req.params.id, { secret: generateWebhookSecret() });
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      publishLiveEvent("webhook.updated", updated.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Queues a "webhook.test" delivery, whatever the webhook subscribes to
+   * Returns: 202 with the queued delivery (its outcome shows up in the delivery log)
+   * Used by: Webhooks page "Send test" button
+   */
+  app.post("/api/webhooks/:id/test", requireRole("admin"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const payload = buildWebhookPayload("webhook.test", `Test delivery for "${webhook.name}"`, {
+        webhookId: webhook.id,
+        sentBy: req.user?.username ?? null,
+      });
+      const delivery = await storage.createWebhookDelivery(webhook.id, payload);
+      publishLiveEvent("webhook_delivery.created", delivery.id);
+      dispatchWebhookDeliveries();
+      res.status(202).json(delivery); // 202 Accepted
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send test delivery" });
+    }
+  });
+
+  /**
+   * GET /api/webhook-deliveries
+   * Fetches the delivery log, newest first
+   * Query params:
+   *   - webhookId: Only deliveries to this webhook
+   *   - status: pending, succeeded or failed
+   * Used by: Webhooks page delivery log
+   */
+  app.get("/api/webhook-deliveries", requireRole("admin"), async (req, res) => {
+    const query = webhookDeliveryQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: "Invalid delivery filters" });
+    }
+
+    try {
+      const data = await storage.getWebhookDeliveries(query.data, WEBHOOK_DELIVERY_LOG_LIMIT);
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  /**
+   * POST /api/webhook-deliveries/:id/replay
+   * Sends a delivery's payload again as a new delivery
+   * Returns: 202 with the new delivery
+   * Used by: Webhooks page delivery log
+   */
+  app.post("/api/webhook-deliveries/:id/replay", requireRole("admin"), async (req, res) => {
+    try {
+      const replay = await storage.replayWebhookDelivery(req.params.id);
+      if (!replay) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      publishLiveEvent("webhook_delivery.created", replay.id);
+      dispatchWebhookDeliveries();
+      res.status(202).json(replay); // 202 Accepted
+    } catch (error) {
+      res.status(500).json({ error: "Failed to replay delivery" });
+    }
+  });
+
+  // ============================================================================
+  // Export Endpoints
+  // Stream datasets as file downloads
+  // Query params (all endpoints):
+  //   - format: csv | excel | json (default: csv)
+  // If streaming fails after the first rows were sent, the connection is
+  // dropped so the client sees a failed download rather than a truncated file
+  // ============================================================================
+
+  const exportFormatSchema = z.object({
+    format: z.enum(exportFormats).default("csv"),
+  });
+
+  /**
+   * GET /api/export/feedback
+   * Exports all feedback matching the explorer filters
+   * Query params: q, sentiment, source, region, from, to, sort, order
+   * (same meaning as GET /api/feedback/search)
+   * Used by: Feedback explorer export button
+   */
+  app.get("/api/export/feedback", requireRole("analyst"), async (req, res) => {
+    const parsed = feedbackExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export query" });
+    }
+
+    try {
+      await sendExport(res, {
+        filename: "feedback",
+        format: parsed.data.format,
+        columns: feedbackExportColumns,
+        rows: storage.streamFeedback(parsed.data),
+      });
+    } catch (error) {
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: "Failed to export feedback" });
+    }
+  });
+
+  /**
+   * GET /api/export/regional-sentiment
+   * Exports sentiment scores by region
+   * Query params: days (same meaning as GET /api/regional-sentiment)
+   * Used by: Dashboard regional sentiment chart export button
+   */
+  app.get("/api/export/regional-sentiment", async (req, res) => {
+    const parsed = exportFormatSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export format" });
+    }
+    const days = parseRegionalWindow(req.query.days);
+    if (days === null) {
+      return res.status(400).json({ error: `days must be one of ${regionalSentimentWindows.join(", ")}` });
+    }
+
+    try {
+      await sendExport(res, {
+        filename: `regional-sentiment-${days}d`,
+        format: parsed.data.format,
+        columns: regionalSentimentExportColumns,
+        rows: await storage.getRegionalSentiment(days),
+      });
+    } catch (error) {
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: "Failed to export regional sentiment" });
+    }
+  });
+
+  /**
+   * GET /api/export/sentiment-trends
+   * Exports sentiment trend data
+   * Query params: period, days, tz (same meaning as GET /api/sentiment-trends)
+   * Used by: Dashboard sentiment trend chart export button
+   */
+  app.get("/api/export/sentiment-trends", async (req, res) => {
+    const parsed = exportFormatSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export format" });
+    }
+
+    try {
+      if (req.query.period === "daily") {
+        const days = req.query.days ? parseInt(req.query.days as string) : 30;
+        const timeZone = req.query.tz ? (req.query.tz as string) : "UTC";
+
+        if (!Number.isInteger(days) || days < 1 || days > 365) {
+          return res.status(400).json({ error: "days must be an integer between 1 and 365" });
+        }
+        if (!isValidTimeZone(timeZone)) {
+          return res.status(400).json({ error: "Unknown time zone" });
+        }
+
+        await sendExport(res, {
+          filename: `sentiment-trends-${days}d`,
+          format: parsed.data.format,
+          columns: dailySentimentTrendExportColumns,
+          rows: await storage.getDailySentimentTrends(days, timeZone),
+        });
+      } else {
+        await sendExport(res, {
+          filename: "sentiment-trends",
+          format: parsed.data.format,
+          columns: sentimentTrendExportColumns,
+          rows: await storage.getSentimentTrends(),
+        });
+      }
+    } catch (error) {
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: "Failed to export sentiment trends" });
+    }
+  });
+
+  /**
+   * GET /api/export/priority-items
+   * Exports priority items in rank order
+   * Used by: Prioritization page priority list export button
+   */
+  app.get("/api/export/priority-items", async (req, res) => {
+    const parsed = exportFormatSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export format" });
+    }
+
+    try {
+      await sendExport(res, {
+        filename: "priority-items",
+        format: parsed.data.format,
+        columns: priorityItemExportColumns,
+        rows: (await storage.getPriorityItems()).sort((a, b) => a.rank - b.rank),
+      });
+    } catch (error) {
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: "Failed to export priority items" });
+    }
+  });
+
+  /**
+   * GET /api/export/impact-metrics
+   * Exports before/after impact metrics
+   * Used by: Impact Tracker page export button
+   */
+  app.get("/api/export/impact-metrics", async (req, res) => {
+    const parsed = exportFormatSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export format" });
+    }
+
+    try {
+      await sendExport(res, {
+        filename: "impact-metrics",
+        format: parsed.data.format,
+        columns: impactMetricExportColumns,
+        rows: await storage.getImpactMetrics(),
+      });
+    } catch (error) {
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: "Failed to export impact metrics" });
+    }
+  });
+
+  // ============================================================================
+  // Dashboard Summary Stats
+  // ============================================================================
+  
+  /**
+   * Percent Change
+   * Relative change from the previous to the current window, rounded to a whole percent
+   * @returns null when either window has no data (or the previous value is 0)
+   */
+  const percentChange = (current: number | null, previous: number | null): number | null => {
+    if (current === null || previous === null || previous === 0) return null;
+    return Math.round(((current - previous) / previous) * 100);
+  };
+
+  // Format large numbers with K suffix
+  const formatCount = (value: number) =>
+    value > 1000 ? `${(value / 1000).toFixed(1)}K` : Math.round(value).toString();
+
+  /**
+   * GET /api/dashboard-stats
+   * Calculates the dashboard KPIs for a time window
+   * Query params:
+   *   - window: Window length such as "7d" or "30d" (default: "30d", max: "365d")
+   * Returns: DashboardStats {
+   *   avgSentiment: Average feedback sentiment score in the window
+   *   totalFeedback: Feedback received in the window
+   *   responseRate: Share of that feedback the team has responded to
+   *   activeUsers: Average daily active users from weekly usage metrics
+   *   ...change percentages against the previous window of the same length
+   *      (null when the previous window has no data)
+   * }
+   * Used by: Dashboard page for metric cards
+   */
+  app.get("/api/dashboard-stats", async (req, res) => {
+    const parsed = dashboardStatsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid window" });
+    }
+
+    try {
+      const days = parsed.data.window;
+      const { current, previous } = await storage.getDashboardPeriodStats(days);
+
+      // Response rate is only defined for windows that received feedback
+      const responseRate = (period: DashboardPeriodStats) =>
+        period.feedbackCount > 0 ? (period.respondedCount / period.feedbackCount) * 100 : null;
+      const currentResponseRate = responseRate(current);
+
+      const stats: DashboardStats = {
+        windowDays: days,
+        avgSentiment: current.avgSentiment !== null ? current.avgSentiment.toFixed(1) : "n/a",
+        totalFeedback: formatCount(current.feedbackCount),
+        responseRate: currentResponseRate !== null ? `${Math.round(currentResponseRate)}%` : "n/a",
+        activeUsers: current.activeUsers !== null ? formatCount(current.activeUsers) : "n/a",
+        sentimentChange: percentChange(current.avgSentiment, previous.avgSentiment),
+        feedbackChange: percentChange(current.feedbackCount, previous.feedbackCount),
+        responseRateChange: percentChange(currentResponseRate, responseRate(previous)),
+        activeUsersChange: percentChange(current.activeUsers, previous.activeUsers),
+      };
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch dashboard stats" });
+    }
+  });
+
+  // Create and return HTTP server
+  const httpServer = createServer(app);
+
+  // Change events for open pages, on the same port as the API (see live.ts)
+  setupLiveUpdates(httpServer, loadSessionUser);
+
   return httpServer;
 }
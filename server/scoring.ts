@@ -0,0 +1,114 @@
+/**
+ * Priority Scoring
+ *
+ * Scores priority items with the workspace's scoring model (see scoringModels):
+ * - RICE: Reach × Impact × Confidence ÷ Effort, each factor raised to its
+ *   weight, so a weight of 2 makes a factor count twice as much on a log scale
+ *   and 0 leaves it out
+ * - WSJF: Cost of delay ÷ job size, where the cost of delay is the weighted
+ *   sum of business value, time criticality and risk reduction and the job
+ *   size is the item's effort
+ *
+ * With the demand boost on, RICE impact is raised by the customer demand
+ * behind the item (its linked feedback and topics, see CustomerDemand), up to
+ * MAX_DEMAND_BOOST points and never past 10.
+ *
+ * While auto-rank is on, items are ranked by score, highest first (ties keep
+ * their previous order; see refreshPriorityScores in storage.ts).
+ */
+
+import type {
+  CustomerDemand,
+  PriorityItem,
+  ScoreBreakdown,
+  ScoreFactor,
+  ScoringModel,
+  ScoringSettings,
+} from "@shared/schema";
+
+// Item fields a score depends on
+type ScoredFields = Pick<
+  PriorityItem,
+  "reach" | "impact" | "confidence" | "effort" | "businessValue" | "timeCriticality" | "riskReduction"
+>;
+
+// Largest number of impact points customer demand can add
+const MAX_DEMAND_BOOST = 3;
+
+/**
+ * Round Score
+ * @returns The score with two decimals
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Demand Boost
+ * Impact points added for customer demand; grows with the log of the entries
+ * behind the item and with their negative share (100 entries, half of them
+ * negative, add 2 points)
+ */
+export function demandBoost(demand: CustomerDemand): number {
+  const boost = Math.log10(1 + demand.feedbackCount) * (0.5 + demand.negativeShare);
+  return roundScore(Math.min(MAX_DEMAND_BOOST, boost));
+}
+
+/**
+ * Score Priority Item
+ * @param item - Item to score
+ * @param settings - Workspace scoring model and weights
+ * @param demand - Customer demand behind the item (only used with the demand boost on)
+ * @returns The score with the factors it was computed from
+ */
+export function scorePriorityItem(
+  item: ScoredFields,
+  settings: ScoringSettings,
+  demand?: CustomerDemand,
+): ScoreBreakdown {
+  const model = settings.model as ScoringModel;
+  const effort = Math.max(item.effort, 1); // Effort is at least 1, so it can be divided by
+
+  if (model === "wsjf") {
+    const weights = settings.wsjfWeights;
+    const factors: ScoreFactor[] = [
+      { key: "businessValue", label: "Business value", value: item.businessValue, weight: weights.businessValue },
+      { key: "timeCriticality", label: "Time criticality", value: item.timeCriticality, weight: weights.timeCriticality },
+      { key: "riskReduction", label: "Risk reduction", value: item.riskReduction, weight: weights.riskReduction },
+      { key: "effort", label: "Job size (effort)", value: item.effort, weight: 1 },
+    ];
+    const costOfDelay =
+      weights.businessValue * item.businessValue +
+      weights.timeCriticality * item.timeCriticality +
+      weights.riskReduction * item.riskReduction;
+    return {
+      model,
+      formula:
+        `(${weights.businessValue} × Business value + ${weights.timeCriticality} × Time criticality + ` +
+        `${weights.riskReduction} × Risk reduction) ÷ Job size`,
+      factors,
+      score: roundScore(costOfDelay / effort),
+    };
+  }
+
+  const weights = settings.riceWeights;
+  const boost = settings.demandBoost && demand ? demandBoost(demand) : 0;
+  const impact = roundScore(Math.min(10, item.impact + boost));
+  const factors: ScoreFactor[] = [
+    { key: "reach", label: "Reach", value: item.reach, weight: weights.reach },
+    { key: "impact", label: boost > 0 ? `Impact (${item.impact} + ${boost} demand)` : "Impact", value: impact, weight: weights.impact },
+    { key: "confidence", label: "Confidence (%)", value: item.confidence, weight: weights.confidence },
+    { key: "effort", label: "Effort", value: item.effort, weight: weights.effort },
+  ];
+  const score =
+    (Math.pow(item.reach, weights.reach) *
+      Math.pow(impact, weights.impact) *
+      Math.pow(item.confidence / 100, weights.confidence)) /
+    Math.pow(effort, weights.effort);
+  return {
+    model: "rice",
+    formula: "Reach × Impact × Confidence ÷ Effort",
+    factors,
+    score: roundScore(score),
+  };
+}
@@ -11,13 +11,17 @@ import { db } from "./db";
 import {
   regionalSentiment,
   feedback,
+  feedbackTopics,
   sentimentTrends,
   priorityItems,
+  priorityItemTopics,
   aiInsights,
   impactMetrics,
   usageMetrics,
   channels,
 } from "@shared/schema";
+import { extractTopics } from "./topics";
+import { storage } from "./storage";
 
 /**
  * Main Seed Function
@@ -36,22 +40,10 @@ async function seed() {
   await db.delete(aiInsights);
   await db.delete(priorityItems);
   await db.delete(sentimentTrends);
+  await db.delete(feedbackTopics);
   await db.delete(feedback);
   await db.delete(regionalSentiment);
 
-  // ============================================================================
-  // Seed Regional Sentiment Data
-  // Sample sentiment scores for all 5 major U.S. regions
-  // Scores range from 0-10 (higher is better)
-  // ============================================================================
-  await db.insert(regionalSentiment).values([
-    { region: "Northeast", sentimentScore: "8.2" }, // Highest satisfaction
-    { region: "Southeast", sentimentScore: "7.5" },
-    { region: "Midwest", sentimentScore: "7.9" },
-    { region: "Southwest", sentimentScore: "6.8" }, // Lowest - needs attention
-    { region: "West", sentimentScore: "8.5" }, // Best performing region
-  ]);
-
   // ============================================================================
   // Seed Customer Feedback
   // Sample feedback from various channels demonstrating different sentiment types
@@ -59,12 +51,13 @@ async function seed() {
   // TODO: Replace with real Instagram API data
   // TODO: Replace with real Facebook API data
   // ============================================================================
-  await db.insert(feedback).values([
+  const seededFeedback = await db.insert(feedback).values([
     {
       text: "Amazing customer service! The support team resolved my issue within minutes. Highly recommend!",
       sentiment: "positive",
       source: "Twitter", // TODO: Connect to Twitter API
       region: "West",
+      respondedAt: new Date(), // Team has already replied
     },
     {
       text: "The new update is confusing. Hard to find features I used to use daily. Please improve navigation.",
@@ -83,6 +76,7 @@ async function seed() {
       sentiment: "positive",
       source: "Email",
       region: "Midwest",
+      respondedAt: new Date(), // Team has already replied
     },
     {
       text: "The mobile app needs work. Too many bugs and crashes frequently.",
@@ -90,7 +84,30 @@ async function seed() {
       source: "Live Chat",
       region: "Southwest",
     },
-  ]);
+  ]).returning();
+
+  // ============================================================================
+  // Seed Feedback Topics
+  // Tag the sample feedback with the aspects it mentions (navigation, payments, ...)
+  // ============================================================================
+  const seededTopics = seededFeedback.flatMap((entry) =>
+    extractTopics(entry.text).map((topic) => ({
+      feedbackId: entry.id,
+      topic: topic.topic,
+      sentiment: topic.sentiment,
+      sentimentScore: topic.sentimentScore.toFixed(1),
+      matchedTerms: topic.matchedTerms,
+    })),
+  );
+  if (seededTopics.length > 0) {
+    await db.insert(feedbackTopics).values(seededTopics);
+  }
+
+  // ============================================================================
+  // Build Regional Sentiment Cache
+  // Regional scores are aggregated from the feedback seeded above
+  // ============================================================================
+  await storage.refreshRegionalSentiment();
 
   // ============================================================================
   // Seed Sentiment Trends
@@ -113,9 +130,10 @@ async function seed() {
   // ============================================================================
   // Seed Priority Items
   // Projects for the impact vs effort prioritization matrix
-  // Impact and Effort are rated 1-10
+  // Impact and Effort are rated 1-10; reach and confidence feed the RICE score,
+  // business value, time criticality and risk reduction the WSJF score
   // ============================================================================
-  await db.insert(priorityItems).values([
+  const seededItems = await db.insert(priorityItems).values([
     {
       title: "Mobile App UX Improvements",
       description: "Simplify navigation and add search functionality",
@@ -123,6 +141,11 @@ async function seed() {
       effort: 3, // Low effort - Quick win!
       category: "Product",
       rank: 1, // Top priority
+      reach: 4200, // Customers affected per quarter
+      confidence: 80,
+      businessValue: 8,
+      timeCriticality: 6,
+      riskReduction: 4,
     },
     {
       title: "Customer Support Response Time",
@@ -131,6 +154,11 @@ async function seed() {
       effort: 6, // Medium effort
       category: "Support",
       rank: 2,
+      reach: 6500,
+      confidence: 90,
+      businessValue: 8,
+      timeCriticality: 7,
+      riskReduction: 6,
     },
     {
       title: "Bug Fixes - Payment Flow",
@@ -139,6 +167,11 @@ async function seed() {
       effort: 4, // Low-medium effort
       category: "Engineering",
       rank: 3,
+      reach: 1800,
+      confidence: 100,
+      businessValue: 9,
+      timeCriticality: 9,
+      riskReduction: 8,
     },
     {
       title: "Premium Feature Launch",
@@ -147,6 +180,11 @@ async function seed() {
       effort: 8, // High effort - Major project
       category: "Product",
       rank: 4,
+      reach: 350,
+      confidence: 50,
+      businessValue: 8,
+      timeCriticality: 4,
+      riskReduction: 3,
     },
     {
       title: "Documentation Updates",
@@ -155,13 +193,33 @@ async function seed() {
       effort: 2, // Very low effort
       category: "Content",
       rank: 5,
+      reach: 900,
+      confidence: 80,
+      businessValue: 3,
+      timeCriticality: 2,
+      riskReduction: 2,
     },
-  ]);
+  ]).returning();
+
+  // Topics each item addresses; recent feedback on them counts as customer demand
+  const itemTopics: Record<string, string[]> = {
+    "Mobile App UX Improvements": ["mobile_app", "navigation", "usability"],
+    "Customer Support Response Time": ["support_speed"],
+    "Bug Fixes - Payment Flow": ["payments", "stability"],
+    "Premium Feature Launch": ["features"],
+  };
+  await db.insert(priorityItemTopics).values(
+    seededItems.flatMap((item) =>
+      (itemTopics[item.title] ?? []).map((topic) => ({ priorityItemId: item.id, topic })),
+    ),
+  );
+
+  // Score the items and rank them by score (auto-rank is on by default)
+  await storage.refreshPriorityScores();
 
   // ============================================================================
   // Seed AI Insights
-  // Data-driven recommendations based on feedback analysis
-  // TODO: Replace with actual OpenAI API integration for dynamic insights
+  // Hand-written examples; generated insights come from server/insights
   // ============================================================================
   await db.insert(aiInsights).values([
     {
@@ -223,31 +281,34 @@ async function seed() {
   // Weekly user engagement and satisfaction tracking
   // Shows steady growth over 8 weeks
   // ============================================================================
+  // Week 8 starts on today's date; earlier weeks step back 7 days at a time
+  const weekStart = (weeksAgo: number) =>
+    new Date(Date.now() - weeksAgo * 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
   await db.insert(usageMetrics).values([
-    { week: "Week 1", dailyActiveUsers: 1200, satisfactionScore: "7.2" },
-    { week: "Week 2", dailyActiveUsers: 1450, satisfactionScore: "7.4" },
-    { week: "Week 3", dailyActiveUsers: 1680, satisfactionScore: "7.6" },
-    { week: "Week 4", dailyActiveUsers: 1820, satisfactionScore: "7.8" },
-    { week: "Week 5", dailyActiveUsers: 2100, satisfactionScore: "8.0" },
-    { week: "Week 6", dailyActiveUsers: 2350, satisfactionScore: "8.2" },
-    { week: "Week 7", dailyActiveUsers: 2580, satisfactionScore: "8.3" },
-    { week: "Week 8", dailyActiveUsers: 2820, satisfactionScore: "8.5" }, // Current week
+    { week: "Week 1", weekStart: weekStart(7), dailyActiveUsers: 1200, satisfactionScore: "7.2" },
+    { week: "Week 2", weekStart: weekStart(6), dailyActiveUsers: 1450, satisfactionScore: "7.4" },
+    { week: "Week 3", weekStart: weekStart(5), dailyActiveUsers: 1680, satisfactionScore: "7.6" },
+    { week: "Week 4", weekStart: weekStart(4), dailyActiveUsers: 1820, satisfactionScore: "7.8" },
+    { week: "Week 5", weekStart: weekStart(3), dailyActiveUsers: 2100, satisfactionScore: "8.0" },
+    { week: "Week 6", weekStart: weekStart(2), dailyActiveUsers: 2350, satisfactionScore: "8.2" },
+    { week: "Week 7", weekStart: weekStart(1), dailyActiveUsers: 2580, satisfactionScore: "8.3" },
+    { week: "Week 8", weekStart: weekStart(0), dailyActiveUsers: 2820, satisfactionScore: "8.5" }, // Current week
     // Shows 135% user growth and steady satisfaction improvement
   ]);
 
   // ============================================================================
   // Seed Communication Channels
   // Integrated platforms for customer feedback collection
-  // TODO: Add Twitter API integration for automatic message counting
-  // TODO: Add Facebook API integration for automatic message counting
-  // TODO: Add Instagram API integration for automatic message counting
+  // Message counts are computed from the feedback above (matched on source)
+  // TODO: Connect Twitter, Facebook and Instagram APIs through channel connectors
   // ============================================================================
   await db.insert(channels).values([
-    { name: "Twitter", status: "active", messageCount: "12.5K" }, // TODO: Connect Twitter API
-    { name: "Facebook", status: "active", messageCount: "8.3K" }, // TODO: Connect Facebook API
-    { name: "Instagram", status: "active", messageCount: "15.2K" }, // TODO: Connect Instagram API
-    { name: "Email", status: "active", messageCount: "4.1K" },
-    { name: "Live Chat", status: "active", messageCount: "2.8K" },
+    { name: "Twitter", status: "active" },
+    { name: "Facebook", status: "active" },
+    { name: "Instagram", status: "active" },
+    { name: "Email", status: "active" },
+    { name: "Live Chat", status: "active" },
   ]);
 
   console.log("✅ Database seeded successfully!");
@@ -0,0 +1,321 @@
+/**
+ * Sentiment Analysis Engine
+ *
+ * Offline, lexicon-based sentiment scoring for customer feedback text.
+ * No external services are called, so scoring works anywhere the server runs.
+ *
+ * PIPELINE:
+ * 1. Tokenize text into words, emoticons and emoji
+ * 2. Look up each token (or multi-word phrase) in a weighted lexicon
+ * 3. Adjust weights for intensifiers ("very"), dampeners ("slightly"),
+ *    negation ("not", "don't") and contrast ("..., but ...")
+ * 4. Normalize the summed valence onto the 0-10 sentiment scale used by
+ *    regional sentiment scores, and derive a label and a confidence
+ */
+
+import type { InsertFeedback, SentimentLabel, SubmitFeedback, UpdateFeedback } from "@shared/schema";
+
+/**
+ * Sentiment Analysis Result
+ */
+export interface SentimentAnalysis {
+  score: number; // Sentiment score 0.0-10.0 (5.0 is neutral)
+  label: SentimentLabel; // positive, neutral or negative
+  confidence: number; // 0.00-1.00, grows with the amount and agreement of evidence
+}
+
+// ============================================================================
+// Lexicon
+// Valence weights range from -4 (very negative) to +4 (very positive)
+// Multi-word phrases take precedence over their individual words
+// ============================================================================
+
+const LEXICON: Record<string, number> = {
+  // Positive
+  amazing: 3.5, awesome: 3.5, excellent: 3.5, fantastic: 3.5, outstanding: 3.5,
+  perfect: 3.5, superb: 3.5, wonderful: 3.5, brilliant: 3, incredible: 3,
+  love: 3, loved: 3, loving: 3, loves: 3, great: 3, delighted: 3,
+  best: 3, impressed: 2.5, impressive: 2.5, happy: 2.5, glad: 2, pleased: 2,
+  good: 2, nice: 2, helpful: 2, friendly: 2, easy: 2, intuitive: 2,
+  fast: 1.5, quick: 1.5, quickly: 1.5, smooth: 2, reliable: 2, recommend: 2,
+  thanks: 1.5, thank: 1.5, appreciate: 2, appreciated: 2, enjoy: 2, enjoyed: 2,
+  improved: 2, improvement: 1.5, better: 1.5, resolved: 1.5, solved: 1.5,
+  fixed: 1.5, works: 1, working: 0.5, like: 1, liked: 1.5, satisfied: 2,
+  responsive: 1.5, clean: 1, simple: 1, convenient: 2, useful: 2, valuable: 2,
+  okay: 0.5, ok: 0.5, fine: 0.5, fair: 1, affordable: 1.5, polite: 1.5, professional: 1.5, seamless: 2.5,
+  "highly recommend": 3.5, "well done": 3, "keep up": 1.5, "on time": 1.5,
+  "within minutes": 2,
+
+  // Negative
+  terrible: -3.5, horrible: -3.5, awful: -3.5, worst: -3.5, hate: -3.5,
+  hated: -3.5, disgusting: -3.5, unacceptable: -3.5, useless: -3, scam: -3.5,
+  bad: -2.5, poor: -2.5, broken: -2.5, crash: -2.5, crashes: -2.5,
+  crashed: -2.5, crashing: -2.5, bug: -2, bugs: -2, buggy: -2.5, error: -2,
+  errors: -2, fail: -2.5, fails: -2.5, failed: -2.5, failing: -2.5, failure: -2.5,
+  disappointed: -2.5, disappointing: -2.5, frustrated: -2.5, frustrating: -2.5,
+  annoying: -2, annoyed: -2, angry: -3, upset: -2.5, rude: -3, unhelpful: -2.5,
+  confusing: -2, confused: -1.5, complicated: -1.5, difficult: -1.5, hard: -1,
+  slow: -2, slowly: -1.5, late: -1.5, delay: -1.5, delayed: -2, waiting: -1,
+  expensive: -1.5, overpriced: -2.5, problem: -1.5, problems: -1.5, issue: -1.5,
+  issues: -1.5, complaint: -2, complain: -2, refund: -1, cancel: -1.5,
+  cancelled: -1.5, lost: -1.5, missing: -1.5, wrong: -2, worse: -2.5, mess: -2,
+  unreliable: -2.5, laggy: -2, lag: -1.5, freeze: -2, freezes: -2, stuck: -1.5,
+  charged: -1, overcharged: -3, ignored: -2.5, "waste of time": -3,
+  "waste of money": -3.5, "not working": -2.5, "doesn't work": -2.5,
+  "does not work": -2.5, "on hold": -1.5, "needs work": -1.5, "took forever": -3,
+};
+
+// Words that scale the next sentiment-bearing token
+const INTENSIFIERS: Record<string, number> = {
+  absolutely: 1.5, completely: 1.4, extremely: 1.6, highly: 1.4, incredibly: 1.5,
+  really: 1.3, so: 1.3, super: 1.4, totally: 1.4, very: 1.3, too: 1.2,
+  most: 1.2, truly: 1.3, quite: 1.1,
+  // Dampeners
+  slightly: 0.6, somewhat: 0.7, barely: 0.5, kinda: 0.7, "kind of": 0.7,
+  "sort of": 0.7, "a bit": 0.7, "a little": 0.7, fairly: 0.8,
+};
+
+// Words that flip the polarity of the next few tokens
+const NEGATORS = new Set([
+  "not", "no", "never", "none", "nobody", "nothing", "neither", "nor",
+  "without", "hardly", "cannot", "dont", "don't", "doesnt", "doesn't",
+  "didnt", "didn't", "isnt", "isn't", "wasnt", "wasn't", "arent", "aren't",
+  "werent", "weren't", "wont", "won't", "cant", "can't", "couldnt", "couldn't",
+  "shouldnt", "shouldn't", "wouldnt", "wouldn't", "havent", "haven't",
+]);
+
+// Words that shift emphasis to the clause that follows them
+const CONTRAST_WORDS = new Set(["but", "however", "although", "though", "yet"]);
+
+// Emoji and ASCII emoticons
+const EMOJI_LEXICON: Record<string, number> = {
+  "😀": 2.5, "😃": 2.5, "😄": 2.5, "😁": 2.5, "😊": 2.5, "🙂": 1.5, "😍": 3.5,
+  "🥰": 3.5, "😎": 2, "👍": 2, "👏": 2.5, "🙌": 2.5, "🎉": 2.5, "❤️": 3,
+  "❤": 3, "💯": 3, "⭐": 2, "🔥": 2, "😂": 1.5, "🤩": 3,
+  "😐": -0.5, "😕": -1.5, "🙁": -2, "☹️": -2, "😞": -2.5, "😟": -2, "😢": -2.5,
+  "😭": -3, "😠": -3, "😡": -3.5, "🤬": -4, "👎": -2.5, "💔": -3, "😤": -2.5,
+  "🤮": -3.5, "😩": -2.5, "🙄": -2,
+  ":)": 1.5, ":-)": 1.5, ":d": 2.5, ":-d": 2.5, "<3": 3, ";)": 1,
+  ":(": -2, ":-(": -2, ":'(": -2.5, ">:(": -3, ":/": -1, ":-/": -1,
+};
+
+// Tuning constants
+const NEGATION_SCOPE = 3; // Tokens affected by a negator
+const NEGATION_FACTOR = -0.75; // "not good" is less negative than "bad"
+const CONTRAST_BEFORE = 0.5; // Weight of the clause before "but"
+const CONTRAST_AFTER = 1.5; // Weight of the clause after "but"
+const CAPS_BOOST = 1.3; // Emphasis for SHOUTED words
+const EXCLAMATION_BOOST = 0.3; // Added per "!" (max 3) in the sentiment direction
+const NORMALIZATION_ALPHA = 15; // Controls how quickly scores saturate
+const NEUTRAL_THRESHOLD = 0.1; // |compound| below this is neutral
+
+const LONGEST_PHRASE = Math.max(
+  ...[...Object.keys(LEXICON), ...Object.keys(INTENSIFIERS)].map((key) => key.split(" ").length),
+);
+
+// Emoticons (not inside words or URLs) | emoji | words with inner apostrophes
+const TOKEN_PATTERN = new RegExp(
+  [
+    "((?<![\\p{L}\\p{N}])(?:>:\\(|:'\\(|:-?[)(dD/]|;\\)|<3))",
+    "(\\p{Extended_Pictographic}\\uFE0F?)",
+    "([\\p{L}\\p{N}]+(?:['’]\\p{L}+)*)",
+  ].join("|"),
+  "gu",
+);
+const LETTER_PATTERN = new RegExp("\\p{L}", "u");
+
+export interface Token {
+  text: string; // Lowercased token used for lookups
+  shouted: boolean; // Written in ALL CAPS (words of 2+ letters only)
+}
+
+/**
+ * Tokenize Text
+ * Splits text into lowercase word, emoticon and emoji tokens
+ * @param text - Raw feedback text
+ * @returns Array of tokens in reading order
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of Array.from(text.matchAll(TOKEN_PATTERN))) {
+    const raw = match[0];
+    const isWord = match[3] !== undefined;
+    tokens.push({
+      text: raw.toLowerCase().replace(/’/g, "'"),
+      shouted: isWord && raw.length > 1 && LETTER_PATTERN.test(raw) && raw === raw.toUpperCase(),
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Match Phrase
+ * Finds the longest dictionary phrase starting at a token position
+ * @returns The matched phrase and the number of tokens it spans, or null
+ */
+function matchPhrase(
+  tokens: Token[],
+  start: number,
+  dictionary: Record<string, number>,
+): { phrase: string; length: number } | null {
+  for (let length = Math.min(LONGEST_PHRASE, tokens.length - start); length >= 1; length--) {
+    const phrase = tokens.slice(start, start + length).map((t) => t.text).join(" ");
+    if (Object.hasOwn(dictionary, phrase)) {
+      return { phrase, length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Analyze Sentiment
+ * Scores a piece of text on the 0-10 sentiment scale
+ * @param text - Feedback text to analyze
+ * @returns Score, label and confidence for the text
+ */
+export function analyzeSentiment(text: string): SentimentAnalysis {
+  const tokens = tokenize(text);
+  const valences: number[] = [];
+
+  let negationRemaining = 0; // Tokens still inside the current negation scope
+  let pendingIntensity = 1; // Multiplier from an intensifier awaiting its target
+  let contrastIndex = -1; // Index in valences where the last contrast clause began
+
+  for (let i = 0; i < tokens.length; ) {
+    const token = tokens[i];
+
+    // Contrast: everything so far gets de-emphasized later
+    if (CONTRAST_WORDS.has(token.text)) {
+      contrastIndex = valences.length;
+      negationRemaining = 0;
+      pendingIntensity = 1;
+      i++;
+      continue;
+    }
+
+    // Negators open a new negation scope
+    if (NEGATORS.has(token.text) && !matchPhrase(tokens, i, LEXICON)?.phrase.includes(" ")) {
+      negationRemaining = NEGATION_SCOPE;
+      i++;
+      continue;
+    }
+
+    // Intensifiers and dampeners apply to the next sentiment-bearing token
+    const intensifier = matchPhrase(tokens, i, INTENSIFIERS);
+    if (intensifier && !matchPhrase(tokens, i, LEXICON)) {
+      pendingIntensity *= INTENSIFIERS[intensifier.phrase];
+      i += intensifier.length;
+      continue;
+    }
+
+    // Sentiment-bearing words, phrases and emoji
+    const match = matchPhrase(tokens, i, LEXICON);
+    const weight = match
+      ? LEXICON[match.phrase]
+      : Object.hasOwn(EMOJI_LEXICON, token.text) ? EMOJI_LEXICON[token.text] : undefined;
+    const length = match ? match.length : 1;
+
+    if (weight !== undefined && weight !== 0) {
+      let valence = weight * pendingIntensity;
+      if (token.shouted) valence *= CAPS_BOOST;
+      if (negationRemaining > 0) valence *= NEGATION_FACTOR;
+      valences.push(valence);
+      pendingIntensity = 1;
+    }
+
+    negationRemaining = Math.max(0, negationRemaining - length);
+    i += length;
+  }
+
+  // Contrast weighting: the clause after "but" carries the opinion
+  if (contrastIndex > 0) {
+    for (let i = 0; i < valences.length; i++) {
+      valences[i] *= i < contrastIndex ? CONTRAST_BEFORE : CONTRAST_AFTER;
+    }
+  }
+
+  let sum = valences.reduce((total, v) => total + v, 0);
+
+  // Exclamation marks amplify whichever direction the text already leans
+  const exclamations = Math.min(3, (text.match(/!/g) || []).length);
+  if (sum !== 0) {
+    sum += Math.sign(sum) * exclamations * EXCLAMATION_BOOST;
+  }
+
+  // Normalize into (-1, 1), then onto the 0-10 scale
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+  const score = Math.round((5 + 5 * compound) * 10) / 10;
+
+  const label: SentimentLabel =
+    compound >= NEUTRAL_THRESHOLD ? "positive" : compound <= -NEUTRAL_THRESHOLD ? "negative" : "neutral";
+
+  return { score, label, confidence: getConfidence(valences) };
+}
+
+/**
+ * Get Confidence
+ * More matched terms and more agreement between them mean higher confidence
+ * @param valences - Adjusted valence of each sentiment-bearing term
+ * @returns Confidence between 0 and 1, rounded to 2 decimals
+ */
+function getConfidence(valences: number[]): number {
+  if (valences.length === 0) {
+    return 0.2; // No sentiment terms at all - "neutral" is only a guess
+  }
+
+  const net = Math.abs(valences.reduce((total, v) => total + v, 0));
+  const gross = valences.reduce((total, v) => total + Math.abs(v), 0);
+  const agreement = gross > 0 ? net / gross : 0; // 1 when all terms point the same way
+  const evidence = 1 - Math.exp(-valences.length / 2); // Saturates after a few terms
+
+  return Math.round(evidence * (0.5 + 0.5 * agreement) * 100) / 100;
+}
+
+/**
+ * Apply Sentiment Analysis
+ * Completes a feedback submission with sentiment fields
+ * When a sentiment label is supplied it is kept as-is; otherwise the text is
+ * analyzed and the detected label, score and confidence are stored
+ * @param submission - Feedback data with an optional sentiment label
+ * @returns Feedback data ready to insert
+ */
+export function applySentimentAnalysis(submission: SubmitFeedback): InsertFeedback {
+  if (submission.sentiment) {
+    return { ...submission, sentiment: submission.sentiment };
+  }
+
+  const analysis = analyzeSentiment(submission.text);
+  return {
+    ...submission,
+    sentiment: analysis.label,
+    sentimentScore: analysis.score.toFixed(1),
+    sentimentConfidence: analysis.confidence.toFixed(2),
+  };
+}
+
+/**
+ * Apply Sentiment Analysis To Changes
+ * Keeps the sentiment fields consistent when feedback is edited:
+ * - A new sentiment label replaces the analyzer's score and confidence
+ * - New text without a label is re-analyzed
+ * - Other changes leave sentiment untouched
+ * @param changes - Validated feedback update
+ * @returns Column changes ready to write
+ */
+export function applySentimentAnalysisToChanges(changes: UpdateFeedback): Partial<InsertFeedback> {
+  if (changes.sentiment) {
+    return { ...changes, sentiment: changes.sentiment, sentimentScore: null, sentimentConfidence: null };
+  }
+  if (changes.text !== undefined) {
+    const analysis = analyzeSentiment(changes.text);
+    return {
+      ...changes,
+      sentiment: analysis.label,
+      sentimentScore: analysis.score.toFixed(1),
+      sentimentConfidence: analysis.confidence.toFixed(2),
+    };
+  }
+  return changes;
+}
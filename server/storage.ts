@@ -6,63 +6,968 @@
  */
 
 import {
+  users,
   regionalSentiment,
   feedback,
+  feedbackTopics,
   sentimentTrends,
   priorityItems,
   aiInsights,
+  aiInsightEvidence,
   impactMetrics,
   usageMetrics,
   channels,
+  ingestReceipts,
   type RegionalSentiment,
   type Feedback,
   type InsertFeedback,
   type SentimentTrend,
   type PriorityItem,
   type InsertPriorityItem,
+  type UpdatePriorityItem,
+  scoringSettings,
+  priorityItemFeedback,
+  priorityItemTopics,
+  type PriorityItemTopic,
+  type PriorityItemLinks,
+  type CustomerDemand,
+  type ScoringSettings,
+  type UpdateScoringSettings,
+  DEFAULT_RICE_WEIGHTS,
+  DEFAULT_WSJF_WEIGHTS,
   type AIInsight,
+  type AIInsightSummary,
+  type InsightEvidenceInput,
+  type InsightEvidenceDetail,
+  type InsightRegionEvidence,
+  type InsightMetric,
+  type FeedbackDimension,
   type InsertAIInsight,
+  type UpdateAIInsight,
+  type UpdateInsightStatus,
+  type ProposedInsight,
   type ImpactMetric,
+  type UpdateImpactMetric,
   type UsageMetric,
+  type UpdateUsageMetric,
   type Channel,
   type InsertChannel,
+  type UpdateChannel,
+  type ChannelStats,
+  alertRules,
+  alerts,
+  type AlertRule,
+  type InsertAlertRule,
+  type UpdateAlertRule,
+  type Alert,
+  type AlertWithRule,
+  type AlertWindowStats,
+  webhooks,
+  webhookDeliveries,
+  type Webhook,
+  type InsertWebhook,
+  type UpdateWebhook,
+  type WebhookDelivery,
+  type WebhookDeliveryQuery,
+  type WebhookDeliveryWithWebhook,
+  type WebhookPayload,
+  type DailySentimentTrend,
+  type TopicSummary,
+  type FeedbackFilters,
+  type FeedbackQuery,
+  type FeedbackPage,
+  type FeedbackExportQuery,
+  type FeedbackStreamQuery,
+  type FeedbackStreamEvent,
+  type FeedbackSortField,
+  type ImportFeedbackRow,
+  regionalSentimentWindows,
+  type RegionalSentimentWindow,
+  type DashboardPeriodStats,
+  type User,
+  type UserRole,
+  type TrashContents,
+  auditEvents,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditQuery,
+  type AuditPage,
 } from "@shared/schema";
 import { db } from "./db";
-import { desc } from "drizzle-orm";
+import { and, arrayContains, desc, eq, gte, inArray, isNotNull, isNull, lt, lte, ne, notInArray, sql, type SQL } from "drizzle-orm";
+import { getLocalDayRange } from "./dates";
+import { extractTopics, getTopicLabel } from "./topics";
+import { getRequestContext } from "./context";
+import { scorePriorityItem } from "./scoring";
+import { log } from "./vite";
+
+/**
+ * Feedback Sentiment Score
+ * Uses the analyzer score when present; manually labeled feedback falls back
+ * to its label mapped onto the 0-10 scale (positive = 10, neutral = 5, negative = 0)
+ */
+const feedbackScore = sql<number>`coalesce(${feedback.sentimentScore}, case ${feedback.sentiment}
+  when 'positive' then 10
+  when 'neutral' then 5
+  else 0
+end)`;
+
+// Rows not in the trash; every read excludes soft-deleted rows unless it is about the trash
+const activeFeedback = isNull(feedback.deletedAt);
+const activePriorityItems = isNull(priorityItems.deletedAt);
+
+// Number of rows written per insert statement during bulk import
+const IMPORT_BATCH_SIZE = 500;
+
+// Number of rows read per query while streaming an export
+const EXPORT_BATCH_SIZE = 1000;
+
+// Days of feedback on a priority item's topics counted as demand for it
+// (attached feedback counts however old it is)
+const DEMAND_DAYS = 90;
+
+// How long cached regional sentiment is served before being recomputed.
+// Windows are relative to now, so entries age out even when no feedback arrives
+const REGIONAL_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// Delay between a feedback change and the cache refresh it schedules, so a
+// burst of writes (imports, connector syncs) causes a single refresh
+const REGIONAL_REFRESH_DELAY_MS = 5 * 1000;
+
+// Database handle or an open transaction
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Audit Entry
+ * A change to record; before/after are full records (diffed for updates)
+ */
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Signing secrets are audited by their last four characters, so rotations
+// still show up without the audit log exposing usable keys
+const AUDIT_MASKED_FIELDS = ["secret", "ingestSecret"];
+
+/**
+ * To Audit JSON
+ * Record as stored in the audit log; password hashes are never copied
+ */
+function toAuditJson(record: object): Record<string, unknown> {
+  const { passwordHash: _passwordHash, ...values } = record as Record<string, unknown>;
+  for (const field of AUDIT_MASKED_FIELDS) {
+    const value = values[field];
+    if (typeof value === "string") {
+      values[field] = `…${value.slice(-4)}`;
+    }
+  }
+  return values;
+}
+
+/**
+ * Record Audit
+ * Writes audit events with the actor and request id of the current request
+ * (see context.ts); outside a request they are recorded as system changes.
+ * Pass the transaction that made the change so both commit or roll back together.
+ * @param executor - Database or transaction to write with
+ * @param entries - Changes to record
+ */
+async function recordAudit(executor: Executor, entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const context = getRequestContext();
+  await executor.insert(auditEvents).values(
+    entries.map((entry) => ({
+      actorId: context?.actor?.id ?? null,
+      actorUsername: context?.actor?.username ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      before: entry.before ? toAuditJson(entry.before) : null,
+      after: entry.after ? toAuditJson(entry.after) : null,
+      requestId: context?.requestId ?? null,
+    })),
+  );
+}
+
+/**
+ * Record Update
+ * Audits an update with only the fields that changed; no-op updates are not recorded
+ * @param executor - Transaction that made the change
+ * @param entityType - Kind of record
+ * @param before - Record before the update
+ * @param after - Record after the update
+ */
+async function recordUpdate(
+  executor: Executor,
+  entityType: AuditEntityType,
+  before: { id: string },
+  after: { id: string },
+): Promise<void> {
+  const previous = toAuditJson(before);
+  const next = toAuditJson(after);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Object.keys(next)) {
+    // Compare serialized values so dates and JSON columns compare by content
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changedBefore[key] = previous[key];
+      changedAfter[key] = next[key];
+    }
+  }
+  if (Object.keys(changedAfter).length === 0) return;
+
+  await recordAudit(executor, [
+    { action: "update", entityType, entityId: after.id, before: changedBefore, after: changedAfter },
+  ]);
+}
+
+// Settings of the single workspace
+const DEFAULT_WORKSPACE = "default";
+
+/**
+ * Load Scoring Settings
+ * @param executor - Database or transaction to read with
+ * @returns The workspace's saved settings, or the defaults when none were saved
+ */
+async function loadScoringSettings(executor: Executor): Promise<ScoringSettings> {
+  const [settings] = await executor.select().from(scoringSettings).where(eq(scoringSettings.id, DEFAULT_WORKSPACE));
+  return (
+    settings ?? {
+      id: DEFAULT_WORKSPACE,
+      model: "rice",
+      autoRank: true,
+      demandBoost: false,
+      riceWeights: DEFAULT_RICE_WEIGHTS,
+      wsjfWeights: DEFAULT_WSJF_WEIGHTS,
+      updatedAt: null,
+    }
+  );
+}
+
+/**
+ * Load Customer Demand
+ * Counts the feedback behind each priority item: attached entries plus entries
+ * from the last DEMAND_DAYS tagged with one of its topics, each counted once
+ * and none from the trash
+ * @param executor - Database or transaction to read with
+ * @param itemIds - Priority item ids
+ * @returns Demand per item id (items without links get an empty demand)
+ */
+async function loadCustomerDemand(executor: Executor, itemIds: string[]): Promise<Map<string, CustomerDemand>> {
+  const demand = new Map<string, CustomerDemand>(
+    itemIds.map((id) => [id, { feedbackCount: 0, negativeCount: 0, negativeShare: 0, regions: [], topics: [] }]),
+  );
+  if (itemIds.length === 0) return demand;
+
+  const topicLinks = await executor
+    .select({ itemId: priorityItemTopics.priorityItemId, topic: priorityItemTopics.topic })
+    .from(priorityItemTopics)
+    .where(inArray(priorityItemTopics.priorityItemId, itemIds))
+    .orderBy(priorityItemTopics.linkedAt);
+  for (const link of topicLinks) {
+    demand.get(link.itemId)?.topics.push(link.topic);
+  }
+
+  // union (not union all) counts an entry that is both attached and on a topic once
+  const since = new Date(Date.now() - DEMAND_DAYS * 24 * 60 * 60 * 1000);
+  const linked = executor
+    .select({ itemId: priorityItemFeedback.priorityItemId, feedbackId: priorityItemFeedback.feedbackId })
+    .from(priorityItemFeedback)
+    .where(inArray(priorityItemFeedback.priorityItemId, itemIds))
+    .union(
+      executor
+        .select({ itemId: priorityItemTopics.priorityItemId, feedbackId: feedbackTopics.feedbackId })
+        .from(priorityItemTopics)
+        .innerJoin(feedbackTopics, eq(feedbackTopics.topic, priorityItemTopics.topic))
+        .innerJoin(feedback, eq(feedbackTopics.feedbackId, feedback.id))
+        .where(and(inArray(priorityItemTopics.priorityItemId, itemIds), gte(feedback.timestamp, since))),
+    )
+    .as("linked");
+
+  const rows = await executor
+    .select({
+      itemId: linked.itemId,
+      region: feedback.region,
+      count: sql<number>`count(*)::int`,
+      negativeCount: sql<number>`(count(*) filter (where ${feedback.sentiment} = 'negative'))::int`,
+    })
+    .from(linked)
+    .innerJoin(feedback, eq(linked.feedbackId, feedback.id))
+    .where(activeFeedback)
+    .groupBy(linked.itemId, feedback.region);
+
+  for (const row of rows) {
+    const itemDemand = demand.get(row.itemId);
+    if (!itemDemand) continue;
+    itemDemand.feedbackCount += row.count;
+    itemDemand.negativeCount += row.negativeCount;
+    itemDemand.regions.push({ region: row.region, count: row.count, negativeCount: row.negativeCount });
+  }
+  demand.forEach((itemDemand) => {
+    itemDemand.negativeShare = itemDemand.feedbackCount > 0 ? itemDemand.negativeCount / itemDemand.feedbackCount : 0;
+    itemDemand.regions.sort((a, b) => b.negativeCount - a.negativeCount || b.count - a.count);
+  });
+  return demand;
+}
+
+/**
+ * Store Score
+ * Recomputes a priority item's score with the workspace's scoring settings
+ * @param executor - Transaction that changed the item
+ * @param item - Item as just written
+ * @returns The item with its current score
+ */
+async function storeScore(executor: Executor, item: PriorityItem): Promise<PriorityItem> {
+  const settings = await loadScoringSettings(executor);
+  const demand = settings.demandBoost ? (await loadCustomerDemand(executor, [item.id])).get(item.id) : undefined;
+  const { score } = scorePriorityItem(item, settings, demand);
+  if (score === item.score) return item;
+
+  const [scored] = await executor.update(priorityItems).set({ score }).where(eq(priorityItems.id, item.id)).returning();
+  return scored;
+}
+
+/**
+ * Claim Channel Name
+ * Takes a lock serializing channel creates and renames, then checks whether
+ * another channel already has the name (the unique index backs this up)
+ * @param executor - Transaction that will write the name
+ * @param name - Name to claim
+ * @param exceptId - Channel being renamed
+ * @returns Whether the name is taken
+ */
+async function claimChannelName(executor: Executor, name: string, exceptId?: string): Promise<boolean> {
+  await executor.execute(sql`select pg_advisory_xact_lock(hashtext('channels_name'))`);
+  const [existing] = await executor
+    .select({ id: channels.id })
+    .from(channels)
+    .where(and(eq(channels.name, name), exceptId ? ne(channels.id, exceptId) : undefined))
+    .limit(1);
+  return existing !== undefined;
+}
+
+/**
+ * Tag Feedback Topics
+ * Stores the topics found in each feedback entry's text
+ * @param executor - Database or transaction to write with
+ * @param entries - Saved feedback entries (without existing topic rows)
+ */
+async function tagFeedbackTopics(executor: Executor, entries: Feedback[]): Promise<void> {
+  const topics = entries.flatMap((entry) =>
+    extractTopics(entry.text).map((topic) => ({
+      feedbackId: entry.id,
+      topic: topic.topic,
+      sentiment: topic.sentiment,
+      sentimentScore: topic.sentimentScore.toFixed(1),
+      matchedTerms: topic.matchedTerms,
+    })),
+  );
+  if (topics.length > 0) {
+    await executor.insert(feedbackTopics).values(topics);
+  }
+}
+
+/**
+ * Insert Feedback Rows
+ * Inserts feedback entries and tags each one with the topics found in its text
+ * @param executor - Database or transaction to write with
+ * @param rows - Feedback entries to insert
+ * @returns The inserted feedback entries
+ */
+async function insertFeedbackRows(executor: Executor, rows: ImportFeedbackRow[]): Promise<Feedback[]> {
+  const inserted = await executor
+    .insert(feedback)
+    .values(rows)
+    .returning(); // Return the created records
+
+  await tagFeedbackTopics(executor, inserted);
+  await recordAudit(
+    executor,
+    inserted.map((entry): AuditEntry => ({ action: "create", entityType: "feedback", entityId: entry.id, after: entry })),
+  );
+  return inserted;
+}
+
+// Most negative entries kept per group as insight evidence
+const INSIGHT_SAMPLE_SIZE = 5;
+
+/**
+ * Get Insight Groups
+ * Feedback stats per topic, region or source for the insight window and the
+ * baseline before it, with the window's most negative entries as samples
+ * @param dimension - What to group by (topics use the aspect-level sentiment)
+ */
+async function getInsightGroups(
+  dimension: "topic" | "region" | "source",
+  baselineStart: Date,
+  windowStart: Date,
+  until: Date,
+): Promise<InsightGroupStats[]> {
+  const byTopic = dimension === "topic";
+  const key = byTopic ? feedbackTopics.topic : dimension === "region" ? feedback.region : feedback.source;
+  const score = byTopic ? sql<number>`${feedbackTopics.sentimentScore}` : feedbackScore;
+  const sentiment = byTopic ? feedbackTopics.sentiment : feedback.sentiment;
+  const inWindow = gte(feedback.timestamp, windowStart);
+  const inBaseline = lt(feedback.timestamp, windowStart);
+
+  const groupQuery = db
+    .select({
+      key,
+      volume: sql<number>`(count(*) filter (where ${inWindow}))::int`,
+      negative: sql<number>`(count(*) filter (where ${inWindow} and ${sentiment} = 'negative'))::int`,
+      averageScore: sql<number | null>`(avg(${score}) filter (where ${inWindow}))::float8`,
+      baselineVolume: sql<number>`(count(*) filter (where ${inBaseline}))::int`,
+      baselineNegative: sql<number>`(count(*) filter (where ${inBaseline} and ${sentiment} = 'negative'))::int`,
+      baselineAverageScore: sql<number | null>`(avg(${score}) filter (where ${inBaseline}))::float8`,
+    })
+    .from(feedback)
+    .$dynamic();
+  const groups = await (byTopic ? groupQuery.innerJoin(feedbackTopics, eq(feedbackTopics.feedbackId, feedback.id)) : groupQuery)
+    .where(and(activeFeedback, gte(feedback.timestamp, baselineStart), lt(feedback.timestamp, until)))
+    .groupBy(key);
+
+  // Rank the window's negative entries per group, worst score first
+  const rankedQuery = db
+    .select({
+      key: sql<string>`${key}`.as("key"),
+      feedbackId: sql<string>`${feedback.id}`.as("feedback_id"),
+      rank: sql<number>`row_number() over (partition by ${key} order by ${score}, ${feedback.timestamp} desc)`.as("rank"),
+    })
+    .from(feedback)
+    .$dynamic();
+  const ranked = (byTopic ? rankedQuery.innerJoin(feedbackTopics, eq(feedbackTopics.feedbackId, feedback.id)) : rankedQuery)
+    .where(and(activeFeedback, inWindow, lt(feedback.timestamp, until), eq(sentiment, "negative")))
+    .as("ranked");
+  const samples = await db
+    .select({ key: ranked.key, feedbackId: ranked.feedbackId })
+    .from(ranked)
+    .where(lte(ranked.rank, INSIGHT_SAMPLE_SIZE))
+    .orderBy(ranked.key, ranked.rank);
+
+  // Where each group's entries in the window came from
+  const regionQuery = db
+    .select({
+      key,
+      region: feedback.region,
+      count: sql<number>`count(*)::int`,
+      negativeCount: sql<number>`(count(*) filter (where ${sentiment} = 'negative'))::int`,
+    })
+    .from(feedback)
+    .$dynamic();
+  const regionRows = await (byTopic ? regionQuery.innerJoin(feedbackTopics, eq(feedbackTopics.feedbackId, feedback.id)) : regionQuery)
+    .where(and(activeFeedback, inWindow, lt(feedback.timestamp, until)))
+    .groupBy(key, feedback.region)
+    .orderBy(sql`4 desc`, sql`3 desc`, feedback.region); // Most negative, then busiest first
+
+  const samplesByKey = new Map<string, string[]>();
+  for (const sample of samples) {
+    samplesByKey.set(sample.key, [...(samplesByKey.get(sample.key) ?? []), sample.feedbackId]);
+  }
+  const regionsByKey = new Map<string, InsightRegionEvidence[]>();
+  for (const { key: groupKey, ...region } of regionRows) {
+    regionsByKey.set(groupKey, [...(regionsByKey.get(groupKey) ?? []), region]);
+  }
+  return groups.map((group) => ({
+    ...group,
+    sampleFeedbackIds: samplesByKey.get(group.key) ?? [],
+    regions: regionsByKey.get(group.key) ?? [],
+  }));
+}
+
+/**
+ * Replace Insight Evidence
+ * Stores the evidence of a generated insight in place of what it had before
+ * @param executor - Database or transaction to write with
+ * @param insightId - Insight the evidence supports
+ * @param evidence - Cited feedback, regions and metrics, each strongest first
+ */
+async function replaceInsightEvidence(executor: Executor, insightId: string, evidence: InsightEvidenceInput): Promise<void> {
+  await executor.delete(aiInsightEvidence).where(eq(aiInsightEvidence.insightId, insightId));
+
+  // Cited feedback may have been purged since the snapshot was taken
+  const existing = evidence.feedbackIds.length === 0
+    ? []
+    : await executor.select({ id: feedback.id }).from(feedback).where(inArray(feedback.id, evidence.feedbackIds));
+  const existingIds = new Set(existing.map((row) => row.id));
+
+  const rows = [
+    ...evidence.feedbackIds
+      .filter((feedbackId) => existingIds.has(feedbackId))
+      .map((feedbackId, position) => ({ insightId, kind: "feedback", position, feedbackId })),
+    ...evidence.regions.map((region, position) => ({ insightId, kind: "region", position, ...region })),
+    ...evidence.metrics.map((metric, position) => ({ insightId, kind: "metric", position, ...metric })),
+  ];
+  if (rows.length > 0) {
+    await executor.insert(aiInsightEvidence).values(rows);
+  }
+}
+
+// Type a cursor's sort key is cast to when resuming
+type CursorKeyType = "timestamp" | "numeric" | "bigint" | "text";
+
+/**
+ * Feedback Sort Keys
+ * SQL expression and Postgres type behind each sortable explorer column
+ * The type is used to cast cursor values back when resuming a page
+ */
+const feedbackSortKeys: Record<FeedbackSortField, { expr: SQL; type: CursorKeyType }> = {
+  timestamp: { expr: sql`${feedback.timestamp}`, type: "timestamp" },
+  score: { expr: feedbackScore, type: "numeric" },
+  sentiment: { expr: sql`${feedback.sentiment}`, type: "text" },
+  source: { expr: sql`${feedback.source}`, type: "text" },
+  region: { expr: sql`${feedback.region}`, type: "text" },
+};
+
+/**
+ * Build Feedback Filters
+ * Translates explorer/export filters into a WHERE condition
+ * @param filters - Search text, sentiment, source, region and date range
+ * @returns Combined condition, or undefined when no filter is set
+ */
+function buildFeedbackFilters(filters: FeedbackFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [
+    activeFeedback,
+    filters.q
+      ? sql`to_tsvector('english', ${feedback.text}) @@ websearch_to_tsquery('english', ${filters.q})`
+      : undefined,
+    filters.sentiment ? eq(feedback.sentiment, filters.sentiment) : undefined,
+    filters.source ? eq(feedback.source, filters.source) : undefined,
+    filters.region ? eq(feedback.region, filters.region) : undefined,
+    filters.from ? gte(feedback.timestamp, filters.from) : undefined,
+    filters.to ? lt(feedback.timestamp, filters.to) : undefined,
+  ];
+  return and(...conditions);
+}
+
+// Sort keys as Postgres prints them with ::text
+const TIMESTAMP_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+const NUMERIC_KEY_PATTERN = /^-?\d+(\.\d+)?$/;
+const BIGINT_KEY_PATTERN = /^-?\d+$/;
+
+/**
+ * Is Valid Cursor Key
+ * Checks that a decoded sort key can be cast to its type, so a forged cursor
+ * is rejected here instead of failing the query
+ */
+function isValidCursorKey(key: string, type: CursorKeyType): boolean {
+  if (type === "numeric") {
+    return NUMERIC_KEY_PATTERN.test(key) && Number.isFinite(Number(key));
+  }
+  if (type === "bigint") {
+    return BIGINT_KEY_PATTERN.test(key) && Number.isSafeInteger(Number(key));
+  }
+  if (type === "timestamp") {
+    const match = TIMESTAMP_KEY_PATTERN.exec(key);
+    if (!match) return false;
+    // Round-trip the fields so dates like Feb 30 are rejected
+    const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    return (
+      date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day &&
+      date.getUTCHours() === hour &&
+      date.getUTCMinutes() === minute &&
+      date.getUTCSeconds() === second
+    );
+  }
+  return true;
+}
+
+/**
+ * Encode / Decode Cursor
+ * A cursor is the sort key and id of the last row on a page, as base64url JSON
+ * (used by the feedback explorer, the live feedback stream and the audit log)
+ * Decoding throws a RangeError for cursors that were not produced by encode,
+ * including ones whose key doesn't fit the sort column's type
+ */
+function encodeCursor(key: string, id: string): string {
+  return Buffer.from(JSON.stringify([key, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string, keyType: CursorKeyType): { key: string; id: string } {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof key === "string" && typeof id === "string" && isValidCursorKey(key, keyType)) {
+      return { key, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new RangeError("Invalid cursor");
+}
+
+/**
+ * Select Feedback Page
+ * Fetches one keyset-paginated page of feedback: rows strictly beyond the
+ * cursor's (sort key, id) in the requested direction
+ * @returns Page items and the cursor for the next page (null on the last page)
+ * @throws RangeError when the cursor is malformed
+ */
+async function selectFeedbackPage(
+  filters: SQL | undefined,
+  sort: FeedbackSortField,
+  order: "asc" | "desc",
+  cursor: string | undefined,
+  limit: number,
+): Promise<Omit<FeedbackPage, "total">> {
+  const sortKey = feedbackSortKeys[sort];
+
+  // Resume after the last row of the previous page: (key, id) strictly beyond the cursor
+  let after: SQL | undefined;
+  if (cursor) {
+    const decoded = decodeCursor(cursor, sortKey.type);
+    const key = sql`cast(${decoded.key} as ${sql.raw(sortKey.type)})`;
+    after = order === "asc"
+      ? sql`(${sortKey.expr}, ${feedback.id}) > (${key}, ${decoded.id})`
+      : sql`(${sortKey.expr}, ${feedback.id}) < (${key}, ${decoded.id})`;
+  }
+
+  const direction = order === "asc" ? sql`asc` : sql`desc`;
+
+  // Fetch one extra row to learn whether another page exists
+  const rows = await db
+    .select({ item: feedback, cursorKey: sql<string>`(${sortKey.expr})::text` })
+    .from(feedback)
+    .where(and(filters, after))
+    .orderBy(sql`${sortKey.expr} ${direction}`, sql`${feedback.id} ${direction}`)
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map((row) => row.item),
+    nextCursor: rows.length > limit && last ? encodeCursor(last.cursorKey, last.item.id) : null,
+  };
+}
+
+/**
+ * Refresh Regional Sentiment Window
+ * Aggregates feedback from the last N days by region and replaces that
+ * window's rows in the regional_sentiment cache
+ * @param days - Aggregation window in days
+ * @returns The freshly computed rows, sorted by region
+ */
+async function refreshRegionalSentimentWindow(days: RegionalSentimentWindow): Promise<RegionalSentiment[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const rows = await db
+    .select({
+      region: feedback.region,
+      sentimentScore: sql<string>`round(avg(${feedbackScore}), 1)::text`,
+      volume: sql<number>`count(*)::int`,
+      positive: sql<number>`count(*) filter (where ${feedback.sentiment} = 'positive')::int`,
+      neutral: sql<number>`count(*) filter (where ${feedback.sentiment} = 'neutral')::int`,
+      negative: sql<number>`count(*) filter (where ${feedback.sentiment} = 'negative')::int`,
+    })
+    .from(feedback)
+    .where(and(activeFeedback, gte(feedback.timestamp, since)))
+    .groupBy(feedback.region)
+    .orderBy(feedback.region);
+
+  return await db.transaction(async (tx) => {
+    // Drop regions that no longer have feedback in the window
+    const regions = rows.map((row) => row.region);
+    await tx
+      .delete(regionalSentiment)
+      .where(and(
+        eq(regionalSentiment.windowDays, days),
+        regions.length > 0 ? notInArray(regionalSentiment.region, regions) : undefined,
+      ));
+    if (rows.length === 0) return [];
+
+    // Upsert so concurrent refreshes of the same window don't collide
+    const saved = await tx
+      .insert(regionalSentiment)
+      .values(rows.map((row) => ({ ...row, windowDays: days })))
+      .onConflictDoUpdate({
+        target: [regionalSentiment.region, regionalSentiment.windowDays],
+        set: {
+          sentimentScore: sql`excluded.sentiment_score`,
+          volume: sql`excluded.volume`,
+          positive: sql`excluded.positive`,
+          neutral: sql`excluded.neutral`,
+          negative: sql`excluded.negative`,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return saved.sort((a, b) => a.region.localeCompare(b.region));
+  });
+}
+
+// Pending scheduled refresh of the regional sentiment cache
+let regionalRefreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Schedule Regional Refresh
+ * Recomputes every regional sentiment window shortly after feedback changes,
+ * outside the request that changed it. Failures are only logged: the write
+ * already succeeded, and stale windows are recomputed on read after
+ * REGIONAL_CACHE_TTL_MS anyway
+ */
+function scheduleRegionalRefresh(): void {
+  if (regionalRefreshTimer) return;
+
+  regionalRefreshTimer = setTimeout(async () => {
+    regionalRefreshTimer = null;
+    try {
+      for (const days of regionalSentimentWindows) {
+        await refreshRegionalSentimentWindow(days);
+      }
+    } catch (error) {
+      log(`Regional sentiment refresh failed: ${error instanceof Error ? error.message : String(error)}`, "regional");
+    }
+  }, REGIONAL_REFRESH_DELAY_MS);
+  regionalRefreshTimer.unref();
+}
 
 /**
  * Storage Interface
  * Defines all database operations available in the application
  */
 export interface IStorage {
+  // User operations
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: { username: string; passwordHash: string; role: UserRole }): Promise<User | undefined>;
+  createFirstUser(user: { username: string; passwordHash: string }): Promise<User | undefined>;
+  updateUserRole(id: string, role: UserRole): Promise<RoleUpdateResult>;
+  
+  // Dashboard operations
+  getDashboardPeriodStats(days: number): Promise<{ current: DashboardPeriodStats; previous: DashboardPeriodStats }>;
+  
   // Regional sentiment operations
-  getRegionalSentiment(): Promise<RegionalSentiment[]>;
+  getRegionalSentiment(days?: RegionalSentimentWindow): Promise<RegionalSentiment[]>;
+  refreshRegionalSentiment(): Promise<void>;
   
   // Feedback operations
   getRecentFeedback(limit?: number): Promise<Feedback[]>;
+  getFeedbackByIds(ids: string[]): Promise<Feedback[]>;
+  searchFeedback(query: FeedbackQuery): Promise<FeedbackPage>;
+  streamFeedback(query: FeedbackExportQuery): AsyncGenerator<Feedback[]>;
+  getFeedbackArrivals(filters: FeedbackStreamQuery, after: string | undefined, limit: number): Promise<FeedbackStreamEvent[]>;
   createFeedback(feedback: InsertFeedback): Promise<Feedback>;
+  updateFeedback(id: string, changes: Partial<InsertFeedback>): Promise<Feedback | undefined>;
+  deleteFeedback(id: string, deletedBy: string | null): Promise<boolean>;
+  markFeedbackResponded(id: string): Promise<Feedback | undefined>;
+  importFeedback(rows: ImportFeedbackRow[]): Promise<number>;
+  
+  // Topic operations
+  getTopicSummaries(days: number): Promise<TopicSummary[]>;
   
   // Sentiment trends operations
   getSentimentTrends(): Promise<SentimentTrend[]>;
-  getDailySentimentTrends(days: number): Promise<{ date: string; score: string }[]>;
+  getDailySentimentTrends(days: number, timeZone?: string, segment?: FeedbackSegment): Promise<DailySentimentTrend[]>;
   
   // Priority items operations
   getPriorityItems(): Promise<PriorityItem[]>;
+  getPriorityItem(id: string): Promise<PriorityItem | undefined>;
   createPriorityItem(item: InsertPriorityItem): Promise<PriorityItem>;
+  updatePriorityItem(id: string, changes: UpdatePriorityItem): Promise<PriorityItemUpdateResult>;
+  deletePriorityItem(id: string, deletedBy: string | null): Promise<boolean>;
+  refreshPriorityScores(audit?: boolean): Promise<RankChange[]>;
+  getCustomerDemand(itemIds: string[]): Promise<Map<string, CustomerDemand>>;
+  getPriorityItemLinks(id: string): Promise<PriorityItemLinks | undefined>;
+  linkPriorityFeedback(id: string, feedbackIds: string[], linkedBy: string | null): Promise<number | undefined>;
+  unlinkPriorityFeedback(id: string, feedbackId: string): Promise<boolean>;
+  linkPriorityTopic(id: string, topic: string, linkedBy: string | null): Promise<PriorityItemTopic | undefined>;
+  unlinkPriorityTopic(id: string, topic: string): Promise<boolean>;
+  
+  // Scoring settings operations
+  getScoringSettings(): Promise<ScoringSettings>;
+  updateScoringSettings(changes: UpdateScoringSettings): Promise<ScoringSettings>;
+  
+  // Audit log operations
+  getAuditEvents(query: AuditQuery): Promise<AuditPage>;
+  
+  // Trash operations
+  getTrash(): Promise<Omit<TrashContents, "retentionDays">>;
+  restoreFeedback(id: string): Promise<Feedback | undefined>;
+  restorePriorityItem(id: string): Promise<PriorityItem | undefined>;
+  purgeFeedback(id: string): Promise<boolean>;
+  purgePriorityItem(id: string): Promise<boolean>;
+  purgeTrash(deletedBefore: Date): Promise<{ feedback: number; priorityItems: number }>;
   
   // AI insights operations
-  getAIInsights(): Promise<AIInsight[]>;
+  getAIInsights(): Promise<AIInsightSummary[]>;
+  getAIInsight(id: string): Promise<AIInsight | undefined>;
+  getDismissedInsights(): Promise<DismissedInsight[]>;
+  getInsightEvidence(id: string, trendDays: number, timeZone?: string): Promise<InsightEvidenceDetail | undefined>;
+  getInsightSnapshot(now: Date, windowDays: number, baselineDays: number): Promise<InsightSnapshot>;
+  saveGeneratedInsights(provider: string, proposals: ProposedInsight[]): Promise<GeneratedInsights>;
   createAIInsight(insight: InsertAIInsight): Promise<AIInsight>;
+  updateAIInsight(id: string, changes: UpdateAIInsight): Promise<AIInsight | undefined>;
+  setAIInsightStatus(id: string, change: UpdateInsightStatus, changedBy: string | null): Promise<AIInsight | undefined>;
+  convertAIInsight(id: string, item: InsertPriorityItem, reason: string | undefined, changedBy: string | null): Promise<InsightConversion | undefined>;
+  deleteAIInsight(id: string): Promise<boolean>;
   
   // Impact metrics operations
   getImpactMetrics(): Promise<ImpactMetric[]>;
+  updateImpactMetric(id: string, changes: UpdateImpactMetric): Promise<ImpactMetric | undefined>;
+  deleteImpactMetric(id: string): Promise<boolean>;
   
   // Usage metrics operations
   getUsageMetrics(): Promise<UsageMetric[]>;
+  updateUsageMetric(id: string, changes: UpdateUsageMetric): Promise<UsageMetric | undefined>;
+  deleteUsageMetric(id: string): Promise<boolean>;
   
   // Channels operations
   getChannels(): Promise<Channel[]>;
-  createChannel(channel: InsertChannel): Promise<Channel>;
+  getChannelSummaries(days: number): Promise<(Channel & { messageCount: number })[]>;
+  getChannelStats(channel: Channel, days: number, timeZone?: string): Promise<Omit<ChannelStats, "channel">>;
+  getChannel(id: string): Promise<Channel | undefined>;
+  createChannel(channel: InsertChannel): Promise<Channel | undefined>;
+  updateChannel(id: string, changes: UpdateChannel & { ingestSecret?: string | null; syncCursor?: string | null }): Promise<ChannelUpdateResult>;
+  deleteChannel(id: string): Promise<boolean>;
+  ingestFeedback(channelId: string, idempotencyKey: string, row: ImportFeedbackRow): Promise<IngestResult>;
+  recordChannelSync(channelId: string, sync: ChannelSync): Promise<ChannelSyncResult>;
+
+  // Alert operations
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, changes: UpdateAlertRule): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+  getAlertWindowStats(rule: AlertRule, now: Date): Promise<AlertWindowStats>;
+  recordAlertEvaluation(ruleId: string, value: number | null, conditionMet: boolean, now: Date): Promise<AlertTransition | null>;
+  getAlerts(resolvedLimit: number): Promise<AlertWithRule[]>;
+  acknowledgeAlert(id: string, userId: string | null): Promise<Alert | undefined>;
+  snoozeAlert(id: string, until: Date): Promise<Alert | undefined>;
+
+  // Webhook operations
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook & { secret: string }): Promise<Webhook>;
+  updateWebhook(id: string, changes: UpdateWebhook & { secret?: string }): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+  queueWebhookDeliveries(payload: WebhookPayload): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(webhookId: string, payload: WebhookPayload): Promise<WebhookDelivery>;
+  replayWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<DueWebhookDelivery[]>;
+  recordWebhookAttempt(id: string, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(query: WebhookDeliveryQuery, limit: number): Promise<WebhookDeliveryWithWebhook[]>;
+}
+
+// Alert state change caused by a rule evaluation
+export interface AlertTransition {
+  change: "fired" | "resolved";
+  alert: Alert;
+}
+
+// Outcome of an inbound feedback delivery
+export type IngestResult =
+  | { duplicate: false; feedback: Feedback }
+  | { duplicate: true; feedbackId: string | null }; // feedbackId of the first delivery (null once purged)
+
+// Feedback stats of one topic, region or source (see getInsightSnapshot)
+export interface InsightGroupStats {
+  key: string; // Topic id, region or source
+  volume: number; // Entries in the window
+  negative: number;
+  averageScore: number | null; // 0-10, null when the window has no entries
+  baselineVolume: number; // Entries in the baseline before the window
+  baselineNegative: number;
+  baselineAverageScore: number | null;
+  sampleFeedbackIds: string[]; // Most negative entries in the window, worst first
+  regions: InsightRegionEvidence[]; // Where the window's entries came from, most negative first
+}
+
+// Outcome of storing an insight generator run
+export interface GeneratedInsights {
+  created: AIInsight[];
+  refreshed: AIInsight[];
+  skipped: number; // Proposals matching a dismissed insight
+}
+
+// Generated insight an analyst rejected
+export interface DismissedInsight {
+  fingerprint: string;
+  title: string;
+  reason: string | null;
+}
+
+// Insight converted to a priority item, and the item
+export interface InsightConversion {
+  insight: AIInsight;
+  priorityItem: PriorityItem;
+}
+
+// Outcome of a role change; the last admin can't be demoted
+export type RoleUpdateResult =
+  | { lastAdmin: false; user: User | undefined } // user is undefined when it doesn't exist
+  | { lastAdmin: true };
+
+// Outcome of a priority item update; a new rank is refused while auto-rank is on
+export type PriorityItemUpdateResult =
+  | { autoRanked: false; item: PriorityItem | undefined } // item is undefined when it doesn't exist
+  | { autoRanked: true };
+
+// Outcome of a channel update; channel names are unique
+export type ChannelUpdateResult =
+  | { nameTaken: false; channel: Channel | undefined } // channel is undefined when it doesn't exist
+  | { nameTaken: true };
+
+// Priority item whose rank changed when items were re-ranked by score
+export interface RankChange {
+  before: PriorityItem;
+  after: PriorityItem;
+}
+
+// Feedback about one topic, from one region or from one source
+export interface FeedbackSegment {
+  dimension: FeedbackDimension;
+  key: string; // Topic id, region or source
+}
+
+// Recent feedback, summarized for insight providers
+export interface InsightSnapshot {
+  baselineStart: Date;
+  windowStart: Date;
+  until: Date;
+  volume: number; // Entries in the window
+  averageScore: number | null; // Mean over the window (0-10)
+  topics: InsightGroupStats[];
+  regions: InsightGroupStats[];
+  sources: InsightGroupStats[];
+}
+
+// Outcome of one connector run
+export interface ChannelSync {
+  syncedAt: Date;
+  error: string | null; // null = healthy
+  entries: { key: string; row: ImportFeedbackRow }[]; // key = the source's id, entries seen before are skipped
+  cursor?: string | null; // New position in the source (undefined = unchanged)
+}
+
+export interface ChannelSyncResult {
+  channel: Channel | undefined; // undefined when the channel was deleted meanwhile
+  created: Feedback[];
+}
+
+// Delivery ready to be sent, with the webhook it goes to
+export interface DueWebhookDelivery {
+  delivery: WebhookDelivery;
+  webhook: Webhook;
+}
+
+// Outcome of one delivery attempt
+export interface WebhookAttempt {
+  status: "pending" | "succeeded" | "failed"; // pending = will be retried at nextAttemptAt
+  attemptedAt: Date;
+  nextAttemptAt: Date;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
 }
 
 /**
@@ -71,178 +976,2112 @@ export interface IStorage {
  */
 export class DatabaseStorage implements IStorage {
   /**
-   * Get Regional Sentiment Data
-   * Fetches sentiment scores for all regions
-   * @returns Array of regional sentiment data
+   * Get User
+   * @param id - User id
+   * @returns The user, or undefined when it doesn't exist
    */
-  async getRegionalSentiment(): Promise<RegionalSentiment[]> {
-    return await db.select().from(regionalSentiment);
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
   }
   
   /**
-   * Get Recent Feedback
-   * Fetches the most recent customer feedback entries
-   * @param limit - Maximum number of feedback items to return (default: 10)
-   * @returns Array of feedback items ordered by timestamp (newest first)
+   * Get User By Username
+   * @param username - Login name (lowercase)
+   * @returns The user, or undefined when no account has that name
    */
-  async getRecentFeedback(limit: number = 10): Promise<Feedback[]> {
-    return await db
-      .select()
-      .from(feedback)
-      .orderBy(desc(feedback.timestamp)) // Sort by newest first
-      .limit(limit);
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
   }
   
   /**
-   * Create New Feedback
-   * Inserts a new customer feedback entry into the database
-   * @param insertFeedback - Feedback data to insert
-   * @returns The newly created feedback entry with generated ID
+   * Get Users
+   * @returns All accounts sorted by username
    */
-  async createFeedback(insertFeedback: InsertFeedback): Promise<Feedback> {
-    const [newFeedback] = await db
-      .insert(feedback)
-      .values(insertFeedback)
-      .returning(); // Return the created record
-    return newFeedback;
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
   }
   
   /**
-   * Get Sentiment Trends
-   * Fetches historical sentiment trend data for charts
-   * @returns Array of sentiment trend data points
+   * Count Users
+   * @returns Number of accounts (0 until the first account is set up)
    */
-  async getSentimentTrends(): Promise<SentimentTrend[]> {
-    return await db.select().from(sentimentTrends);
+  async countUsers(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return count;
   }
   
   /**
-   * Get Daily Sentiment Trends
-   * Generates daily sentiment data for the specified number of days
-   * Creates realistic daily variations around a base sentiment score
-   * @param days - Number of days to generate data for
-   * @returns Array of daily sentiment data points with dates
-   */
-  async getDailySentimentTrends(days: number): Promise<{ date: string; score: string }[]> {
-    const dailyData = [];
-    const today = new Date();
-    
-    // Base sentiment score (can be adjusted or calculated from actual feedback)
-    const baseSentiment = 7.5;
-    
-    // Generate data for each day going backwards from today
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      
-      // Create realistic daily variations (-0.5 to +0.5 from base)
-      const variation = (Math.random() - 0.5) * 1.0;
-      const dayScore = Math.max(6.0, Math.min(9.0, baseSentiment + variation));
-      
-      // Format date as "Day 1", "Day 2", etc.
-      const dayLabel = `Day ${days - i}`;
-      
-      dailyData.push({
-        date: dayLabel,
-        score: dayScore.toFixed(1)
-      });
-    }
-    
-    return dailyData;
+   * Create User
+   * @param user - Username, already-hashed password and role
+   * @returns The newly created user, or undefined when the username is taken
+   */
+  async createUser(user: { username: string; passwordHash: string; role: UserRole }): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      // The unique username index decides, so concurrent sign-ups of one name can't both win
+      const [newUser] = await tx
+        .insert(users)
+        .values(user)
+        .onConflictDoNothing({ target: users.username })
+        .returning(); // Return the created record
+      if (!newUser) return undefined;
+
+      await recordAudit(tx, [{ action: "create", entityType: "user", entityId: newUser.id, after: newUser }]);
+      return newUser;
+    });
   }
   
   /**
-   * Get Priority Items
-   * Fetches all priority items for the impact vs effort matrix
-   * @returns Array of priority items
+   * Create First User
+   * Creates the initial account during first-run setup; it becomes an admin
+   * An advisory lock serializes concurrent setup attempts so only one can win
+   * @param user - Username and already-hashed password
+   * @returns The new user, or undefined when an account already exists
    */
-  async getPriorityItems(): Promise<PriorityItem[]> {
-    return await db.select().from(priorityItems);
+  async createFirstUser(user: { username: string; passwordHash: string }): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('users_first_account'))`);
+
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      if (existing) return undefined;
+
+      const [newUser] = await tx.insert(users).values({ ...user, role: "admin" }).returning();
+      await recordAudit(tx, [{ action: "create", entityType: "user", entityId: newUser.id, after: newUser }]);
+      return newUser;
+    });
   }
   
   /**
-   * Create Priority Item
-   * Inserts a new priority item into the database
-   * @param item - Priority item data to insert
-   * @returns The newly created priority item with generated ID
+   * Update User Role
+   * The last remaining admin can't be demoted; the admin rows are locked
+   * first, so two admins demoting each other can't both see the other one left
+   * @param id - User id
+   * @param role - New role
+   * @returns The updated user (undefined when it doesn't exist), or lastAdmin
+   *   when the change would leave no admin
    */
-  async createPriorityItem(item: InsertPriorityItem): Promise<PriorityItem> {
-    const [newItem] = await db
-      .insert(priorityItems)
-      .values(item)
-      .returning(); // Return the created record
-    return newItem;
+  async updateUserRole(id: string, role: UserRole): Promise<RoleUpdateResult> {
+    return await db.transaction(async (tx) => {
+      const admins = role === "admin"
+        ? []
+        : await tx.select({ id: users.id }).from(users).where(eq(users.role, "admin")).orderBy(users.id).for("update");
+
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!before) return { lastAdmin: false, user: undefined };
+      if (before.role === "admin" && role !== "admin" && admins.length <= 1) {
+        return { lastAdmin: true };
+      }
+
+      const [updated] = await tx
+        .update(users)
+        .set({ role })
+        .where(eq(users.id, id))
+        .returning();
+      await recordUpdate(tx, "user", before, updated);
+      return { lastAdmin: false, user: updated };
+    });
   }
   
   /**
-   * Get AI Insights
-   * Fetches AI-generated insights ordered by creation date
-   * @returns Array of AI insights (newest first)
+   * Get Dashboard Period Stats
+   * Computes the dashboard KPIs for the last N days and for the N days before that
+   * - Sentiment, volume and responses come from feedback received in each window
+   * - Active users average the weekly usage metrics whose week starts in each window
+   * @param days - Window length in days
+   * @returns KPI values for the current and the previous window
    */
-  async getAIInsights(): Promise<AIInsight[]> {
-    return await db
-      .select()
-      .from(aiInsights)
-      .orderBy(desc(aiInsights.createdAt)); // Sort by newest first
+  async getDashboardPeriodStats(days: number): Promise<{ current: DashboardPeriodStats; previous: DashboardPeriodStats }> {
+    const windowMs = days * 24 * 60 * 60 * 1000;
+    const currentStart = new Date(Date.now() - windowMs);
+    const previousStart = new Date(currentStart.getTime() - windowMs);
+
+    const inCurrent = gte(feedback.timestamp, currentStart);
+    const inPrevious = lt(feedback.timestamp, currentStart);
+    const responded = sql`${feedback.respondedAt} is not null`;
+
+    const [feedbackStats] = await db
+      .select({
+        currentScore: sql<number | null>`(avg(${feedbackScore}) filter (where ${inCurrent}))::float8`,
+        currentCount: sql<number>`(count(*) filter (where ${inCurrent}))::int`,
+        currentResponded: sql<number>`(count(*) filter (where ${inCurrent} and ${responded}))::int`,
+        previousScore: sql<number | null>`(avg(${feedbackScore}) filter (where ${inPrevious}))::float8`,
+        previousCount: sql<number>`(count(*) filter (where ${inPrevious}))::int`,
+        previousResponded: sql<number>`(count(*) filter (where ${inPrevious} and ${responded}))::int`,
+      })
+      .from(feedback)
+      .where(and(activeFeedback, gte(feedback.timestamp, previousStart)));
+
+    // Usage metrics are weekly; compare by the day each week starts
+    const currentDay = currentStart.toISOString().slice(0, 10);
+    const previousDay = previousStart.toISOString().slice(0, 10);
+
+    const [usageStats] = await db
+      .select({
+        current: sql<number | null>`(avg(${usageMetrics.dailyActiveUsers}) filter (where ${gte(usageMetrics.weekStart, currentDay)}))::float8`,
+        previous: sql<number | null>`(avg(${usageMetrics.dailyActiveUsers}) filter (where ${lt(usageMetrics.weekStart, currentDay)}))::float8`,
+      })
+      .from(usageMetrics)
+      .where(gte(usageMetrics.weekStart, previousDay));
+
+    return {
+      current: {
+        avgSentiment: feedbackStats.currentScore,
+        feedbackCount: feedbackStats.currentCount,
+        respondedCount: feedbackStats.currentResponded,
+        activeUsers: usageStats.current,
+      },
+      previous: {
+        avgSentiment: feedbackStats.previousScore,
+        feedbackCount: feedbackStats.previousCount,
+        respondedCount: feedbackStats.previousResponded,
+        activeUsers: usageStats.previous,
+      },
+    };
   }
   
   /**
-   * Create AI Insight
-   * Inserts a new AI-generated insight into the database
-   * TODO: Replace manual insertion with OpenAI API integration
-   * @param insight - AI insight data to insert
-   * @returns The newly created insight with generated ID
+   * Get Regional Sentiment Data
+   * Serves per-region sentiment from the regional_sentiment cache,
+   * recomputing the window from feedback when the cache is empty or stale
+   * @param days - Aggregation window in days (default: 30)
+   * @returns One row per region with feedback in the window, sorted by region
    */
-  async createAIInsight(insight: InsertAIInsight): Promise<AIInsight> {
-    const [newInsight] = await db
-      .insert(aiInsights)
-      .values(insight)
-      .returning(); // Return the created record
-    return newInsight;
+  async getRegionalSentiment(days: RegionalSentimentWindow = 30): Promise<RegionalSentiment[]> {
+    const cached = await db
+      .select()
+      .from(regionalSentiment)
+      .where(eq(regionalSentiment.windowDays, days))
+      .orderBy(regionalSentiment.region);
+
+    const staleBefore = Date.now() - REGIONAL_CACHE_TTL_MS;
+    if (cached.length > 0 && cached.every((row) => row.updatedAt.getTime() > staleBefore)) {
+      return cached;
+    }
+
+    return await refreshRegionalSentimentWindow(days);
   }
   
   /**
-   * Get Impact Metrics
-   * Fetches all before/after impact metrics
-   * @returns Array of impact metrics
+   * Refresh Regional Sentiment
+   * Recomputes the regional_sentiment cache for every window right away
+   * (feedback writes schedule a deferred refresh instead; used by the seed)
    */
-  async getImpactMetrics(): Promise<ImpactMetric[]> {
-    return await db.select().from(impactMetrics);
+  async refreshRegionalSentiment(): Promise<void> {
+    for (const days of regionalSentimentWindows) {
+      await refreshRegionalSentimentWindow(days);
+    }
   }
   
   /**
-   * Get Usage Metrics
-   * Fetches user engagement metrics over time
-   * @returns Array of usage metrics
+   * Get Recent Feedback
+   * Fetches the most recent customer feedback entries
+   * @param limit - Maximum number of feedback items to return (default: 10)
+   * @returns Array of feedback items ordered by timestamp (newest first)
    */
-  async getUsageMetrics(): Promise<UsageMetric[]> {
-    return await db.select().from(usageMetrics);
+  async getRecentFeedback(limit: number = 10): Promise<Feedback[]> {
+    return await db
+      .select()
+      .from(feedback)
+      .where(activeFeedback)
+      .orderBy(desc(feedback.timestamp)) // Sort by newest first
+      .limit(limit);
   }
   
   /**
-   * Get Channels
-   * Fetches all integrated communication channels
-   * @returns Array of channel data
+   * Get Feedback By Ids
+   * @param ids - Feedback ids
+   * @returns The entries that exist and aren't in the trash, in the order of ids
    */
-  async getChannels(): Promise<Channel[]> {
-    return await db.select().from(channels);
+  async getFeedbackByIds(ids: string[]): Promise<Feedback[]> {
+    if (ids.length === 0) return [];
+    const rows = await db.select().from(feedback).where(and(activeFeedback, inArray(feedback.id, ids)));
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    return ids.flatMap((id) => rowsById.get(id) ?? []);
   }
-  
+
+  /**
+   * Search Feedback
+   * Filters, sorts and paginates feedback for the feedback explorer
+   * Uses keyset (cursor) pagination on the sort column plus id, so pages stay
+   * stable while new feedback arrives
+   * @param query - Filters, sort column and direction, cursor and page size
+   * @returns One page of feedback, the cursor for the next page and the total match count
+   * @throws RangeError when the cursor is malformed
+   */
+  async searchFeedback(query: FeedbackQuery): Promise<FeedbackPage> {
+    const filters = buildFeedbackFilters(query);
+    const page = await selectFeedbackPage(filters, query.sort, query.order, query.cursor, query.limit);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(feedback)
+      .where(filters);
+
+    return { ...page, total };
+  }
+  
+  /**
+   * Stream Feedback
+   * Walks every feedback entry matching the filters in export-sized batches,
+   * so exports never hold the full result set in memory
+   * @param query - Same filters and sort order as the feedback explorer
+   * @returns Async iterator of feedback batches in sort order
+   */
+  async *streamFeedback(query: FeedbackExportQuery): AsyncGenerator<Feedback[]> {
+    const filters = buildFeedbackFilters(query);
+    let cursor: string | undefined;
+
+    do {
+      const page = await selectFeedbackPage(filters, query.sort, query.order, cursor, EXPORT_BATCH_SIZE);
+      if (page.items.length > 0) {
+        yield page.items;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Get Feedback Arrivals
+   * Feedback in the order it was stored, for the live feedback stream
+   * Each entry's event id is a cursor on (arrivalXid, id); passing it back as
+   * `after` resumes right behind that entry. Rows become visible when their
+   * transaction commits, not in id order, so only rows stored by transactions
+   * older than every one still running are returned: nothing can later appear
+   * behind the cursor (a long import holds back entries stored after it
+   * started until it finishes)
+   * @param filters - Optional source and region
+   * @param after - Event id of the last entry already sent; omit for the latest entries
+   * @param limit - Maximum number of entries
+   * @returns Entries oldest first
+   * @throws RangeError when `after` is not an event id
+   */
+  async getFeedbackArrivals(
+    filters: FeedbackStreamQuery,
+    after: string | undefined,
+    limit: number,
+  ): Promise<FeedbackStreamEvent[]> {
+    const conditions = and(
+      activeFeedback,
+      filters.source ? eq(feedback.source, filters.source) : undefined,
+      filters.region ? eq(feedback.region, filters.region) : undefined,
+      sql`${feedback.arrivalXid} < pg_snapshot_xmin(pg_current_snapshot())::text::bigint`,
+    );
+    const cursorKey = sql<string>`${feedback.arrivalXid}::text`;
+
+    let rows: { entry: Feedback; cursorKey: string }[];
+    if (after) {
+      const decoded = decodeCursor(after, "bigint");
+      rows = await db
+        .select({ entry: feedback, cursorKey })
+        .from(feedback)
+        .where(and(
+          conditions,
+          sql`(${feedback.arrivalXid}, ${feedback.id}) > (cast(${decoded.key} as bigint), ${decoded.id})`,
+        ))
+        .orderBy(feedback.arrivalXid, feedback.id)
+        .limit(limit);
+    } else {
+      // No resume point: the latest entries, flipped to oldest first
+      rows = await db
+        .select({ entry: feedback, cursorKey })
+        .from(feedback)
+        .where(conditions)
+        .orderBy(desc(feedback.arrivalXid), desc(feedback.id))
+        .limit(limit);
+      rows.reverse();
+    }
+
+    return rows.map((row) => ({ eventId: encodeCursor(row.cursorKey, row.entry.id), feedback: row.entry }));
+  }
+  
+  /**
+   * Create New Feedback
+   * Inserts a new customer feedback entry and tags it with the topics
+   * found in its text, in a single transaction
+   * @param insertFeedback - Feedback data to insert
+   * @returns The newly created feedback entry with generated ID
+   */
+  async createFeedback(insertFeedback: InsertFeedback): Promise<Feedback> {
+    const newFeedback = await db.transaction(async (tx) => {
+      const [inserted] = await insertFeedbackRows(tx, [insertFeedback]);
+      return inserted;
+    });
+    scheduleRegionalRefresh();
+    return newFeedback;
+  }
+  
+  /**
+   * Update Feedback
+   * Applies changes to a feedback entry; when the text changes its topics
+   * are re-tagged in the same transaction
+   * @param id - Feedback id
+   * @param changes - Column changes (sentiment fields already recomputed by the caller)
+   * @returns The updated feedback entry, or undefined when it doesn't exist
+   */
+  async updateFeedback(id: string, changes: Partial<InsertFeedback>): Promise<Feedback | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(feedback)
+        .where(and(eq(feedback.id, id), activeFeedback))
+        .for("update");
+      if (!before) return undefined;
+
+      const [entry] = await tx
+        .update(feedback)
+        .set(changes)
+        .where(eq(feedback.id, id))
+        .returning();
+      if (changes.text !== undefined) {
+        await tx.delete(feedbackTopics).where(eq(feedbackTopics.feedbackId, id));
+        await tagFeedbackTopics(tx, [entry]);
+      }
+      await recordUpdate(tx, "feedback", before, entry);
+      return entry;
+    });
+    if (updated) {
+      scheduleRegionalRefresh();
+    }
+    return updated;
+  }
+  
+  /**
+   * Delete Feedback
+   * Moves a feedback entry to the trash; it stops counting everywhere but can be restored
+   * @param id - Feedback id
+   * @param deletedBy - Id of the user deleting it
+   * @returns Whether an entry was moved to the trash
+   */
+  async deleteFeedback(id: string, deletedBy: string | null): Promise<boolean> {
+    const deleted = await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(feedback)
+        .set({ deletedAt: sql`now()`, deletedBy })
+        .where(and(eq(feedback.id, id), activeFeedback))
+        .returning();
+      if (!entry) return false;
+
+      // The trash columns just changed; audit the entry as it was before deletion
+      await recordAudit(tx, [
+        { action: "delete", entityType: "feedback", entityId: id, before: { ...entry, deletedAt: null, deletedBy: null } },
+      ]);
+      return true;
+    });
+    if (!deleted) return false;
+
+    scheduleRegionalRefresh();
+    return true;
+  }
+  
+  /**
+   * Mark Feedback Responded
+   * Records that the team responded to a feedback entry; the first response time is kept
+   * @param id - Feedback id
+   * @returns The updated feedback entry, or undefined when it doesn't exist
+   */
+  async markFeedbackResponded(id: string): Promise<Feedback | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(feedback)
+        .where(and(eq(feedback.id, id), activeFeedback))
+        .for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(feedback)
+        .set({ respondedAt: sql`coalesce(${feedback.respondedAt}, now())` })
+        .where(eq(feedback.id, id))
+        .returning();
+      await recordUpdate(tx, "feedback", before, updated);
+      return updated;
+    });
+  }
+  
+  /**
+   * Import Feedback
+   * Bulk-inserts validated feedback in batches within a single transaction,
+   * so an import is saved completely or not at all and can be retried safely
+   * @param rows - Validated feedback entries (optionally with original timestamps)
+   * @returns Number of feedback entries inserted
+   */
+  async importFeedback(rows: ImportFeedbackRow[]): Promise<number> {
+    const imported = await db.transaction(async (tx) => {
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        await insertFeedbackRows(tx, rows.slice(start, start + IMPORT_BATCH_SIZE));
+      }
+      return rows.length;
+    });
+    if (imported > 0) {
+      scheduleRegionalRefresh();
+    }
+    return imported;
+  }
+  
+  /**
+   * Get Topic Summaries
+   * Aggregates topic mentions on feedback received in the last N days
+   * @param days - Size of the time window in days
+   * @returns Per-topic volume and sentiment, most negative mentions first
+   */
+  async getTopicSummaries(days: number): Promise<TopicSummary[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const rows = await db
+      .select({
+        topic: feedbackTopics.topic,
+        volume: sql<number>`count(*)::int`,
+        avgScore: sql<string>`round(avg(${feedbackTopics.sentimentScore}), 1)::text`,
+        positive: sql<number>`count(*) filter (where ${feedbackTopics.sentiment} = 'positive')::int`,
+        neutral: sql<number>`count(*) filter (where ${feedbackTopics.sentiment} = 'neutral')::int`,
+        negative: sql<number>`count(*) filter (where ${feedbackTopics.sentiment} = 'negative')::int`,
+      })
+      .from(feedbackTopics)
+      .innerJoin(feedback, eq(feedbackTopics.feedbackId, feedback.id))
+      .where(and(activeFeedback, gte(feedback.timestamp, since)))
+      .groupBy(feedbackTopics.topic);
+
+    return rows
+      .map((row) => ({
+        ...row,
+        label: getTopicLabel(row.topic),
+        negativeShare: row.volume > 0 ? row.negative / row.volume : 0,
+      }))
+      .sort((a, b) => b.negative - a.negative || b.negativeShare - a.negativeShare);
+  }
+  
+  /**
+   * Get Sentiment Trends
+   * Fetches historical sentiment trend data for charts
+   * @returns Array of sentiment trend data points
+   */
+  async getSentimentTrends(): Promise<SentimentTrend[]> {
+    return await db.select().from(sentimentTrends);
+  }
+  
+  /**
+   * Get Daily Sentiment Trends
+   * Aggregates feedback by calendar day in the given time zone
+   * Days without any feedback are included and marked with hasData: false
+   * @param days - Number of days to aggregate, ending today
+   * @param timeZone - IANA time zone used to decide day boundaries (default: "UTC")
+   * @param segment - Only count feedback about this topic (using the aspect-level
+   *   sentiment), from this region or from this source (default: all feedback)
+   * @returns Array of daily sentiment data points ordered oldest first
+   */
+  async getDailySentimentTrends(days: number, timeZone: string = "UTC", segment?: FeedbackSegment): Promise<DailySentimentTrend[]> {
+    const dayRange = getLocalDayRange(days, timeZone);
+    const byTopic = segment?.dimension === "topic";
+    const score = byTopic ? sql<number>`${feedbackTopics.sentimentScore}` : feedbackScore;
+    const sentiment = byTopic ? feedbackTopics.sentiment : feedback.sentiment;
+    const segmentColumn = !segment ? undefined
+      : segment.dimension === "topic" ? feedbackTopics.topic
+      : segment.dimension === "region" ? feedback.region
+      : feedback.source;
+
+    // Timestamps are stored as UTC; shift them into the requested zone before taking the date
+    const localDay = sql<string>`to_char((${feedback.timestamp} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD')`;
+
+    // Pre-filter with a one-day margin on each side, then keep only days inside the range
+    const since = new Date(`${dayRange[0]}T00:00:00Z`);
+    since.setUTCDate(since.getUTCDate() - 1);
+
+    const query = db
+      .select({
+        date: localDay,
+        score: sql<string>`round(avg(${score}), 1)::text`,
+        positive: sql<number>`count(*) filter (where ${sentiment} = 'positive')::int`,
+        neutral: sql<number>`count(*) filter (where ${sentiment} = 'neutral')::int`,
+        negative: sql<number>`count(*) filter (where ${sentiment} = 'negative')::int`,
+        total: sql<number>`count(*)::int`,
+      })
+      .from(feedback)
+      .$dynamic();
+    const rows = await (byTopic ? query.innerJoin(feedbackTopics, eq(feedbackTopics.feedbackId, feedback.id)) : query)
+      .where(and(
+        activeFeedback,
+        gte(feedback.timestamp, since),
+        segmentColumn && segment ? eq(segmentColumn, segment.key) : undefined,
+      ))
+      .groupBy(sql`1`); // Group by the first select column (the local day)
+
+    const rowsByDay = new Map(rows.map((row) => [row.date, row]));
+
+    // Fill every day in the range, marking days without feedback explicitly
+    return dayRange.map((date) => {
+      const row = rowsByDay.get(date);
+      if (!row) {
+        return { date, score: null, positive: 0, neutral: 0, negative: 0, total: 0, hasData: false };
+      }
+      return {
+        date,
+        score: row.score,
+        positive: row.positive,
+        neutral: row.neutral,
+        negative: row.negative,
+        total: row.total,
+        hasData: true,
+      };
+    });
+  }
+  
+  /**
+   * Get Priority Items
+   * Fetches all priority items for the impact vs effort matrix
+   * @returns Array of priority items
+   */
+  async getPriorityItems(): Promise<PriorityItem[]> {
+    return await db.select().from(priorityItems).where(activePriorityItems);
+  }
+
+  /**
+   * Get Priority Item
+   * @param id - Priority item id
+   * @returns The item, or undefined when it doesn't exist or is in the trash
+   */
+  async getPriorityItem(id: string): Promise<PriorityItem | undefined> {
+    const [item] = await db.select().from(priorityItems).where(and(eq(priorityItems.id, id), activePriorityItems));
+    return item;
+  }
+  
+  /**
+   * Create Priority Item
+   * Inserts a new priority item into the database and scores it
+   * @param item - Priority item data to insert
+   * @returns The newly created priority item with generated ID
+   */
+  async createPriorityItem(item: InsertPriorityItem): Promise<PriorityItem> {
+    return await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(priorityItems)
+        .values(item)
+        .returning(); // Return the created record
+      const newItem = await storeScore(tx, inserted);
+      await recordAudit(tx, [{ action: "create", entityType: "priority_item", entityId: newItem.id, after: newItem }]);
+      return newItem;
+    });
+  }
+  
+  /**
+   * Update Priority Item
+   * Changes an item and rescores it; a new rank is refused while auto-rank is
+   * on, since ranks then follow the scores (see refreshPriorityScores)
+   * @param id - Priority item id
+   * @param changes - Fields to change
+   * @returns The updated priority item (undefined when it doesn't exist), or
+   *   autoRanked when the changes set a new rank while auto-rank is on
+   */
+  async updatePriorityItem(id: string, changes: UpdatePriorityItem): Promise<PriorityItemUpdateResult> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(priorityItems)
+        .where(and(eq(priorityItems.id, id), activePriorityItems))
+        .for("update");
+      if (!before) return { autoRanked: false, item: undefined };
+
+      const { autoRank } = await loadScoringSettings(tx);
+      if (autoRank && changes.rank !== undefined && changes.rank !== before.rank) {
+        return { autoRanked: true };
+      }
+      if (Object.values(changes).every((value) => value === undefined)) {
+        return { autoRanked: false, item: before }; // Nothing to change
+      }
+
+      const [changed] = await tx
+        .update(priorityItems)
+        .set(changes)
+        .where(eq(priorityItems.id, id))
+        .returning();
+      const updated = await storeScore(tx, changed);
+      await recordUpdate(tx, "priority_item", before, updated);
+      return { autoRanked: false, item: updated };
+    });
+  }
+  
+  /**
+   * Delete Priority Item
+   * Moves a priority item to the trash
+   * @param id - Priority item id
+   * @param deletedBy - Id of the user deleting it
+   * @returns Whether an item was moved to the trash
+   */
+  async deletePriorityItem(id: string, deletedBy: string | null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .update(priorityItems)
+        .set({ deletedAt: sql`now()`, deletedBy })
+        .where(and(eq(priorityItems.id, id), activePriorityItems))
+        .returning();
+      if (!item) return false;
+
+      // The trash columns just changed; audit the item as it was before deletion
+      await recordAudit(tx, [
+        { action: "delete", entityType: "priority_item", entityId: id, before: { ...item, deletedAt: null, deletedBy: null } },
+      ]);
+      return true;
+    });
+  }
+  
+  /**
+   * Refresh Priority Scores
+   * Rescores every item with the workspace's scoring settings and, while
+   * auto-rank is on, ranks them by score (highest first, ties keep their order)
+   * @param audit - Audit every changed item (default: true); scheduled rescoring
+   *   turns this off so demand drift doesn't flood the audit log
+   * @returns The items whose rank changed
+   */
+  async refreshPriorityScores(audit: boolean = true): Promise<RankChange[]> {
+    return await db.transaction(async (tx) => {
+      const settings = await loadScoringSettings(tx);
+      const items = await tx
+        .select()
+        .from(priorityItems)
+        .where(activePriorityItems)
+        .orderBy(priorityItems.rank, priorityItems.id)
+        .for("update");
+
+      const demand = settings.demandBoost
+        ? await loadCustomerDemand(tx, items.map((item) => item.id))
+        : new Map<string, CustomerDemand>();
+      const scored = items.map((item) => ({
+        before: item,
+        score: scorePriorityItem(item, settings, demand.get(item.id)).score,
+      }));
+      if (settings.autoRank) {
+        scored.sort((a, b) => b.score - a.score); // Stable, so ties keep their rank order
+      }
+
+      const rankChanges: RankChange[] = [];
+      for (let index = 0; index < scored.length; index++) {
+        const { before, score } = scored[index];
+        const rank = settings.autoRank ? index + 1 : before.rank;
+        if (score === before.score && rank === before.rank) continue;
+
+        const [after] = await tx
+          .update(priorityItems)
+          .set({ score, rank })
+          .where(eq(priorityItems.id, before.id))
+          .returning();
+        if (audit) {
+          await recordUpdate(tx, "priority_item", before, after);
+        }
+        if (rank !== before.rank) {
+          rankChanges.push({ before, after });
+        }
+      }
+      return rankChanges;
+    });
+  }
+  
+  /**
+   * Get Customer Demand
+   * @param itemIds - Priority item ids
+   * @returns The feedback behind each item (see loadCustomerDemand)
+   */
+  async getCustomerDemand(itemIds: string[]): Promise<Map<string, CustomerDemand>> {
+    return await loadCustomerDemand(db, itemIds);
+  }
+  
+  /**
+   * Get Priority Item Links
+   * @param id - Priority item id
+   * @returns The item's attached feedback and topics, or undefined when the item doesn't exist
+   */
+  async getPriorityItemLinks(id: string): Promise<PriorityItemLinks | undefined> {
+    const item = await this.getPriorityItem(id);
+    if (!item) return undefined;
+
+    const linkedFeedback = await db
+      .select({ entry: feedback })
+      .from(priorityItemFeedback)
+      .innerJoin(feedback, eq(priorityItemFeedback.feedbackId, feedback.id))
+      .where(and(eq(priorityItemFeedback.priorityItemId, id), activeFeedback))
+      .orderBy(desc(feedback.timestamp));
+    const topics = await db
+      .select({ topic: priorityItemTopics.topic })
+      .from(priorityItemTopics)
+      .where(eq(priorityItemTopics.priorityItemId, id))
+      .orderBy(priorityItemTopics.linkedAt);
+
+    return {
+      feedback: linkedFeedback.map((row) => row.entry),
+      topics: topics.map((row) => ({ topic: row.topic, label: getTopicLabel(row.topic) })),
+    };
+  }
+  
+  /**
+   * Link Priority Feedback
+   * Attaches feedback entries to a priority item; entries already attached,
+   * unknown or in the trash are skipped
+   * @param id - Priority item id
+   * @param feedbackIds - Feedback ids to attach
+   * @param linkedBy - User attaching them
+   * @returns How many entries were attached, or undefined when the item doesn't exist
+   */
+  async linkPriorityFeedback(id: string, feedbackIds: string[], linkedBy: string | null): Promise<number | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select({ id: priorityItems.id })
+        .from(priorityItems)
+        .where(and(eq(priorityItems.id, id), activePriorityItems))
+        .for("update");
+      if (!item) return undefined;
+
+      const entries = await tx
+        .select({ id: feedback.id })
+        .from(feedback)
+        .where(and(inArray(feedback.id, feedbackIds), activeFeedback));
+      if (entries.length === 0) return 0;
+
+      const links = await tx
+        .insert(priorityItemFeedback)
+        .values(entries.map((entry) => ({ priorityItemId: id, feedbackId: entry.id, linkedBy })))
+        .onConflictDoNothing()
+        .returning();
+      await recordAudit(
+        tx,
+        links.map((link): AuditEntry => ({ action: "create", entityType: "priority_link", entityId: link.id, after: link })),
+      );
+      return links.length;
+    });
+  }
+  
+  /**
+   * Unlink Priority Feedback
+   * @param id - Priority item id
+   * @param feedbackId - Attached feedback id
+   * @returns Whether the entry was attached
+   */
+  async unlinkPriorityFeedback(id: string, feedbackId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [link] = await tx
+        .delete(priorityItemFeedback)
+        .where(and(eq(priorityItemFeedback.priorityItemId, id), eq(priorityItemFeedback.feedbackId, feedbackId)))
+        .returning();
+      if (!link) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "priority_link", entityId: link.id, before: link }]);
+      return true;
+    });
+  }
+  
+  /**
+   * Link Priority Topic
+   * @param id - Priority item id
+   * @param topic - Topic id from the taxonomy
+   * @param linkedBy - User linking it
+   * @returns The link (the existing one when the topic was already linked), or
+   *   undefined when the item doesn't exist
+   */
+  async linkPriorityTopic(id: string, topic: string, linkedBy: string | null): Promise<PriorityItemTopic | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select({ id: priorityItems.id })
+        .from(priorityItems)
+        .where(and(eq(priorityItems.id, id), activePriorityItems))
+        .for("update");
+      if (!item) return undefined;
+
+      const [link] = await tx
+        .insert(priorityItemTopics)
+        .values({ priorityItemId: id, topic, linkedBy })
+        .onConflictDoNothing()
+        .returning();
+      if (!link) {
+        const [existing] = await tx
+          .select()
+          .from(priorityItemTopics)
+          .where(and(eq(priorityItemTopics.priorityItemId, id), eq(priorityItemTopics.topic, topic)));
+        return existing;
+      }
+
+      await recordAudit(tx, [{ action: "create", entityType: "priority_link", entityId: link.id, after: link }]);
+      return link;
+    });
+  }
+  
+  /**
+   * Unlink Priority Topic
+   * @param id - Priority item id
+   * @param topic - Linked topic id
+   * @returns Whether the topic was linked
+   */
+  async unlinkPriorityTopic(id: string, topic: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [link] = await tx
+        .delete(priorityItemTopics)
+        .where(and(eq(priorityItemTopics.priorityItemId, id), eq(priorityItemTopics.topic, topic)))
+        .returning();
+      if (!link) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "priority_link", entityId: link.id, before: link }]);
+      return true;
+    });
+  }
+  
+  /**
+   * Get Scoring Settings
+   * @returns The workspace's scoring model and weights
+   */
+  async getScoringSettings(): Promise<ScoringSettings> {
+    return await loadScoringSettings(db);
+  }
+  
+  /**
+   * Update Scoring Settings
+   * Saves the workspace's scoring settings; items are not rescored here
+   * (see refreshPriorityScores)
+   * @param changes - Fields to change
+   * @returns The saved settings
+   */
+  async updateScoringSettings(changes: UpdateScoringSettings): Promise<ScoringSettings> {
+    return await db.transaction(async (tx) => {
+      const before = await loadScoringSettings(tx);
+      const [after] = await tx
+        .insert(scoringSettings)
+        .values({ ...before, ...changes, updatedAt: new Date() })
+        .onConflictDoUpdate({ target: scoringSettings.id, set: { ...changes, updatedAt: new Date() } })
+        .returning();
+      await recordUpdate(tx, "scoring_settings", before, after);
+      return after;
+    });
+  }
+  
+  /**
+   * Get Audit Events
+   * Filters the audit log and pages through it newest first using keyset
+   * pagination on (occurredAt, id)
+   * @param query - Filters, cursor and page size
+   * @returns One page of events and the cursor for the next page
+   * @throws RangeError when the cursor is malformed
+   */
+  async getAuditEvents(query: AuditQuery): Promise<AuditPage> {
+    let after: SQL | undefined;
+    if (query.cursor) {
+      const decoded = decodeCursor(query.cursor, "timestamp");
+      after = sql`(${auditEvents.occurredAt}, ${auditEvents.id}) < (cast(${decoded.key} as timestamp), ${decoded.id})`;
+    }
+
+    // Fetch one extra row to learn whether another page exists; the cursor key is
+    // read as text so it keeps the timestamp's full (microsecond) precision
+    const rows = await db
+      .select({ event: auditEvents, cursorKey: sql<string>`${auditEvents.occurredAt}::text` })
+      .from(auditEvents)
+      .where(and(
+        query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+        query.entityId ? eq(auditEvents.entityId, query.entityId) : undefined,
+        query.action ? eq(auditEvents.action, query.action) : undefined,
+        query.actor ? eq(auditEvents.actorUsername, query.actor) : undefined,
+        query.requestId ? eq(auditEvents.requestId, query.requestId) : undefined,
+        query.from ? gte(auditEvents.occurredAt, query.from) : undefined,
+        query.to ? lt(auditEvents.occurredAt, query.to) : undefined,
+        after,
+      ))
+      .orderBy(desc(auditEvents.occurredAt), desc(auditEvents.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((row) => row.event),
+      nextCursor: rows.length > query.limit && last ? encodeCursor(last.cursorKey, last.event.id) : null,
+    };
+  }
+  
+  /**
+   * Get Trash
+   * Fetches soft-deleted feedback and priority items with who deleted them
+   * @returns Trashed records, most recently deleted first
+   */
+  async getTrash(): Promise<Omit<TrashContents, "retentionDays">> {
+    const trashedFeedback = await db
+      .select({ record: feedback, deletedByUsername: users.username })
+      .from(feedback)
+      .leftJoin(users, eq(feedback.deletedBy, users.id))
+      .where(isNotNull(feedback.deletedAt))
+      .orderBy(desc(feedback.deletedAt));
+
+    const trashedItems = await db
+      .select({ record: priorityItems, deletedByUsername: users.username })
+      .from(priorityItems)
+      .leftJoin(users, eq(priorityItems.deletedBy, users.id))
+      .where(isNotNull(priorityItems.deletedAt))
+      .orderBy(desc(priorityItems.deletedAt));
+
+    return {
+      feedback: trashedFeedback.map((row) => ({ ...row.record, deletedByUsername: row.deletedByUsername })),
+      priorityItems: trashedItems.map((row) => ({ ...row.record, deletedByUsername: row.deletedByUsername })),
+    };
+  }
+  
+  /**
+   * Restore Feedback
+   * Takes a feedback entry out of the trash
+   * @param id - Feedback id
+   * @returns The restored entry, or undefined when it isn't in the trash
+   */
+  async restoreFeedback(id: string): Promise<Feedback | undefined> {
+    const restored = await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(feedback)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(and(eq(feedback.id, id), isNotNull(feedback.deletedAt)))
+        .returning();
+      if (entry) {
+        await recordAudit(tx, [{ action: "restore", entityType: "feedback", entityId: id, after: entry }]);
+      }
+      return entry;
+    });
+    if (restored) {
+      scheduleRegionalRefresh();
+    }
+    return restored;
+  }
+  
+  /**
+   * Restore Priority Item
+   * Takes a priority item out of the trash
+   * @param id - Priority item id
+   * @returns The restored item, or undefined when it isn't in the trash
+   */
+  async restorePriorityItem(id: string): Promise<PriorityItem | undefined> {
+    return await db.transaction(async (tx) => {
+      const [restored] = await tx
+        .update(priorityItems)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(and(eq(priorityItems.id, id), isNotNull(priorityItems.deletedAt)))
+        .returning();
+      if (!restored) return undefined;
+
+      // Scoring settings may have changed while the item was in the trash
+      const item = await storeScore(tx, restored);
+      await recordAudit(tx, [{ action: "restore", entityType: "priority_item", entityId: id, after: item }]);
+      return item;
+    });
+  }
+  
+  /**
+   * Purge Feedback
+   * Permanently deletes a trashed feedback entry (its topics are removed by the foreign key cascade)
+   * @param id - Feedback id
+   * @returns Whether an entry was purged; entries outside the trash are never purged
+   */
+  async purgeFeedback(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const purged = await tx
+        .delete(feedback)
+        .where(and(eq(feedback.id, id), isNotNull(feedback.deletedAt)))
+        .returning();
+      await recordAudit(
+        tx,
+        purged.map((entry): AuditEntry => ({ action: "purge", entityType: "feedback", entityId: entry.id, before: entry })),
+      );
+      return purged.length > 0;
+    });
+  }
+  
+  /**
+   * Purge Priority Item
+   * Permanently deletes a trashed priority item
+   * @param id - Priority item id
+   * @returns Whether an item was purged; items outside the trash are never purged
+   */
+  async purgePriorityItem(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const purged = await tx
+        .delete(priorityItems)
+        .where(and(eq(priorityItems.id, id), isNotNull(priorityItems.deletedAt)))
+        .returning();
+      await recordAudit(
+        tx,
+        purged.map((item): AuditEntry => ({ action: "purge", entityType: "priority_item", entityId: item.id, before: item })),
+      );
+      return purged.length > 0;
+    });
+  }
+  
+  /**
+   * Purge Trash
+   * Permanently deletes everything that was moved to the trash before the cutoff
+   * @param deletedBefore - Cutoff; rows deleted earlier are purged
+   * @returns Number of purged rows per table
+   */
+  async purgeTrash(deletedBefore: Date): Promise<{ feedback: number; priorityItems: number }> {
+    return await db.transaction(async (tx) => {
+      const purgedFeedback = await tx
+        .delete(feedback)
+        .where(lt(feedback.deletedAt, deletedBefore))
+        .returning();
+      const purgedItems = await tx
+        .delete(priorityItems)
+        .where(lt(priorityItems.deletedAt, deletedBefore))
+        .returning();
+
+      await recordAudit(tx, [
+        ...purgedFeedback.map((entry): AuditEntry => ({ action: "purge", entityType: "feedback", entityId: entry.id, before: entry })),
+        ...purgedItems.map((item): AuditEntry => ({ action: "purge", entityType: "priority_item", entityId: item.id, before: item })),
+      ]);
+      return { feedback: purgedFeedback.length, priorityItems: purgedItems.length };
+    });
+  }
+  
+  /**
+   * Get AI Insights
+   * Fetches AI-generated insights ordered by creation date
+   * @returns Array of AI insights with the number of feedback entries each cites (newest first)
+   */
+  async getAIInsights(): Promise<AIInsightSummary[]> {
+    const counts = db
+      .select({
+        insightId: aiInsightEvidence.insightId,
+        count: sql<number>`count(*)::int`.as("count"),
+      })
+      .from(aiInsightEvidence)
+      .innerJoin(feedback, eq(feedback.id, aiInsightEvidence.feedbackId))
+      .where(and(eq(aiInsightEvidence.kind, "feedback"), activeFeedback))
+      .groupBy(aiInsightEvidence.insightId)
+      .as("counts");
+
+    const rows = await db
+      .select({ insight: aiInsights, feedbackCount: sql<number>`coalesce(${counts.count}, 0)::int` })
+      .from(aiInsights)
+      .leftJoin(counts, eq(counts.insightId, aiInsights.id))
+      .orderBy(desc(aiInsights.createdAt)); // Sort by newest first
+    return rows.map(({ insight, feedbackCount }) => ({ ...insight, feedbackCount }));
+  }
+
+  /**
+   * Get AI Insight
+   * @param id - Insight id
+   * @returns The insight, or undefined when it doesn't exist
+   */
+  async getAIInsight(id: string): Promise<AIInsight | undefined> {
+    const [insight] = await db.select().from(aiInsights).where(eq(aiInsights.id, id));
+    return insight;
+  }
+
+  /**
+   * Get Dismissed Insights
+   * @returns Generated insights that were dismissed, with the reasons given
+   */
+  async getDismissedInsights(): Promise<DismissedInsight[]> {
+    const rows = await db
+      .select({ fingerprint: aiInsights.fingerprint, title: aiInsights.title, reason: aiInsights.statusReason })
+      .from(aiInsights)
+      .where(and(eq(aiInsights.status, "dismissed"), isNotNull(aiInsights.fingerprint)));
+    return rows.map((row) => ({ ...row, fingerprint: row.fingerprint! }));
+  }
+
+  /**
+   * Get Insight Evidence
+   * Everything an insight cites, plus the recent trend of what its first metric measures
+   * @param id - Insight id
+   * @param trendDays - Number of days in the trend, ending today
+   * @param timeZone - IANA time zone used to decide day boundaries (default: "UTC")
+   * @returns The evidence, or undefined when the insight doesn't exist
+   */
+  async getInsightEvidence(id: string, trendDays: number, timeZone: string = "UTC"): Promise<InsightEvidenceDetail | undefined> {
+    const [insight] = await db.select({ id: aiInsights.id }).from(aiInsights).where(eq(aiInsights.id, id));
+    if (!insight) return undefined;
+
+    const rows = await db
+      .select({ evidence: aiInsightEvidence, feedback })
+      .from(aiInsightEvidence)
+      .leftJoin(feedback, and(eq(feedback.id, aiInsightEvidence.feedbackId), activeFeedback))
+      .where(eq(aiInsightEvidence.insightId, id))
+      .orderBy(aiInsightEvidence.kind, aiInsightEvidence.position);
+
+    const detail: InsightEvidenceDetail = { feedback: [], regions: [], metrics: [], trend: null };
+    for (const { evidence, feedback: entry } of rows) {
+      if (evidence.kind === "feedback" && entry) {
+        detail.feedback.push(entry);
+      } else if (evidence.kind === "region" && evidence.region !== null) {
+        detail.regions.push({ region: evidence.region, count: evidence.count ?? 0, negativeCount: evidence.negativeCount ?? 0 });
+      } else if (evidence.kind === "metric" && evidence.metric !== null && evidence.dimension !== null && evidence.dimensionKey !== null) {
+        detail.metrics.push({
+          metric: evidence.metric as InsightMetric,
+          dimension: evidence.dimension as FeedbackDimension,
+          dimensionKey: evidence.dimensionKey,
+          value: evidence.value ?? 0,
+          baselineValue: evidence.baselineValue,
+          baselineLabel: evidence.baselineLabel,
+        });
+      }
+    }
+
+    const [first] = detail.metrics;
+    if (first) {
+      const segment = { dimension: first.dimension, key: first.dimensionKey };
+      detail.trend = {
+        dimension: segment.dimension,
+        dimensionKey: segment.key,
+        label: segment.dimension === "topic" ? getTopicLabel(segment.key) : segment.key,
+        days: trendDays,
+        daily: await this.getDailySentimentTrends(trendDays, timeZone, segment),
+      };
+    }
+    return detail;
+  }
+  
+  /**
+   * Get Insight Snapshot
+   * Summarizes recent feedback for the insight generator
+   * @param now - End of the window
+   * @param windowDays - Length of the analyzed window
+   * @param baselineDays - Length of the baseline right before the window
+   * @returns Overall numbers and per-topic, per-region and per-source stats
+   */
+  async getInsightSnapshot(now: Date, windowDays: number, baselineDays: number): Promise<InsightSnapshot> {
+    const windowStart = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+    const baselineStart = new Date(windowStart.getTime() - baselineDays * 24 * 60 * 60 * 1000);
+
+    const [overall] = await db
+      .select({
+        volume: sql<number>`count(*)::int`,
+        averageScore: sql<number | null>`avg(${feedbackScore})::float8`,
+      })
+      .from(feedback)
+      .where(and(activeFeedback, gte(feedback.timestamp, windowStart), lt(feedback.timestamp, now)));
+
+    return {
+      baselineStart,
+      windowStart,
+      until: now,
+      volume: overall.volume,
+      averageScore: overall.averageScore,
+      topics: await getInsightGroups("topic", baselineStart, windowStart, now),
+      regions: await getInsightGroups("region", baselineStart, windowStart, now),
+      sources: await getInsightGroups("source", baselineStart, windowStart, now),
+    };
+  }
+
+  /**
+   * Save Generated Insights
+   * Stores an insight generator run: a proposal whose fingerprint is already
+   * known refreshes that insight, any other proposal becomes a new insight;
+   * either way the insight's evidence is replaced with the proposal's
+   * Proposals matching a dismissed insight are skipped, so a rejected
+   * recommendation is not brought back
+   * @param provider - Name of the provider that made the proposals
+   * @param proposals - Proposed insights
+   * @returns The created and the refreshed insights, and how many proposals were skipped
+   */
+  async saveGeneratedInsights(provider: string, proposals: ProposedInsight[]): Promise<GeneratedInsights> {
+    return await db.transaction(async (tx) => {
+      const created: AIInsight[] = [];
+      const refreshed: AIInsight[] = [];
+      let skipped = 0;
+
+      for (const { evidence, ...proposal } of proposals) {
+        const values = { ...proposal, generatedBy: provider };
+        const [existing] = await tx
+          .select()
+          .from(aiInsights)
+          .where(eq(aiInsights.fingerprint, proposal.fingerprint))
+          .for("update");
+
+        if (existing?.status === "dismissed") {
+          skipped++;
+        } else if (existing) {
+          const [updated] = await tx.update(aiInsights).set(values).where(eq(aiInsights.id, existing.id)).returning();
+          await recordUpdate(tx, "ai_insight", existing, updated);
+          await replaceInsightEvidence(tx, updated.id, evidence);
+          refreshed.push(updated);
+        } else {
+          const [inserted] = await tx.insert(aiInsights).values(values).returning();
+          await recordAudit(tx, [{ action: "create", entityType: "ai_insight", entityId: inserted.id, after: inserted }]);
+          await replaceInsightEvidence(tx, inserted.id, evidence);
+          created.push(inserted);
+        }
+      }
+      return { created, refreshed, skipped };
+    });
+  }
+
+  /**
+   * Create AI Insight
+   * Inserts an insight written by hand
+   * @param insight - AI insight data to insert
+   * @returns The newly created insight with generated ID
+   */
+  async createAIInsight(insight: InsertAIInsight): Promise<AIInsight> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(aiInsights)
+        .values(insight)
+        .returning(); // Return the created record
+      await recordAudit(tx, [{ action: "create", entityType: "ai_insight", entityId: created.id, after: created }]);
+      return created;
+    });
+  }
+  
+  /**
+   * Update AI Insight
+   * @param id - Insight id
+   * @param changes - Fields to change
+   * @returns The updated insight, or undefined when it doesn't exist
+   */
+  async updateAIInsight(id: string, changes: UpdateAIInsight): Promise<AIInsight | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(aiInsights).where(eq(aiInsights.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(aiInsights)
+        .set(changes)
+        .where(eq(aiInsights.id, id))
+        .returning();
+      await recordUpdate(tx, "ai_insight", before, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Set AI Insight Status
+   * Accepts, dismisses or reopens an insight
+   * @param id - Insight id
+   * @param change - New status and the reason for it
+   * @param changedBy - User making the change
+   * @returns The updated insight, or undefined when it doesn't exist or was converted
+   */
+  async setAIInsightStatus(id: string, change: UpdateInsightStatus, changedBy: string | null): Promise<AIInsight | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(aiInsights).where(eq(aiInsights.id, id)).for("update");
+      if (!before || before.status === "converted") return undefined; // Converting is final
+
+      const [updated] = await tx
+        .update(aiInsights)
+        .set({
+          status: change.status,
+          statusReason: change.reason || null,
+          statusChangedAt: new Date(),
+          statusChangedBy: changedBy,
+        })
+        .where(eq(aiInsights.id, id))
+        .returning();
+      await recordUpdate(tx, "ai_insight", before, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Convert AI Insight
+   * Creates a priority item from an insight and links the two
+   * @param id - Insight id
+   * @param item - Priority item to create
+   * @param reason - Why the insight was converted
+   * @param changedBy - User converting it
+   * @returns The converted insight and the new item, or undefined when the insight
+   *   doesn't exist or was already converted
+   */
+  async convertAIInsight(
+    id: string,
+    item: InsertPriorityItem,
+    reason: string | undefined,
+    changedBy: string | null,
+  ): Promise<InsightConversion | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(aiInsights).where(eq(aiInsights.id, id)).for("update");
+      if (!before || before.status === "converted") return undefined; // Converting is final
+
+      const [inserted] = await tx.insert(priorityItems).values(item).returning();
+      const priorityItem = await storeScore(tx, inserted);
+      const [insight] = await tx
+        .update(aiInsights)
+        .set({
+          status: "converted",
+          statusReason: reason || null,
+          statusChangedAt: new Date(),
+          statusChangedBy: changedBy,
+          priorityItemId: priorityItem.id,
+        })
+        .where(eq(aiInsights.id, id))
+        .returning();
+
+      await recordAudit(tx, [{ action: "create", entityType: "priority_item", entityId: priorityItem.id, after: priorityItem }]);
+      await recordUpdate(tx, "ai_insight", before, insight);
+      return { insight, priorityItem };
+    });
+  }
+  
+  /**
+   * Delete AI Insight
+   * @param id - Insight id
+   * @returns Whether an insight was deleted
+   */
+  async deleteAIInsight(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(aiInsights)
+        .where(eq(aiInsights.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "ai_insight", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+  
+  /**
+   * Get Impact Metrics
+   * Fetches all before/after impact metrics
+   * @returns Array of impact metrics
+   */
+  async getImpactMetrics(): Promise<ImpactMetric[]> {
+    return await db.select().from(impactMetrics);
+  }
+  
+  /**
+   * Update Impact Metric
+   * @param id - Impact metric id
+   * @param changes - Fields to change
+   * @returns The updated metric, or undefined when it doesn't exist
+   */
+  async updateImpactMetric(id: string, changes: UpdateImpactMetric): Promise<ImpactMetric | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(impactMetrics).where(eq(impactMetrics.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(impactMetrics)
+        .set(changes)
+        .where(eq(impactMetrics.id, id))
+        .returning();
+      await recordUpdate(tx, "impact_metric", before, updated);
+      return updated;
+    });
+  }
+  
+  /**
+   * Delete Impact Metric
+   * @param id - Impact metric id
+   * @returns Whether a metric was deleted
+   */
+  async deleteImpactMetric(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(impactMetrics)
+        .where(eq(impactMetrics.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "impact_metric", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+  
+  /**
+   * Get Usage Metrics
+   * Fetches user engagement metrics over time
+   * @returns Array of usage metrics
+   */
+  async getUsageMetrics(): Promise<UsageMetric[]> {
+    return await db.select().from(usageMetrics);
+  }
+  
+  /**
+   * Update Usage Metric
+   * @param id - Usage metric id
+   * @param changes - Fields to change
+   * @returns The updated metric, or undefined when it doesn't exist
+   */
+  async updateUsageMetric(id: string, changes: UpdateUsageMetric): Promise<UsageMetric | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(usageMetrics).where(eq(usageMetrics.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(usageMetrics)
+        .set(changes)
+        .where(eq(usageMetrics.id, id))
+        .returning();
+      await recordUpdate(tx, "usage_metric", before, updated);
+      return updated;
+    });
+  }
+  
+  /**
+   * Delete Usage Metric
+   * @param id - Usage metric id
+   * @returns Whether a metric was deleted
+   */
+  async deleteUsageMetric(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(usageMetrics)
+        .where(eq(usageMetrics.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "usage_metric", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+  
+  /**
+   * Get Channels
+   * Fetches all integrated communication channels
+   * @returns Array of channel data
+   */
+  async getChannels(): Promise<Channel[]> {
+    return await db.select().from(channels);
+  }
+
+  /**
+   * Get Channel Summaries
+   * Channels with the number of feedback entries received from each over a
+   * time window (matched on feedback source = channel name)
+   * @param days - Window length, ending now
+   * @returns Every channel with its messageCount
+   */
+  async getChannelSummaries(days: number): Promise<(Channel & { messageCount: number })[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const counts = db
+      .select({ source: feedback.source, count: sql<number>`count(*)::int`.as("count") })
+      .from(feedback)
+      .where(and(activeFeedback, gte(feedback.timestamp, since)))
+      .groupBy(feedback.source)
+      .as("counts");
+
+    const rows = await db
+      .select({ channel: channels, messageCount: sql<number>`coalesce(${counts.count}, 0)::int` })
+      .from(channels)
+      .leftJoin(counts, eq(counts.source, channels.name));
+    return rows.map(({ channel, messageCount }) => ({ ...channel, messageCount }));
+  }
+
+  /**
+   * Get Channel Stats
+   * Daily volume and sentiment mix of one channel's feedback
+   * @param channel - Channel whose feedback is counted
+   * @param days - Window length; totals cover the last N×24h (like
+   *   getChannelSummaries), the daily points the last N calendar days
+   * @param timeZone - IANA time zone used to decide day boundaries (default: "UTC")
+   * @returns Totals over the window and one data point per day
+   */
+  async getChannelStats(channel: Channel, days: number, timeZone: string = "UTC"): Promise<Omit<ChannelStats, "channel">> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [totals] = await db
+      .select({
+        positive: sql<number>`count(*) filter (where ${feedback.sentiment} = 'positive')::int`,
+        neutral: sql<number>`count(*) filter (where ${feedback.sentiment} = 'neutral')::int`,
+        negative: sql<number>`count(*) filter (where ${feedback.sentiment} = 'negative')::int`,
+        averageScore: sql<string | null>`round(avg(${feedbackScore}), 1)::text`,
+      })
+      .from(feedback)
+      .where(and(activeFeedback, eq(feedback.source, channel.name), gte(feedback.timestamp, since)));
+
+    const daily = await this.getDailySentimentTrends(days, timeZone, { dimension: "source", key: channel.name });
+
+    return { days, ...totals, daily };
+  }
+
+  /**
+   * Get Channel
+   * @param id - Channel id
+   * @returns The channel, or undefined when it doesn't exist
+   */
+  async getChannel(id: string): Promise<Channel | undefined> {
+    const [channel] = await db.select().from(channels).where(eq(channels.id, id));
+    return channel;
+  }
+  
   /**
    * Create Channel
    * Inserts a new communication channel into the database
-   * TODO: Add Twitter API integration for automatic message counting
-   * TODO: Add Instagram API integration for automatic message counting
-   * TODO: Add Facebook API integration for automatic message counting
    * @param insertChannel - Channel data to insert
-   * @returns The newly created channel with generated ID
-   */
-  async createChannel(insertChannel: InsertChannel): Promise<Channel> {
-    const [newChannel] = await db
-      .insert(channels)
-      .values(insertChannel)
-      .returning(); // Return the created record
-    return newChannel;
+   * @returns The newly created channel with generated ID, or undefined when
+   *   another channel has the name
+   */
+  async createChannel(insertChannel: InsertChannel): Promise<Channel | undefined> {
+    return await db.transaction(async (tx) => {
+      if (await claimChannelName(tx, insertChannel.name)) return undefined;
+
+      const [created] = await tx
+        .insert(channels)
+        .values(insertChannel)
+        .returning(); // Return the created record
+      await recordAudit(tx, [{ action: "create", entityType: "channel", entityId: created.id, after: created }]);
+      return created;
+    });
+  }
+  
+  /**
+   * Update Channel
+   * @param id - Channel id
+   * @param changes - Fields to change (e.g., status "inactive" to retire a channel,
+   *   a new ingestSecret, or a reset syncCursor)
+   * A rename carries the channel's feedback and alert rules along, since both
+   * refer to the channel by name
+   * @returns The updated channel (undefined when it doesn't exist), or
+   *   nameTaken when another channel has the new name
+   */
+  async updateChannel(id: string, changes: UpdateChannel & { ingestSecret?: string | null; syncCursor?: string | null }): Promise<ChannelUpdateResult> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(channels).where(eq(channels.id, id)).for("update");
+      if (!before) return { nameTaken: false, channel: undefined };
+
+      const renamed = changes.name !== undefined && changes.name !== before.name;
+      if (renamed && (await claimChannelName(tx, changes.name!, id))) {
+        return { nameTaken: true };
+      }
+
+      const [updated] = await tx
+        .update(channels)
+        .set(changes)
+        .where(eq(channels.id, id))
+        .returning();
+      if (renamed) {
+        // Bulk moves, covered by the channel's own audit entry
+        await tx.update(feedback).set({ source: updated.name }).where(eq(feedback.source, before.name));
+        await tx.update(alertRules).set({ source: updated.name }).where(eq(alertRules.source, before.name));
+      }
+      await recordUpdate(tx, "channel", before, updated);
+      return { nameTaken: false, channel: updated };
+    });
+  }
+  
+  /**
+   * Delete Channel
+   * @param id - Channel id
+   * @returns Whether a channel was deleted
+   */
+  async deleteChannel(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(channels)
+        .where(eq(channels.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "channel", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+
+  /**
+   * Ingest Feedback
+   * Stores feedback pushed by a channel unless its idempotency key was seen
+   * before; the receipt and the feedback are written in one transaction
+   * @param channelId - Receiving channel
+   * @param idempotencyKey - Sender's id for the delivery
+   * @param row - Normalized feedback entry
+   * @returns The created feedback, or the duplicate's original feedback id
+   */
+  async ingestFeedback(channelId: string, idempotencyKey: string, row: ImportFeedbackRow): Promise<IngestResult> {
+    const result = await db.transaction(async (tx): Promise<IngestResult> => {
+      // A concurrent delivery with the same key waits here until the first one commits
+      const [receipt] = await tx
+        .insert(ingestReceipts)
+        .values({ channelId, idempotencyKey })
+        .onConflictDoNothing()
+        .returning();
+      if (!receipt) {
+        const [original] = await tx
+          .select({ feedbackId: ingestReceipts.feedbackId })
+          .from(ingestReceipts)
+          .where(and(eq(ingestReceipts.channelId, channelId), eq(ingestReceipts.idempotencyKey, idempotencyKey)));
+        return { duplicate: true, feedbackId: original?.feedbackId ?? null };
+      }
+
+      const [inserted] = await insertFeedbackRows(tx, [row]);
+      await tx.update(ingestReceipts).set({ feedbackId: inserted.id }).where(eq(ingestReceipts.id, receipt.id));
+      return { duplicate: false, feedback: inserted };
+    });
+
+    if (!result.duplicate) {
+      scheduleRegionalRefresh();
+    }
+    return result;
+  }
+
+  /**
+   * Record Channel Sync
+   * Stores the entries a connector pulled in and its sync state in one
+   * transaction; entries use the same idempotency receipts as pushed feedback,
+   * so an entry pulled twice (e.g., after a failed run) is stored once
+   * @param channelId - Synced channel
+   * @param sync - Outcome of the run
+   * @returns The updated channel and the feedback that was created
+   */
+  async recordChannelSync(channelId: string, sync: ChannelSync): Promise<ChannelSyncResult> {
+    const result = await db.transaction(async (tx): Promise<ChannelSyncResult> => {
+      const [channel] = await tx.select().from(channels).where(eq(channels.id, channelId)).for("update");
+      if (!channel) return { channel: undefined, created: [] };
+
+      // Keys repeated within the run count once (the first entry wins)
+      const rowsByKey = new Map<string, ImportFeedbackRow>();
+      for (const { key, row } of sync.entries) {
+        if (!rowsByKey.has(key)) rowsByKey.set(key, row);
+      }
+      const receipts = rowsByKey.size === 0 ? [] : await tx
+        .insert(ingestReceipts)
+        .values(Array.from(rowsByKey.keys(), (idempotencyKey) => ({ channelId, idempotencyKey })))
+        .onConflictDoNothing()
+        .returning();
+
+      const created = receipts.length === 0 ? [] : await insertFeedbackRows(
+        tx,
+        receipts.map((receipt) => rowsByKey.get(receipt.idempotencyKey)!),
+      );
+      for (let i = 0; i < receipts.length; i++) {
+        await tx.update(ingestReceipts).set({ feedbackId: created[i].id }).where(eq(ingestReceipts.id, receipts[i].id));
+      }
+
+      const [updated] = await tx
+        .update(channels)
+        .set({
+          lastSyncAt: sync.syncedAt,
+          lastSyncError: sync.error,
+          lastSyncCount: created.length,
+          syncedCount: sql`${channels.syncedCount} + ${created.length}`,
+          ...(sync.cursor !== undefined && { syncCursor: sync.cursor }),
+        })
+        .where(eq(channels.id, channelId))
+        .returning();
+      return { channel: updated, created };
+    });
+
+    if (result.created.length > 0) {
+      scheduleRegionalRefresh();
+    }
+    return result;
+  }
+
+  /**
+   * Get Alert Rules
+   * @returns All alert rules, oldest first
+   */
+  async getAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).orderBy(alertRules.createdAt);
+  }
+
+  /**
+   * Get Alert Rule
+   * @param id - Rule id
+   * @returns The rule, or undefined when it doesn't exist
+   */
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  /**
+   * Create Alert Rule
+   * @param insertRule - Rule definition
+   * @returns The created rule (evaluated from the next scheduled run)
+   */
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(alertRules)
+        .values(insertRule)
+        .returning(); // Return the created record
+      await recordAudit(tx, [{ action: "create", entityType: "alert_rule", entityId: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  /**
+   * Update Alert Rule
+   * Disabling a rule also resolves its firing alert, since it won't be evaluated again
+   * @param id - Rule id
+   * @param changes - Fields to change
+   * @returns The updated rule, or undefined when it doesn't exist
+   */
+  async updateAlertRule(id: string, changes: UpdateAlertRule): Promise<AlertRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(alertRules).where(eq(alertRules.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(alertRules)
+        .set(changes)
+        .where(eq(alertRules.id, id))
+        .returning();
+      await recordUpdate(tx, "alert_rule", before, updated);
+
+      if (!updated.enabled) {
+        const [firing] = await tx
+          .select()
+          .from(alerts)
+          .where(and(eq(alerts.ruleId, id), eq(alerts.status, "firing")))
+          .for("update");
+        if (firing) {
+          const [resolved] = await tx
+            .update(alerts)
+            .set({ status: "resolved", resolvedAt: new Date() })
+            .where(eq(alerts.id, firing.id))
+            .returning();
+          await recordUpdate(tx, "alert", firing, resolved);
+        }
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Delete Alert Rule
+   * Its alerts are deleted with it
+   * @param id - Rule id
+   * @returns Whether a rule was deleted
+   */
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(alertRules)
+        .where(eq(alertRules.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "alert_rule", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+
+  /**
+   * Get Alert Window Stats
+   * Counts the rule's feedback (matching its source/region) in the window
+   * ending now and in the baseline period right before it
+   * @param rule - Rule being evaluated
+   * @param now - End of the window
+   * @returns Window volume, negative count and average score, and baseline volume
+   */
+  async getAlertWindowStats(rule: AlertRule, now: Date): Promise<AlertWindowStats> {
+    const windowStart = new Date(now.getTime() - rule.windowHours * 60 * 60 * 1000);
+    const baselineStart = new Date(windowStart.getTime() - rule.baselineDays * 24 * 60 * 60 * 1000);
+
+    const inWindow = gte(feedback.timestamp, windowStart);
+
+    const [stats] = await db
+      .select({
+        volume: sql<number>`(count(*) filter (where ${inWindow}))::int`,
+        negative: sql<number>`(count(*) filter (where ${inWindow} and ${feedback.sentiment} = 'negative'))::int`,
+        averageScore: sql<number | null>`(avg(${feedbackScore}) filter (where ${inWindow}))::float8`,
+        baselineVolume: sql<number>`(count(*) filter (where ${lt(feedback.timestamp, windowStart)}))::int`,
+      })
+      .from(feedback)
+      .where(and(
+        activeFeedback,
+        rule.source ? eq(feedback.source, rule.source) : undefined,
+        rule.region ? eq(feedback.region, rule.region) : undefined,
+        gte(feedback.timestamp, baselineStart),
+        lt(feedback.timestamp, now),
+      ));
+
+    return stats;
+  }
+
+  /**
+   * Record Alert Evaluation
+   * Stores a rule's latest value and moves its alert between states:
+   * condition met without a firing alert opens one; a firing alert whose
+   * condition no longer holds is resolved
+   * @param ruleId - Evaluated rule
+   * @param value - Metric value (null when the window had too little feedback)
+   * @param conditionMet - Whether the value crosses the threshold
+   * @param now - Evaluation time
+   * @returns The alert that fired or resolved, or null when nothing changed
+   */
+  async recordAlertEvaluation(
+    ruleId: string,
+    value: number | null,
+    conditionMet: boolean,
+    now: Date,
+  ): Promise<AlertTransition | null> {
+    return await db.transaction(async (tx) => {
+      const storedValue = value === null ? null : value.toFixed(2);
+      const [rule] = await tx
+        .update(alertRules)
+        .set({ lastEvaluatedAt: now, lastValue: storedValue })
+        .where(eq(alertRules.id, ruleId))
+        .returning();
+      if (!rule) return null; // Deleted since the evaluation started
+
+      const [firing] = await tx
+        .select()
+        .from(alerts)
+        .where(and(eq(alerts.ruleId, ruleId), eq(alerts.status, "firing")))
+        .for("update");
+
+      if (conditionMet && storedValue !== null) {
+        if (firing) {
+          await tx.update(alerts).set({ latestValue: storedValue }).where(eq(alerts.id, firing.id));
+          return null;
+        }
+        const [fired] = await tx
+          .insert(alerts)
+          .values({ ruleId, firedValue: storedValue, latestValue: storedValue, firedAt: now })
+          .returning();
+        await recordAudit(tx, [{ action: "create", entityType: "alert", entityId: fired.id, after: fired }]);
+        return { change: "fired", alert: fired };
+      }
+
+      if (!firing) return null;
+
+      const [resolved] = await tx
+        .update(alerts)
+        .set({ status: "resolved", resolvedAt: now, latestValue: storedValue ?? firing.latestValue })
+        .where(eq(alerts.id, firing.id))
+        .returning();
+      await recordUpdate(tx, "alert", firing, resolved);
+      return { change: "resolved", alert: resolved };
+    });
+  }
+
+  /**
+   * Get Alerts
+   * Fetches every firing alert plus the most recently resolved ones, with
+   * their rules and who acknowledged them
+   * @param resolvedLimit - Maximum number of resolved alerts
+   * @returns Alerts, most recently fired first
+   */
+  async getAlerts(resolvedLimit: number): Promise<AlertWithRule[]> {
+    const selectAlerts = () => db
+      .select({ alert: alerts, rule: alertRules, acknowledgedByUsername: users.username })
+      .from(alerts)
+      .innerJoin(alertRules, eq(alerts.ruleId, alertRules.id))
+      .leftJoin(users, eq(alerts.acknowledgedBy, users.id));
+
+    const firing = await selectAlerts().where(eq(alerts.status, "firing"));
+    const resolved = await selectAlerts()
+      .where(eq(alerts.status, "resolved"))
+      .orderBy(desc(alerts.resolvedAt))
+      .limit(resolvedLimit);
+
+    return [...firing, ...resolved]
+      .map((row) => ({ ...row.alert, rule: row.rule, acknowledgedByUsername: row.acknowledgedByUsername }))
+      .sort((a, b) => b.firedAt.getTime() - a.firedAt.getTime());
+  }
+
+  /**
+   * Acknowledge Alert
+   * @param id - Alert id
+   * @param userId - Acknowledging user
+   * @returns The updated alert, or undefined when it doesn't exist
+   */
+  async acknowledgeAlert(id: string, userId: string | null): Promise<Alert | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(alerts).where(eq(alerts.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(alerts)
+        .set({ acknowledgedAt: new Date(), acknowledgedBy: userId })
+        .where(eq(alerts.id, id))
+        .returning();
+      await recordUpdate(tx, "alert", before, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Snooze Alert
+   * @param id - Alert id
+   * @param until - When the alert shows up in the inbox again
+   * @returns The updated alert, or undefined when it doesn't exist
+   */
+  async snoozeAlert(id: string, until: Date): Promise<Alert | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(alerts).where(eq(alerts.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(alerts)
+        .set({ snoozedUntil: until })
+        .where(eq(alerts.id, id))
+        .returning();
+      await recordUpdate(tx, "alert", before, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Get Webhooks
+   * @returns All webhooks, oldest first
+   */
+  async getWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).orderBy(webhooks.createdAt);
+  }
+
+  /**
+   * Get Webhook
+   * @param id - Webhook id
+   * @returns The webhook, or undefined when it doesn't exist
+   */
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  /**
+   * Create Webhook
+   * @param insertWebhook - Webhook definition with its generated secret
+   * @returns The created webhook
+   */
+  async createWebhook(insertWebhook: InsertWebhook & { secret: string }): Promise<Webhook> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(webhooks)
+        .values(insertWebhook)
+        .returning(); // Return the created record
+      await recordAudit(tx, [{ action: "create", entityType: "webhook", entityId: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  /**
+   * Update Webhook
+   * @param id - Webhook id
+   * @param changes - Fields to change (secret when rotating it)
+   * @returns The updated webhook, or undefined when it doesn't exist
+   */
+  async updateWebhook(id: string, changes: UpdateWebhook & { secret?: string }): Promise<Webhook | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(webhooks).where(eq(webhooks.id, id)).for("update");
+      if (!before) return undefined;
+
+      const [updated] = await tx
+        .update(webhooks)
+        .set(changes)
+        .where(eq(webhooks.id, id))
+        .returning();
+      await recordUpdate(tx, "webhook", before, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Delete Webhook
+   * Its delivery log is deleted with it
+   * @param id - Webhook id
+   * @returns Whether a webhook was deleted
+   */
+  async deleteWebhook(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(webhooks)
+        .where(eq(webhooks.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, [{ action: "delete", entityType: "webhook", entityId: id, before: deleted }]);
+      return true;
+    });
+  }
+
+  /**
+   * Queue Webhook Deliveries
+   * Creates a pending delivery for every enabled webhook subscribed to the event
+   * @param payload - Body to send
+   * @returns The queued deliveries (none when nobody is subscribed)
+   */
+  async queueWebhookDeliveries(payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    const subscribed = await db
+      .select({ id: webhooks.id })
+      .from(webhooks)
+      .where(and(eq(webhooks.enabled, true), arrayContains(webhooks.events, [payload.event])));
+    if (subscribed.length === 0) return [];
+
+    return await db
+      .insert(webhookDeliveries)
+      .values(subscribed.map((webhook) => ({ webhookId: webhook.id, event: payload.event, payload })))
+      .returning();
+  }
+
+  /**
+   * Create Webhook Delivery
+   * Queues a payload for one webhook regardless of its subscriptions (test deliveries)
+   * @param webhookId - Receiving webhook
+   * @param payload - Body to send
+   * @returns The queued delivery
+   */
+  async createWebhookDelivery(webhookId: string, payload: WebhookPayload): Promise<WebhookDelivery> {
+    const [created] = await db
+      .insert(webhookDeliveries)
+      .values({ webhookId, event: payload.event, payload })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Replay Webhook Delivery
+   * Queues a new delivery with the same webhook and body; the original stays in the log
+   * @param id - Delivery to replay
+   * @returns The new delivery, or undefined when the original doesn't exist
+   */
+  async replayWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [original] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    if (!original) return undefined;
+
+    const [replay] = await db
+      .insert(webhookDeliveries)
+      .values({ webhookId: original.webhookId, event: original.event, payload: original.payload, replayOf: original.id })
+      .returning();
+    return replay;
+  }
+
+  /**
+   * Get Due Webhook Deliveries
+   * @param now - Deliveries whose next attempt is due by then are returned
+   * @param limit - Maximum number of deliveries
+   * @returns Pending deliveries with their webhooks, longest waiting first
+   */
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<DueWebhookDelivery[]> {
+    return await db
+      .select({ delivery: webhookDeliveries, webhook: webhooks })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  /**
+   * Record Webhook Attempt
+   * @param id - Delivery id
+   * @param attempt - Outcome of the attempt
+   * @returns The updated delivery, or undefined when it was deleted meanwhile
+   */
+  async recordWebhookAttempt(id: string, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: attempt.status,
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        lastAttemptAt: attempt.attemptedAt,
+        nextAttemptAt: attempt.nextAttemptAt,
+        responseStatus: attempt.responseStatus,
+        responseBody: attempt.responseBody,
+        error: attempt.error,
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Get Webhook Deliveries
+   * @param query - Optional webhook and status filters
+   * @param limit - Maximum number of deliveries
+   * @returns Deliveries with their webhook names, newest first
+   */
+  async getWebhookDeliveries(query: WebhookDeliveryQuery, limit: number): Promise<WebhookDeliveryWithWebhook[]> {
+    const rows = await db
+      .select({ delivery: webhookDeliveries, webhookName: webhooks.name })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(and(
+        query.webhookId ? eq(webhookDeliveries.webhookId, query.webhookId) : undefined,
+        query.status ? eq(webhookDeliveries.status, query.status) : undefined,
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.delivery, webhookName: row.webhookName }));
   }
 }
 
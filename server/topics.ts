@@ -0,0 +1,228 @@
+/**
+ * Topic Extraction
+ *
+ * Tags feedback text with the aspects customers talk about (navigation,
+ * payments, support speed, pricing, ...) and scores the sentiment expressed
+ * about each aspect separately from the feedback's overall sentiment.
+ *
+ * TAXONOMY:
+ * - Each topic has an id, a display label and a list of terms
+ * - Terms may be single keywords ("checkout") or phrases ("response time")
+ * - Keyword matches also accept simple plurals ("bug" matches "bugs")
+ * - Everyday words that also show up in unrelated sentences ("plan", "find")
+ *   are only listed inside more specific phrases ("pricing plan", "can't find")
+ * - The built-in taxonomy can be replaced by pointing TOPIC_TAXONOMY_FILE
+ *   at a JSON file containing an array of topic definitions
+ *
+ * ASPECT SENTIMENT:
+ * - Text is split into sentences and clauses
+ * - Each topic is scored using only the clauses that mention it
+ */
+
+import fs from "fs";
+import { z } from "zod";
+import type { SentimentLabel } from "@shared/schema";
+import { analyzeSentiment, tokenize } from "./sentiment";
+
+/**
+ * Topic Definition
+ * Validated shape of a single taxonomy entry
+ */
+const topicDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/), // Stable identifier stored with feedback (e.g., "payments")
+  label: z.string().min(1), // Display name (e.g., "Payments")
+  terms: z.array(z.string().min(1)).min(1), // Keywords and phrases that indicate the topic
+});
+
+export type TopicDefinition = z.infer<typeof topicDefinitionSchema>;
+
+/**
+ * Extracted Topic
+ * A topic found in a piece of feedback with its aspect-level sentiment
+ */
+export interface ExtractedTopic {
+  topic: string; // Topic id
+  sentiment: SentimentLabel; // Sentiment of the clauses mentioning the topic
+  sentimentScore: number; // Score 0.0-10.0 of the clauses mentioning the topic
+  matchedTerms: string[]; // Taxonomy terms that matched
+}
+
+/**
+ * Default Taxonomy
+ * Covers the aspects that show up most in product and support feedback
+ */
+const DEFAULT_TAXONOMY: TopicDefinition[] = [
+  {
+    id: "navigation",
+    label: "Navigation",
+    terms: ["navigation", "navigate", "menu", "search", "layout", "where is", "can't find", "cannot find", "hard to find", "unable to find", "tab bar", "sidebar"],
+  },
+  {
+    id: "payments",
+    label: "Payments",
+    terms: ["payment", "checkout", "billing", "payment card", "credit card", "debit card", "charged", "charge", "refund", "invoice", "transaction", "apple pay", "google pay"],
+  },
+  {
+    id: "support_speed",
+    label: "Support Speed",
+    terms: ["response time", "wait", "waiting", "on hold", "reply", "respond", "resolved", "within minutes", "support team", "took forever"],
+  },
+  {
+    id: "support_quality",
+    label: "Support Quality",
+    terms: ["customer service", "support", "agent", "representative", "rude", "helpful", "staff"],
+  },
+  {
+    id: "pricing",
+    label: "Pricing",
+    terms: ["price", "pricing", "expensive", "cheap", "cost", "fee", "subscription", "pricing plan", "paid plan", "free plan", "premium plan", "overpriced", "affordable"],
+  },
+  {
+    id: "stability",
+    label: "Bugs & Stability",
+    terms: ["bug", "buggy", "crash", "crashes", "crashed", "error", "broken", "freeze", "glitch", "not working"],
+  },
+  {
+    id: "performance",
+    label: "Performance",
+    terms: ["slow", "fast", "speed", "lag", "laggy", "loading", "load time", "performance"],
+  },
+  {
+    id: "usability",
+    label: "Usability",
+    terms: ["confusing", "intuitive", "easy to use", "hard to use", "design", "interface", "ui", "ux", "user friendly"],
+  },
+  {
+    id: "features",
+    label: "Features",
+    terms: ["feature", "update", "release", "functionality", "new version", "option"],
+  },
+  {
+    id: "mobile_app",
+    label: "Mobile App",
+    terms: ["mobile app", "mobile", "ios", "android", "iphone", "phone"],
+  },
+];
+
+/**
+ * Load Taxonomy
+ * Reads the taxonomy from TOPIC_TAXONOMY_FILE when set, otherwise uses the default
+ * Throws at startup if the configured file is missing or malformed
+ */
+function loadTaxonomy(): TopicDefinition[] {
+  const file = process.env.TOPIC_TAXONOMY_FILE;
+  if (!file) {
+    return DEFAULT_TAXONOMY;
+  }
+
+  const parsed = z.array(topicDefinitionSchema).parse(JSON.parse(fs.readFileSync(file, "utf8")));
+  return parsed;
+}
+
+const taxonomy = loadTaxonomy();
+
+// Pre-tokenized terms so matching works on the same tokens as the analyzer
+const compiledTaxonomy = taxonomy.map((topic) => ({
+  id: topic.id,
+  terms: topic.terms.map((term) => ({ term, tokens: tokenize(term).map((t) => t.text) })),
+}));
+
+/**
+ * Get Taxonomy
+ * @returns The active topic taxonomy
+ */
+export function getTaxonomy(): TopicDefinition[] {
+  return taxonomy;
+}
+
+/**
+ * Get Topic Label
+ * @param topicId - Topic id stored with feedback
+ * @returns Display label, or the id itself for topics no longer in the taxonomy
+ */
+export function getTopicLabel(topicId: string): string {
+  return taxonomy.find((topic) => topic.id === topicId)?.label ?? topicId;
+}
+
+/**
+ * Split Clauses
+ * Breaks text into sentences and contrast clauses ("..., but ...")
+ * so that each aspect is scored with the words closest to it
+ */
+function splitClauses(text: string): string[] {
+  return text
+    .split(/[.!?;\n]+|,?\s+\b(?:but|however|although|though)\b\s+/i)
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.length > 0);
+}
+
+/**
+ * Match Terms
+ * @returns Terms whose token sequence appears in the clause tokens
+ */
+function matchTerms(
+  clauseTokens: string[],
+  terms: { term: string; tokens: string[] }[],
+): string[] {
+  const matched: string[] = [];
+
+  for (const { term, tokens } of terms) {
+    if (tokens.length === 0) continue;
+
+    const last = tokens.length - 1;
+    for (let i = 0; i + tokens.length <= clauseTokens.length; i++) {
+      const hit = tokens.every((token, j) => {
+        const candidate = clauseTokens[i + j];
+        // Accept simple plurals on the final word of a term
+        return candidate === token || (j === last && (candidate === `${token}s` || candidate === `${token}es`));
+      });
+      if (hit) {
+        matched.push(term);
+        break;
+      }
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Extract Topics
+ * Finds every taxonomy topic mentioned in the text and scores its sentiment
+ * @param text - Feedback text
+ * @returns One entry per matched topic
+ */
+export function extractTopics(text: string): ExtractedTopic[] {
+  const clauses = splitClauses(text).map((clause) => ({
+    clause,
+    tokens: tokenize(clause).map((t) => t.text),
+  }));
+
+  const results: ExtractedTopic[] = [];
+
+  for (const topic of compiledTaxonomy) {
+    const matchedTerms = new Set<string>();
+    const mentioningClauses: string[] = [];
+
+    for (const { clause, tokens } of clauses) {
+      const matched = matchTerms(tokens, topic.terms);
+      if (matched.length > 0) {
+        matched.forEach((term) => matchedTerms.add(term));
+        mentioningClauses.push(clause);
+      }
+    }
+
+    if (mentioningClauses.length === 0) continue;
+
+    // Score the mentioning clauses together so they reinforce each other
+    const analysis = analyzeSentiment(mentioningClauses.join(". "));
+    results.push({
+      topic: topic.id,
+      sentiment: analysis.label,
+      sentimentScore: analysis.score,
+      matchedTerms: Array.from(matchedTerms),
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,269 @@
+/**
+ * Outbound Webhooks
+ *
+ * POSTs JSON payloads (see WebhookPayload in the schema) to admin-configured
+ * URLs when subscribed events happen:
+ * - Every event becomes one queued delivery per subscribed, enabled webhook
+ * - Deliveries are sent right away and by a dispatcher running every
+ *   DISPATCH_INTERVAL_MS, so queued work survives restarts
+ * - Anything but a 2xx response (redirects included) is a failure; failures are
+ *   retried after 30s, 1m, 2m, 4m and 8m before the delivery is marked failed
+ * - Every attempt is kept in the delivery log; any delivery can be replayed
+ *
+ * SIGNATURES:
+ * Each request carries these headers:
+ * - X-Sentiment360-Event: Event name (e.g., "alert.fired")
+ * - X-Sentiment360-Delivery: Delivery id (a replay has a new one)
+ * - X-Sentiment360-Timestamp: Unix time in seconds when the request was sent
+ * - X-Sentiment360-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw body>"
+ *   keyed with the webhook's secret
+ * Receivers should recompute the signature over the raw body, compare it in
+ * constant time and reject old timestamps.
+ *
+ * For local testing, point a webhook at a receiver on this machine
+ * (e.g., http://localhost:4000/hook) and use "Send test" on the Webhooks page.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type { AlertRule, Feedback, PriorityItem, WebhookEvent, WebhookPayload } from "@shared/schema";
+import { storage, type AlertTransition, type DueWebhookDelivery } from "./storage";
+import { publishLiveEvent } from "./live";
+import { log } from "./vite";
+
+// Attempts per delivery before it is marked failed
+const MAX_ATTEMPTS = 6;
+
+// Delay before the first retry; doubles after every further failure
+const RETRY_BASE_MS = 30 * 1000;
+
+// How long a receiver gets to answer
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Interval between dispatcher runs (picks up retries and deliveries queued before a restart)
+const DISPATCH_INTERVAL_MS = 15 * 1000;
+
+// Deliveries loaded per query while dispatching
+const DISPATCH_BATCH_SIZE = 20;
+
+// Characters of the response body kept in the delivery log
+const RESPONSE_BODY_LIMIT = 500;
+
+// Negative feedback scoring at most this (0-10) is announced as feedback.negative;
+// manually labeled negative feedback has no score and always counts
+const HIGH_SEVERITY_SCORE = 2;
+
+/**
+ * Generate Webhook Secret
+ * @returns A new random signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Sign Webhook Payload
+ * @param secret - Webhook secret
+ * @param timestamp - Unix time in seconds, as sent in X-Sentiment360-Timestamp
+ * @param body - Raw JSON body
+ * @returns Value of the X-Sentiment360-Signature header
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Build Webhook Payload
+ * @param event - Event name
+ * @param summary - One-line description for chat tools
+ * @param data - Event details
+ */
+export function buildWebhookPayload(
+  event: WebhookPayload["event"],
+  summary: string,
+  data: Record<string, unknown>,
+): WebhookPayload {
+  return { id: randomUUID(), event, occurredAt: new Date().toISOString(), summary, data };
+}
+
+/**
+ * Notify Webhooks
+ * Queues the event for every subscribed webhook and starts sending; failures
+ * are logged, never thrown, so callers don't fail because of a webhook
+ */
+function notifyWebhooks(event: WebhookEvent, summary: string, data: Record<string, unknown>): void {
+  storage
+    .queueWebhookDeliveries(buildWebhookPayload(event, summary, data))
+    .then((queued) => {
+      for (const delivery of queued) {
+        publishLiveEvent("webhook_delivery.created", delivery.id);
+      }
+      if (queued.length > 0) {
+        dispatchWebhookDeliveries();
+      }
+    })
+    .catch((error) => {
+      log(`Queueing ${event} webhooks failed: ${describeError(error)}`, "webhooks");
+    });
+}
+
+/**
+ * Notify Alert Transition
+ * Sends alert.fired or alert.resolved
+ * @param transition - Alert that fired or resolved
+ * @param rule - Rule that was evaluated
+ */
+export function notifyAlertTransition(transition: AlertTransition, rule: AlertRule): void {
+  const { alert } = transition;
+  notifyWebhooks(
+    transition.change === "fired" ? "alert.fired" : "alert.resolved",
+    `Alert "${rule.name}" ${transition.change}: ${rule.metric} is ${alert.latestValue} ` +
+      `(fires ${rule.comparator} ${rule.threshold})`,
+    { alert, rule },
+  );
+}
+
+/**
+ * Notify Negative Feedback
+ * Sends feedback.negative when a new entry is high-severity negative; other entries are ignored
+ * @param entry - Newly received feedback
+ */
+export function notifyNegativeFeedback(entry: Feedback): void {
+  if (entry.sentiment !== "negative" || Number(entry.sentimentScore ?? 0) > HIGH_SEVERITY_SCORE) return;
+
+  const excerpt = entry.text.length > 120 ? `${entry.text.slice(0, 117)}...` : entry.text;
+  notifyWebhooks(
+    "feedback.negative",
+    `Negative feedback from ${entry.source} (${entry.region}): "${excerpt}"`,
+    { feedback: entry },
+  );
+}
+
+/**
+ * Notify Rank Change
+ * Sends priority.rank_changed when an update moved the item; other updates are ignored
+ * @param before - Item before the update
+ * @param after - Item after the update
+ */
+export function notifyRankChange(before: PriorityItem, after: PriorityItem): void {
+  if (before.rank === after.rank) return;
+
+  notifyWebhooks(
+    "priority.rank_changed",
+    `Priority "${after.title}" moved from rank ${before.rank} to ${after.rank}`,
+    { item: after, previousRank: before.rank },
+  );
+}
+
+/**
+ * Describe Error
+ * Readable reason for a failed request (fetch hides the network error in its cause)
+ */
+function describeError(error: unknown): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `No response within ${REQUEST_TIMEOUT_MS / 1000}s`;
+  }
+  if (error instanceof Error && error.cause instanceof Error) {
+    return error.cause.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Deliver
+ * Makes one attempt and records its outcome (success, retry or final failure)
+ */
+async function deliver({ delivery, webhook }: DueWebhookDelivery): Promise<void> {
+  const attemptedAt = new Date();
+  const attemptNumber = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  if (!webhook.enabled) {
+    error = "Webhook is disabled";
+  } else {
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Sentiment360-Webhooks",
+          "X-Sentiment360-Event": delivery.event,
+          "X-Sentiment360-Delivery": delivery.id,
+          "X-Sentiment360-Timestamp": timestamp,
+          "X-Sentiment360-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: "manual", // A redirect is a misconfigured URL, not a delivery
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT) || null;
+      if (!response.ok) {
+        error = `Receiver answered HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = describeError(requestError);
+    }
+  }
+
+  const retry = error !== null && webhook.enabled && attemptNumber < MAX_ATTEMPTS;
+  const updated = await storage.recordWebhookAttempt(delivery.id, {
+    status: error === null ? "succeeded" : retry ? "pending" : "failed",
+    attemptedAt,
+    nextAttemptAt: retry ? new Date(attemptedAt.getTime() + RETRY_BASE_MS * 2 ** (attemptNumber - 1)) : attemptedAt,
+    responseStatus,
+    responseBody,
+    error,
+  });
+
+  if (error !== null && !retry) {
+    log(`Delivery of ${delivery.event} to "${webhook.name}" failed after ${attemptNumber} attempt(s): ${error}`, "webhooks");
+  }
+  if (updated) {
+    publishLiveEvent("webhook_delivery.updated", updated.id);
+  }
+}
+
+let dispatching = false;
+let dispatchAgain = false;
+
+/**
+ * Dispatch Webhook Deliveries
+ * Sends every delivery that is due; calls made while a run is in progress
+ * trigger one more run instead of a parallel one
+ */
+export async function dispatchWebhookDeliveries(): Promise<void> {
+  if (dispatching) {
+    dispatchAgain = true;
+    return;
+  }
+  dispatching = true;
+  try {
+    do {
+      dispatchAgain = false;
+      let due: DueWebhookDelivery[];
+      do {
+        due = await storage.getDueWebhookDeliveries(new Date(), DISPATCH_BATCH_SIZE);
+        for (const entry of due) {
+          await deliver(entry);
+        }
+      } while (due.length === DISPATCH_BATCH_SIZE);
+    } while (dispatchAgain);
+  } catch (error) {
+    log(`Webhook dispatch failed: ${describeError(error)}`, "webhooks");
+  } finally {
+    dispatching = false;
+  }
+}
+
+/**
+ * Start Webhook Dispatch
+ * Sends deliveries left over from before a restart, then checks for due retries periodically
+ */
+export function startWebhookDispatch() {
+  dispatchWebhookDeliveries();
+  setInterval(dispatchWebhookDeliveries, DISPATCH_INTERVAL_MS).unref();
+}
@@ -7,20 +7,176 @@
  */
 
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, decimal, boolean, timestamp, date, json, doublePrecision, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+/**
+ * Sentiment Labels
+ * Allowed values for feedback.sentiment
+ */
+export const sentimentLabels = ["positive", "neutral", "negative"] as const;
+export type SentimentLabel = (typeof sentimentLabels)[number];
+
+/**
+ * User Roles
+ * Ordered from least to most privileged; each role includes the ones before it
+ * - viewer: Dashboard, Prioritization and Impact pages (read-only)
+ * - analyst: Also explores feedback and creates feedback and priority items
+ * - admin: Also manages channels and users
+ */
+export const userRoles = ["viewer", "analyst", "admin"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+/**
+ * Has Role
+ * @param role - Role of the user
+ * @param required - Least privileged role that is allowed
+ * @returns True when role is required or a more privileged role
+ */
+export function hasRole(role: string, required: UserRole): boolean {
+  return userRoles.indexOf(role as UserRole) >= userRoles.indexOf(required);
+}
+
+/**
+ * Users Table
+ * Local accounts that can sign in to the dashboard
+ */
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  username: text("username").notNull().unique(), // Login name (stored lowercase)
+  passwordHash: text("password_hash").notNull(), // scrypt hash as "salt:hash" (hex)
+  role: text("role").notNull().default("viewer"), // viewer, analyst or admin
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // When the account was created
+});
+
+/**
+ * Sessions Table
+ * Login sessions persisted by connect-pg-simple (table layout defined by that library)
+ */
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(), // Session id from the cookie
+  sess: json("sess").notNull(), // Serialized session data
+  expire: timestamp("expire", { precision: 6 }).notNull(), // When the session expires
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+/**
+ * Audit Vocabulary
+ * Actions and entity types recorded in the audit log
+ */
+export const auditActions = ["create", "update", "delete", "restore", "purge"] as const;
+export type AuditAction = (typeof auditActions)[number];
+
+export const auditEntityTypes = [
+  "user",
+  "feedback",
+  "priority_item",
+  "ai_insight",
+  "impact_metric",
+  "usage_metric",
+  "channel",
+  "alert_rule",
+  "alert",
+  "webhook",
+  "scoring_settings",
+  "priority_link",
+] as const;
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+
+/**
+ * Audit Events Table
+ * One row per create, update or delete made through the storage layer
+ * For updates, before/after hold only the fields that changed; creates
+ * store the new record in after and deletes the old record in before
+ */
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  occurredAt: timestamp("occurred_at").notNull().default(sql`now()`), // When the change was made
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // Acting user (null = system job or signed out)
+  actorUsername: text("actor_username"), // Username at the time, kept if the account is removed
+  action: text("action").notNull(), // create, update, delete, restore or purge
+  entityType: text("entity_type").notNull(), // Entity kind, see auditEntityTypes
+  entityId: varchar("entity_id").notNull(), // Id of the changed record
+  before: json("before"), // Previous values (null for creates)
+  after: json("after"), // New values (null for deletes)
+  requestId: text("request_id"), // X-Request-Id of the API request (null for background jobs)
+}, (table) => [
+  index("audit_events_occurred_at_idx").on(table.occurredAt),
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+]);
+
+/**
+ * Live Update Events
+ * Change notifications pushed to signed-in browsers over the /api/live
+ * WebSocket, named "<entity>.<change>"
+ */
+export const LIVE_UPDATES_PATH = "/api/live";
+
+export const liveEventTypes = [
+  "feedback.created",
+  "feedback.updated",
+  "feedback.deleted",
+  "feedback.restored",
+  "feedback.purged",
+  "priority.created",
+  "priority.updated",
+  "priority.deleted",
+  "priority.restored",
+  "priority.purged",
+  "insight.created",
+  "insight.updated",
+  "insight.deleted",
+  "impact_metric.updated",
+  "impact_metric.deleted",
+  "usage_metric.updated",
+  "usage_metric.deleted",
+  "channel.created",
+  "channel.updated",
+  "channel.deleted",
+  "user.created",
+  "user.updated",
+  "alert_rule.created",
+  "alert_rule.updated",
+  "alert_rule.deleted",
+  "alert.fired",
+  "alert.resolved",
+  "alert.updated",
+  "webhook.created",
+  "webhook.updated",
+  "webhook.deleted",
+  "webhook_delivery.created",
+  "webhook_delivery.updated",
+  "scoring.updated",
+] as const;
+export type LiveEventType = (typeof liveEventTypes)[number];
+
+/**
+ * Regional Sentiment Windows
+ * Time windows (in days) the regional sentiment chart can show
+ */
+export const regionalSentimentWindows = [7, 30, 90] as const;
+export type RegionalSentimentWindow = (typeof regionalSentimentWindows)[number];
+
 /**
  * Regional Sentiment Table
- * Stores aggregated sentiment scores for different U.S. regions
+ * Cache of sentiment aggregated from feedback per U.S. region and time window
+ * Rebuilt whenever feedback is added; never edited directly
  */
 export const regionalSentiment = pgTable("regional_sentiment", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
   region: text("region").notNull(), // Region name (e.g., "Northeast", "West")
-  sentimentScore: decimal("sentiment_score", { precision: 3, scale: 1 }).notNull(), // Score 0.0-10.0
-  updatedAt: timestamp("updated_at").notNull().default(sql`now()`), // Last update timestamp
-});
+  windowDays: integer("window_days").notNull().default(30), // Aggregation window in days (7, 30 or 90)
+  sentimentScore: decimal("sentiment_score", { precision: 3, scale: 1 }).notNull(), // Average score 0.0-10.0
+  volume: integer("volume").notNull().default(0), // Feedback entries in the window
+  positive: integer("positive").notNull().default(0), // Positive feedback entries
+  neutral: integer("neutral").notNull().default(0), // Neutral feedback entries
+  negative: integer("negative").notNull().default(0), // Negative feedback entries
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`), // When the cache row was computed
+}, (table) => [
+  uniqueIndex("regional_sentiment_region_window_idx").on(table.region, table.windowDays),
+]);
 
 /**
  * Customer Feedback Table
@@ -30,9 +186,36 @@ export const feedback = pgTable("feedback", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
   text: text("text").notNull(), // Feedback content
   sentiment: text("sentiment").notNull(), // Sentiment classification: positive, negative, neutral
+  sentimentScore: decimal("sentiment_score", { precision: 3, scale: 1 }), // Analyzer score 0.0-10.0 (null when labeled manually)
+  sentimentConfidence: decimal("sentiment_confidence", { precision: 3, scale: 2 }), // Analyzer confidence 0.00-1.00
   source: text("source").notNull(), // Channel: Twitter, Facebook, Instagram, Email, Live Chat
   region: text("region").notNull(), // U.S. region where feedback originated
   timestamp: timestamp("timestamp").notNull().default(sql`now()`), // When feedback was received
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // When the entry was stored (imports keep their original timestamp)
+  // Id of the transaction that stored the entry; orders the live feedback stream (see getFeedbackArrivals)
+  arrivalXid: bigint("arrival_xid", { mode: "number" }).notNull().default(sql`pg_current_xact_id()::text::bigint`),
+  respondedAt: timestamp("responded_at"), // When the team first responded (null = not responded yet)
+  deletedAt: timestamp("deleted_at"), // When the entry was moved to the trash (null = not deleted)
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: "set null" }), // User who deleted it
+}, (table) => [
+  // Full-text search index used by the feedback explorer
+  index("feedback_text_search_idx").using("gin", sql`to_tsvector('english', ${table.text})`),
+  // Arrival order used by the live feedback stream
+  index("feedback_arrival_idx").on(table.arrivalXid, table.id),
+]);
+
+/**
+ * Feedback Topics Table
+ * Stores the aspects (topics) detected in each feedback entry together with
+ * the sentiment expressed about that specific aspect
+ */
+export const feedbackTopics = pgTable("feedback_topics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  feedbackId: varchar("feedback_id").notNull().references(() => feedback.id, { onDelete: "cascade" }), // Tagged feedback
+  topic: text("topic").notNull(), // Topic id from the taxonomy (e.g., "payments", "navigation")
+  sentiment: text("sentiment").notNull(), // Aspect-level sentiment: positive, negative, neutral
+  sentimentScore: decimal("sentiment_score", { precision: 3, scale: 1 }).notNull(), // Aspect-level score 0.0-10.0
+  matchedTerms: text("matched_terms").array().notNull(), // Taxonomy terms found in the text
 });
 
 /**
@@ -57,13 +240,122 @@ export const priorityItems = pgTable("priority_items", {
   impact: integer("impact").notNull(), // Business impact score (1-10)
   effort: integer("effort").notNull(), // Implementation effort score (1-10)
   category: text("category").notNull(), // Category (Product, Support, Engineering, etc.)
-  rank: integer("rank").notNull(), // Priority ranking
+  rank: integer("rank").notNull(), // Priority ranking (set from the score while auto-rank is on)
+  deletedAt: timestamp("deleted_at"), // When the item was moved to the trash (null = not deleted)
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: "set null" }), // User who deleted it
+  reach: integer("reach").notNull().default(1), // Customers affected per quarter (RICE)
+  confidence: integer("confidence").notNull().default(80), // Confidence in the estimates, 0-100% (RICE)
+  businessValue: integer("business_value").notNull().default(5), // Business value 1-10 (WSJF)
+  timeCriticality: integer("time_criticality").notNull().default(5), // How fast the value decays 1-10 (WSJF)
+  riskReduction: integer("risk_reduction").notNull().default(5), // Risk reduction / opportunity enablement 1-10 (WSJF)
+  score: doublePrecision("score").notNull().default(0), // Computed by the server with the scoring model
 });
 
+/**
+ * Scoring Models
+ * How priority items are scored (see server/scoring.ts)
+ * - rice: Reach × Impact × Confidence ÷ Effort, each factor raised to its weight
+ * - wsjf: Weighted Shortest Job First, cost of delay (weighted sum of business
+ *   value, time criticality and risk reduction) ÷ job size (effort)
+ */
+export const scoringModels = ["rice", "wsjf"] as const;
+export type ScoringModel = (typeof scoringModels)[number];
+
+// Exponent of each RICE factor (1 = plain RICE, 0 = ignore the factor)
+export const riceWeightsSchema = z.object({
+  reach: z.number().min(0).max(3),
+  impact: z.number().min(0).max(3),
+  confidence: z.number().min(0).max(3),
+  effort: z.number().min(0).max(3),
+});
+export type RiceWeights = z.infer<typeof riceWeightsSchema>;
+
+// Multiplier of each WSJF cost of delay part (1 = plain WSJF, 0 = ignore the part)
+export const wsjfWeightsSchema = z.object({
+  businessValue: z.number().min(0).max(10),
+  timeCriticality: z.number().min(0).max(10),
+  riskReduction: z.number().min(0).max(10),
+});
+export type WsjfWeights = z.infer<typeof wsjfWeightsSchema>;
+
+export const DEFAULT_RICE_WEIGHTS: RiceWeights = { reach: 1, impact: 1, confidence: 1, effort: 1 };
+export const DEFAULT_WSJF_WEIGHTS: WsjfWeights = { businessValue: 1, timeCriticality: 1, riskReduction: 1 };
+
+/**
+ * Priority Item Feedback Table
+ * Feedback entries an analyst attached to a priority item as the customer
+ * voice behind it (see CustomerDemand)
+ */
+export const priorityItemFeedback = pgTable("priority_item_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  priorityItemId: varchar("priority_item_id").notNull().references(() => priorityItems.id, { onDelete: "cascade" }),
+  feedbackId: varchar("feedback_id").notNull().references(() => feedback.id, { onDelete: "cascade" }),
+  linkedAt: timestamp("linked_at").notNull().default(sql`now()`), // When it was attached
+  linkedBy: varchar("linked_by").references(() => users.id, { onDelete: "set null" }), // User who attached it
+}, (table) => [
+  uniqueIndex("priority_item_feedback_link_idx").on(table.priorityItemId, table.feedbackId),
+]);
+
+/**
+ * Priority Item Topics Table
+ * Topics a priority item addresses; recent feedback on them counts as demand
+ * for the item without being attached one by one
+ */
+export const priorityItemTopics = pgTable("priority_item_topics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  priorityItemId: varchar("priority_item_id").notNull().references(() => priorityItems.id, { onDelete: "cascade" }),
+  topic: text("topic").notNull(), // Topic id from the taxonomy (e.g., "payments")
+  linkedAt: timestamp("linked_at").notNull().default(sql`now()`), // When it was linked
+  linkedBy: varchar("linked_by").references(() => users.id, { onDelete: "set null" }), // User who linked it
+}, (table) => [
+  uniqueIndex("priority_item_topics_link_idx").on(table.priorityItemId, table.topic),
+]);
+
+/**
+ * Scoring Settings Table
+ * Scoring model and weights of a workspace; the app runs a single workspace
+ * ("default"), whose row is created the first time the settings are saved
+ */
+export const scoringSettings = pgTable("scoring_settings", {
+  id: text("id").primaryKey().default("default"), // Workspace the settings apply to
+  model: text("model").notNull().default("rice"), // See scoringModels
+  autoRank: boolean("auto_rank").notNull().default(true), // Rank items by score instead of the typed rank
+  demandBoost: boolean("demand_boost").notNull().default(false), // Customer demand raises impact (RICE)
+  riceWeights: json("rice_weights").$type<RiceWeights>().notNull().default(DEFAULT_RICE_WEIGHTS),
+  wsjfWeights: json("wsjf_weights").$type<WsjfWeights>().notNull().default(DEFAULT_WSJF_WEIGHTS),
+  updatedAt: timestamp("updated_at"), // When the settings were last saved (null = defaults, never saved)
+});
+
+/**
+ * Insight Kinds
+ * What a generated insight is about (see server/insights)
+ * - emerging_topic: A topic drawing more negative feedback than before
+ * - regional_divergence: A region whose sentiment is far from the overall mean
+ * - channel_degradation: A channel whose sentiment dropped compared with before
+ */
+export const insightKinds = ["emerging_topic", "regional_divergence", "channel_degradation"] as const;
+export type InsightKind = (typeof insightKinds)[number];
+
+export const insightPriorities = ["high", "medium", "low"] as const;
+export type InsightPriority = (typeof insightPriorities)[number];
+
+/**
+ * Insight Statuses
+ * Where an insight is in its review
+ * - new: Not reviewed yet
+ * - accepted: Agreed with, not turned into work yet
+ * - dismissed: Rejected; the generator won't propose it again
+ * - converted: Turned into a priority item (final)
+ */
+export const insightStatuses = ["new", "accepted", "dismissed", "converted"] as const;
+export type InsightStatus = (typeof insightStatuses)[number];
+
 /**
  * AI Insights Table
- * Stores AI-generated recommendations based on feedback analysis
- * TODO: Replace with actual OpenAI API integration
+ * Stores recommendations based on feedback analysis, written by hand or
+ * proposed by the insight generator
+ * A generated insight is identified by its fingerprint: a later run that
+ * finds the same thing refreshes the insight instead of adding another one
  */
 export const aiInsights = pgTable("ai_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
@@ -72,7 +364,53 @@ export const aiInsights = pgTable("ai_insights", {
   priority: text("priority").notNull(), // Priority level: high, medium, low
   impact: text("impact").notNull(), // Expected impact statement
   createdAt: timestamp("created_at").notNull().default(sql`now()`), // When insight was generated
-});
+  kind: text("kind"), // See insightKinds (null = written by hand)
+  fingerprint: text("fingerprint"), // What it is about (e.g., "emerging_topic:payments"; null = written by hand)
+  generatedBy: text("generated_by"), // Provider that proposed it (e.g., "rules"; null = written by hand)
+  status: text("status").notNull().default("new"), // See insightStatuses
+  statusReason: text("status_reason"), // Why it was accepted, dismissed or converted
+  statusChangedAt: timestamp("status_changed_at"), // When the status last changed (null = still as created)
+  statusChangedBy: varchar("status_changed_by").references(() => users.id, { onDelete: "set null" }), // User who changed it
+  priorityItemId: varchar("priority_item_id").references(() => priorityItems.id, { onDelete: "set null" }), // Item it was converted to
+}, (table) => [
+  uniqueIndex("ai_insights_fingerprint_idx").on(table.fingerprint),
+]);
+
+// What a piece of insight evidence is
+export const insightEvidenceKinds = ["feedback", "region", "metric"] as const;
+export type InsightEvidenceKind = (typeof insightEvidenceKinds)[number];
+
+// Numbers an insight can cite, measured over a topic, region or source
+export const insightMetrics = ["volume", "negative", "negative_share", "average_sentiment"] as const;
+export type InsightMetric = (typeof insightMetrics)[number];
+
+export const feedbackDimensions = ["topic", "region", "source"] as const;
+export type FeedbackDimension = (typeof feedbackDimensions)[number];
+
+/**
+ * AI Insight Evidence Table
+ * Links an insight to what justifies it: cited feedback, the regions the
+ * feedback came from and the metrics behind the recommendation
+ * Which columns are set depends on the kind (see insightEvidenceKinds)
+ */
+export const aiInsightEvidence = pgTable("ai_insight_evidence", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  insightId: varchar("insight_id").notNull().references(() => aiInsights.id, { onDelete: "cascade" }), // Insight it supports
+  kind: text("kind").notNull(), // feedback, region or metric
+  position: integer("position").notNull(), // Order within the kind, strongest first
+  feedbackId: varchar("feedback_id").references(() => feedback.id, { onDelete: "cascade" }), // Cited feedback (feedback)
+  region: text("region"), // Region name (region)
+  count: integer("count"), // Entries from the region in the analyzed window (region)
+  negativeCount: integer("negative_count"), // Negative entries among them (region)
+  metric: text("metric"), // See insightMetrics (metric)
+  dimension: text("dimension"), // What the metric is measured over: topic, region or source (metric)
+  dimensionKey: text("dimension_key"), // Topic id, region or source (metric)
+  value: doublePrecision("value"), // Value in the analyzed window (metric)
+  baselineValue: doublePrecision("baseline_value"), // Value it is compared with, null when there is none (metric)
+  baselineLabel: text("baseline_label"), // What it is compared with (e.g., "previous 28 days", "all regions")
+}, (table) => [
+  index("ai_insight_evidence_insight_idx").on(table.insightId, table.kind, table.position),
+]);
 
 /**
  * Impact Metrics Table
@@ -94,30 +432,193 @@ export const impactMetrics = pgTable("impact_metrics", {
 export const usageMetrics = pgTable("usage_metrics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
   week: text("week").notNull(), // Week label (e.g., "Week 1", "Week 2")
+  weekStart: date("week_start", { mode: "string" }).notNull().default(sql`current_date`), // First day of the week (YYYY-MM-DD)
   dailyActiveUsers: integer("daily_active_users").notNull(), // Number of daily active users
   satisfactionScore: decimal("satisfaction_score", { precision: 3, scale: 1 }).notNull(), // Satisfaction score
 });
 
+/**
+ * Channel Types
+ * "manual" channels only receive feedback entered by hand or pushed to
+ * /api/ingest/:channelId; the other types are pulled in by a connector
+ * (see server/connectors.ts)
+ */
+export const channelTypes = ["manual", "file_drop", "mock"] as const;
+export type ChannelType = (typeof channelTypes)[number];
+
 /**
  * Channels Table
  * Stores integrated communication channel information
- * TODO: Add Twitter API integration
- * TODO: Add Instagram API integration
- * TODO: Add Facebook API integration
+ * Channels with a connector type are synced by the connector scheduler while
+ * active; the last_sync_* columns record how the latest run went
+ * Message counts aren't stored: they are counted from feedback whose source
+ * is the channel's name (see ChannelSummary)
  */
 export const channels = pgTable("channels", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
-  name: text("name").notNull(), // Channel name (e.g., "Twitter", "Email")
+  name: text("name").notNull(), // Channel name (e.g., "Twitter", "Email"); unique, feedback source matches it
   status: text("status").notNull(), // Status: active or inactive
-  messageCount: text("message_count").notNull(), // Formatted message count (e.g., "2.5K")
+  ingestSecret: text("ingest_secret"), // HMAC key for POST /api/ingest/:channelId (null = ingestion disabled)
+  type: text("type").notNull().default("manual"), // Connector type, see channelTypes
+  config: json("config").$type<Record<string, unknown>>().notNull().default({}), // Connector settings (checked by the connector)
+  syncCursor: text("sync_cursor"), // Connector's position in its source (null = start from the beginning)
+  lastSyncAt: timestamp("last_sync_at"), // When the connector last ran (null = never)
+  lastSyncError: text("last_sync_error"), // Why the last run failed (null = healthy)
+  lastSyncCount: integer("last_sync_count").notNull().default(0), // Entries stored by the last run
+  syncedCount: integer("synced_count").notNull().default(0), // Entries stored by the connector in total
+}, (table) => [
+  uniqueIndex("channels_name_idx").on(table.name),
+]);
+
+/**
+ * Ingest Receipts Table
+ * Idempotency keys of feedback pushed to /api/ingest/:channelId; a key seen
+ * before for the same channel is rejected as a duplicate delivery
+ */
+export const ingestReceipts = pgTable("ingest_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  channelId: varchar("channel_id").notNull().references(() => channels.id, { onDelete: "cascade" }), // Receiving channel
+  idempotencyKey: text("idempotency_key").notNull(), // Sender's id for the delivery
+  feedbackId: varchar("feedback_id").references(() => feedback.id, { onDelete: "set null" }), // Feedback created from it (null once purged)
+  receivedAt: timestamp("received_at").notNull().default(sql`now()`), // When the delivery was accepted
+}, (table) => [
+  uniqueIndex("ingest_receipts_channel_key_idx").on(table.channelId, table.idempotencyKey),
+]);
+
+/**
+ * Alert Vocabulary
+ * What an alert rule measures over its window and how it compares to the threshold:
+ * - negative_share: Percentage of feedback that is negative (0-100)
+ * - volume_spike: Feedback volume as a multiple of the baseline volume for a
+ *   window of the same length (e.g., 3 = three times the usual volume)
+ * - average_sentiment: Average sentiment score (0-10)
+ */
+export const alertMetrics = ["negative_share", "volume_spike", "average_sentiment"] as const;
+export type AlertMetric = (typeof alertMetrics)[number];
+
+export const alertComparators = ["above", "below"] as const;
+export type AlertComparator = (typeof alertComparators)[number];
+
+export const alertStatuses = ["firing", "resolved"] as const;
+export type AlertStatus = (typeof alertStatuses)[number];
+
+/**
+ * Alert Rules Table
+ * Conditions on recent feedback, evaluated on a schedule (see server/alerts.ts)
+ * e.g., "negative share in Southwest over the last 6h above 40"
+ */
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  name: text("name").notNull(), // Display name (e.g., "Southwest negativity")
+  metric: text("metric").notNull(), // What is measured, see alertMetrics
+  comparator: text("comparator").notNull(), // above or below the threshold
+  threshold: decimal("threshold", { precision: 10, scale: 2 }).notNull(), // In the metric's unit (%, multiple or score)
+  windowHours: integer("window_hours").notNull().default(6), // Measured window: the last N hours
+  baselineDays: integer("baseline_days").notNull().default(7), // volume_spike only: days before the window used as baseline
+  source: text("source"), // Only feedback from this channel (null = all)
+  region: text("region"), // Only feedback from this region (null = all)
+  minVolume: integer("min_volume").notNull().default(10), // Feedback needed in the window before the rule is evaluated
+  enabled: boolean("enabled").notNull().default(true), // Disabled rules are skipped
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // When the rule was created
+  lastEvaluatedAt: timestamp("last_evaluated_at"), // Last scheduled evaluation (null = not yet evaluated)
+  lastValue: decimal("last_value", { precision: 10, scale: 2 }), // Metric value at the last evaluation (null = too little feedback)
+});
+
+/**
+ * Alerts Table
+ * One row per time a rule started firing; resolved when its condition clears
+ * A rule has at most one firing alert at a time
+ */
+export const alerts = pgTable("alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  ruleId: varchar("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }), // Rule that fired
+  status: text("status").notNull().default("firing"), // firing or resolved
+  firedValue: decimal("fired_value", { precision: 10, scale: 2 }).notNull(), // Metric value when the alert fired
+  latestValue: decimal("latest_value", { precision: 10, scale: 2 }).notNull(), // Metric value at the latest evaluation
+  firedAt: timestamp("fired_at").notNull().default(sql`now()`), // When the condition was first met
+  resolvedAt: timestamp("resolved_at"), // When the condition cleared (null while firing)
+  acknowledgedAt: timestamp("acknowledged_at"), // When someone acknowledged it (null = not acknowledged)
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id, { onDelete: "set null" }), // User who acknowledged it
+  snoozedUntil: timestamp("snoozed_until"), // Hidden from the inbox until then (null = not snoozed)
+}, (table) => [
+  index("alerts_fired_at_idx").on(table.firedAt),
+  uniqueIndex("alerts_one_firing_per_rule_idx").on(table.ruleId).where(sql`${table.status} = 'firing'`),
+]);
+
+/**
+ * Webhook Vocabulary
+ * Events an outbound webhook can subscribe to (see server/webhooks.ts):
+ * - alert.fired / alert.resolved: An alert rule started or stopped firing
+ * - feedback.negative: High-severity negative feedback was received
+ * - priority.rank_changed: A priority item moved to a different rank
+ * Test deliveries are sent as "webhook.test" regardless of subscriptions
+ */
+export const webhookEvents = ["alert.fired", "alert.resolved", "feedback.negative", "priority.rank_changed"] as const;
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+/**
+ * Webhooks Table
+ * Outbound HTTP endpoints (chat, incident tools) notified of subscribed events
+ */
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  name: text("name").notNull(), // Display name (e.g., "Ops chat")
+  url: text("url").notNull(), // http(s) URL the payloads are POSTed to
+  secret: text("secret").notNull(), // HMAC signing key, generated by the server
+  events: text("events").array().notNull(), // Subscribed events, see webhookEvents
+  enabled: boolean("enabled").notNull().default(true), // Disabled webhooks receive nothing
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // When the webhook was created
 });
 
+/**
+ * Webhook Deliveries Table
+ * One row per payload sent (or to be sent) to a webhook, kept as the delivery log
+ * Failed attempts are retried with exponential backoff until maxAttempts
+ */
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Auto-generated UUID
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }), // Receiving webhook
+  event: text("event").notNull(), // Event name, see webhookEvents (or "webhook.test")
+  payload: json("payload").notNull(), // JSON body as sent (a replay sends the same body)
+  status: text("status").notNull().default("pending"), // pending, succeeded or failed
+  attempts: integer("attempts").notNull().default(0), // Attempts made so far
+  nextAttemptAt: timestamp("next_attempt_at").notNull().default(sql`now()`), // When the next attempt is due (pending only)
+  lastAttemptAt: timestamp("last_attempt_at"), // When the latest attempt was made (null = not attempted yet)
+  responseStatus: integer("response_status"), // HTTP status of the latest attempt (null = no response)
+  responseBody: text("response_body"), // Start of the latest response body
+  error: text("error"), // Why the latest attempt failed (null after success)
+  replayOf: varchar("replay_of"), // Delivery this one replays (null for originals)
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // When the delivery was queued
+}, (table) => [
+  index("webhook_deliveries_created_at_idx").on(table.createdAt),
+  index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
 // ============================================================================
 // Insert Schemas for Validation
 // These schemas validate data before inserting into the database
 // Auto-generated fields (id, timestamps) are omitted from validation
 // ============================================================================
 
+// Credentials for login and first-account setup
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(3).max(64),
+  password: z.string().min(8).max(200),
+});
+
+// Account created by an admin
+export const createUserSchema = loginSchema.extend({
+  role: z.enum(userRoles).default("viewer"),
+});
+
+// Role change made by an admin
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
 export const insertRegionalSentimentSchema = createInsertSchema(regionalSentiment).omit({
   id: true, // Auto-generated
   updatedAt: true, // Auto-generated
@@ -126,19 +627,131 @@ export const insertRegionalSentimentSchema = createInsertSchema(regionalSentimen
 export const insertFeedbackSchema = createInsertSchema(feedback).omit({
   id: true, // Auto-generated
   timestamp: true, // Auto-generated
+  createdAt: true, // Auto-generated
+  arrivalXid: true, // Set by the database
+  deletedAt: true, // Set when moved to the trash
+  deletedBy: true, // Set when moved to the trash
 });
 
-export const insertSentimentTrendSchema = createInsertSchema(sentimentTrends).omit({
+// Feedback as submitted through the API: sentiment is optional and is
+// detected by the server-side sentiment analyzer when omitted
+export const submitFeedbackSchema = insertFeedbackSchema
+  .omit({
+    sentimentScore: true, // Set by the analyzer
+    sentimentConfidence: true, // Set by the analyzer
+    respondedAt: true, // Set when the team responds
+  })
+  .extend({
+    sentiment: z.enum(sentimentLabels).optional(),
+  });
+
+// Feedback fields that bulk import can map file columns onto
+export const feedbackImportFields = ["text", "sentiment", "source", "region", "timestamp"] as const;
+
+// A single mapped import row; timestamp is optional so historical exports keep their dates
+export const importFeedbackRowSchema = submitFeedbackSchema.extend({
+  timestamp: z.coerce.date().optional(),
+});
+
+// Filters shared by feedback listing and export
+export const feedbackFilterSchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(), // Full-text search over feedback text
+  sentiment: z.enum(sentimentLabels).optional(),
+  source: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+  from: z.coerce.date().optional(), // Inclusive lower bound on timestamp
+  to: z.coerce.date().optional(), // Exclusive upper bound on timestamp
+});
+
+// Columns the feedback explorer can sort by
+export const feedbackSortFields = ["timestamp", "score", "sentiment", "source", "region"] as const;
+
+// Feedback explorer query: filters plus sorting and cursor pagination
+export const feedbackQuerySchema = feedbackFilterSchema.extend({
+  sort: z.enum(feedbackSortFields).default("timestamp"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(), // Opaque cursor returned as nextCursor by the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Live feedback stream query: optional source/region filters
+// lastEventId resumes after an event, for clients that can't send the Last-Event-ID header
+export const feedbackStreamQuerySchema = z.object({
+  source: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+  lastEventId: z.string().min(1).optional(),
+});
+
+// Audit log query: filters plus cursor pagination, newest first
+export const auditQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().min(1).optional(),
+  action: z.enum(auditActions).optional(),
+  actor: z.string().trim().toLowerCase().min(1).optional(), // Username of the acting user
+  requestId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(), // Inclusive lower bound on occurredAt
+  to: z.coerce.date().optional(), // Exclusive upper bound on occurredAt
+  cursor: z.string().optional(), // Opaque cursor returned as nextCursor by the previous page
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Dashboard KPI window, e.g. "30d"; changes are measured against the
+// previous window of the same length
+export const dashboardStatsQuerySchema = z.object({
+  window: z
+    .string()
+    .regex(/^\d{1,3}d$/, "window must look like 30d")
+    .default("30d")
+    .transform((value) => parseInt(value))
+    .refine((days) => days >= 1 && days <= 365, "window must be between 1d and 365d"),
+});
+
+// File formats offered by the export endpoints
+// "excel" is CSV prepared for spreadsheets: UTF-8 BOM, CRLF line endings and
+// formula-like cells escaped
+export const exportFormats = ["csv", "excel", "json"] as const;
+
+// Feedback export query: listing filters and sort order plus the file format
+export const feedbackExportQuerySchema = feedbackFilterSchema.extend({
+  sort: z.enum(feedbackSortFields).default("timestamp"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  format: z.enum(exportFormats).default("csv"),
+});
+
+export const insertFeedbackTopicSchema = createInsertSchema(feedbackTopics).omit({
   id: true, // Auto-generated
 });
 
-export const insertPriorityItemSchema = createInsertSchema(priorityItems).omit({
+export const insertSentimentTrendSchema = createInsertSchema(sentimentTrends).omit({
   id: true, // Auto-generated
 });
 
+export const insertPriorityItemSchema = createInsertSchema(priorityItems)
+  .omit({
+    id: true, // Auto-generated
+    deletedAt: true, // Set when moved to the trash
+    deletedBy: true, // Set when moved to the trash
+    score: true, // Computed by the server
+  })
+  .extend({
+    reach: z.number().int().min(0).optional(),
+    confidence: z.number().int().min(0).max(100).optional(),
+    businessValue: z.number().int().min(1).max(10).optional(),
+    timeCriticality: z.number().int().min(1).max(10).optional(),
+    riskReduction: z.number().int().min(1).max(10).optional(),
+  });
+
 export const insertAIInsightSchema = createInsertSchema(aiInsights).omit({
   id: true, // Auto-generated
   createdAt: true, // Auto-generated
+  kind: true, // Set by the insight generator
+  fingerprint: true, // Set by the insight generator
+  generatedBy: true, // Set by the insight generator
+  status: true, // Changed through the review workflow
+  statusReason: true, // Changed through the review workflow
+  statusChangedAt: true, // Changed through the review workflow
+  statusChangedBy: true, // Changed through the review workflow
+  priorityItemId: true, // Set when converted
 });
 
 export const insertImpactMetricSchema = createInsertSchema(impactMetrics).omit({
@@ -149,15 +762,160 @@ export const insertUsageMetricSchema = createInsertSchema(usageMetrics).omit({
   id: true, // Auto-generated
 });
 
-export const insertChannelSchema = createInsertSchema(channels).omit({
-  id: true, // Auto-generated
+export const insertChannelSchema = createInsertSchema(channels)
+  .omit({
+    id: true, // Auto-generated
+    ingestSecret: true, // Generated by the server
+    syncCursor: true, // Set by the connector scheduler
+    lastSyncAt: true, // Set by the connector scheduler
+    lastSyncError: true, // Set by the connector scheduler
+    lastSyncCount: true, // Set by the connector scheduler
+    syncedCount: true, // Set by the connector scheduler
+  })
+  .extend({
+    type: z.enum(channelTypes).optional(), // Default: manual
+    config: z.record(z.unknown()).optional(), // Validated against the connector's own schema by the API
+  });
+
+// Generic feedback payload accepted by POST /api/ingest/:channelId
+// The source is always the channel's name; sentiment is detected when omitted
+export const ingestFeedbackSchema = z.object({
+  id: z.string().trim().min(1).max(200).optional(), // Idempotency key when no Idempotency-Key header is sent
+  text: z.string().trim().min(1).max(10000),
+  sentiment: z.enum(sentimentLabels).optional(),
+  region: z.string().trim().min(1).max(100),
+  timestamp: z.coerce.date().optional(), // When the customer sent it (default: now)
+});
+
+// Alert rule fields; insertAlertRuleSchema adds the per-metric threshold range
+const alertRuleFieldsSchema = createInsertSchema(alertRules)
+  .omit({
+    id: true, // Auto-generated
+    createdAt: true, // Auto-generated
+    lastEvaluatedAt: true, // Set by the evaluator
+    lastValue: true, // Set by the evaluator
+  })
+  .extend({
+    name: z.string().trim().min(1).max(100),
+    metric: z.enum(alertMetrics),
+    comparator: z.enum(alertComparators),
+    threshold: z.coerce.number().nonnegative().transform((value) => value.toString()), // Accepts "40" or 40
+    windowHours: z.number().int().min(1).max(168),
+    baselineDays: z.number().int().min(1).max(90),
+    minVolume: z.number().int().min(1).max(100000),
+  });
+
+// Upper bound of the threshold per metric (volume_spike multiples are open-ended)
+const alertThresholdLimits: Record<AlertMetric, number> = {
+  negative_share: 100,
+  volume_spike: Number.MAX_SAFE_INTEGER,
+  average_sentiment: 10,
+};
+
+export const insertAlertRuleSchema = alertRuleFieldsSchema.superRefine((rule, ctx) => {
+  if (Number(rule.threshold) > alertThresholdLimits[rule.metric]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["threshold"],
+      message: `Threshold for ${rule.metric} can be at most ${alertThresholdLimits[rule.metric]}`,
+    });
+  }
+});
+
+// Snooze an alert for a number of hours (at most a week)
+export const snoozeAlertSchema = z.object({
+  hours: z.number().int().min(1).max(168),
+});
+
+// Scoring settings changes; only the fields present change
+export const updateScoringSettingsSchema = z.object({
+  model: z.enum(scoringModels).optional(),
+  autoRank: z.boolean().optional(),
+  demandBoost: z.boolean().optional(),
+  riceWeights: riceWeightsSchema.optional(),
+  wsjfWeights: wsjfWeightsSchema.optional(),
+});
+
+// Attach feedback entries to a priority item (e.g., the rows selected in the feedback explorer)
+export const linkPriorityFeedbackSchema = z.object({
+  feedbackIds: z.array(z.string().min(1)).min(1).max(500),
+});
+
+// Link a topic from the taxonomy to a priority item
+export const linkPriorityTopicSchema = z.object({
+  topic: z.string().min(1),
+});
+
+// Review an insight; dismissing needs a reason (converting has its own endpoint)
+export const updateInsightStatusSchema = z.object({
+  status: z.enum(["new", "accepted", "dismissed"]),
+  reason: z.string().trim().max(500).optional(),
+}).refine((change) => change.status !== "dismissed" || !!change.reason, {
+  path: ["reason"],
+  message: "A reason is required to dismiss an insight",
 });
 
+// Convert an insight: the priority item to create (prefilled from the insight) and why
+export const convertInsightSchema = insertPriorityItemSchema.extend({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Webhook definition; the signing secret is generated by the server
+export const insertWebhookSchema = createInsertSchema(webhooks)
+  .omit({
+    id: true, // Auto-generated
+    secret: true, // Generated by the server
+    createdAt: true, // Auto-generated
+  })
+  .extend({
+    name: z.string().trim().min(1).max(100),
+    url: z.string().trim().url().max(2000).refine((url) => /^https?:\/\//i.test(url), {
+      message: "URL must start with http:// or https://",
+    }),
+    events: z.array(z.enum(webhookEvents)).min(1, "Subscribe to at least one event"),
+  });
+
+// Delivery log filters
+export const webhookDeliveryQuerySchema = z.object({
+  webhookId: z.string().optional(),
+  status: z.enum(webhookDeliveryStatuses).optional(),
+});
+
+// ============================================================================
+// Update Schemas for Validation
+// PATCH bodies: any subset of the insert fields, but at least one of them
+// ============================================================================
+
+function updateSchema<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema
+    .partial()
+    .refine((changes) => Object.values(changes).some((value) => value !== undefined), {
+      message: "At least one field must be provided",
+    });
+}
+
+// Sentiment stays optional: a new label overrides it, new text without a label re-runs the analyzer
+export const updateFeedbackSchema = updateSchema(submitFeedbackSchema);
+export const updatePriorityItemSchema = updateSchema(insertPriorityItemSchema);
+export const updateAIInsightSchema = updateSchema(insertAIInsightSchema);
+export const updateImpactMetricSchema = updateSchema(insertImpactMetricSchema);
+export const updateUsageMetricSchema = updateSchema(insertUsageMetricSchema);
+export const updateChannelSchema = updateSchema(insertChannelSchema);
+// The merged rule is re-checked with insertAlertRuleSchema (threshold range depends on the metric)
+export const updateAlertRuleSchema = updateSchema(alertRuleFieldsSchema);
+export const updateWebhookSchema = updateSchema(insertWebhookSchema);
+
 // ============================================================================
 // TypeScript Types
 // These types are inferred from the schemas for type-safe data handling
 // ============================================================================
 
+// User types
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">; // User as returned by the API
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+
 // Regional Sentiment types
 export type RegionalSentiment = typeof regionalSentiment.$inferSelect;
 export type InsertRegionalSentiment = z.infer<typeof insertRegionalSentimentSchema>;
@@ -165,6 +923,20 @@ export type InsertRegionalSentiment = z.infer<typeof insertRegionalSentimentSche
 // Feedback types
 export type Feedback = typeof feedback.$inferSelect;
 export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
+export type SubmitFeedback = z.infer<typeof submitFeedbackSchema>;
+export type UpdateFeedback = z.infer<typeof updateFeedbackSchema>;
+export type FeedbackFilters = z.infer<typeof feedbackFilterSchema>;
+export type FeedbackQuery = z.infer<typeof feedbackQuerySchema>;
+export type FeedbackSortField = (typeof feedbackSortFields)[number];
+export type FeedbackImportField = (typeof feedbackImportFields)[number];
+export type FeedbackExportQuery = z.infer<typeof feedbackExportQuerySchema>;
+export type FeedbackStreamQuery = z.infer<typeof feedbackStreamQuerySchema>;
+export type ExportFormat = (typeof exportFormats)[number];
+export type ImportFeedbackRow = InsertFeedback & { timestamp?: Date };
+
+// Feedback Topic types
+export type FeedbackTopic = typeof feedbackTopics.$inferSelect;
+export type InsertFeedbackTopic = z.infer<typeof insertFeedbackTopicSchema>;
 
 // Sentiment Trend types
 export type SentimentTrend = typeof sentimentTrends.$inferSelect;
@@ -173,19 +945,309 @@ export type InsertSentimentTrend = z.infer<typeof insertSentimentTrendSchema>;
 // Priority Item types
 export type PriorityItem = typeof priorityItems.$inferSelect;
 export type InsertPriorityItem = z.infer<typeof insertPriorityItemSchema>;
+export type UpdatePriorityItem = z.infer<typeof updatePriorityItemSchema>;
+
+// Scoring types
+export type ScoringSettings = typeof scoringSettings.$inferSelect;
+export type UpdateScoringSettings = z.infer<typeof updateScoringSettingsSchema>;
+
+// One input of an item's score
+export interface ScoreFactor {
+  key: string; // Priority item field (e.g., "reach")
+  label: string; // Display name (e.g., "Reach")
+  value: number; // The item's value
+  weight: number; // Weight from the scoring settings
+}
+
+// How an item's score was computed (see server/scoring.ts)
+export interface ScoreBreakdown {
+  model: ScoringModel;
+  formula: string; // Readable formula (e.g., "Reach × Impact × Confidence ÷ Effort")
+  factors: ScoreFactor[];
+  score: number;
+}
+
+// Customer voice behind a priority item: its attached feedback plus recent
+// feedback on its topics, each entry counted once
+export interface CustomerDemand {
+  feedbackCount: number;
+  negativeCount: number;
+  negativeShare: number; // Share of the entries that are negative (0-1)
+  regions: InsightRegionEvidence[]; // Where the entries came from, most negative first
+  topics: string[]; // Linked topic ids
+}
+
+// Item as listed by GET /api/priority-items
+export type ScoredPriorityItem = PriorityItem & { scoreBreakdown: ScoreBreakdown; demand: CustomerDemand };
+
+// Priority item link types
+export type PriorityItemFeedback = typeof priorityItemFeedback.$inferSelect;
+export type PriorityItemTopic = typeof priorityItemTopics.$inferSelect;
+export type LinkPriorityFeedback = z.infer<typeof linkPriorityFeedbackSchema>;
+
+// What a priority item is linked to (see GET /api/priority-items/:id/links)
+export interface PriorityItemLinks {
+  feedback: Feedback[]; // Attached entries, newest first (entries in the trash are left out)
+  topics: { topic: string; label: string }[];
+}
 
 // AI Insight types
 export type AIInsight = typeof aiInsights.$inferSelect;
 export type InsertAIInsight = z.infer<typeof insertAIInsightSchema>;
+export type UpdateAIInsight = z.infer<typeof updateAIInsightSchema>;
+export type AIInsightEvidence = typeof aiInsightEvidence.$inferSelect;
+export type AIInsightSummary = AIInsight & { feedbackCount: number }; // Insight as listed by GET /api/ai-insights
+export type UpdateInsightStatus = z.infer<typeof updateInsightStatusSchema>;
+export type ConvertInsight = z.infer<typeof convertInsightSchema>;
+
+// Recommendation proposed by an insight provider (see server/insights)
+export interface ProposedInsight {
+  kind: InsightKind;
+  fingerprint: string; // Same finding on a later run = same fingerprint
+  title: string;
+  description: string;
+  priority: InsightPriority;
+  impact: string;
+  evidence: InsightEvidenceInput;
+}
+
+// Region an insight's feedback came from
+export interface InsightRegionEvidence {
+  region: string;
+  count: number; // Entries in the analyzed window
+  negativeCount: number;
+}
+
+// Number an insight cites, with what it is compared with
+export interface InsightMetricEvidence {
+  metric: InsightMetric;
+  dimension: FeedbackDimension;
+  dimensionKey: string; // Topic id, region or source
+  value: number;
+  baselineValue: number | null;
+  baselineLabel: string | null;
+}
+
+// Evidence a provider attaches to a proposed insight, each list strongest first
+export interface InsightEvidenceInput {
+  feedbackIds: string[];
+  regions: InsightRegionEvidence[];
+  metrics: InsightMetricEvidence[];
+}
+
+// Evidence behind one insight (GET /api/ai-insights/:id/evidence)
+export interface InsightEvidenceDetail {
+  feedback: Feedback[]; // Cited entries still in the feedback list, strongest first
+  regions: InsightRegionEvidence[];
+  metrics: InsightMetricEvidence[];
+  trend: {
+    dimension: FeedbackDimension; // Topic, region or source of the first metric
+    dimensionKey: string;
+    label: string; // Display name (topic label, region or source)
+    days: number;
+    daily: DailySentimentTrend[]; // Oldest first
+  } | null; // Null when the insight cites no metrics
+}
+
+// Outcome of an insight generator run (POST /api/ai-insights/generate)
+export interface InsightGenerationReport {
+  provider: string;
+  created: number; // New insights
+  refreshed: number; // Existing insights updated with the latest numbers
+  skipped: number; // Proposals matching a dismissed insight
+}
 
 // Impact Metric types
 export type ImpactMetric = typeof impactMetrics.$inferSelect;
 export type InsertImpactMetric = z.infer<typeof insertImpactMetricSchema>;
+export type UpdateImpactMetric = z.infer<typeof updateImpactMetricSchema>;
 
 // Usage Metric types
 export type UsageMetric = typeof usageMetrics.$inferSelect;
 export type InsertUsageMetric = z.infer<typeof insertUsageMetricSchema>;
+export type UpdateUsageMetric = z.infer<typeof updateUsageMetricSchema>;
+
+// Audit types
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
 
 // Channel types
 export type Channel = typeof channels.$inferSelect;
 export type InsertChannel = z.infer<typeof insertChannelSchema>;
+export type UpdateChannel = z.infer<typeof updateChannelSchema>;
+export type PublicChannel = Omit<Channel, "ingestSecret"> & { ingestEnabled: boolean }; // Channel as returned by the API
+export type ChannelSummary = PublicChannel & { messageCount: number }; // Channel as listed by GET /api/channels
+
+// Volume and sentiment of one channel over a time window (GET /api/channels/:id/stats)
+export interface ChannelStats {
+  channel: ChannelSummary; // messageCount covers the same window
+  days: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  averageScore: string | null; // 0.0-10.0, null when the window has no scored feedback
+  daily: DailySentimentTrend[]; // Volume and sentiment per day, oldest first
+}
+
+// Connector as listed by GET /api/connectors
+export interface ConnectorInfo {
+  type: Exclude<ChannelType, "manual">;
+  label: string;
+  description: string;
+  mode: "poll" | "subscribe"; // Pulls on a schedule, or receives entries as they happen
+  exampleConfig: Record<string, unknown>;
+}
+export type IngestFeedback = z.infer<typeof ingestFeedbackSchema>;
+
+// Alert types
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type UpdateAlertRule = z.infer<typeof updateAlertRuleSchema>;
+export type Alert = typeof alerts.$inferSelect;
+
+// Webhook types
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryQuery = z.infer<typeof webhookDeliveryQuerySchema>;
+
+// ============================================================================
+// Aggregate Types
+// Shapes of computed API responses that are not stored in a single table
+// ============================================================================
+
+// Daily sentiment trend data point (one per calendar day in the requested time zone)
+export interface DailySentimentTrend {
+  date: string; // ISO calendar date (e.g., "2024-10-01")
+  score: string | null; // Average sentiment score 0.0-10.0, null when the day has no feedback
+  positive: number; // Number of positive feedback entries
+  neutral: number; // Number of neutral feedback entries
+  negative: number; // Number of negative feedback entries
+  total: number; // Total feedback entries for the day
+  hasData: boolean; // False when no feedback was received that day
+}
+
+// Per-topic volume and sentiment over a time window
+export interface TopicSummary {
+  topic: string; // Topic id from the taxonomy
+  label: string; // Display name (e.g., "Payments")
+  volume: number; // Feedback entries mentioning the topic
+  avgScore: string; // Average aspect-level score 0.0-10.0
+  positive: number; // Mentions with positive aspect sentiment
+  neutral: number; // Mentions with neutral aspect sentiment
+  negative: number; // Mentions with negative aspect sentiment
+  negativeShare: number; // Share of mentions that are negative (0-1)
+}
+
+// One page of feedback explorer results
+export interface FeedbackPage {
+  items: Feedback[]; // Feedback entries on this page
+  nextCursor: string | null; // Cursor for the next page, null on the last page
+  total: number; // Number of entries matching the filters across all pages
+}
+
+// Validation errors for a single row of a bulk import
+export interface FeedbackImportRowError {
+  row: number; // 1-based data row number (header excluded)
+  errors: string[]; // "field: message" for each failed validation
+}
+
+// Result of a bulk feedback import (or a dry run of one)
+export interface FeedbackImportReport {
+  dryRun: boolean; // True when nothing was written
+  columns: string[]; // Column names found in the file
+  mapping: Partial<Record<FeedbackImportField, string>>; // Column used for each feedback field
+  totalRows: number; // Data rows in the file
+  validRows: number; // Rows that passed validation
+  invalidRows: number; // Rows that failed validation
+  imported: number; // Rows written to the database (0 for dry runs)
+  preview: (InsertFeedback & { timestamp: string | null })[]; // First valid rows as they will be stored
+  errors: FeedbackImportRowError[]; // Per-row validation errors
+}
+
+// KPI values for one dashboard window
+export interface DashboardPeriodStats {
+  avgSentiment: number | null; // Average feedback score 0-10 (null without feedback)
+  feedbackCount: number; // Feedback received in the window
+  respondedCount: number; // Feedback received in the window that has been responded to
+  activeUsers: number | null; // Average daily active users of weeks starting in the window
+}
+
+// Dashboard KPI cards for a window, with change against the previous window
+// Values are display strings ("n/a" without data); changes are percentages
+// and null when the previous window has no data to compare against
+export interface DashboardStats {
+  windowDays: number; // Window length in days
+  avgSentiment: string; // e.g. "7.8"
+  totalFeedback: string; // e.g. "1.2K"
+  responseRate: string; // e.g. "94%"
+  activeUsers: string; // e.g. "2.8K"
+  sentimentChange: number | null;
+  feedbackChange: number | null;
+  responseRateChange: number | null;
+  activeUsersChange: number | null;
+}
+
+// Soft-deleted record with the name of the user who deleted it
+export type TrashedRecord<T> = T & {
+  deletedByUsername: string | null; // null when the user no longer exists
+};
+
+// Contents of the trash, most recently deleted first
+export interface TrashContents {
+  retentionDays: number; // Trashed rows are purged after this many days (0 = kept until purged manually)
+  feedback: TrashedRecord<Feedback>[];
+  priorityItems: TrashedRecord<PriorityItem>[];
+}
+
+// One page of the audit log
+export interface AuditPage {
+  items: AuditEvent[]; // Events on this page, newest first
+  nextCursor: string | null; // Cursor for the next page, null on the last page
+}
+
+// Change notification sent over the live updates WebSocket
+// Carries ids only, never record contents: clients refetch what their role can read
+export interface LiveEvent {
+  type: LiveEventType;
+  id: string | null; // Changed record, null when many changed at once (imports, retention purges)
+  occurredAt: string; // ISO timestamp
+}
+
+// Feedback entry on the live feedback stream with its SSE event id
+// (an opaque cursor: sending it back as Last-Event-ID resumes after this entry)
+export interface FeedbackStreamEvent {
+  eventId: string;
+  feedback: Feedback;
+}
+
+// Alert in the inbox with the rule that fired it
+export interface AlertWithRule extends Alert {
+  rule: AlertRule;
+  acknowledgedByUsername: string | null; // null when not acknowledged or the user no longer exists
+}
+
+// Feedback counts behind an alert rule evaluation
+export interface AlertWindowStats {
+  volume: number; // Feedback in the window
+  negative: number; // Negative feedback in the window
+  averageScore: number | null; // Average score 0-10 in the window (null without feedback)
+  baselineVolume: number; // Feedback in the baseline period before the window
+}
+
+// Delivery log entry with the name of the webhook it was sent to
+export interface WebhookDeliveryWithWebhook extends WebhookDelivery {
+  webhookName: string;
+}
+
+// JSON body POSTed to webhooks
+// Receivers verify X-Sentiment360-Signature (see server/webhooks.ts) and can
+// use id to ignore repeats, since retries and replays resend the same body
+export interface WebhookPayload {
+  id: string; // Event id (the same for every webhook and every replay)
+  event: WebhookEvent | "webhook.test";
+  occurredAt: string; // ISO timestamp
+  summary: string; // One-line human-readable description for chat tools
+  data: Record<string, unknown>; // Event details (e.g., the alert and its rule)
+}